@@ -1,10 +1,10 @@
 import { subMonths, parseISO } from 'date-fns';
 import { nansenService } from '../services/nansen.service';
 import { EthBenchmarkFunFact, Transaction } from '../types';
+import { isNativeToken, nativeAssetOf } from '../utils/tokenId';
 
 const MIN_VOLUME_USD = 10; // Minimum $10 USD transaction volume
 const MONTHS_LOOKBACK = 6; // Look back 6 months
-const ETH_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'; // Native ETH address
 
 /**
  * Compares wallet's token purchase performance vs. holding equivalent ETH instead
@@ -194,8 +194,7 @@ function getEthPriceFromTransaction(tx: Transaction): number {
   if (tx.tokens_sent && tx.tokens_sent.length > 0) {
     for (const token of tx.tokens_sent) {
       if (
-        token.token_address &&
-        token.token_address.toLowerCase() === ETH_ADDRESS.toLowerCase() &&
+        isNativeEth(tx.chain, token.token_address) &&
         token.price_usd !== null &&
         token.price_usd > 0
       ) {
@@ -208,8 +207,7 @@ function getEthPriceFromTransaction(tx: Transaction): number {
   if (tx.tokens_received && tx.tokens_received.length > 0) {
     for (const token of tx.tokens_received) {
       if (
-        token.token_address &&
-        token.token_address.toLowerCase() === ETH_ADDRESS.toLowerCase() &&
+        isNativeEth(tx.chain, token.token_address) &&
         token.price_usd !== null &&
         token.price_usd > 0
       ) {
@@ -263,8 +261,7 @@ async function getCurrentEthPriceFromNansen(address: string): Promise<number> {
       // Look for ETH in the balances
       for (const balance of balanceResponse.data) {
         if (
-          balance.token_address &&
-          balance.token_address.toLowerCase() === ETH_ADDRESS.toLowerCase() &&
+          isNativeEth(balance.chain, balance.token_address) &&
           balance.price_usd > 0
         ) {
           return balance.price_usd;
@@ -294,8 +291,7 @@ function extractUniqueTokens(transactions: Transaction[]): string[] {
   for (const tx of transactions) {
     for (const token of tx.tokens_received) {
       if (
-        token.token_address &&
-        token.token_address !== ETH_ADDRESS &&
+        !isNativeToken(tx.chain, token.token_address) &&
         token.token_address.toLowerCase() !== '0x0000000000000000000000000000000000000000'
       ) {
         tokenSet.add(token.token_address.toLowerCase());
@@ -354,3 +350,9 @@ async function calculateCurrentPortfolioValue(
   }
 }
 
+/**
+ * Helper: Whether an address is native ETH (on Ethereum or an L2 whose native asset is ETH)
+ */
+function isNativeEth(chain: string, tokenAddress: string): boolean {
+  return Boolean(tokenAddress) && isNativeToken(chain, tokenAddress) && nativeAssetOf(chain)?.symbol === 'ETH';
+}
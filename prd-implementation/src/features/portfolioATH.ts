@@ -2,12 +2,16 @@ import { nansenService } from '../services/nansen.service';
 import { coinGeckoService } from '../services/coingecko.service';
 import { PortfolioAthFunFact } from '../types';
 import { athCache } from '../utils/athCache';
+import { isNativeToken, tokenKey } from '../utils/tokenId';
 
 const ATH_LOOKBACK_DAYS = 365; // Look back 1 year for ATH
 const TOP_HOLDINGS_COUNT = 30; // Top 30 holdings
 
 /**
  * Calculates wallet's potential value if all current holdings were at their all-time highs
+ *
+ * Archived: the service singletons imported above no longer exist; the
+ * maintained analyzer is src/features/portfolioATH.ts (see ../../README.md).
  * 
  * PRD Compliance:
  * - Uses `/api/v1/profiler/address/current-balance` for top 30 holdings
@@ -17,7 +21,7 @@ const TOP_HOLDINGS_COUNT = 30; // Top 30 holdings
  * - Fallback: "No meaningful history yet for young/empty wallets"
  * 
  * Performance Optimization:
- * - Caches ATH prices for 24 hours
+ * - Caches ATH prices for 24 hours, per chain and token (see utils/athCache)
  * - Reduces redundant API calls for repeated analyses
  * - Significantly reduces rate limit issues
  * 
@@ -54,13 +58,11 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
 
     const holdings = balanceResponse.data;
 
-    // Filter out ETH/native tokens (0xeeee... addresses are native tokens)
+    // Filter out ETH/native tokens (reported under sentinel addresses, see utils/tokenId)
     const tokenHoldings = holdings.filter(
       (holding) =>
-        holding.token_address &&
-        holding.token_address.toLowerCase() !== '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' &&
-        holding.token_address.toLowerCase() !== '0x000000000000000000000000000000000000800a' && // ZkSync ETH
         holding.chain &&
+        !isNativeToken(holding.chain, holding.token_address) &&
         holding.value_usd > 0
     );
 
@@ -78,47 +80,14 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
       currentValue += holding.value_usd;
     }
 
-    // Step 3: Check cache and prepare tokens to fetch
+    // Step 3: Get ATH prices, fetching only the tokens the cache lacks
     console.log(`[Portfolio ATH] Checking cache for ${tokenHoldings.length} tokens...`);
-    
-    const athPrices = new Map<string, { athPrice: number; athDate: Date | null }>();
-    const tokensToFetch: Array<{ chain: string; address: string }> = [];
-    let cacheHits = 0;
 
-    // Check cache first
-    for (const holding of tokenHoldings) {
-      const cached = athCache.get(holding.token_address);
-      if (cached) {
-        athPrices.set(holding.token_address.toLowerCase(), cached);
-        cacheHits++;
-      } else {
-        tokensToFetch.push({
-          chain: holding.chain,
-          address: holding.token_address,
-        });
-      }
-    }
-
-    console.log(`[Portfolio ATH] Cache hits: ${cacheHits}/${tokenHoldings.length}`);
-    console.log(`[Portfolio ATH] Need to fetch: ${tokensToFetch.length} tokens`);
-
-    // Fetch uncached ATH prices from CoinGecko
-    if (tokensToFetch.length > 0) {
-      const fetchedPrices = await coinGeckoService.batchGetATHPrices(
-        tokensToFetch,
-        ATH_LOOKBACK_DAYS
-      );
-
-      // Store fetched prices in cache
-      for (const [address, athData] of fetchedPrices.entries()) {
-        athPrices.set(address, athData);
-        
-        // Cache the result if valid
-        if (athData.athPrice > 0 && athData.athDate) {
-          athCache.set(address, athData.athPrice, athData.athDate);
-        }
-      }
-    }
+    const athPrices = await athCache.getMany(
+      tokenHoldings.map((holding) => ({ chain: holding.chain, address: holding.token_address })),
+      ATH_LOOKBACK_DAYS,
+      (tokensToFetch, days) => coinGeckoService.batchGetATHPrices(tokensToFetch, days as number)
+    );
 
     // Log cache statistics
     const cacheStats = athCache.getStats();
@@ -129,7 +98,7 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
     let successfulTokens = 0;
 
     for (const holding of tokenHoldings) {
-      const athData = athPrices.get(holding.token_address.toLowerCase());
+      const athData = athPrices.get(tokenKey(holding.chain, holding.token_address));
 
       if (athData && athData.athPrice > 0) {
         // Calculate token amount
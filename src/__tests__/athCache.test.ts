@@ -0,0 +1,205 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AthCache,
+  athCacheKey,
+  ATH_CACHE_SOURCE,
+  AthFetcher,
+  createAthCache,
+  FileAthCacheBackend,
+  getAthCacheOptionsFromEnv,
+  MemoryAthCacheBackend,
+  SqliteAthCacheBackend,
+  SqliteDatabase,
+} from '../services/athCache.service';
+import { tokenKey } from '../utils/tokenId';
+
+const TOKEN = '0xA0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const OTHER = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const ATH = { athPrice: 2, athDate: new Date('2025-03-01T00:00:00Z') };
+
+let dir: string;
+let now: Date;
+
+/**
+ * A fetcher that prices every token at `price` and records what it was asked for
+ */
+function fetcher(price: number): AthFetcher & { requested: string[][] } {
+  const requested: string[][] = [];
+  const fetch = async (tokens: Array<{ chain: string; address: string }>) => {
+    requested.push(tokens.map((token) => `${token.chain}:${token.address}`));
+    return new Map(tokens.map((token) => [tokenKey(token.chain, token.address), { athPrice: price, athDate: ATH.athDate }]));
+  };
+  return Object.assign(fetch, { requested });
+}
+
+interface SqliteRow {
+  ath_price: number;
+  ath_date: number | null;
+  cached_at: number;
+}
+
+/**
+ * Stands in for better-sqlite3, answering the statements the SQLite backend prepares from a Map
+ */
+function fakeSqlite(): SqliteDatabase & { rows: Map<string, SqliteRow> } {
+  const rows = new Map<string, SqliteRow>();
+  return {
+    rows,
+    exec: (sql) => {
+      if (sql.startsWith('DELETE FROM ath_cache')) {
+        rows.clear();
+      }
+    },
+    prepare: (sql) => ({
+      get: (key) => rows.get(key as string),
+      all: () => [...rows.keys()].map((key) => ({ key })),
+      run: (...params) => {
+        if (sql.startsWith('INSERT OR REPLACE')) {
+          const [key, athPrice, athDate, cachedAt] = params as [string, number, number | null, number];
+          rows.set(key, { ath_price: athPrice, ath_date: athDate, cached_at: cachedAt });
+        } else if (sql.startsWith('DELETE')) {
+          rows.delete(params[0] as string);
+        }
+      },
+    }),
+  };
+}
+
+describe('AthCache', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-ath-'));
+    now = new Date('2025-06-01T00:00:00Z');
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('keys entries by chain, address and window', () => {
+    const cache = new AthCache(new MemoryAthCacheBackend(), { now: () => now });
+    cache.set('ethereum', TOKEN, 365, ATH);
+
+    assert.deepEqual(cache.get('Ethereum', TOKEN.toLowerCase(), 365), ATH);
+    assert.equal(cache.get('base', TOKEN, 365), null);
+    assert.equal(cache.get('ethereum', TOKEN, 30), null);
+    assert.equal(
+      athCacheKey('solana', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', { from: '2024-01-01T00:00:00Z', to: '2024-12-31T00:00:00Z' }),
+      'solana:EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v:2024-01-01..2024-12-31'
+    );
+  });
+
+  it('expires entries after the TTL and reports hits and misses', () => {
+    const cache = new AthCache(new MemoryAthCacheBackend(), { ttlHours: 24, now: () => now });
+    cache.set('ethereum', TOKEN, 365, ATH);
+    cache.get('ethereum', TOKEN, 365);
+
+    now = new Date(now.getTime() + 25 * 60 * 60 * 1000);
+
+    assert.equal(cache.get('ethereum', TOKEN, 365), null);
+    assert.deepEqual(cache.getStats(), { backend: 'memory', size: 0, hits: 1, misses: 1, hitRate: 50 });
+  });
+
+  it('fetches only missing tokens and does not cache unlisted ones', async () => {
+    const cache = new AthCache(new MemoryAthCacheBackend(), { now: () => now });
+    cache.set('ethereum', TOKEN, 365, ATH);
+    const fetch = fetcher(0);
+
+    const prices = await cache.getMany(
+      [{ chain: 'ethereum', address: TOKEN }, { chain: 'base', address: OTHER }],
+      365,
+      fetch
+    );
+
+    assert.deepEqual(fetch.requested, [[`base:${OTHER}`]]);
+    assert.equal(prices.get(`base:${OTHER}`)?.athPrice, 0);
+    assert.deepEqual(prices.get(`ethereum:${TOKEN.toLowerCase()}`), { ...ATH, provider: ATH_CACHE_SOURCE });
+    assert.equal(cache.getStats().size, 1);
+  });
+
+  it('keeps the same address on two chains apart', async () => {
+    const cache = new AthCache(new MemoryAthCacheBackend(), { now: () => now });
+    cache.set('ethereum', TOKEN, 365, ATH);
+
+    const prices = await cache.getMany(
+      [{ chain: 'ethereum', address: TOKEN }, { chain: 'base', address: TOKEN }],
+      365,
+      fetcher(9)
+    );
+
+    assert.deepEqual(prices.get(tokenKey('ethereum', TOKEN)), { ...ATH, provider: ATH_CACHE_SOURCE });
+    assert.equal(prices.get(tokenKey('base', TOKEN))?.athPrice, 9);
+  });
+
+  it('warms up without touching the statistics', async () => {
+    const cache = new AthCache(new MemoryAthCacheBackend(), { now: () => now });
+    const fetch = fetcher(5);
+
+    assert.equal(await cache.warmUp([{ chain: 'ethereum', address: TOKEN }], 365, fetch), 1);
+    assert.equal(await cache.warmUp([{ chain: 'ethereum', address: TOKEN }], 365, fetch), 0);
+    assert.deepEqual(cache.getStats(), { backend: 'memory', size: 1, hits: 0, misses: 0, hitRate: 0 });
+  });
+
+  it('keeps entries across restarts with the file backend', async () => {
+    const filePath = path.join(dir, 'ath.json');
+    await new AthCache(new FileAthCacheBackend(filePath), { now: () => now }).getMany(
+      [{ chain: 'ethereum', address: TOKEN }],
+      365,
+      fetcher(7)
+    );
+
+    const reopened = createAthCache({ backend: 'file', path: filePath, now: () => now });
+
+    assert.deepEqual(reopened.get('ethereum', TOKEN, 365), { athPrice: 7, athDate: ATH.athDate });
+    assert.equal(reopened.getStats().backend, 'file');
+  });
+
+  it('writes entries through to SQLite and reads them back', () => {
+    const db = fakeSqlite();
+    const cache = new AthCache(new SqliteAthCacheBackend(path.join(dir, 'ath.db'), () => db), { now: () => now });
+    cache.set('ethereum', TOKEN, 365, ATH);
+    cache.set('ethereum', OTHER, 365, { athPrice: 3, athDate: null });
+
+    assert.deepEqual(db.rows.get(athCacheKey('ethereum', TOKEN, 365)), {
+      ath_price: 2,
+      ath_date: ATH.athDate.getTime(),
+      cached_at: now.getTime(),
+    });
+
+    const reopened = new AthCache(new SqliteAthCacheBackend(path.join(dir, 'ath.db'), () => db), { now: () => now });
+    assert.deepEqual(reopened.get('ethereum', TOKEN, 365), ATH);
+    assert.deepEqual(reopened.get('ethereum', OTHER, 365), { athPrice: 3, athDate: null });
+    assert.equal(reopened.getStats().backend, 'sqlite');
+    assert.equal(reopened.getStats().size, 2);
+  });
+
+  it('expires SQLite entries after the TTL', () => {
+    const db = fakeSqlite();
+    const cache = new AthCache(new SqliteAthCacheBackend(path.join(dir, 'ath.db'), () => db), { ttlHours: 24, now: () => now });
+    cache.set('ethereum', TOKEN, 365, ATH);
+
+    now = new Date(now.getTime() + 25 * 3600 * 1000);
+
+    assert.equal(cache.get('ethereum', TOKEN, 365), null);
+    assert.equal(db.rows.size, 0);
+  });
+
+  it('stores nothing when turned off', () => {
+    const cache = createAthCache({ backend: 'off' });
+    cache.set('ethereum', TOKEN, 365, ATH);
+
+    assert.equal(cache.get('ethereum', TOKEN, 365), null);
+  });
+});
+
+describe('getAthCacheOptionsFromEnv', () => {
+  it('reads the backend, path and TTL', () => {
+    assert.deepEqual(getAthCacheOptionsFromEnv({}), { backend: 'memory', path: undefined, ttlHours: undefined });
+    assert.deepEqual(
+      getAthCacheOptionsFromEnv({ ATH_CACHE: 'sqlite', ATH_CACHE_PATH: 'ath.db', ATH_CACHE_TTL_HOURS: '48' }),
+      { backend: 'sqlite', path: 'ath.db', ttlHours: 48 }
+    );
+    assert.throws(() => getAthCacheOptionsFromEnv({ ATH_CACHE: 'redis' }), /Invalid ATH_CACHE: redis/);
+    assert.throws(() => getAthCacheOptionsFromEnv({ ATH_CACHE_TTL_HOURS: '-1' }), /Invalid ATH_CACHE_TTL_HOURS/);
+  });
+});
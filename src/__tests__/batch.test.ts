@@ -0,0 +1,179 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTestContext, pnlSummary } from './helpers';
+import { AnalysisContext } from '../context';
+import { getFunFactModules } from '../features/registry';
+import { loadCheckpoint, runBatch, summarizeBatch } from '../report/batch';
+import { loadConfig } from '../config';
+import { UpstreamUnavailableError } from '../utils/errors';
+
+const WALLETS = [1, 2, 3, 4, 5].map((n) => `0x${String(n).repeat(40)}`);
+const PNL = getFunFactModules(['pnl']);
+
+let ctx: AnalysisContext;
+let dir: string;
+let checkpointPath: string;
+
+/**
+ * Stub P&L that yields before answering and tracks how many requests overlap
+ */
+function stubPnl(answer: (address: string) => void = () => undefined): { maxInFlight: number; addresses: string[] } {
+  const stats = { maxInFlight: 0, addresses: [] as string[] };
+  let inFlight = 0;
+  mock.method(ctx.nansen, 'getPnlSummary', async (request: { address: string }) => {
+    inFlight++;
+    stats.maxInFlight = Math.max(stats.maxInFlight, inFlight);
+    stats.addresses.push(request.address);
+    await new Promise((resolve) => setImmediate(resolve));
+    inFlight--;
+    answer(request.address);
+    return pnlSummary({ realized_pnl_percent: 0.1, realized_pnl_usd: 100 });
+  });
+  return stats;
+}
+
+describe('runBatch', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-batch-'));
+    checkpointPath = path.join(dir, 'results.jsonl');
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('runs at most `concurrency` wallets at once and checkpoints every report', async () => {
+    const stats = stubPnl();
+    const progress: number[] = [];
+
+    const reports = await runBatch(ctx, WALLETS, PNL, {
+      concurrency: 2,
+      checkpointPath,
+      onReport: (_report, completed) => progress.push(completed),
+    });
+
+    assert.equal(reports.length, 5);
+    assert.equal(stats.maxInFlight, 2);
+    assert.deepEqual(progress, [1, 2, 3, 4, 5]);
+    assert.deepEqual(loadCheckpoint(checkpointPath).map((report) => report.address).sort(), WALLETS);
+  });
+
+  it('resumes with only the wallets missing from the checkpoint', async () => {
+    stubPnl();
+    await runBatch(ctx, WALLETS.slice(0, 3), PNL, { concurrency: 2, checkpointPath });
+    mock.restoreAll();
+    const stats = stubPnl();
+
+    const reports = await runBatch(ctx, WALLETS, PNL, { concurrency: 2, checkpointPath });
+
+    assert.deepEqual(stats.addresses.sort(), WALLETS.slice(3));
+    assert.equal(reports.length, 2);
+    assert.equal(loadCheckpoint(checkpointPath).length, 5);
+  });
+
+  it('refuses to resume a checkpoint started with other facts or dates', async () => {
+    stubPnl();
+    await runBatch(ctx, WALLETS.slice(0, 1), PNL, { concurrency: 1, checkpointPath });
+
+    await assert.rejects(
+      runBatch(ctx, WALLETS, getFunFactModules(['pnl', 'win_rate']), { concurrency: 1, checkpointPath }),
+      /was started with --facts pnl --profile default .*, not --facts pnl,win_rate --profile default/
+    );
+    await assert.rejects(
+      runBatch(ctx, WALLETS, PNL, { concurrency: 1, checkpointPath, analyzeOptions: { asOf: new Date('2025-06-01') } }),
+      /--as-of 2025-06-01/
+    );
+    fs.writeFileSync(checkpointPath, JSON.stringify({ address: WALLETS[0], facts: [] }) + '\n');
+    await assert.rejects(runBatch(ctx, WALLETS, PNL, { concurrency: 1, checkpointPath }), /use --restart/);
+  });
+
+  it('refuses to resume a checkpoint started with other settings', async () => {
+    stubPnl();
+    const configPath = path.join(dir, 'funfacts.config.json');
+    fs.writeFileSync(configPath, '{}');
+    ctx.config = loadConfig({ configPath, env: {} });
+    await runBatch(ctx, WALLETS.slice(0, 1), PNL, { concurrency: 1, checkpointPath });
+
+    // Only --set differs
+    ctx.config = loadConfig({ configPath, env: {}, overrides: ['ruggedProjects.minAgeDays=60'] });
+    await assert.rejects(
+      runBatch(ctx, WALLETS, PNL, { concurrency: 1, checkpointPath }),
+      /started with --facts pnl --profile default cost basis fifo .*, not --facts pnl --profile default thresholds ruggedProjects\.minAgeDays=60 cost basis fifo/
+    );
+
+    ctx.config = loadConfig({ configPath, env: {}, profile: 'strict' });
+    await assert.rejects(runBatch(ctx, WALLETS, PNL, { concurrency: 1, checkpointPath }), /not --facts pnl --profile strict/);
+    ctx.config = { ...loadConfig({ configPath, env: {} }), costBasisMethod: 'lifo' };
+    await assert.rejects(runBatch(ctx, WALLETS, PNL, { concurrency: 1, checkpointPath }), /cost basis lifo/);
+    ctx.config = loadConfig({ configPath, env: {} });
+    assert.equal((await runBatch(ctx, WALLETS.slice(0, 2), PNL, { concurrency: 1, checkpointPath })).length, 1);
+  });
+
+  it('stops when asked and when a provider fails, keeping finished wallets', async () => {
+    stubPnl();
+    let stop = false;
+    const stopped = await runBatch(ctx, WALLETS, PNL, {
+      concurrency: 1,
+      checkpointPath,
+      shouldStop: () => stop,
+      onReport: () => (stop = true),
+    });
+    assert.equal(stopped.length, 1);
+
+    mock.restoreAll();
+    stubPnl((address) => {
+      if (address === WALLETS[3]) {
+        throw new UpstreamUnavailableError('Nansen', 'Nansen unavailable after 4 attempts', 503);
+      }
+    });
+    await assert.rejects(runBatch(ctx, WALLETS, PNL, { concurrency: 1, checkpointPath }), UpstreamUnavailableError);
+
+    assert.deepEqual(loadCheckpoint(checkpointPath).map((report) => report.address), WALLETS.slice(0, 3));
+  });
+});
+
+describe('loadCheckpoint', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-batch-'));
+    checkpointPath = path.join(dir, 'results.jsonl');
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('skips the run parameters and a partially written last line', () => {
+    mock.method(console, 'warn', () => undefined);
+    fs.writeFileSync(
+      checkpointPath,
+      [JSON.stringify({ batch: { facts: ['pnl'] } }), JSON.stringify({ address: WALLETS[0], facts: [] }), '{"address":"0x2'].join('\n')
+    );
+
+    assert.deepEqual(loadCheckpoint(checkpointPath), [{ address: WALLETS[0], facts: [] }]);
+    assert.deepEqual(loadCheckpoint(path.join(dir, 'missing.jsonl')), []);
+  });
+});
+
+describe('summarizeBatch', () => {
+  it('counts successes, fallbacks and errors per fact', async () => {
+    const report = (facts: Array<{ success: boolean; error?: string }>) => ({
+      address: WALLETS[0],
+      analyzedAt: '2026-01-01T00:00:00.000Z',
+      facts: facts.map((fact) => ({ id: 'pnl' as const, title: 'P&L', summary: '', result: PNL[0].fallback(), ...fact })),
+    });
+
+    const summary = summarizeBatch([
+      report([{ success: true }]),
+      report([{ success: false }]),
+      report([{ success: false, error: 'bad data' }]),
+    ]);
+
+    assert.equal(summary.wallets, 3);
+    assert.equal(summary.walletsWithErrors, 1);
+    assert.deepEqual(summary.facts, [{ id: 'pnl', title: 'P&L', total: 3, succeeded: 1, fallbacks: 1, errors: 1 }]);
+  });
+});
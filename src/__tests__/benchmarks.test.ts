@@ -0,0 +1,133 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  TEST_NOW,
+  WALLET,
+  balanceResponse,
+  createTestContext,
+  tokenBalance,
+  tokenTransfer,
+  transaction,
+  transactionsByChain,
+} from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeBenchmarks, getBenchmarks, yieldBenchmark } from '../features/benchmarks';
+import { BenchmarkId } from '../config';
+
+let ctx: AnalysisContext;
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+// $1000 of USDC for 100 TEST, now worth $1500
+const BUY = transaction({
+  volume_usd: 1000,
+  tokens_sent: [tokenTransfer({ token_address: USDC, token_symbol: 'USDC', token_amount: 1000, value_usd: 1000 })],
+  tokens_received: [tokenTransfer({ token_amount: 100, value_usd: 1000 })],
+});
+const HOLDING = tokenBalance({ token_address: TOKEN, token_amount: 100, value_usd: 1500 });
+
+function setup(benchmarks: BenchmarkId[], daily: Record<string, number | null>, current: Record<string, number>) {
+  ctx.config = { ...ctx.config, benchmarks };
+  mock.method(ctx.nansen, 'getAllTransactions', transactionsByChain({ ethereum: [BUY] }));
+  mock.method(ctx.nansen, 'getAllCurrentBalances', async () => balanceResponse([HOLDING]));
+  mock.method(ctx.prices, 'getDailyPrice', (asset: string) => daily[asset] ?? null);
+  return mock.method(ctx.prices, 'getCurrentPrice', async (coinId: string) => ({
+    price: current[coinId] ?? 0,
+    provider: coinId in current ? 'CoinGecko' : null,
+  }));
+}
+
+describe('analyzeBenchmarks', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('compares the same purchases with each configured benchmark', async () => {
+    // BTC doubled, SOL halved since the purchase
+    setup(['btc', 'sol'], { btc: 50000, sol: 200 }, { bitcoin: 100000, solana: 100 });
+
+    const result = await analyzeBenchmarks(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(
+      result.data?.comparisons.map((comparison) => [comparison.name, comparison.benchmarkValue, comparison.status]),
+      [
+        ['BTC', 2000, 'UNDERPERFORMED'],
+        ['SOL', 500, 'OUTPERFORMED'],
+      ]
+    );
+    assert.equal(result.data?.comparisons[0].performancePercent, -25);
+    assert.equal(result.data?.comparisons[1].portfolioValue, 1500);
+    assert.equal(result.data?.comparisons[0].currentPriceSource, 'CoinGecko');
+    assert.deepEqual(result.data?.unavailable, []);
+  });
+
+  it('reports benchmarks without prices as unavailable', async () => {
+    const currentPrice = setup(['eth', 'sp500'], { eth: 2000, spy: null }, { ethereum: 2000 });
+
+    const result = await analyzeBenchmarks(ctx, WALLET);
+
+    assert.deepEqual(result.data?.comparisons.map((comparison) => comparison.benchmark), ['eth']);
+    assert.deepEqual(result.data?.unavailable, ['S&P 500 (SPY)']);
+    assert.equal(currentPrice.mock.callCount(), 1);
+  });
+
+  it('values the S&P proxy at its latest cached close', async () => {
+    // The series has no close for today yet
+    setup(['sp500'], {}, {});
+    mock.method(ctx.prices, 'getDailyPrice', (_asset: string, date: Date) =>
+      date.getTime() >= TEST_NOW.getTime() - 24 * 60 * 60 * 1000 ? null : 500
+    );
+
+    const result = await analyzeBenchmarks(ctx, WALLET);
+
+    assert.equal(result.data?.comparisons[0].benchmarkValue, 1000);
+  });
+
+  it('samples purchases by the benchmarks thresholds, not the ETH benchmark ones', async () => {
+    setup(['eth'], { eth: 2000 }, { ethereum: 2000 });
+    const getAllTransactions = mock.method(ctx.nansen, 'getAllTransactions', transactionsByChain({ ethereum: [BUY, BUY] }));
+    const benchmarks = { ...ctx.config.thresholds.benchmarks, topTransactions: 1, minVolumeUsd: 250 };
+    ctx.config = { ...ctx.config, thresholds: { ...ctx.config.thresholds, benchmarks } };
+
+    const result = await analyzeBenchmarks(ctx, WALLET);
+
+    assert.equal(result.data?.sampleSize, 1);
+    assert.equal(result.data?.totalTransactions, 2);
+    assert.equal(getAllTransactions.mock.calls[0].arguments[0].filters?.volume_usd?.min, 250);
+  });
+
+  it('returns the fallback when nothing could be priced', async () => {
+    setup(['btc'], {}, {});
+
+    const result = await analyzeBenchmarks(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+});
+
+describe('yieldBenchmark', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  it('grows by the APY each year', async () => {
+    const stablecoin = yieldBenchmark('stablecoin', 'Stablecoin', 5);
+    const clock = { now: () => new Date(TEST_NOW.getTime() + 365.25 * 24 * 60 * 60 * 1000) };
+    const growth = (await stablecoin.currentPrice({ ...ctx, clock })).price / stablecoin.priceOn(ctx, TEST_NOW)!;
+
+    assert.ok(Math.abs(growth - 1.05) < 1e-9);
+  });
+
+  it('takes its APY from the benchmarks thresholds', () => {
+    const benchmarks = { ...ctx.config.thresholds.benchmarks, stablecoinApyPercent: 4 };
+    const config = { ...ctx.config, thresholds: { ...ctx.config.thresholds, benchmarks } };
+
+    assert.deepEqual(
+      getBenchmarks(['stablecoin', 'eth'], config).map((benchmark) => benchmark.name),
+      ['Stablecoin at 4% APY', 'ETH']
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, balanceResponse, createTestContext, tokenBalance } from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeBiggestBag } from '../features/biggestBag';
+import { TokenBalance } from '../types';
+
+let ctx: AnalysisContext;
+
+function withHoldings(holdings: TokenBalance[]): void {
+  mock.method(ctx.nansen, 'getCurrentBalance', async () => balanceResponse(holdings));
+}
+
+describe('analyzeBiggestBag', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('reports the first (largest) holding and its share of the portfolio', async () => {
+    withHoldings([
+      tokenBalance({ token_symbol: 'ETH', token_name: 'Ether', value_usd: 750 }),
+      tokenBalance({ token_symbol: 'USDC', value_usd: 200 }),
+      tokenBalance({ token_symbol: 'PEPE', value_usd: 50 }),
+    ]);
+
+    const result = await analyzeBiggestBag(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.data, {
+      tokenSymbol: 'ETH',
+      tokenName: 'Ether',
+      valueUsd: 750,
+      chain: 'ethereum',
+      percentOfPortfolio: 75,
+    });
+  });
+
+  it('reports 100% for a single holding', async () => {
+    withHoldings([tokenBalance({ value_usd: 42 })]);
+
+    const result = await analyzeBiggestBag(ctx, WALLET);
+
+    assert.equal(result.data?.percentOfPortfolio, 100);
+  });
+
+  it('falls back when the portfolio is under $10', async () => {
+    withHoldings([tokenBalance({ value_usd: 9.99 })]);
+
+    const result = await analyzeBiggestBag(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, 'No significant holdings found');
+  });
+
+  it('falls back for an empty wallet', async () => {
+    withHoldings([]);
+
+    const result = await analyzeBiggestBag(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_THRESHOLDS, loadConfig, thresholdEnvVar } from '../config';
+
+let dir: string;
+
+/**
+ * Write a config file and return its path
+ */
+function writeConfig(contents: unknown): string {
+  const configPath = path.join(dir, 'funfacts.config.json');
+  fs.writeFileSync(configPath, JSON.stringify(contents));
+  return configPath;
+}
+
+describe('loadConfig', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-config-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('fills in defaults for settings the file leaves out', () => {
+    const config = loadConfig({ configPath: writeConfig({ enabledFacts: ['pnl'] }), env: {} });
+
+    assert.deepEqual(config.enabledFacts, ['pnl']);
+    assert.equal(config.profile, 'default');
+    assert.deepEqual(config.thresholds, DEFAULT_THRESHOLDS);
+  });
+
+  it('layers profile, file thresholds, environment and overrides in that order', () => {
+    const configPath = writeConfig({
+      thresholds: { ruggedProjects: { minAgeDays: 45, minInvestmentUsd: 250 } },
+      profile: 'strict',
+    });
+
+    const config = loadConfig({
+      configPath,
+      env: { FUNFACTS_RUGGED_PROJECTS_DEAD_PRICE_USD: '0.001' },
+      overrides: ['portfolioAth.topHoldings=5'],
+    });
+
+    assert.equal(config.profile, 'strict');
+    assert.equal(config.thresholds.ruggedProjects.minAgeDays, 45); // File beats profile
+    assert.equal(config.thresholds.ruggedProjects.lossThresholdPercent, -95); // Profile beats defaults
+    assert.equal(config.thresholds.ruggedProjects.deadPriceUsd, 0.001); // Environment beats profile
+    assert.equal(config.thresholds.portfolioAth.topHoldings, 5);
+    assert.equal(config.thresholds.ethBenchmark.topTransactions, DEFAULT_THRESHOLDS.ethBenchmark.topTransactions);
+  });
+
+  it('reads wallet bundles and rejects malformed ones', () => {
+    const bundles = { mine: ['0xf977814e90da44bfa03b6295a0616a897441acec', 'vitalik.eth'] };
+    assert.deepEqual(loadConfig({ configPath: writeConfig({ bundles }), env: {} }).bundles, bundles);
+    assert.deepEqual(loadConfig({ configPath: writeConfig({}), env: {} }).bundles, {});
+
+    for (const invalid of [['0xabc'], { mine: [] }, { mine: [42] }]) {
+      assert.throws(() => loadConfig({ configPath: writeConfig({ bundles: invalid }), env: {} }), /"bundles" must map/);
+    }
+  });
+
+  it('reads the cost basis method from the file or FUNFACTS_COST_BASIS_METHOD', () => {
+    assert.equal(loadConfig({ configPath: writeConfig({}), env: {} }).costBasisMethod, 'fifo');
+
+    const configPath = writeConfig({ costBasisMethod: 'lifo' });
+    assert.equal(loadConfig({ configPath, env: {} }).costBasisMethod, 'lifo');
+    assert.equal(loadConfig({ configPath, env: { FUNFACTS_COST_BASIS_METHOD: 'average' } }).costBasisMethod, 'average');
+    assert.throws(
+      () => loadConfig({ configPath: writeConfig({ costBasisMethod: 'hifo' }), env: {} }),
+      /Invalid cost basis method: hifo\. Available: fifo, lifo, average/
+    );
+  });
+
+  it('reads the benchmarks from the file or FUNFACTS_BENCHMARKS', () => {
+    assert.deepEqual(loadConfig({ configPath: writeConfig({}), env: {} }).benchmarks, ['eth', 'stablecoin']);
+
+    const configPath = writeConfig({ benchmarks: ['btc', 'sp500'] });
+    assert.deepEqual(loadConfig({ configPath, env: {} }).benchmarks, ['btc', 'sp500']);
+    assert.deepEqual(loadConfig({ configPath, env: { FUNFACTS_BENCHMARKS: 'sol, stablecoin' } }).benchmarks, ['sol', 'stablecoin']);
+    assert.throws(
+      () => loadConfig({ configPath: writeConfig({ benchmarks: ['eth', 'gold'] }), env: {} }),
+      /Unknown benchmark\(s\): gold\. Available: eth, btc, sol, stablecoin, sp500/
+    );
+    assert.throws(() => loadConfig({ configPath: writeConfig({ benchmarks: [] }), env: {} }), /non-empty array/);
+  });
+
+  it('prefers the profile option over FUNFACTS_PROFILE and the file', () => {
+    const configPath = writeConfig({ profile: 'strict' });
+
+    const config = loadConfig({ configPath, profile: 'lenient', env: { FUNFACTS_PROFILE: 'strict' } });
+
+    assert.equal(config.profile, 'lenient');
+    assert.equal(config.thresholds.ruggedProjects.lossThresholdPercent, -80);
+  });
+
+  it('supports profiles defined in the file', () => {
+    const configPath = writeConfig({
+      profiles: { partner: { ethBenchmark: { topTransactions: 10 } } },
+      profile: 'partner',
+    });
+
+    const config = loadConfig({ configPath, env: {} });
+
+    assert.equal(config.thresholds.ethBenchmark.topTransactions, 10);
+  });
+
+  it('rejects unknown profiles, sections and keys', () => {
+    const configPath = writeConfig({});
+
+    assert.throws(() => loadConfig({ configPath, profile: 'nope', env: {} }), /Unknown profile: nope/);
+    assert.throws(() => loadConfig({ configPath, overrides: ['pnl.minUsd=1'], env: {} }), /unknown section "pnl"/);
+    assert.throws(
+      () => loadConfig({ configPath: writeConfig({ thresholds: { portfolioAth: { top: 3 } } }), env: {} }),
+      /unknown setting "portfolioAth.top"/
+    );
+  });
+
+  it('rejects out-of-range and non-numeric values', () => {
+    const configPath = writeConfig({});
+
+    assert.throws(
+      () => loadConfig({ configPath, overrides: ['ruggedProjects.lossThresholdPercent=20'], env: {} }),
+      /ruggedProjects.lossThresholdPercent must be -100 to 0/
+    );
+    assert.throws(
+      () => loadConfig({ configPath, overrides: ['portfolioAth.topHoldings=2.5'], env: {} }),
+      /must be a whole number/
+    );
+    assert.throws(
+      () => loadConfig({ configPath, env: { [thresholdEnvVar('ruggedProjects', 'minAgeDays')]: 'soon' } }),
+      /FUNFACTS_RUGGED_PROJECTS_MIN_AGE_DAYS: "ruggedProjects.minAgeDays" must be a number/
+    );
+    assert.throws(
+      () => loadConfig({ configPath, overrides: ['tokenDiversity.highMinTokens=3'], env: {} }),
+      /HIGH cutoffs must be at least as strict/
+    );
+  });
+
+  it('requires an explicitly named config file to exist', () => {
+    assert.throws(
+      () => loadConfig({ configPath: path.join(dir, 'missing.json'), env: {} }),
+      /Config file not found/
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { tokenTransfer, transaction } from './helpers';
+import { buildCostBasis, purchasedCostBasis, valuePosition } from '../features/costBasis';
+import { tokenKey } from '../utils/tokenId';
+import { CostBasisMethod } from '../config';
+import { TokenTransfer, Transaction } from '../types';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const OTHER = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const POOL = '0x2222222222222222222222222222222222222222';
+
+function usdc(amount: number): TokenTransfer {
+  return tokenTransfer({ token_address: USDC, token_symbol: 'USDC', token_amount: amount, value_usd: amount });
+}
+
+function token(amount: number, overrides: Partial<TokenTransfer> = {}): TokenTransfer {
+  return tokenTransfer({ token_address: TOKEN, token_amount: amount, value_usd: null, price_usd: null, ...overrides });
+}
+
+function buy(amount: number, paid: number, day: number): Transaction {
+  return transaction({
+    block_timestamp: `2025-01-${String(day).padStart(2, '0')}T12:00:00Z`,
+    tokens_sent: [usdc(paid)],
+    tokens_received: [token(amount)],
+  });
+}
+
+function sell(amount: number, proceeds: number, day: number): Transaction {
+  return transaction({
+    block_timestamp: `2025-01-${String(day).padStart(2, '0')}T12:00:00Z`,
+    tokens_sent: [token(amount)],
+    tokens_received: [usdc(proceeds)],
+  });
+}
+
+// Bought 10 @ $1, then 10 @ $3, then sold 10 for $25
+const HISTORY = [sell(10, 25, 3), buy(10, 10, 1), buy(10, 30, 2)];
+
+function position(transactions: Transaction[], method?: CostBasisMethod) {
+  return buildCostBasis(transactions, method).get(tokenKey('ethereum', TOKEN))!;
+}
+
+describe('buildCostBasis', () => {
+  it('matches sales to the oldest lots with FIFO (the default)', () => {
+    const fifo = position(HISTORY);
+
+    assert.equal(fifo.amount, 10);
+    assert.equal(fifo.costBasisUsd, 30);
+    assert.equal(fifo.realizedPnlUsd, 15);
+    assert.equal(fifo.boughtUsd, 40);
+    assert.equal(fifo.proceedsUsd, 25);
+    assert.equal(fifo.firstBoughtAt?.toISOString(), '2025-01-01T12:00:00.000Z');
+    assert.equal(fifo.lastBoughtAt?.toISOString(), '2025-01-02T12:00:00.000Z');
+  });
+
+  it('matches sales to the newest lots with LIFO', () => {
+    const lifo = position(HISTORY, 'lifo');
+
+    assert.equal(lifo.costBasisUsd, 10);
+    assert.equal(lifo.realizedPnlUsd, -5);
+  });
+
+  it('charges the average cost of all open lots with average', () => {
+    const average = position(HISTORY, 'average');
+
+    assert.equal(average.amount, 10);
+    assert.equal(average.costBasisUsd, 20);
+    assert.equal(average.realizedPnlUsd, 5);
+  });
+
+  it('splits a multi-token purchase by the value of each token received', () => {
+    const positions = buildCostBasis([
+      transaction({
+        tokens_sent: [usdc(100)],
+        tokens_received: [token(5, { value_usd: 75 }), token(1, { token_address: OTHER, value_usd: 25 })],
+      }),
+    ]);
+
+    assert.equal(positions.get(tokenKey('ethereum', TOKEN))?.costBasisUsd, 75);
+    assert.equal(positions.get(tokenKey('ethereum', OTHER))?.costBasisUsd, 25);
+  });
+
+  it('opens lots for transfers in without counting them as purchases', () => {
+    const received = position([transaction({ tokens_received: [token(10, { value_usd: 50 })] })]);
+
+    assert.equal(received.amount, 10);
+    assert.equal(received.costBasisUsd, 50);
+    assert.equal(received.boughtAmount, 0);
+    assert.equal(received.transferredInAmount, 10);
+    assert.equal(purchasedCostBasis(received), 0);
+  });
+
+  it('closes lots for transfers out without realizing P&L', () => {
+    const moved = position([
+      buy(10, 10, 1),
+      transaction({ block_timestamp: '2025-01-02T12:00:00Z', tokens_sent: [token(4, { to_address: POOL })] }),
+    ]);
+
+    assert.equal(moved.amount, 6);
+    assert.ok(Math.abs(moved.costBasisUsd - 6) < 1e-9);
+    assert.equal(moved.realizedPnlUsd, 0);
+    assert.equal(moved.transferredOutAmount, 4);
+  });
+
+  it('realizes nothing on tokens sold beyond the known lots', () => {
+    // 5 of the 10 sold were bought before the history starts
+    const partial = position([buy(5, 5, 1), sell(10, 20, 2)]);
+
+    assert.equal(partial.amount, 0);
+    assert.equal(partial.unmatchedAmount, 5);
+    assert.equal(partial.realizedPnlUsd, 5);
+  });
+
+  it('keeps the same token on different chains apart', () => {
+    const positions = buildCostBasis([buy(10, 10, 1), { ...buy(10, 30, 2), chain: 'base' }]);
+
+    assert.equal(positions.get(tokenKey('ethereum', TOKEN))?.costBasisUsd, 10);
+    assert.equal(positions.get(tokenKey('base', TOKEN))?.costBasisUsd, 30);
+  });
+});
+
+describe('valuePosition', () => {
+  it('reports unrealized P&L against the cost basis', () => {
+    const value = valuePosition(position(HISTORY), 2);
+
+    assert.equal(value.valueUsd, 20);
+    assert.equal(value.unrealizedPnlUsd, -10);
+    assert.ok(Math.abs(value.unrealizedPnlPercent! - -33.333) < 0.001);
+  });
+
+  it('counts only the share of the basis for the tokens actually held', () => {
+    const value = valuePosition(position(HISTORY), 2, 5);
+
+    assert.equal(value.valueUsd, 10);
+    assert.equal(value.unrealizedPnlUsd, -5);
+  });
+});
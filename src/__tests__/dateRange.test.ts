@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TEST_NOW } from './helpers';
+import { describeWindow, parseAnalyzeOptions, parseDate, resolveWindow } from '../utils/dateRange';
+
+const YEAR = { years: 1 };
+
+describe('parseDate', () => {
+  it('reads ISO dates and timestamps and rejects anything else', () => {
+    assert.equal(parseDate('2025-01-01', 'as-of date').toISOString(), '2025-01-01T00:00:00.000Z');
+    assert.equal(parseDate('2025-01-01T12:30:00Z', 'as-of date').toISOString(), '2025-01-01T12:30:00.000Z');
+    assert.throws(() => parseDate('yesterday', 'as-of date'), /Invalid as-of date: yesterday/);
+    assert.throws(() => parseDate('01/02/2025', 'range start'), /Invalid range start/);
+    assert.throws(() => parseDate('2025-02-30x', 'range end'), /Invalid range end/);
+  });
+});
+
+describe('resolveWindow', () => {
+  it('defaults to the lookback ending now', () => {
+    const window = resolveWindow({}, YEAR, TEST_NOW);
+
+    assert.equal(window.asOf, TEST_NOW);
+    assert.deepEqual(window.range, { from: '2025-01-01T00:00:00.000Z', to: '2026-01-01T00:00:00.000Z' });
+    assert.deepEqual(window.lookback, YEAR);
+    assert.equal(describeWindow(window), 'in the past year');
+  });
+
+  it('ends the lookback at asOf and drops the relative description', () => {
+    const window = resolveWindow({ asOf: new Date('2025-06-01'), lookback: { months: 6 } }, YEAR, TEST_NOW);
+
+    assert.deepEqual(window.range, { from: '2024-12-01T00:00:00.000Z', to: '2025-06-01T00:00:00.000Z' });
+    assert.equal(window.lookback, undefined);
+    assert.equal(describeWindow(window), 'from 2024-12-01 to 2025-06-01');
+  });
+
+  it('uses an explicit range, with asOf defaulting to its end', () => {
+    const window = resolveWindow({ range: { from: '2024-01-01', to: '2024-12-31' } }, YEAR, TEST_NOW);
+
+    assert.deepEqual(window.range, { from: '2024-01-01T00:00:00.000Z', to: '2024-12-31T00:00:00.000Z' });
+    assert.equal(window.asOf.toISOString(), '2024-12-31T00:00:00.000Z');
+    assert.equal(window.lookback, undefined);
+  });
+
+  it('rejects a range that ends before it starts or has a bad date', () => {
+    assert.throws(() => resolveWindow({ range: { from: '2025-01-01', to: '2024-01-01' } }, YEAR, TEST_NOW), /2025-01-01 is after 2024-01-01/);
+    assert.throws(() => resolveWindow({ range: { from: 'last year', to: '2024-01-01' } }, YEAR, TEST_NOW), /Invalid range start/);
+  });
+});
+
+describe('parseAnalyzeOptions', () => {
+  it('returns no options when no dates are given', () => {
+    assert.deepEqual(parseAnalyzeOptions(undefined, undefined, undefined, TEST_NOW), {});
+  });
+
+  it('parses an as-of date and a range', () => {
+    assert.deepEqual(parseAnalyzeOptions('2025-06-01', undefined, undefined, TEST_NOW), { asOf: new Date('2025-06-01') });
+    assert.deepEqual(parseAnalyzeOptions(undefined, '2024-01-01', '2024-12-31', TEST_NOW), {
+      range: { from: '2024-01-01', to: '2024-12-31' },
+    });
+  });
+
+  it('rejects half a range, future dates and invalid dates', () => {
+    assert.throws(() => parseAnalyzeOptions(undefined, '2024-01-01', undefined, TEST_NOW), /needs both a start and an end/);
+    assert.throws(() => parseAnalyzeOptions('2026-06-01', undefined, undefined, TEST_NOW), /cannot be in the future/);
+    assert.throws(() => parseAnalyzeOptions(undefined, '2025-01-01', '2026-06-01', TEST_NOW), /cannot be in the future/);
+    assert.throws(() => parseAnalyzeOptions('soon', undefined, undefined, TEST_NOW), /Invalid as-of date/);
+  });
+});
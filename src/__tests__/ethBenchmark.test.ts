@@ -0,0 +1,274 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  WALLET,
+  balanceResponse,
+  createTestContext,
+  tokenBalance,
+  tokenTransfer,
+  transaction,
+  transactionsByChain,
+} from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeEthBenchmark } from '../features/ethBenchmark';
+import { UpstreamUnavailableError } from '../utils/errors';
+import { TokenBalance, Transaction } from '../types';
+
+let ctx: AnalysisContext;
+
+const FALLBACK = 'No meaningful history yet for young wallets, CEX-only flows excluded';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+function usdc(amount: number) {
+  return tokenTransfer({ token_address: USDC, token_symbol: 'USDC', token_amount: amount || 1, value_usd: amount });
+}
+
+/**
+ * A purchase of 100 TEST tokens for `volumeUsd` USDC
+ */
+function buy(volumeUsd: number, overrides: Partial<Transaction> = {}): Transaction {
+  return transaction({
+    volume_usd: volumeUsd,
+    tokens_sent: [usdc(volumeUsd)],
+    tokens_received: [tokenTransfer({ token_amount: 100, value_usd: volumeUsd })],
+    ...overrides,
+  });
+}
+
+function sell(amount: number, proceedsUsd: number): Transaction {
+  return transaction({
+    block_timestamp: '2025-02-15T12:00:00Z',
+    volume_usd: proceedsUsd,
+    tokens_sent: [tokenTransfer({ token_amount: amount, value_usd: proceedsUsd })],
+    tokens_received: [usdc(proceedsUsd)],
+  });
+}
+
+/**
+ * The wallet's current balance of TEST
+ */
+function holding(tokenAmount: number, valueUsd: number, overrides: Partial<TokenBalance> = {}) {
+  return tokenBalance({ token_address: TOKEN, token_amount: tokenAmount, value_usd: valueUsd, ...overrides });
+}
+
+function setup(
+  byChain: Record<string, Transaction[]>,
+  historicalEth: number | null,
+  currentEth: number,
+  balances: TokenBalance[] = []
+) {
+  mock.method(ctx.nansen, 'getAllTransactions', transactionsByChain(byChain));
+  mock.method(ctx.nansen, 'getAllCurrentBalances', async () => balanceResponse(balances));
+  mock.method(ctx.prices, 'getDailyPrice', () => historicalEth);
+  return mock.method(ctx.prices, 'getCurrentPrice', async () => ({ price: currentEth, provider: 'CoinGecko' }));
+}
+
+describe('analyzeEthBenchmark', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('values the tokens bought at their current balance against the same USD in ETH', async () => {
+    // $2000 bought 1 ETH worth at $2000; ETH is now $3000, the 200 tokens $2500
+    setup({ ethereum: [buy(1200), buy(800)] }, 2000, 3000, [holding(200, 2500)]);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.investedUsd, 2000);
+    assert.equal(result.data?.portfolioValue, 2500);
+    assert.equal(result.data?.heldValue, 2500);
+    assert.equal(result.data?.realizedValue, 0);
+    assert.equal(result.data?.ethEquivalentValue, 3000);
+    assert.ok(Math.abs(result.data!.performancePercent - -50 / 3) < 1e-9);
+    assert.equal(result.data?.status, 'UNDERPERFORMED');
+    assert.deepEqual(result.data?.coverage, { sample: 1, ethEquivalentValue: 1, portfolioValue: 1 });
+  });
+
+  it('adds what sales of the tokens brought in', async () => {
+    // Sold half for $800, the other half is worth $100
+    setup({ ethereum: [buy(1000), sell(50, 800)] }, 1000, 1000, [holding(50, 100)]);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.portfolioValue, 900);
+    assert.equal(result.data?.realizedValue, 800);
+    assert.equal(result.data?.heldValue, 100);
+    assert.equal(result.data?.totalTransactions, 1);
+    assert.equal(result.data?.coverage.portfolioValue, 1);
+  });
+
+  it('reports OUTPERFORMED when ETH fell', async () => {
+    setup({ ethereum: [buy(1000)] }, 2000, 1000, [holding(100, 1000)]);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.performancePercent, 100);
+    assert.equal(result.data?.status, 'OUTPERFORMED');
+  });
+
+  it('combines purchases from every supported chain', async () => {
+    setup(
+      { ethereum: [buy(100)], arbitrum: [buy(200, { chain: 'arbitrum' })], base: [buy(300, { chain: 'base' })] },
+      1000,
+      1000,
+      [holding(100, 100), holding(100, 200, { chain: 'arbitrum' }), holding(100, 300, { chain: 'base' })]
+    );
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.portfolioValue, 600);
+    assert.equal(result.data?.totalTransactions, 3);
+  });
+
+  it('samples the 50 largest purchases', async () => {
+    const buys = Array.from({ length: 60 }, (_, i) => buy(i + 1));
+    setup({ ethereum: buys }, 1000, 1000, [holding(6000, 6000)]);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.sampleSize, 50);
+    assert.equal(result.data?.totalTransactions, 60);
+    // Volumes 11..60, and 50 of the 60 purchases' tokens
+    assert.equal(result.data?.investedUsd, (11 + 60) * 25);
+    assert.ok(Math.abs(result.data!.portfolioValue - 5000) < 1e-9);
+    assert.ok(Math.abs(result.data!.coverage.sample - 1775 / 1830) < 1e-9);
+  });
+
+  it('ignores transfers out, sales and zero-volume purchases', async () => {
+    setup(
+      {
+        ethereum: [
+          transaction({ volume_usd: 500, tokens_sent: [tokenTransfer()] }),
+          sell(10, 500),
+          buy(0),
+          buy(100),
+        ],
+      },
+      1000,
+      1000
+    );
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.totalTransactions, 1);
+    assert.equal(result.data?.investedUsd, 100);
+  });
+
+  it('does not count deposits, airdrops or bridge receipts as purchases', async () => {
+    setup(
+      {
+        ethereum: [
+          buy(100),
+          buy(500, { tokens_sent: [], tokens_received: [tokenTransfer({ from_address_label: 'Binance 14' })] }),
+          buy(500, { tokens_sent: [], method: 'claim(uint256,bytes32[])' }),
+          buy(500, { method: 'finalizeInboundTransfer(address,address,address,uint256,bytes)' }),
+        ],
+      },
+      1000,
+      1000
+    );
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.totalTransactions, 1);
+    assert.equal(result.data?.investedUsd, 100);
+  });
+
+  it('counts only the bought share of a token that was also transferred in', async () => {
+    const deposit = transaction({
+      tokens_received: [tokenTransfer({ token_amount: 100, from_address_label: 'Binance 14' })],
+    });
+    setup({ ethereum: [deposit, buy(1000)] }, 1000, 1000, [holding(200, 400)]);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.portfolioValue, 200);
+    assert.equal(result.data?.coverage.portfolioValue, 1);
+  });
+
+  it('lowers portfolio coverage for tokens that left the wallet unsold', async () => {
+    const moved = transaction({
+      block_timestamp: '2025-02-15T12:00:00Z',
+      tokens_sent: [tokenTransfer({ token_amount: 50 })],
+    });
+    setup({ ethereum: [buy(1000), moved] }, 1000, 1000, [holding(50, 20)]);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.portfolioValue, 20);
+    assert.equal(result.data?.coverage.portfolioValue, 0.5);
+  });
+
+  it('leaves purchases without an ETH price out of both sides', async () => {
+    const later = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    setup(
+      {
+        ethereum: [
+          buy(1000),
+          buy(500, {
+            block_timestamp: '2025-03-01T12:00:00Z',
+            tokens_received: [tokenTransfer({ token_address: later, token_amount: 100, value_usd: 500 })],
+          }),
+        ],
+      },
+      1000,
+      1000,
+      [holding(100, 1000), tokenBalance({ token_address: later, token_amount: 100, value_usd: 5000 })]
+    );
+    mock.method(ctx.prices, 'getDailyPrice', (_asset: string, date: Date) => (date.getUTCMonth() === 0 ? 1000 : null));
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.data?.investedUsd, 1000);
+    assert.equal(result.data?.portfolioValue, 1000);
+    assert.ok(Math.abs(result.data!.coverage.ethEquivalentValue - 1000 / 1500) < 1e-9);
+  });
+
+  it('falls back when no historical ETH price is known (zero totalEthEquivalent)', async () => {
+    const getCurrentPrice = setup({ ethereum: [buy(1000)] }, null, 3000);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, FALLBACK);
+    assert.equal(getCurrentPrice.mock.callCount(), 0);
+  });
+
+  it('falls back when the current ETH price is unavailable', async () => {
+    setup({ ethereum: [buy(1000)] }, 2000, 0);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('falls back for a wallet with no transactions', async () => {
+    setup({}, 2000, 3000);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, FALLBACK);
+  });
+
+  it('falls back when the wallet only sent tokens', async () => {
+    setup({ ethereum: [transaction({ tokens_sent: [tokenTransfer()] })] }, 2000, 3000);
+
+    const result = await analyzeEthBenchmark(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('rethrows upstream errors from the price API', async () => {
+    setup({ ethereum: [buy(1000)] }, 2000, 3000);
+    mock.method(ctx.prices, 'getCurrentPrice', async () => {
+      throw new UpstreamUnavailableError('CoinGecko', 'down', 502);
+    });
+
+    await assert.rejects(analyzeEthBenchmark(ctx, WALLET), UpstreamUnavailableError);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WALLET, createTestContext, pnlSummary } from './helpers';
+import { analyzePnl } from '../features/pnl';
+import { applyFixtures, FixtureMode } from '../services/fixtureTransport';
+import { NansenService } from '../services/nansen.service';
+import { FixtureMissingError } from '../utils/errors';
+
+const NANSEN_URL = 'https://api.nansen.ai';
+const PNL_SUMMARY = '/api/v1/profiler/address/pnl-summary';
+
+/**
+ * An adapter standing in for the network: answers every request with `data`
+ * (or `status`, as axios does for errors) and remembers what it was asked
+ */
+function stubAdapter(data: unknown, status = 200): AxiosAdapter & { requests: InternalAxiosRequestConfig[] } {
+  const requests: InternalAxiosRequestConfig[] = [];
+  const adapter = async (config: InternalAxiosRequestConfig) => {
+    requests.push(config);
+    const response = { data, status, statusText: status === 200 ? 'OK' : 'Error', headers: {}, config, request: {} };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, {}, response);
+    }
+    return response;
+  };
+  return Object.assign(adapter, { requests });
+}
+
+describe('fixture transport', () => {
+  let dir: string;
+
+  function client(mode: FixtureMode, adapter?: AxiosAdapter, baseURL = 'https://api.example.com'): AxiosInstance {
+    const instance = axios.create({ baseURL, headers: { apiKey: 'secret-key' } });
+    if (adapter) {
+      instance.defaults.adapter = adapter;
+    }
+    applyFixtures(instance, 'Nansen', { mode, dir });
+    return instance;
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-fixtures-'));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('records responses without headers and replays them offline', async () => {
+    const network = stubAdapter({ labels: ['Whale'] });
+    await client('record', network).post('/labels', { address: WALLET });
+
+    const files = fs.readdirSync(path.join(dir, 'nansen'));
+    assert.equal(files.length, 1);
+    assert.ok(!fs.readFileSync(path.join(dir, 'nansen', files[0]), 'utf-8').includes('secret-key'));
+
+    const offline = stubAdapter({ labels: ['never asked'] });
+    const replay = client('replay', offline);
+    const response = await replay.post('/labels', { address: WALLET });
+
+    assert.deepEqual(response.data, { labels: ['Whale'] });
+    assert.equal(offline.requests.length, 0);
+    await assert.rejects(replay.post('/labels', { address: '0x0' }), FixtureMissingError);
+  });
+
+  it('replays recorded error responses as axios errors', async () => {
+    await assert.rejects(client('record', stubAdapter({ error: 'not found' }, 404)).get('/coins/unknown'));
+
+    await assert.rejects(client('replay').get('/coins/unknown'), (error: AxiosError) => {
+      assert.equal(error.response?.status, 404);
+      assert.deepEqual(error.response?.data, { error: 'not found' });
+      return true;
+    });
+  });
+
+  it('matches a date window recorded on another day', async () => {
+    await client('record', stubAdapter({ realized_pnl_usd: 5 })).post('/pnl', {
+      address: WALLET,
+      date: { from: '2025-01-01T00:00:00.000Z', to: '2026-01-01T00:00:00.000Z' },
+    });
+
+    const replay = client('replay');
+    const response = await replay.post('/pnl', {
+      address: WALLET,
+      date: { from: '2025-03-10T08:00:00.000Z', to: '2026-03-10T08:00:00.000Z' },
+    });
+
+    assert.deepEqual(response.data, { realized_pnl_usd: 5 });
+    await assert.rejects(replay.post('/pnl', { address: '0x0', date: { from: '2025-01-01', to: '2026-01-01' } }), FixtureMissingError);
+  });
+
+  it('serves a single-date lookup only for the day it was recorded', async () => {
+    await client('record', stubAdapter({ market_data: { current_price: { usd: 3300 } } })).get('/coins/ethereum/history', {
+      params: { date: '15-01-2025', localization: false },
+    });
+
+    const replay = client('replay');
+    const sameDay = await replay.get('/coins/ethereum/history', { params: { date: '15-01-2025', localization: false } });
+
+    assert.equal(sameDay.data.market_data.current_price.usd, 3300);
+    await assert.rejects(
+      replay.get('/coins/ethereum/history', { params: { date: '16-01-2025', localization: false } }),
+      FixtureMissingError
+    );
+  });
+
+  it('runs an analyzer against replayed Nansen responses', async () => {
+    await client('record', stubAdapter(pnlSummary({ realized_pnl_percent: 0.2, realized_pnl_usd: 400 })), NANSEN_URL).post(
+      PNL_SUMMARY,
+      { address: WALLET, chain: 'all', date: { from: '2024-06-01T00:00:00.000Z', to: '2025-06-01T00:00:00.000Z' } }
+    );
+    const nansen = new NansenService({ apiKey: '', cache: false, fixtures: { mode: 'replay', dir } });
+
+    const result = await analyzePnl(createTestContext({ nansen }), WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.realized_pnl_usd, 400);
+  });
+});
@@ -0,0 +1,141 @@
+import { AnalysisContext, Logger } from '../context';
+import { DEFAULT_CONFIG } from '../config';
+import { AthCache, MemoryAthCacheBackend } from '../services/athCache.service';
+import { NameResolver } from '../services/nameResolver.service';
+import {
+  CurrentBalanceResponse,
+  PnlSummaryResponse,
+  TokenBalance,
+  TokenTransfer,
+  Transaction,
+  TransactionsRequest,
+  TransactionsResponse,
+} from '../types';
+
+export const WALLET = '0xf977814e90da44bfa03b6295a0616a897441acec';
+
+export const NATIVE_ETH = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+export const ZKSYNC_ETH = '0x000000000000000000000000000000000000800a';
+
+export const TEST_NOW = new Date('2026-01-01T00:00:00Z');
+
+const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+function notStubbed(name: string): () => never {
+  return () => {
+    throw new Error(`${name} was called but not stubbed in this test`);
+  };
+}
+
+/**
+ * A context with a fixed clock, no logging and no real services
+ * Stub the calls a test needs with mock.method(ctx.nansen, 'getPnlSummary', ...).
+ */
+export function createTestContext(overrides: Partial<AnalysisContext> = {}): AnalysisContext {
+  return {
+    nansen: {
+      getPnlSummary: notStubbed('nansen.getPnlSummary'),
+      getLabels: notStubbed('nansen.getLabels'),
+      getCurrentBalance: notStubbed('nansen.getCurrentBalance'),
+      getAllCurrentBalances: notStubbed('nansen.getAllCurrentBalances'),
+      getAllTransactions: notStubbed('nansen.getAllTransactions'),
+    },
+    prices: {
+      getCurrentPrice: notStubbed('prices.getCurrentPrice'),
+      getHistoricalPrice: notStubbed('prices.getHistoricalPrice'),
+      batchGetATHPrices: notStubbed('prices.batchGetATHPrices'),
+      getDailyPrice: notStubbed('prices.getDailyPrice'),
+    },
+    names: { resolve: notStubbed('names.resolve') },
+    athCache: new AthCache(new MemoryAthCacheBackend(), { now: () => new Date(TEST_NOW) }),
+    clock: { now: () => new Date(TEST_NOW) },
+    logger: silentLogger,
+    config: DEFAULT_CONFIG,
+    ...overrides,
+  };
+}
+
+/**
+ * An in-memory name resolver; names not in the map are unregistered
+ * @param records - Name -> address
+ */
+export function staticNameResolver(records: Record<string, string>): NameResolver {
+  return { resolve: async (name) => records[name] ?? null };
+}
+
+/**
+ * A holding as returned by current-balance; `token_amount` is read by the rug detector
+ */
+export function tokenBalance(overrides: Partial<TokenBalance> & { token_amount?: number } = {}): TokenBalance {
+  return {
+    token_address: '0x1111111111111111111111111111111111111111',
+    token_name: 'Test Token',
+    token_symbol: 'TEST',
+    chain: 'ethereum',
+    balance: '100',
+    balance_usd: 100,
+    value_usd: 100,
+    price_usd: 1,
+    ...overrides,
+  };
+}
+
+export function balanceResponse(data: TokenBalance[]): CurrentBalanceResponse {
+  return { data, pagination: { page: 1, per_page: 100, is_last_page: true } };
+}
+
+export function tokenTransfer(overrides: Partial<TokenTransfer> = {}): TokenTransfer {
+  return {
+    token_symbol: 'TEST',
+    token_amount: 100,
+    price_usd: 1,
+    value_usd: 100,
+    token_address: '0x1111111111111111111111111111111111111111',
+    chain: 'ethereum',
+    from_address: '0x2222222222222222222222222222222222222222',
+    to_address: WALLET,
+    ...overrides,
+  };
+}
+
+export function transaction(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    block_timestamp: '2025-01-15T12:00:00Z',
+    transaction_hash: '0xabc',
+    chain: 'ethereum',
+    method: 'swap',
+    tokens_sent: [],
+    tokens_received: [],
+    volume_usd: 100,
+    source_type: 'dex',
+    ...overrides,
+  };
+}
+
+/**
+ * Build a getAllTransactions stub that answers per chain (unlisted chains have no history)
+ */
+export function transactionsByChain(
+  byChain: Record<string, Transaction[]>
+): (request: TransactionsRequest) => Promise<TransactionsResponse> {
+  return async (request) => ({
+    data: byChain[request.chain] || [],
+    pagination: { page: 1, per_page: 100, is_last_page: true },
+  });
+}
+
+export function pnlSummary(overrides: Partial<PnlSummaryResponse> = {}): PnlSummaryResponse {
+  return {
+    realized_pnl_usd: 0,
+    realized_pnl_percent: 0,
+    traded_token_count: 0,
+    traded_times: 0,
+    win_rate: 0,
+    top5_tokens: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,206 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  applyResilience,
+  backoffDelay,
+  CircuitBreaker,
+  parseRetryAfter,
+  ResilienceClock,
+  ResilienceOptions,
+  TokenBucket,
+} from '../services/httpMiddleware';
+import { CircuitOpenError, RateLimitedError, UpstreamUnavailableError } from '../utils/errors';
+
+const OPTIONS: ResilienceOptions = {
+  provider: 'Nansen',
+  retry: { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 5000 },
+  rateLimit: { capacity: 100, refillPerSecond: 100 },
+  circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 30000 },
+};
+
+/**
+ * A clock whose sleeps advance time instantly and are remembered
+ */
+function fakeClock(start = 0): ResilienceClock & { sleeps: number[]; advance(ms: number): void } {
+  let now = start;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+    advance: (ms) => {
+      now += ms;
+    },
+  };
+}
+
+interface StubResponse {
+  status: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * An adapter answering with the given statuses in turn (the last one repeats)
+ */
+function sequenceAdapter(responses: StubResponse[]): AxiosAdapter & { calls: number } {
+  const stub = Object.assign(async (config: InternalAxiosRequestConfig) => {
+    const { status, headers = {} } = responses[Math.min(stub.calls, responses.length - 1)];
+    stub.calls++;
+    const response = { data: { status }, status, statusText: String(status), headers, config, request: {} };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+    }
+    return response;
+  }, { calls: 0 });
+  return stub;
+}
+
+function client(adapter: AxiosAdapter, clock: ResilienceClock, options = OPTIONS): AxiosInstance & ReturnType<typeof applyResilience> {
+  const instance = axios.create({ baseURL: 'https://api.example.com', adapter });
+  return Object.assign(instance, applyResilience(instance, options, clock));
+}
+
+describe('TokenBucket', () => {
+  it('serves a burst, then paces requests at the refill rate', async () => {
+    const clock = fakeClock();
+    const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 4 }, clock);
+
+    await Promise.all([bucket.take(), bucket.take(), bucket.take(), bucket.take()]);
+
+    assert.deepEqual(clock.sleeps, [250, 250]);
+    assert.equal(clock.now(), 500);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and lets one probe through after the cool-down', () => {
+    const clock = fakeClock(1000);
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 10000 }, clock);
+
+    breaker.recordFailure();
+    assert.equal(breaker.state, 'closed');
+    breaker.recordFailure();
+    assert.equal(breaker.state, 'open');
+    assert.equal(breaker.allowRequest(), false);
+    assert.equal(breaker.retryAt(), 11000);
+
+    clock.advance(10000);
+    assert.equal(breaker.state, 'half-open');
+    assert.equal(breaker.allowRequest(), true);
+    assert.equal(breaker.allowRequest(), false);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.state, 'closed');
+  });
+
+  it('reopens when the probe fails', () => {
+    const clock = fakeClock();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 10000 }, clock);
+
+    breaker.recordFailure();
+    clock.advance(10000);
+    assert.equal(breaker.allowRequest(), true);
+    breaker.recordFailure();
+
+    assert.equal(breaker.state, 'open');
+    assert.equal(breaker.retryAt(), 20000);
+  });
+});
+
+describe('applyResilience', () => {
+  beforeEach(() => {
+    mock.method(console, 'warn', () => undefined);
+    mock.method(Math, 'random', () => 0.5);
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('retries 5xx responses with jittered exponential backoff', async () => {
+    const clock = fakeClock();
+    const adapter = sequenceAdapter([{ status: 503 }, { status: 502 }, { status: 200 }]);
+
+    const response = await client(adapter, clock).get('/labels');
+
+    assert.equal(response.status, 200);
+    assert.equal(adapter.calls, 3);
+    assert.deepEqual(clock.sleeps, [50, 100]);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const clock = fakeClock();
+    const adapter = sequenceAdapter([{ status: 429, headers: { 'retry-after': '2' } }, { status: 200 }]);
+
+    await client(adapter, clock).get('/labels');
+
+    assert.deepEqual(clock.sleeps, [2000]);
+  });
+
+  it('fails with RateLimitedError when Retry-After is longer than maxDelayMs', async () => {
+    const clock = fakeClock();
+    const adapter = sequenceAdapter([{ status: 429, headers: { 'retry-after': '60' } }]);
+
+    await assert.rejects(client(adapter, clock).get('/labels'), (error: RateLimitedError) => {
+      assert.ok(error instanceof RateLimitedError);
+      assert.equal(error.retryAfterMs, 60000);
+      return true;
+    });
+    assert.equal(adapter.calls, 1);
+    assert.deepEqual(clock.sleeps, []);
+  });
+
+  it('gives up with UpstreamUnavailableError, then fails fast while the breaker is open', async () => {
+    const clock = fakeClock();
+    const adapter = sequenceAdapter([{ status: 500 }]);
+    const api = client(adapter, clock);
+
+    await assert.rejects(api.get('/labels'), (error: UpstreamUnavailableError) => {
+      assert.ok(error instanceof UpstreamUnavailableError);
+      assert.equal(error.status, 500);
+      return true;
+    });
+    assert.equal(adapter.calls, 3);
+    assert.equal(api.breaker.state, 'open');
+
+    await assert.rejects(api.get('/labels'), CircuitOpenError);
+    assert.equal(adapter.calls, 3);
+  });
+
+  it('passes client errors through without retrying', async () => {
+    const clock = fakeClock();
+    const adapter = sequenceAdapter([{ status: 404 }]);
+
+    await assert.rejects(client(adapter, clock).get('/labels'), (error: AxiosError) => error.response?.status === 404);
+    assert.equal(adapter.calls, 1);
+  });
+});
+
+describe('backoffDelay', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('draws up to base * 2^attempt, capped at maxDelayMs', () => {
+    mock.method(Math, 'random', () => 0.999999);
+    const retry = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    assert.equal(backoffDelay(0, retry), 100);
+    assert.equal(backoffDelay(2, retry), 400);
+    assert.equal(backoffDelay(6, retry), 1000);
+
+    mock.method(Math, 'random', () => 0);
+    assert.equal(backoffDelay(3, retry), 0);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    assert.equal(parseRetryAfter('3', now), 3000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now), 10000);
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, createTestContext } from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeLabels } from '../features/labels';
+import { UpstreamUnavailableError } from '../utils/errors';
+
+let ctx: AnalysisContext;
+
+function withLabels(...labels: string[]): void {
+  mock.method(ctx.nansen, 'getLabels', async () => labels.map((label) => ({ label })));
+}
+
+describe('analyzeLabels', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('picks the highest-priority label', async () => {
+    withLabels('Staker', 'Token Millionaire', 'High Activity');
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.label, 'Token Millionaire');
+  });
+
+  it('matches time-based variants and keeps the original label text', async () => {
+    withLabels('Dex Trader', '30D Memecoin Whale');
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.data?.label, '30D Memecoin Whale');
+  });
+
+  it('matches chain-specific variants', async () => {
+    withLabels('Staker', 'Smart Fund (Ethereum)');
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.data?.label, 'Smart Fund (Ethereum)');
+  });
+
+  it('maps Smart Trader variants to Emerging Smart Trader', async () => {
+    withLabels('Staker', '90D Smart Trader');
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.data?.label, '90D Smart Trader');
+  });
+
+  it('prefers an exact match over a lower-priority partial one', async () => {
+    withLabels('180D Smart Trader', 'Deployer');
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.data?.label, 'Deployer');
+  });
+
+  it('uses the first label when none is on the priority list', async () => {
+    withLabels('Some New Label', 'Another Label');
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.label, 'Some New Label');
+  });
+
+  it('fails without a fallback message when there are no labels', async () => {
+    withLabels();
+
+    const result = await analyzeLabels(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, null);
+  });
+
+  it('rethrows upstream errors', async () => {
+    mock.method(ctx.nansen, 'getLabels', async () => {
+      throw new UpstreamUnavailableError('Nansen', 'timeout');
+    });
+
+    await assert.rejects(analyzeLabels(ctx, WALLET), UpstreamUnavailableError);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, balanceResponse, createTestContext, tokenBalance } from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeMultiChain } from '../features/multiChain';
+import { TokenBalance } from '../types';
+
+let ctx: AnalysisContext;
+
+function withHoldings(holdings: TokenBalance[]): void {
+  mock.method(ctx.nansen, 'getAllCurrentBalances', async () => balanceResponse(holdings));
+}
+
+describe('analyzeMultiChain', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('lists chains by value and picks the primary chain', async () => {
+    withHoldings([
+      tokenBalance({ chain: 'ethereum', value_usd: 100 }),
+      tokenBalance({ chain: 'base', value_usd: 400 }),
+      tokenBalance({ chain: 'ethereum', value_usd: 100 }),
+      tokenBalance({ chain: 'arbitrum', value_usd: 400 }),
+    ]);
+
+    const result = await analyzeMultiChain(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.chainCount, 3);
+    assert.equal(result.data?.primaryChain, 'base');
+    assert.equal(result.data?.primaryChainPercent, 40);
+    assert.deepEqual(result.data?.chains, ['base', 'arbitrum', 'ethereum']);
+  });
+
+  it('falls back for a single-chain wallet', async () => {
+    withHoldings([tokenBalance({ chain: 'ethereum' }), tokenBalance({ chain: 'ethereum' })]);
+
+    const result = await analyzeMultiChain(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, 'Single chain wallet - consider exploring other networks!');
+  });
+
+  it('falls back for an empty wallet', async () => {
+    withHoldings([]);
+
+    const result = await analyzeMultiChain(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, 'No multi-chain activity detected');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { namehash, NameResolverService, resolveWallet } from '../services/nameResolver.service';
+import { isNameServiceName } from '../utils/validation';
+import { parseWalletList, resolveWalletList } from '../report/batch';
+import { buildWalletReport } from '../report/walletReport';
+import { reportsToCsv, reportsToMarkdown } from '../report/serializers';
+import { createTestContext, staticNameResolver, TEST_NOW, WALLET } from './helpers';
+
+const VITALIK = '0xd8da6bf26964af9d7eed9e10e07ec3c6d1b86045';
+const SOLANA = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+describe('namehash', () => {
+  it('matches the EIP-137 vectors', () => {
+    assert.equal(namehash(''), '0'.repeat(64));
+    assert.equal(namehash('eth'), '93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae');
+    assert.equal(namehash('foo.eth'), 'de9b09fd7c5f901e23a3f19fecc54828e9c848539801e86591bd9801b019f84f');
+  });
+});
+
+describe('isNameServiceName', () => {
+  it('accepts dotted names and rejects addresses', () => {
+    assert.equal(isNameServiceName('vitalik.eth'), true);
+    assert.equal(isNameServiceName('sub.name.eth'), true);
+    assert.equal(isNameServiceName('bonfida.sol'), true);
+    assert.equal(isNameServiceName(VITALIK), false);
+    assert.equal(isNameServiceName(SOLANA), false);
+    assert.equal(isNameServiceName('vitalik'), false);
+    assert.equal(isNameServiceName('vitalik.e'), false);
+  });
+});
+
+describe('resolveWallet', () => {
+  const names = staticNameResolver({ 'vitalik.eth': VITALIK, 'toly.sol': SOLANA, 'broken.eth': 'not-an-address' });
+
+  it('passes addresses through validation without a lookup', async () => {
+    assert.deepEqual(await resolveWallet(names, `  ${WALLET}  `), { address: WALLET });
+  });
+
+  it('resolves names case-insensitively and keeps the name', async () => {
+    assert.deepEqual(await resolveWallet(names, 'Vitalik.ETH'), { address: VITALIK, name: 'vitalik.eth' });
+    assert.deepEqual(await resolveWallet(names, 'toly.sol'), { address: SOLANA, name: 'toly.sol' });
+  });
+
+  it('reports unregistered names and names pointing at invalid addresses', async () => {
+    await assert.rejects(resolveWallet(names, 'nobody.eth'), /No address found for nobody\.eth/);
+    await assert.rejects(resolveWallet(names, 'broken.eth'), /not a supported wallet address/);
+  });
+});
+
+describe('NameResolverService', () => {
+  it('routes by top-level domain and caches answers, including misses', async () => {
+    const calls: string[] = [];
+    const recording = (records: Record<string, string>) => ({
+      resolve: async (name: string) => {
+        calls.push(name);
+        return records[name] ?? null;
+      },
+    });
+    const service = new NameResolverService({
+      resolvers: { sol: recording({ 'toly.sol': SOLANA }), '*': recording({ 'vitalik.eth': VITALIK }) },
+    });
+
+    assert.equal(await service.resolve('vitalik.eth'), VITALIK);
+    assert.equal(await service.resolve('vitalik.eth'), VITALIK);
+    assert.equal(await service.resolve('toly.sol'), SOLANA);
+    assert.equal(await service.resolve('nobody.eth'), null);
+    assert.equal(await service.resolve('nobody.eth'), null);
+
+    assert.deepEqual(calls, ['vitalik.eth', 'toly.sol', 'nobody.eth']);
+  });
+});
+
+describe('wallet lists with names', () => {
+  it('separates names from addresses and resolves them into wallets', async () => {
+    const parsed = parseWalletList(`${WALLET}\nvitalik.eth\n# comment\nVITALIK.eth, nobody.eth\n${VITALIK}\nnot-a-wallet`);
+    assert.deepEqual(parsed, {
+      addresses: [WALLET, VITALIK],
+      names: ['vitalik.eth', 'nobody.eth'],
+      invalid: ['not-a-wallet'],
+    });
+
+    const ctx = createTestContext({ names: staticNameResolver({ 'vitalik.eth': VITALIK }) });
+    const { wallets, unresolved } = await resolveWalletList(ctx, parsed.addresses, parsed.names);
+
+    // vitalik.eth labels the address already in the list instead of adding it again
+    assert.deepEqual(wallets, [{ address: WALLET }, { address: VITALIK, name: 'vitalik.eth' }]);
+    assert.deepEqual(unresolved, [{ name: 'nobody.eth', reason: 'No address found for nobody.eth' }]);
+  });
+});
+
+describe('reports for named wallets', () => {
+  it('show both the name and the address', () => {
+    const report = buildWalletReport({ address: VITALIK, name: 'vitalik.eth' }, [], [], TEST_NOW);
+
+    assert.equal(report.name, 'vitalik.eth');
+    assert.equal(report.address, VITALIK);
+    assert.match(reportsToMarkdown([report]), new RegExp(`## Wallet vitalik\\.eth \\(\`${VITALIK}\`\\)`));
+    assert.equal(buildWalletReport(VITALIK, [], [], TEST_NOW).name, undefined);
+  });
+
+  it('adds a name column to CSV', () => {
+    const report = buildWalletReport({ address: VITALIK, name: 'vitalik.eth' }, [], [], TEST_NOW);
+    const header = reportsToCsv([report]).split('\n')[0];
+    assert.ok(header.startsWith('address,name,group,analyzed_at'));
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TEST_NOW, WALLET, createTestContext, pnlSummary } from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzePnl } from '../features/pnl';
+import { UpstreamUnavailableError } from '../utils/errors';
+import { PnlSummaryRequest } from '../types';
+
+let ctx: AnalysisContext;
+
+describe('analyzePnl', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('converts the decimal P&L to a percentage and reports a gain', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ realized_pnl_percent: 0.15, realized_pnl_usd: 1500 })
+    );
+
+    const result = await analyzePnl(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.ok(result.data);
+    assert.ok(Math.abs(result.data.realized_pnl_percent - 15) < 1e-9);
+    assert.equal(result.data.realized_pnl_usd, 1500);
+    assert.equal(result.data.status, 'GAIN');
+    assert.equal(result.data.timeframe, 'in the past year');
+  });
+
+  it('reports a loss for a negative P&L', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ realized_pnl_percent: -0.4, realized_pnl_usd: -200 })
+    );
+
+    const result = await analyzePnl(ctx, WALLET, { lookback: { years: 2 } });
+
+    assert.equal(result.data?.status, 'LOSS');
+    assert.equal(result.data?.timeframe, 'in the past 2 years');
+  });
+
+  it('asks Nansen for the requested number of years', async () => {
+    const requests: PnlSummaryRequest[] = [];
+    mock.method(ctx.nansen, 'getPnlSummary', async (request: PnlSummaryRequest) => {
+      requests.push(request);
+      return pnlSummary({ realized_pnl_percent: 0.1, realized_pnl_usd: 10 });
+    });
+
+    await analyzePnl(ctx, WALLET, { lookback: { years: 2 } });
+
+    const [request] = requests;
+    assert.equal(request.address, WALLET);
+    assert.deepEqual(request.date, { from: '2024-01-01T00:00:00.000Z', to: TEST_NOW.toISOString() });
+  });
+
+  it('ends the lookback at the as-of date', async () => {
+    const requests: PnlSummaryRequest[] = [];
+    mock.method(ctx.nansen, 'getPnlSummary', async (request: PnlSummaryRequest) => {
+      requests.push(request);
+      return pnlSummary({ realized_pnl_percent: 0.1, realized_pnl_usd: 10 });
+    });
+
+    const result = await analyzePnl(ctx, WALLET, { asOf: new Date('2025-06-30T00:00:00Z') });
+
+    assert.deepEqual(requests[0].date, { from: '2024-06-30T00:00:00.000Z', to: '2025-06-30T00:00:00.000Z' });
+    assert.equal(result.data?.timeframe, 'from 2024-06-30 to 2025-06-30');
+  });
+
+  it('uses an explicit range instead of the lookback', async () => {
+    const requests: PnlSummaryRequest[] = [];
+    mock.method(ctx.nansen, 'getPnlSummary', async (request: PnlSummaryRequest) => {
+      requests.push(request);
+      return pnlSummary({ realized_pnl_percent: 0.1, realized_pnl_usd: 10 });
+    });
+
+    const result = await analyzePnl(ctx, WALLET, { range: { from: '2025-01-01', to: '2025-03-31' } });
+
+    assert.equal(requests[0].date.from.slice(0, 10), '2025-01-01');
+    assert.equal(requests[0].date.to.slice(0, 10), '2025-03-31');
+    assert.equal(result.data?.timeframe, 'from 2025-01-01 to 2025-03-31');
+  });
+
+  it('rejects a range that ends before it starts', async () => {
+    await assert.rejects(
+      analyzePnl(ctx, WALLET, { range: { from: '2025-06-01', to: '2025-01-01' } }),
+      /Invalid range/
+    );
+  });
+
+  it('queries the solana chain for Solana wallets', async () => {
+    const requests: PnlSummaryRequest[] = [];
+    mock.method(ctx.nansen, 'getPnlSummary', async (request: PnlSummaryRequest) => {
+      requests.push(request);
+      return pnlSummary({ realized_pnl_percent: 0.1, realized_pnl_usd: 10 });
+    });
+
+    await analyzePnl(ctx, 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+    assert.equal(requests[0].chain, 'solana');
+  });
+
+  it('falls back when P&L is effectively zero', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ realized_pnl_percent: 0.00005, realized_pnl_usd: 0.5 })
+    );
+
+    const result = await analyzePnl(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, 'Only mist—too little history to read.');
+  });
+
+  it('still succeeds for a tiny percentage on a large dollar amount', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ realized_pnl_percent: 0, realized_pnl_usd: 5 })
+    );
+
+    const result = await analyzePnl(ctx, WALLET);
+
+    assert.equal(result.success, true);
+  });
+
+  it('falls back when the response has no realized P&L', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => ({}) as never);
+
+    const result = await analyzePnl(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('falls back on unexpected errors', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => {
+      throw new Error('boom');
+    });
+
+    const result = await analyzePnl(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('rethrows upstream errors', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => {
+      throw new UpstreamUnavailableError('Nansen', 'down', 503);
+    });
+
+    await assert.rejects(analyzePnl(ctx, WALLET), UpstreamUnavailableError);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  NATIVE_ETH,
+  WALLET,
+  ZKSYNC_ETH,
+  balanceResponse,
+  createTestContext,
+  tokenBalance,
+} from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzePortfolioATH } from '../features/portfolioATH';
+import { RateLimitedError } from '../utils/errors';
+import { AthPrice } from '../services/athCache.service';
+import { TokenBalance } from '../types';
+import { tokenKey } from '../utils/tokenId';
+
+let ctx: AnalysisContext;
+
+const FALLBACK = 'No meaningful history yet for young/empty wallets';
+const TOKEN_A = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const TOKEN_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+function setup(holdings: TokenBalance[], athPrices: Record<string, number>) {
+  mock.method(ctx.nansen, 'getCurrentBalance', async () => balanceResponse(holdings));
+  return mock.method(ctx.prices, 'batchGetATHPrices', async () => {
+    const prices = new Map<string, AthPrice>();
+    for (const [address, athPrice] of Object.entries(athPrices)) {
+      prices.set(tokenKey('ethereum', address), { athPrice, athDate: new Date('2025-03-01'), provider: 'CoinGecko' });
+    }
+    return prices;
+  });
+}
+
+describe('analyzePortfolioATH', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('values holdings at their all-time highs', async () => {
+    setup(
+      [
+        tokenBalance({ token_address: TOKEN_A, balance: '100', value_usd: 100, price_usd: 1 }),
+        tokenBalance({ token_address: TOKEN_B, balance: '10', value_usd: 200, price_usd: 20 }),
+      ],
+      { [TOKEN_A]: 3, [TOKEN_B]: 40 }
+    );
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.currentValue, 300);
+    assert.equal(result.data?.athValue, 700);
+    assert.ok(Math.abs(result.data!.potentialGainPercent - 400 / 3) < 1e-9);
+    assert.equal(result.data?.sampleSize, 2);
+    assert.equal(result.data?.successfulTokens, 2);
+    assert.deepEqual(result.data?.priceSources, { CoinGecko: 2 });
+  });
+
+  it('takes the ATH over the days before now by default', async () => {
+    const batchGetATHPrices = setup([tokenBalance({ token_address: TOKEN_A })], { [TOKEN_A]: 3 });
+
+    await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(batchGetATHPrices.mock.calls[0].arguments[1], 365);
+  });
+
+  it('takes the ATH over an explicit range', async () => {
+    const batchGetATHPrices = setup([tokenBalance({ token_address: TOKEN_A })], { [TOKEN_A]: 3 });
+
+    await analyzePortfolioATH(ctx, WALLET, { range: { from: '2024-01-01', to: '2024-12-31' } });
+
+    assert.deepEqual(batchGetATHPrices.mock.calls[0].arguments[1], {
+      from: new Date('2024-01-01').toISOString(),
+      to: new Date('2024-12-31').toISOString(),
+    });
+  });
+
+  it('falls back for an as-of date before today, since holdings are current', async () => {
+    const batchGetATHPrices = setup([tokenBalance({ token_address: TOKEN_A })], { [TOKEN_A]: 3 });
+
+    const backdated = await analyzePortfolioATH(ctx, WALLET, { asOf: new Date('2025-06-01') });
+    const today = await analyzePortfolioATH(ctx, WALLET, { asOf: new Date('2026-01-01') });
+
+    assert.equal(backdated.success, false);
+    assert.match(backdated.fallback!, /no as-of snapshot/);
+    assert.equal(today.success, true);
+    assert.equal(batchGetATHPrices.mock.callCount(), 1);
+  });
+
+  it('fetches only the tokens the ATH cache does not have', async () => {
+    const holdings = [tokenBalance({ token_address: TOKEN_A }), tokenBalance({ token_address: TOKEN_B })];
+    const batchGetATHPrices = setup(holdings.slice(0, 1), { [TOKEN_A]: 3, [TOKEN_B]: 40 });
+    await analyzePortfolioATH(ctx, WALLET);
+
+    mock.method(ctx.nansen, 'getCurrentBalance', async () => balanceResponse(holdings));
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.data?.successfulTokens, 2);
+    assert.equal(batchGetATHPrices.mock.callCount(), 2);
+    // TOKEN_A came from the cache the second time
+    assert.deepEqual(ctx.athCache.getStats(), { backend: 'memory', size: 2, hits: 1, misses: 2, hitRate: 33.33 });
+  });
+
+  it('uses the current value for tokens without an ATH', async () => {
+    setup(
+      [
+        tokenBalance({ token_address: TOKEN_A, balance: '100', value_usd: 100 }),
+        tokenBalance({ token_address: TOKEN_B, balance: '10', value_usd: 200 }),
+      ],
+      { [TOKEN_A]: 2 }
+    );
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.data?.athValue, 400);
+    assert.equal(result.data?.successfulTokens, 1);
+    assert.equal(result.data?.sampleSize, 2);
+  });
+
+  it('derives the token amount from value and price when balance is missing', async () => {
+    setup([tokenBalance({ token_address: TOKEN_A, balance: '', value_usd: 100, price_usd: 4 })], { [TOKEN_A]: 10 });
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.data?.athValue, 250);
+  });
+
+  it('looks up ATH prices by lowercased token address', async () => {
+    setup([tokenBalance({ token_address: TOKEN_A.toUpperCase().replace('0X', '0x'), balance: '1', value_usd: 100 })], {
+      [TOKEN_A]: 200,
+    });
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.data?.athValue, 200);
+  });
+
+  it('excludes dust holdings under $50', async () => {
+    setup(
+      [
+        tokenBalance({ token_address: TOKEN_A, balance: '1', value_usd: 100 }),
+        tokenBalance({ token_address: TOKEN_B, balance: '1', value_usd: 49.99 }),
+      ],
+      { [TOKEN_A]: 100, [TOKEN_B]: 1000 }
+    );
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.data?.sampleSize, 1);
+    assert.equal(result.data?.currentValue, 100);
+  });
+
+  it('falls back when every holding is a native token', async () => {
+    const batchGetATHPrices = setup(
+      [
+        tokenBalance({ token_address: NATIVE_ETH, value_usd: 5000 }),
+        tokenBalance({ token_address: ZKSYNC_ETH, chain: 'zksync', value_usd: 1000 }),
+      ],
+      {}
+    );
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, FALLBACK);
+    assert.equal(batchGetATHPrices.mock.callCount(), 0);
+  });
+
+  it('falls back when no ATH prices could be found', async () => {
+    setup([tokenBalance({ token_address: TOKEN_A, value_usd: 100 })], {});
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('falls back for an empty wallet', async () => {
+    setup([], {});
+
+    const result = await analyzePortfolioATH(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, FALLBACK);
+  });
+
+  it('rethrows upstream errors', async () => {
+    mock.method(ctx.nansen, 'getCurrentBalance', async () =>
+      balanceResponse([tokenBalance({ token_address: TOKEN_A, value_usd: 100 })])
+    );
+    mock.method(ctx.prices, 'batchGetATHPrices', async () => {
+      throw new RateLimitedError('CoinGecko');
+    });
+
+    await assert.rejects(analyzePortfolioATH(ctx, WALLET), RateLimitedError);
+  });
+});
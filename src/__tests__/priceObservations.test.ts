@@ -0,0 +1,106 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  NATIVE_ETH,
+  TEST_NOW,
+  WALLET,
+  balanceResponse,
+  createTestContext,
+  tokenBalance,
+  tokenTransfer,
+  transaction,
+} from './helpers';
+import { PriceObservationIndex, PriceObservingNansenClient } from '../services/priceObservations.service';
+import { tokenKey } from '../utils/tokenId';
+
+const TOKEN = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const OTHER = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const THIRD = '0xcccccccccccccccccccccccccccccccccccccccc';
+const HOUR = 60 * 60 * 1000;
+
+function index(): PriceObservationIndex {
+  return new PriceObservationIndex({ now: () => TEST_NOW });
+}
+
+describe('PriceObservationIndex', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('indexes transfer prices by token and native assets by coin id', () => {
+    const observations = index();
+    const recorded = observations.recordTransactions([
+      transaction({
+        block_timestamp: '2025-01-15T12:00:00Z',
+        chain: 'arbitrum',
+        tokens_sent: [tokenTransfer({ token_address: NATIVE_ETH, chain: 'arbitrum', price_usd: 3300 })],
+        tokens_received: [
+          tokenTransfer({ token_address: TOKEN, chain: 'arbitrum', price_usd: 2 }),
+          tokenTransfer({ token_address: TOKEN, chain: 'arbitrum', price_usd: null }),
+        ],
+      }),
+    ]);
+
+    assert.equal(recorded, 2);
+    const noon = new Date('2025-01-15T12:00:00Z');
+    assert.equal(observations.priceAt('ethereum', noon, HOUR), 3300);
+    assert.equal(observations.priceAt(tokenKey('arbitrum', NATIVE_ETH), noon, HOUR), 3300);
+    assert.equal(observations.priceAt(tokenKey('arbitrum', TOKEN), noon, HOUR), 2);
+    assert.equal(observations.priceAt(tokenKey('ethereum', TOKEN), noon, HOUR), null);
+  });
+
+  it('answers with the observation closest to the date, within the tolerance', () => {
+    const observations = index();
+    observations.recordTransactions([
+      transaction({ block_timestamp: '2025-01-15T20:00:00Z', tokens_received: [tokenTransfer({ token_address: TOKEN, price_usd: 3 })] }),
+      transaction({ block_timestamp: '2025-01-15T10:00:00Z', tokens_received: [tokenTransfer({ token_address: TOKEN, price_usd: 1 })] }),
+    ]);
+
+    const id = tokenKey('ethereum', TOKEN);
+    assert.equal(observations.priceAt(id, new Date('2025-01-15T12:00:00Z'), 24 * HOUR), 1);
+    assert.equal(observations.priceAt(id, new Date('2025-01-15T18:00:00Z'), 24 * HOUR), 3);
+    assert.equal(observations.priceAt(id, new Date('2025-01-17T12:00:00Z'), 24 * HOUR), null);
+  });
+
+  it('keeps at most maxTokens ids, dropping the least recently recorded', () => {
+    let now = TEST_NOW;
+    const observations = new PriceObservationIndex({ now: () => now, maxTokens: 2 });
+    const balance = (address: string) => tokenBalance({ token_address: address, price_usd: 1 });
+
+    observations.recordBalances([balance(TOKEN), balance(OTHER)]);
+    now = new Date(TEST_NOW.getTime() + 60_000);
+    observations.recordBalances([balance(TOKEN)]); // OTHER is now the oldest
+    observations.recordBalances([balance(THIRD)]);
+
+    assert.equal(observations.size(), 2);
+    assert.equal(observations.latestPrice(tokenKey('ethereum', TOKEN), HOUR), 1);
+    assert.equal(observations.latestPrice(tokenKey('ethereum', OTHER), HOUR), null);
+  });
+
+  it('takes current prices from recent balances only', () => {
+    let now = TEST_NOW;
+    const observations = new PriceObservationIndex({ now: () => now });
+    observations.recordBalances([tokenBalance({ token_address: NATIVE_ETH, price_usd: 3500 })]);
+
+    assert.equal(observations.latestPrice('ethereum', HOUR), 3500);
+    now = new Date(TEST_NOW.getTime() + 2 * HOUR);
+    assert.equal(observations.latestPrice('ethereum', HOUR), null);
+  });
+
+  it('records prices from the responses a Nansen client returns', async () => {
+    const ctx = createTestContext();
+    const observations = index();
+    mock.method(ctx.nansen, 'getCurrentBalance', async () =>
+      balanceResponse([tokenBalance({ token_address: TOKEN, price_usd: 4 })])
+    );
+    const nansen = new PriceObservingNansenClient(ctx.nansen, observations);
+
+    const response = await nansen.getCurrentBalance({
+      address: WALLET,
+      chain: 'all',
+      hide_spam_token: true,
+      pagination: { page: 1, per_page: 10 },
+    });
+
+    assert.equal(response.data.length, 1);
+    assert.equal(observations.latestPrice(tokenKey('ethereum', TOKEN), HOUR), 4);
+  });
+});
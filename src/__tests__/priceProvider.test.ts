@@ -0,0 +1,259 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { NATIVE_ETH, TEST_NOW, tokenBalance, tokenTransfer, transaction } from './helpers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CoinGeckoService } from '../services/coingecko.service';
+import { CoinMarketCapService } from '../services/coinmarketcap.service';
+import { PriceObservationIndex } from '../services/priceObservations.service';
+import {
+  CoinGeckoPriceProvider,
+  CoinMarketCapPriceProvider,
+  NansenPriceProvider,
+  PriceProvider,
+  PriceService,
+} from '../services/priceProvider.service';
+import { TokenMetadataResolver } from '../services/tokenMetadata.service';
+import { RateLimitedError } from '../utils/errors';
+import { tokenKey } from '../utils/tokenId';
+
+const TOKEN_A = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const TOKEN_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+
+/**
+ * A provider with fixed prices; anything not listed is 0
+ */
+function provider(name: string, prices: Record<string, number>, athPrices: Record<string, number> = {}): PriceProvider {
+  return {
+    name,
+    getHistoricalPrice: async (coinId) => prices[coinId] ?? 0,
+    getCurrentPrice: async (coinId) => prices[coinId] ?? 0,
+    getATHPrice: async (chain, address) => {
+      const athPrice = athPrices[tokenKey(chain, address)] ?? 0;
+      return { athPrice, athDate: athPrice > 0 ? new Date('2025-03-01') : null };
+    },
+  };
+}
+
+function failing(name: string, error: Error): PriceProvider {
+  const fail = async (): Promise<never> => {
+    throw error;
+  };
+  return { name, getHistoricalPrice: fail, getCurrentPrice: fail, getATHPrice: fail };
+}
+
+const quietLogger = { warn: () => {} };
+
+describe('NansenPriceProvider', () => {
+  it('prices coins and tokens from observed Nansen data', async () => {
+    const observations = new PriceObservationIndex({ now: () => TEST_NOW });
+    observations.recordTransactions([
+      transaction({
+        block_timestamp: '2025-01-15T12:00:00Z',
+        tokens_sent: [tokenTransfer({ token_address: NATIVE_ETH, price_usd: 3300 })],
+        tokens_received: [tokenTransfer({ token_address: TOKEN_A, price_usd: 2 })],
+      }),
+    ]);
+    observations.recordBalances([tokenBalance({ token_address: NATIVE_ETH, price_usd: 3500 })]);
+    const nansen = new NansenPriceProvider(observations);
+
+    assert.equal(await nansen.getHistoricalPrice('ethereum', new Date('2025-01-15T00:00:00Z')), 3300);
+    assert.equal(await nansen.getHistoricalPrice(tokenKey('ethereum', TOKEN_A), new Date('2025-01-16T00:00:00Z')), 2);
+    assert.equal(await nansen.getHistoricalPrice('ethereum', new Date('2025-02-15T00:00:00Z')), 0);
+    assert.equal(await nansen.getCurrentPrice('ethereum'), 3500);
+    assert.equal(await nansen.getCurrentPrice('bitcoin'), 0);
+  });
+});
+
+describe('PriceService', () => {
+  it('falls back to the next provider when one has no price', async () => {
+    const service = new PriceService([provider('first', { ethereum: 3000 }), provider('second', { ethereum: 1, bitcoin: 90000 })]);
+
+    assert.deepEqual(await service.getCurrentPrice('ethereum'), { price: 3000, provider: 'first' });
+    assert.deepEqual(await service.getCurrentPrice('bitcoin'), { price: 90000, provider: 'second' });
+    assert.deepEqual(await service.getCurrentPrice('unknown'), { price: 0, provider: null });
+    assert.deepEqual(await service.getHistoricalPrice('bitcoin', new Date('2025-01-01')), { price: 90000, provider: 'second' });
+  });
+
+  it('skips a rate-limited provider and rethrows only when no provider had a price', async () => {
+    const limited = failing('limited', new RateLimitedError('CoinGecko'));
+    const service = new PriceService([limited, provider('backup', { ethereum: 3000 })], { logger: quietLogger });
+
+    assert.deepEqual(await service.getCurrentPrice('ethereum'), { price: 3000, provider: 'backup' });
+    await assert.rejects(service.getCurrentPrice('bitcoin'), RateLimitedError);
+    const broken = new PriceService([failing('broken', new Error('bad response'))], { logger: quietLogger });
+    assert.deepEqual(await broken.getHistoricalPrice('ethereum', new Date()), { price: 0, provider: null });
+  });
+
+  it('leaves a rate-limited provider out until its cooldown ends', async () => {
+    let now = TEST_NOW;
+    const limited = failing('limited', new RateLimitedError('CoinGecko', 30_000));
+    const call = mock.method(limited, 'getCurrentPrice');
+    const service = new PriceService([limited, provider('backup', { ethereum: 3000 })], {
+      logger: quietLogger,
+      health: { now: () => now },
+    });
+
+    await service.getCurrentPrice('ethereum');
+    await service.getCurrentPrice('ethereum');
+    assert.equal(call.mock.callCount(), 1);
+    assert.equal(service.getHealth()[0].status, 'cooling_down');
+
+    now = new Date(TEST_NOW.getTime() + 31_000);
+    await service.getCurrentPrice('ethereum');
+    assert.equal(call.mock.callCount(), 2);
+  });
+
+  it('asks a provider that keeps failing after the healthy ones', async () => {
+    const flaky = provider('flaky', { ethereum: 3100 });
+    let calls = 0;
+    mock.method(flaky, 'getCurrentPrice', async () => {
+      if (++calls % 2 === 1) {
+        throw new Error('bad response');
+      }
+      return 3100;
+    });
+    const service = new PriceService([flaky, provider('steady', { ethereum: 3000 })], {
+      logger: quietLogger,
+      health: { minCalls: 2 },
+    });
+
+    await service.getCurrentPrice('ethereum'); // flaky fails, steady answers
+    await service.getCurrentPrice('ethereum'); // flaky answers
+    await service.getCurrentPrice('ethereum'); // flaky fails again (1 of 3 calls succeeded), steady answers
+    assert.deepEqual(await service.getCurrentPrice('ethereum'), { price: 3000, provider: 'steady' });
+
+    const [flakyHealth, steadyHealth] = service.getHealth();
+    assert.equal(flakyHealth.status, 'degraded');
+    assert.equal(flakyHealth.methods.current?.calls, 3);
+    assert.equal(flakyHealth.methods.current?.lastError, 'bad response');
+    assert.equal(steadyHealth.status, 'healthy');
+    assert.equal(steadyHealth.methods.current?.prices, 3);
+  });
+
+  it('asks later providers only for the ATHs the earlier ones lacked', async () => {
+    const first = provider('first', {}, { [tokenKey('ethereum', TOKEN_A)]: 5 });
+    const batch = mock.fn(async (tokens: Array<{ chain: string; address: string }>) =>
+      new Map(tokens.map((token) => [tokenKey(token.chain, token.address), { athPrice: 7, athDate: null }]))
+    );
+    const second: PriceProvider = { ...provider('second', {}), batchGetATHPrices: batch };
+    const service = new PriceService([first, second]);
+
+    const prices = await service.batchGetATHPrices(
+      [{ chain: 'ethereum', address: TOKEN_A }, { chain: 'base', address: TOKEN_B }],
+      365
+    );
+
+    assert.deepEqual(prices.get(tokenKey('ethereum', TOKEN_A)), { athPrice: 5, athDate: new Date('2025-03-01'), provider: 'first' });
+    assert.equal(prices.get(tokenKey('base', TOKEN_B))?.provider, 'second');
+    assert.deepEqual(batch.mock.calls[0].arguments[0], [{ chain: 'base', address: TOKEN_B }]);
+  });
+
+  it('reads daily prices from the configured series', () => {
+    const service = new PriceService([], { dailyPrices: (asset) => (asset === 'eth' ? 3000 : null) });
+
+    assert.equal(service.getDailyPrice('eth', new Date('2025-01-01')), 3000);
+    assert.equal(service.getDailyPrice('btc', new Date('2025-01-01')), null);
+  });
+});
+
+describe('CoinGeckoPriceProvider', () => {
+  let dir: string;
+  let tokens: TokenMetadataResolver;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-coins-'));
+    tokens = new TokenMetadataResolver(path.join(dir, 'coin-list.json'));
+    tokens.save([{ id: 'token-a', symbol: 'tka', name: 'Token A', platforms: { 'arbitrum-one': TOKEN_A } }]);
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prices token contracts under their coin id from the coin list', async () => {
+    const coinGecko = new CoinGeckoService({ fixtures: false });
+    const current = mock.method(coinGecko, 'getCurrentPrice', async (coinId: string) => ({ [coinId]: { usd: 2 } }));
+    const provider = new CoinGeckoPriceProvider(coinGecko, tokens);
+
+    assert.equal(await provider.getCurrentPrice(tokenKey('arbitrum', TOKEN_A)), 2);
+    assert.equal(await provider.getCurrentPrice(tokenKey('base', TOKEN_A)), 0);
+    assert.deepEqual(current.mock.calls.map((call) => call.arguments[0]), ['token-a']);
+  });
+});
+
+describe('CoinMarketCapPriceProvider', () => {
+  let dir: string;
+  let tokens: TokenMetadataResolver;
+  let coinMarketCap: CoinMarketCapService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-coins-'));
+    tokens = new TokenMetadataResolver(path.join(dir, 'coin-list.json'));
+    tokens.save([
+      { id: 'weth', symbol: 'weth', name: 'WETH', platforms: { ethereum: WETH } },
+      { id: 'uniswap', symbol: 'uni', name: 'Uniswap', platforms: { ethereum: TOKEN_A } },
+      { id: 'unicorn', symbol: 'uni', name: 'Unicorn', platforms: { base: TOKEN_B } },
+    ]);
+    coinMarketCap = new CoinMarketCapService({ apiKey: 'test-key', fixtures: false });
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('takes the ATH from the highest daily quote of a known token', async () => {
+    const quotes = mock.method(coinMarketCap, 'getHistoricalQuotes', async () => [
+      { timestamp: new Date('2025-01-01T00:00:00Z'), price: 3000 },
+      { timestamp: new Date('2025-03-01T00:00:00Z'), price: 4100 },
+      { timestamp: new Date('2025-06-01T00:00:00Z'), price: 2500 },
+    ]);
+    const range = { from: '2025-01-01T00:00:00Z', to: '2025-12-31T00:00:00Z' };
+
+    const ath = await new CoinMarketCapPriceProvider(coinMarketCap, tokens).getATHPrice('ethereum', WETH, range);
+
+    assert.deepEqual(ath, { athPrice: 4100, athDate: new Date('2025-03-01T00:00:00Z') });
+    assert.deepEqual(quotes.mock.calls[0].arguments, ['WETH', range, 'daily']);
+  });
+
+  it('prices a date from the nearest hourly quote of its day', async () => {
+    const quotes = mock.method(coinMarketCap, 'getHistoricalQuotes', async () => [
+      { timestamp: new Date('2025-03-01T00:00:00Z'), price: 2000 },
+      { timestamp: new Date('2025-03-01T14:00:00Z'), price: 2100 },
+      { timestamp: new Date('2025-03-01T15:00:00Z'), price: 2200 },
+    ]);
+
+    const provider = new CoinMarketCapPriceProvider(coinMarketCap, tokens);
+    const price = await provider.getHistoricalPrice('weth', new Date('2025-03-01T14:20:00Z'));
+
+    assert.equal(price, 2100);
+    assert.deepEqual(quotes.mock.calls[0].arguments, [
+      'WETH',
+      { from: '2025-03-01T00:00:00.000Z', to: '2025-03-02T00:00:00.000Z' },
+      'hourly',
+    ]);
+  });
+
+  it('has no ATH for tokens it cannot map to a symbol', async () => {
+    const quotes = mock.method(coinMarketCap, 'getHistoricalQuotes', async () => []);
+
+    const ath = await new CoinMarketCapPriceProvider(coinMarketCap, tokens).getATHPrice('base', WETH, 365);
+
+    assert.deepEqual(ath, { athPrice: 0, athDate: null });
+    assert.equal(quotes.mock.callCount(), 0);
+  });
+
+  it('skips coins whose symbol other coins share', async () => {
+    const quotes = mock.method(coinMarketCap, 'getHistoricalQuotes', async () => []);
+    const current = mock.method(coinMarketCap, 'getCurrentPrice', async () => 5);
+    const provider = new CoinMarketCapPriceProvider(coinMarketCap, tokens);
+
+    assert.deepEqual(await provider.getATHPrice('ethereum', TOKEN_A, 365), { athPrice: 0, athDate: null });
+    assert.equal(await provider.getCurrentPrice('uniswap'), 0);
+    assert.equal(await provider.getCurrentPrice('ethereum'), 5);
+    assert.equal(quotes.mock.callCount(), 0);
+    assert.deepEqual(current.mock.calls.map((call) => call.arguments[0]), ['ETH']);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePriceSeriesId, priceSeriesKey, PriceStore } from '../services/priceStore.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const JAN_1 = Date.parse('2025-01-01T00:00:00Z');
+
+let dir: string;
+
+function day(n: number): Date {
+  return new Date(JAN_1 + (n - 1) * DAY);
+}
+
+describe('PriceStore', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-prices-'));
+    mock.method(console, 'log', () => {});
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the date-keyed format and writes the compact one', () => {
+    fs.writeFileSync(path.join(dir, 'eth-prices.json'), JSON.stringify({ '2025-01-01': 3000, '2025-01-03': 3200 }));
+
+    const store = new PriceStore(dir);
+    assert.equal(store.getPrice('eth', new Date('2025-01-03T18:00:00Z')), 3200);
+    store.save('eth');
+
+    assert.deepEqual(JSON.parse(fs.readFileSync(path.join(dir, 'eth-prices.json'), 'utf-8')), {
+      version: 1,
+      series: 'eth',
+      granularity: 'daily',
+      start: JAN_1 / 1000,
+      step: 86400,
+      prices: [3000, null, 3200],
+    });
+    assert.equal(new PriceStore(dir).size('eth'), 2);
+  });
+
+  it('interpolates missing days from the nearest known ones', () => {
+    const store = new PriceStore(dir);
+    store.merge('btc', [
+      [day(1).getTime(), 100],
+      [day(5).getTime(), 200],
+    ]);
+
+    assert.equal(store.getPrice('btc', day(2)), 125);
+    assert.equal(store.has('btc', day(2)), false);
+    // Past the end, the last price holds for up to a week
+    assert.equal(store.getPrice('btc', day(12)), 200);
+    assert.equal(store.getPrice('btc', day(13)), null);
+  });
+
+  it('keeps the last sample of each bucket and never overwrites known prices', () => {
+    const store = new PriceStore(dir);
+    assert.equal(store.merge('sol', [[JAN_1 + 5000, 2], [JAN_1 + 1000, 1], [day(2).getTime(), 5]]), 2);
+    assert.equal(store.merge('sol', [[JAN_1 + 9000, 50]]), 0);
+    assert.equal(store.merge('sol', [[JAN_1 + 3600_000, 10], [JAN_1 + 7200_000, 12]], 'hourly'), 2);
+
+    assert.equal(store.getPrice('sol', new Date(JAN_1)), 2);
+    assert.equal(store.getPrice('sol', new Date(JAN_1 + 7200_000), 'hourly'), 12);
+    assert.equal(store.size('sol'), 2);
+  });
+
+  it('fetches only the missing stretches when syncing', async () => {
+    const store = new PriceStore(dir);
+    store.merge('eth', [[day(3).getTime(), 3]]);
+    const requested: string[] = [];
+
+    const result = await store.sync('eth', { from: day(1), to: day(5) }, async (_id, range) => {
+      requested.push(`${range.from}..${range.to}`);
+      const samples: Array<[number, number]> = [];
+      for (let t = Date.parse(range.from); t <= Date.parse(range.to); t += DAY) samples.push([t, 1]);
+      return samples;
+    });
+
+    assert.deepEqual(requested, [
+      '2025-01-01T00:00:00.000Z..2025-01-02T23:59:59.999Z',
+      '2025-01-04T00:00:00.000Z..2025-01-05T23:59:59.999Z',
+    ]);
+    assert.deepEqual(result, { series: 'eth', requests: 2, filled: 4, missing: 0 });
+    assert.equal(new PriceStore(dir).size('eth'), 5);
+  });
+
+  it('keys token contracts by chain and address', () => {
+    const id = parsePriceSeriesId('Ethereum:0xA0b8');
+
+    assert.deepEqual(id, { chain: 'Ethereum', address: '0xA0b8' });
+    assert.equal(priceSeriesKey(id), 'ethereum-0xa0b8');
+    assert.throws(() => priceSeriesKey('../eth'), /Invalid price series: \.\.\/eth/);
+  });
+});
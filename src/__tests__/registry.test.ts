@@ -0,0 +1,41 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, createTestContext } from './helpers';
+import { AnalysisContext } from '../context';
+import { getFunFactModules, runFunFact, runFunFacts } from '../features/registry';
+import { RateLimitedError } from '../utils/errors';
+
+let ctx: AnalysisContext;
+const [pnl] = getFunFactModules(['pnl']);
+
+describe('runFunFact', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('returns the fallback when the analyzer throws', async () => {
+    const errors: unknown[] = [];
+    mock.method(pnl, 'analyze', async () => {
+      throw new Error('bad data');
+    });
+
+    const result = await runFunFact(ctx, pnl, WALLET, (_module, error) => errors.push(error));
+
+    assert.deepEqual(result, pnl.fallback());
+    assert.equal(errors.length, 1);
+  });
+
+  it('rethrows upstream errors instead of falling back', async () => {
+    const errors: unknown[] = [];
+    mock.method(pnl, 'analyze', async () => {
+      throw new RateLimitedError('Nansen', 30000);
+    });
+
+    await assert.rejects(
+      runFunFacts(ctx, [pnl], WALLET, (_module, error) => errors.push(error)),
+      RateLimitedError
+    );
+    assert.equal(errors.length, 0);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WALLET } from './helpers';
+import { RequestCache } from '../services/requestCache.service';
+
+const ENDPOINT = '/api/v1/profiler/address/labels';
+
+let dir: string;
+let now: Date;
+
+/**
+ * A fetch function that answers `{ call: n }` and counts its calls
+ */
+function counter(): (() => Promise<{ call: number }>) & { calls: number } {
+  const fetch = Object.assign(async () => ({ call: ++fetch.calls }), { calls: 0 });
+  return fetch;
+}
+
+describe('RequestCache', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-requests-'));
+    now = new Date('2026-01-01T10:15:00Z');
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('keys requests regardless of property order, undefined fields and time within the hour', () => {
+    const cache = new RequestCache();
+    const key = cache.buildKey(ENDPOINT, { address: WALLET, date: { from: '2025-01-01T10:00:00Z', to: '2026-01-01T10:00:00Z' } });
+
+    assert.equal(
+      cache.buildKey(ENDPOINT, { chain: undefined, date: { to: '2026-01-01T10:59:59.999Z', from: '2025-01-01T10:30:00Z' }, address: WALLET }),
+      key
+    );
+    assert.notEqual(cache.buildKey(ENDPOINT, { address: WALLET, date: { from: '2025-01-01T11:00:00Z', to: '2026-01-01T10:00:00Z' } }), key);
+    assert.equal(
+      new RequestCache({ datePrecision: 'day' }).buildKey(ENDPOINT, { from: '2025-01-01T23:59:00Z' }),
+      `${ENDPOINT}:{"from":"2025-01-01"}`
+    );
+  });
+
+  it('serves responses until their TTL passes', async () => {
+    const cache = new RequestCache({ ttls: { [ENDPOINT]: 60_000 }, defaultTtlMs: 0, now: () => now });
+    const fetch = counter();
+
+    await cache.getOrFetch(ENDPOINT, { address: WALLET }, fetch);
+    assert.deepEqual(await cache.getOrFetch(ENDPOINT, { address: WALLET }, fetch), { call: 1 });
+
+    now = new Date(now.getTime() + 60_000);
+    assert.deepEqual(await cache.getOrFetch(ENDPOINT, { address: WALLET }, fetch), { call: 2 });
+
+    // A zero TTL bypasses the cache
+    await cache.getOrFetch('/other', {}, fetch);
+    await cache.getOrFetch('/other', {}, fetch);
+    assert.equal(fetch.calls, 4);
+  });
+
+  it('coalesces identical requests in flight and does not keep failures', async () => {
+    const cache = new RequestCache({ now: () => now });
+    const fetch = counter();
+
+    const results = await Promise.all([
+      cache.getOrFetch(ENDPOINT, { address: WALLET }, fetch),
+      cache.getOrFetch(ENDPOINT, { address: WALLET }, fetch),
+    ]);
+
+    assert.deepEqual(results, [{ call: 1 }, { call: 1 }]);
+    assert.equal(fetch.calls, 1);
+    assert.equal(cache.getStats().coalesced, 1);
+
+    const failing = async (): Promise<never> => {
+      throw new Error('boom');
+    };
+    await assert.rejects(cache.getOrFetch(ENDPOINT, { address: '0x0' }, failing), /boom/);
+    assert.deepEqual(await cache.getOrFetch(ENDPOINT, { address: '0x0' }, fetch), { call: 2 });
+  });
+
+  it('returns copies, so callers cannot change cached responses', async () => {
+    const cache = new RequestCache({ now: () => now });
+    const fetch = counter();
+
+    const first = await cache.getOrFetch(ENDPOINT, {}, fetch);
+    first.call = 99;
+    const second = await cache.getOrFetch(ENDPOINT, {}, fetch);
+    second.call = 42;
+
+    assert.deepEqual(await cache.getOrFetch(ENDPOINT, {}, fetch), { call: 1 });
+  });
+
+  it('keeps at most maxEntries in memory, dropping the least recently used', async () => {
+    const cache = new RequestCache({ maxEntries: 2, now: () => now });
+    const fetch = counter();
+
+    await cache.getOrFetch(ENDPOINT, { n: 1 }, fetch);
+    await cache.getOrFetch(ENDPOINT, { n: 2 }, fetch);
+    await cache.getOrFetch(ENDPOINT, { n: 1 }, fetch); // n: 2 is now the oldest
+    await cache.getOrFetch(ENDPOINT, { n: 3 }, fetch);
+
+    assert.equal(cache.getStats().size, 2);
+    assert.deepEqual(await cache.getOrFetch(ENDPOINT, { n: 1 }, fetch), { call: 1 });
+    assert.deepEqual(await cache.getOrFetch(ENDPOINT, { n: 2 }, fetch), { call: 4 });
+  });
+
+  it('reuses persisted responses across instances until they expire', async () => {
+    const fetch = counter();
+    await new RequestCache({ persistDir: dir, now: () => now }).getOrFetch(ENDPOINT, { address: WALLET }, fetch);
+
+    const reopened = new RequestCache({ persistDir: dir, now: () => now });
+    assert.deepEqual(await reopened.getOrFetch(ENDPOINT, { address: WALLET }, fetch), { call: 1 });
+    assert.equal(fs.readdirSync(dir).length, 1);
+
+    now = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+    const later = new RequestCache({ persistDir: dir, now: () => now });
+    assert.deepEqual(await later.getOrFetch(ENDPOINT, { address: WALLET }, fetch), { call: 2 });
+
+    later.clear();
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+});
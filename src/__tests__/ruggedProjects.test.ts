@@ -0,0 +1,332 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  NATIVE_ETH,
+  TEST_NOW,
+  WALLET,
+  balanceResponse,
+  createTestContext,
+  tokenBalance,
+  tokenTransfer,
+  transaction,
+  transactionsByChain,
+} from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeRuggedProjects } from '../features/ruggedProjects';
+import { CircuitOpenError } from '../utils/errors';
+import { TokenBalance, Transaction, TransactionsRequest } from '../types';
+
+let ctx: AnalysisContext;
+
+const RUG = '0x1111111111111111111111111111111111111111';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const POLYGON_POL = '0x0000000000000000000000000000000000001010';
+const LONG_AGO = '2025-01-15T12:00:00Z';
+
+function usdc(amount: number) {
+  return tokenTransfer({ token_address: USDC, token_symbol: 'USDC', token_amount: amount, value_usd: amount });
+}
+
+/**
+ * One purchase of `bought` tokens for `invested` USDC
+ */
+function buy(bought: number, invested: number, overrides: Partial<Transaction> = {}): Transaction {
+  return transaction({
+    block_timestamp: LONG_AGO,
+    volume_usd: invested,
+    tokens_sent: [usdc(invested)],
+    tokens_received: [tokenTransfer({ token_address: RUG, token_amount: bought })],
+    ...overrides,
+  });
+}
+
+function sell(sold: number): Transaction {
+  return transaction({
+    block_timestamp: LONG_AGO,
+    tokens_sent: [tokenTransfer({ token_address: RUG, token_amount: sold })],
+    tokens_received: [usdc(1)],
+  });
+}
+
+function setup(holdings: TokenBalance[], ethereumTxs: Transaction[]): void {
+  mock.method(ctx.nansen, 'getCurrentBalance', async () => balanceResponse(holdings));
+  mock.method(ctx.nansen, 'getAllTransactions', transactionsByChain({ ethereum: ethereumTxs }));
+}
+
+describe('analyzeRuggedProjects', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('flags a dead token the wallet still fully holds with HIGH confidence', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, token_symbol: 'RUG', token_amount: 1000, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.ruggedCount, 1);
+    const [token] = result.data!.ruggedTokens;
+    assert.equal(token.symbol, 'RUG');
+    assert.equal(token.confidence, 'HIGH');
+    assert.equal(token.amountInvested, 1000);
+    assert.equal(token.lossAmount, -990);
+    assert.equal(token.lossPercent, -99);
+    assert.equal(result.data?.totalLoss, -990);
+  });
+
+  it('rates a still-priced token the wallet holds as MEDIUM', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 1000, value_usd: 50, price_usd: 0.05 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedTokens[0].confidence, 'MEDIUM');
+  });
+
+  it('skips a position at exactly 50% held (treated as an exit)', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 500, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+    assert.equal(result.fallback, 'No rugged projects detected—clear skies ahead');
+  });
+
+  it('does not count exactly 80% held as "still holds most"', async () => {
+    // 80% held, dead price: loss + age + dead = MEDIUM rather than HIGH
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 800, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedTokens[0].confidence, 'MEDIUM');
+  });
+
+  it('ignores an 80% held token that still has a price', async () => {
+    // Only loss + age: LOW confidence is not reported
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 800, value_usd: 50, price_usd: 0.05 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('measures holdings against the net position after sales', async () => {
+    // Bought 1000, sold 600: holding 390 of a 400 net position is 97.5%
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 390, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000), sell(600)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedTokens[0].confidence, 'HIGH');
+    // Only the cost of the 400 tokens left counts as invested
+    assert.equal(result.data?.ruggedTokens[0].amountInvested, 400);
+  });
+
+  it('charges a purchase once when it bought several tokens', async () => {
+    const other = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 1000, value_usd: 10, price_usd: 0.000001 })],
+      [
+        buy(1000, 2000, {
+          tokens_received: [
+            tokenTransfer({ token_address: RUG, token_amount: 1000, value_usd: 1500 }),
+            tokenTransfer({ token_address: other, token_amount: 10, value_usd: 500 }),
+          ],
+        }),
+      ]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedTokens[0].amountInvested, 1500);
+  });
+
+  it('does not treat tokens received for nothing as an investment', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 1000, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000, { tokens_sent: [] })]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('skips positions that were sold completely', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 0, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000), sell(1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('skips investments under $100, dust positions and losses under 90%', async () => {
+    const a = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    const b = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+    const c = '0xcccccccccccccccccccccccccccccccccccccccc';
+    setup(
+      [
+        tokenBalance({ token_address: a, token_amount: 100, value_usd: 10, price_usd: 0.000001 }),
+        tokenBalance({ token_address: b, token_amount: 100, value_usd: 5, price_usd: 0.000001 }),
+        tokenBalance({ token_address: c, token_amount: 100, value_usd: 500, price_usd: 5 }),
+      ],
+      [
+        buy(100, 99, { tokens_received: [tokenTransfer({ token_address: a, token_amount: 100 })] }),
+        buy(100, 1000, { tokens_received: [tokenTransfer({ token_address: b, token_amount: 100 })] }),
+        buy(100, 1000, { tokens_received: [tokenTransfer({ token_address: c, token_amount: 100 })] }),
+      ]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('skips purchases made in the last 30 days', async () => {
+    const recent = new Date(TEST_NOW.getTime() - 5 * 86_400_000).toISOString();
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 1000, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000, { block_timestamp: recent })]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('measures purchase age from the as-of date', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, token_amount: 1000, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET, { asOf: new Date('2025-01-20T00:00:00Z') });
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('never flags native tokens', async () => {
+    mock.method(ctx.nansen, 'getCurrentBalance', async () =>
+      balanceResponse([
+        tokenBalance({ token_address: NATIVE_ETH, token_amount: 1, value_usd: 10, price_usd: 0.000001 }),
+        tokenBalance({ token_address: POLYGON_POL, chain: 'polygon', token_amount: 1, value_usd: 10, price_usd: 0.000001 }),
+      ])
+    );
+    mock.method(
+      ctx.nansen,
+      'getAllTransactions',
+      transactionsByChain({
+        ethereum: [buy(1, 1000, { tokens_received: [tokenTransfer({ token_address: NATIVE_ETH, token_amount: 1 })] })],
+        polygon: [
+          buy(1, 1000, { chain: 'polygon', tokens_received: [tokenTransfer({ token_address: POLYGON_POL, token_amount: 1 })] }),
+        ],
+      })
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('matches purchases on the same chain only', async () => {
+    setup(
+      [tokenBalance({ token_address: RUG, chain: 'base', token_amount: 1000, value_usd: 10, price_usd: 0.000001 })],
+      [buy(1000, 1000)]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('sorts rugged tokens by the largest loss first', async () => {
+    const small = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    const large = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+    setup(
+      [
+        tokenBalance({ token_address: small, token_symbol: 'SMALL', token_amount: 100, value_usd: 10, price_usd: 0.000001 }),
+        tokenBalance({ token_address: large, token_symbol: 'LARGE', token_amount: 100, value_usd: 10, price_usd: 0.000001 }),
+      ],
+      [
+        buy(100, 500, { tokens_received: [tokenTransfer({ token_address: small, token_amount: 100 })] }),
+        buy(100, 5000, { tokens_received: [tokenTransfer({ token_address: large, token_amount: 100 })] }),
+      ]
+    );
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.deepEqual(
+      result.data?.ruggedTokens.map((token) => token.symbol),
+      ['LARGE', 'SMALL']
+    );
+    assert.equal(result.data?.totalLoss, -5480);
+  });
+
+  it('returns a clean result for an empty wallet', async () => {
+    setup([], []);
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.ruggedCount, 0);
+  });
+
+  it('tolerates one chain failing', async () => {
+    mock.method(ctx.nansen, 'getCurrentBalance', async () =>
+      balanceResponse([tokenBalance({ token_address: RUG, token_amount: 1000, value_usd: 10, price_usd: 0.000001 })])
+    );
+    const fetchChain = transactionsByChain({ ethereum: [buy(1000, 1000)] });
+    mock.method(ctx.nansen, 'getAllTransactions', async (request: TransactionsRequest) => {
+      if (request.chain === 'polygon') {
+        throw new Error('bad chain');
+      }
+      return fetchChain(request);
+    });
+
+    const result = await analyzeRuggedProjects(ctx, WALLET);
+
+    assert.equal(result.data?.ruggedCount, 1);
+  });
+
+  it('only fetches Solana history for a Solana wallet', async () => {
+    const chains: string[] = [];
+    mock.method(ctx.nansen, 'getCurrentBalance', async () => balanceResponse([tokenBalance({ chain: 'solana' })]));
+    mock.method(ctx.nansen, 'getAllTransactions', async (request: TransactionsRequest) => {
+      chains.push(request.chain);
+      return transactionsByChain({})(request);
+    });
+
+    await analyzeRuggedProjects(ctx, 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+
+    assert.deepEqual(chains, ['solana']);
+  });
+
+  it('rethrows upstream errors from any chain', async () => {
+    mock.method(ctx.nansen, 'getCurrentBalance', async () => balanceResponse([tokenBalance()]));
+    mock.method(ctx.nansen, 'getAllTransactions', async () => {
+      throw new CircuitOpenError('Nansen', Date.now() + 1000);
+    });
+
+    await assert.rejects(analyzeRuggedProjects(ctx, WALLET), CircuitOpenError);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TEST_NOW, WALLET } from './helpers';
+import { reportsToCsv, reportsToJson, reportsToMarkdown } from '../report/serializers';
+import { WalletReport } from '../types';
+
+const OTHER = '0x1111111111111111111111111111111111111111';
+const SOLANA = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const REPORT: WalletReport = {
+  address: WALLET,
+  name: 'binance.eth',
+  analyzedAt: '2026-01-01T00:00:00.000Z',
+  facts: [
+    {
+      id: 'pnl',
+      title: 'P&L',
+      success: true,
+      summary: 'Up 15.0% ($1,500), "nice"',
+      window: { from: '2025-01-01T00:00:00.000Z', to: '2026-01-01T00:00:00.000Z' },
+      sampleSize: 12,
+      result: { type: 'pnl', success: true, data: { realized_pnl_usd: 1500, realized_pnl_percent: 15, status: 'GAIN', timeframe: 'in the past year' } },
+    },
+    {
+      id: 'labels',
+      title: 'Labels',
+      success: false,
+      summary: '=HYPERLINK("http://evil.example")',
+      error: '-1 | broken',
+      result: { type: 'labels', success: false, fallback: 'No labels yet' },
+    },
+  ],
+};
+
+describe('reportsToJson', () => {
+  it('writes one report as an object and several as an array', () => {
+    const single = reportsToJson([REPORT]);
+
+    assert.ok(single.endsWith('}\n'));
+    assert.deepEqual(JSON.parse(single), REPORT);
+    assert.equal(single.split('\n')[1], `  "address": "${WALLET}",`);
+    assert.deepEqual(JSON.parse(reportsToJson([REPORT, REPORT])), [REPORT, REPORT]);
+  });
+});
+
+describe('reportsToCsv', () => {
+  it('writes one quoted row per fact and defuses formulas', () => {
+    const other: WalletReport = { ...REPORT, address: OTHER, name: undefined, facts: [{ ...REPORT.facts[0], summary: '@SUM(A1)' }] };
+
+    assert.equal(
+      reportsToCsv([REPORT, other]),
+      [
+        'address,name,group,analyzed_at,fact_id,title,success,summary,window_from,window_to,sample_size,error',
+        `${WALLET},binance.eth,,2026-01-01T00:00:00.000Z,pnl,P&L,true,"Up 15.0% ($1,500), ""nice""",2025-01-01T00:00:00.000Z,2026-01-01T00:00:00.000Z,12,`,
+        `${WALLET},binance.eth,,2026-01-01T00:00:00.000Z,labels,Labels,false,"'=HYPERLINK(""http://evil.example"")",,,,'-1 | broken`,
+        `${OTHER},,,2026-01-01T00:00:00.000Z,pnl,P&L,true,'@SUM(A1),2025-01-01T00:00:00.000Z,2026-01-01T00:00:00.000Z,12,`,
+        '',
+      ].join('\n')
+    );
+  });
+
+  it("tags a wallet group's member rows with the group", () => {
+    const member: WalletReport = { ...REPORT, address: OTHER, facts: [REPORT.facts[0]] };
+    const group: WalletReport = { ...REPORT, address: `${WALLET}+${OTHER}`, facts: [REPORT.facts[0]], wallets: [member] };
+
+    const rows = reportsToCsv([group]).split('\n');
+
+    assert.equal(rows.length, 4);
+    assert.ok(rows[2].startsWith(`${OTHER},binance.eth,${WALLET}+${OTHER},`));
+  });
+});
+
+describe('reportsToMarkdown', () => {
+  it('writes a table per wallet with errors listed below it', () => {
+    assert.equal(
+      reportsToMarkdown([REPORT], TEST_NOW),
+      [
+        '# Fun Facts Report',
+        '',
+        'Generated: 2026-01-01T00:00:00.000Z',
+        '',
+        `## Wallet binance.eth (\`${WALLET}\`)`,
+        '',
+        'Analyzed: 2026-01-01T00:00:00.000Z',
+        '',
+        '| Fun Fact | Result | Window | Sample Size |',
+        '|----------|--------|--------|-------------|',
+        '| P&L | Up 15.0% ($1,500), "nice" | 2025-01-01 → 2026-01-01 | 12 |',
+        '| Labels | =HYPERLINK("http://evil.example") ⚠️ | current | — |',
+        '',
+        '**Errors**:',
+        '- Labels: -1 | broken',
+        '',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('adds an overview table for several wallets', () => {
+    const other: WalletReport = { ...REPORT, address: OTHER, name: 'a|b', facts: [REPORT.facts[0], { ...REPORT.facts[1], error: undefined }] };
+
+    const markdown = reportsToMarkdown([REPORT, other], TEST_NOW);
+
+    assert.ok(markdown.includes('Total Wallets: 2\n\n## Overview\n\n| # | Wallet | P&L | Labels | Errors |\n|---|--------|---|---|--------|\n'));
+    assert.ok(markdown.includes(`| 2 | a\\|b (\`${OTHER}\`) | Up 15.0% ($1,500), "nice" | =HYPERLINK("http://evil.example") | ✅ |\n`));
+  });
+
+  it('lines up the overview by fact id when wallets ran different facts', () => {
+    const pnl = REPORT.facts[0];
+    const evm: WalletReport = {
+      ...REPORT,
+      name: undefined,
+      facts: [pnl, { id: 'eth_benchmark', title: 'ETH Benchmark', success: true, summary: 'Beat ETH by 5%', result: pnl.result }],
+    };
+    const solana: WalletReport = {
+      ...REPORT,
+      address: SOLANA,
+      name: undefined,
+      facts: [{ id: 'biggest_bag', title: 'Biggest Bag', success: true, summary: 'JUP', result: pnl.result }, { ...pnl, summary: 'Down 2.0%' }],
+    };
+
+    const overview = reportsToMarkdown([evm, solana], TEST_NOW).split('## Wallet')[0];
+
+    assert.equal(
+      overview,
+      [
+        '# Fun Facts Report',
+        '',
+        'Generated: 2026-01-01T00:00:00.000Z',
+        '',
+        'Total Wallets: 2',
+        '',
+        '## Overview',
+        '',
+        '| # | Wallet | P&L | ETH Benchmark | Biggest Bag | Errors |',
+        '|---|--------|---|---|---|--------|',
+        `| 1 | \`${WALLET}\` | Up 15.0% ($1,500), "nice" | Beat ETH by 5% | — | ✅ |`,
+        `| 2 | \`${SOLANA}\` | Down 2.0% | — | JUP | ✅ |`,
+        '',
+        '',
+      ].join('\n')
+    );
+  });
+});
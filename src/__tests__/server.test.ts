@@ -0,0 +1,102 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WALLET, createTestContext, pnlSummary, staticNameResolver } from './helpers';
+import { AnalysisContext } from '../context';
+import { createRequestHandler } from '../server';
+import { RateLimitedError, UpstreamUnavailableError } from '../utils/errors';
+
+let ctx: AnalysisContext;
+let server: http.Server;
+let baseUrl: string;
+
+async function get(path: string, method = 'GET'): Promise<{ status: number; headers: Headers; body: any }> {
+  const response = await fetch(baseUrl + path, { method });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+describe('HTTP API', () => {
+  before(async () => {
+    // A handler per request, so each test can swap in its own context
+    server = http.createServer((req, res) => createRequestHandler({ context: ctx, enabledFacts: ['pnl'] })(req, res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    ctx = createTestContext({ names: staticNameResolver({ 'vitalik.eth': WALLET }) });
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('answers health checks and rejects other methods and routes', async () => {
+    assert.deepEqual((await get('/health')).body, { status: 'ok' });
+    assert.equal((await get('/health', 'POST')).status, 405);
+    assert.equal((await get('/wallets')).status, 404);
+  });
+
+  it('serves the enabled facts for an address or a name', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => pnlSummary({ realized_pnl_percent: 0.1, realized_pnl_usd: 100 }));
+
+    const byName = await get('/wallets/vitalik.eth/fun-facts');
+    const single = await get(`/wallets/${WALLET}/fun-facts/pnl`);
+
+    assert.equal(byName.status, 200);
+    assert.equal(byName.body.address, WALLET);
+    assert.equal(byName.body.name, 'vitalik.eth');
+    assert.equal(byName.body.results.length, 1);
+    assert.equal(single.body.data.realized_pnl_usd, 100);
+  });
+
+  it('rejects malformed input with 400', async () => {
+    assert.equal((await get('/wallets/%E0%A4%A/fun-facts')).status, 400);
+    assert.equal((await get('/wallets/0x123/fun-facts')).status, 400);
+    assert.equal((await get(`/wallets/${WALLET}/fun-facts?asOf=yesterday`)).status, 400);
+  });
+
+  it('gives 404 for unregistered names and unknown facts', async () => {
+    const unregistered = await get('/wallets/nobody.eth/fun-facts');
+
+    assert.equal(unregistered.status, 404);
+    assert.match(unregistered.body.error, /No address found for nobody\.eth/);
+    assert.equal((await get(`/wallets/${WALLET}/fun-facts/horoscope`)).status, 404);
+  });
+
+  it('gives 502 when the name service fails', async () => {
+    ctx = createTestContext({
+      names: {
+        resolve: async () => {
+          throw new Error('ENS lookup failed: execution reverted');
+        },
+      },
+    });
+
+    const response = await get('/wallets/vitalik.eth/fun-facts');
+
+    assert.equal(response.status, 502);
+    assert.match(response.body.error, /ENS lookup failed/);
+  });
+
+  it('passes a provider rate limit on as 429 with Retry-After', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => {
+      throw new RateLimitedError('Nansen', 30000);
+    });
+
+    const response = await get(`/wallets/${WALLET}/fun-facts/pnl`);
+
+    assert.equal(response.status, 429);
+    assert.equal(response.headers.get('retry-after'), '30');
+  });
+
+  it('gives 503 when a provider is down instead of fallback results', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => {
+      throw new UpstreamUnavailableError('Nansen', 'Nansen unavailable after 4 attempts', 502);
+    });
+
+    const response = await get(`/wallets/${WALLET}/fun-facts`);
+
+    assert.equal(response.status, 503);
+    assert.match(response.body.error, /Nansen unavailable/);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, createTestContext } from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeSmartMoney } from '../features/smartMoney';
+
+let ctx: AnalysisContext;
+
+function withLabels(...labels: string[]): void {
+  mock.method(ctx.nansen, 'getLabels', async () => labels.map((label) => ({ label })));
+}
+
+describe('analyzeSmartMoney', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('collects every smart money label, case-insensitively', async () => {
+    withLabels('Staker', 'smart money', 'Fund', 'Dex Trader');
+
+    const result = await analyzeSmartMoney(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.data, { isSmartMoney: true, labels: ['smart money', 'Fund'] });
+  });
+
+  it('does not treat partial matches as smart money', async () => {
+    withLabels('Smart Fund', 'Memecoin Whale', '30D Smart Money');
+
+    const result = await analyzeSmartMoney(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, null);
+  });
+
+  it('fails when the wallet has no labels', async () => {
+    withLabels();
+
+    const result = await analyzeSmartMoney(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('fails quietly on unexpected errors', async () => {
+    mock.method(ctx.nansen, 'getLabels', async () => {
+      throw new Error('bad response');
+    });
+
+    const result = await analyzeSmartMoney(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+});
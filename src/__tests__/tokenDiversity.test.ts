@@ -0,0 +1,92 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, balanceResponse, createTestContext, tokenBalance } from './helpers';
+import { AnalysisContext } from '../context';
+import { DEFAULT_CONFIG, DEFAULT_THRESHOLDS } from '../config';
+import { analyzeTokenDiversity } from '../features/tokenDiversity';
+
+let ctx: AnalysisContext;
+
+/**
+ * Holdings sorted by value: the top 3 worth `top3Share` of the total, the rest split evenly
+ */
+function withPortfolio(count: number, top3Share: number): void {
+  const total = 10_000;
+  const topValue = (total * top3Share) / Math.min(3, count);
+  const restValue = count > 3 ? (total * (1 - top3Share)) / (count - 3) : 0;
+  const holdings = Array.from({ length: count }, (_, i) => tokenBalance({ value_usd: i < 3 ? topValue : restValue }));
+
+  mock.method(ctx.nansen, 'getAllCurrentBalances', async () => balanceResponse(holdings));
+}
+
+describe('analyzeTokenDiversity', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('rates 15+ tokens with under 50% in the top 3 as HIGH', async () => {
+    withPortfolio(20, 0.3);
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.uniqueTokens, 20);
+    assert.ok(Math.abs(result.data!.totalValueUsd - 10_000) < 1e-6);
+    assert.ok(Math.abs(result.data!.top3Concentration - 30) < 1e-9);
+    assert.equal(result.data?.diversityScore, 'HIGH');
+  });
+
+  it('rates exactly 50% in the top 3 as MEDIUM', async () => {
+    withPortfolio(20, 0.5);
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.data?.diversityScore, 'MEDIUM');
+  });
+
+  it('rates 14 well-spread tokens as MEDIUM', async () => {
+    withPortfolio(14, 0.3);
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.data?.diversityScore, 'MEDIUM');
+  });
+
+  it('rates exactly 75% in the top 3 as LOW', async () => {
+    withPortfolio(10, 0.75);
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.data?.diversityScore, 'LOW');
+  });
+
+  it('rates fewer than 5 tokens as LOW', async () => {
+    withPortfolio(4, 0.3);
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.data?.diversityScore, 'LOW');
+  });
+
+  it('uses the cutoffs from the config', async () => {
+    const tokenDiversity = { ...DEFAULT_THRESHOLDS.tokenDiversity, highMinTokens: 10, highMaxTop3Percent: 60 };
+    ctx = createTestContext({
+      config: { ...DEFAULT_CONFIG, thresholds: { ...DEFAULT_THRESHOLDS, tokenDiversity } },
+    });
+    withPortfolio(12, 0.55);
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.data?.diversityScore, 'HIGH');
+  });
+
+  it('falls back for an empty wallet', async () => {
+    mock.method(ctx.nansen, 'getAllCurrentBalances', async () => balanceResponse([]));
+
+    const result = await analyzeTokenDiversity(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, 'No significant holdings found');
+  });
+});
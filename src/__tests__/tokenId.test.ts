@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  coinGeckoPlatformOf,
+  isNativeToken,
+  nativeAssetOf,
+  normalizeChain,
+  sameToken,
+  tokenKey,
+} from '../utils/tokenId';
+
+const USDC = '0xA0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+describe('tokenId', () => {
+  it('normalizes chain spellings to one slug', () => {
+    assert.equal(normalizeChain('BSC'), 'bnb');
+    assert.equal(normalizeChain('binance-smart-chain'), 'bnb');
+    assert.equal(normalizeChain('arbitrum-one'), 'arbitrum');
+    assert.equal(normalizeChain(' Ethereum '), 'ethereum');
+    assert.equal(normalizeChain('sonic'), 'sonic');
+  });
+
+  it('keys tokens by chain and address, lowercasing only EVM addresses', () => {
+    assert.equal(tokenKey('Ethereum', USDC), `ethereum:${USDC.toLowerCase()}`);
+    assert.equal(tokenKey('sol', BONK), `solana:${BONK}`);
+    assert.ok(sameToken({ chain: 'bsc', address: USDC }, { chain: 'bnb', address: USDC.toLowerCase() }));
+    assert.ok(!sameToken({ chain: 'ethereum', address: USDC }, { chain: 'base', address: USDC }));
+  });
+
+  it('recognizes native asset sentinels per chain', () => {
+    assert.ok(isNativeToken('ethereum', '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE'));
+    assert.ok(isNativeToken('zksync', '0x000000000000000000000000000000000000800A'));
+    assert.ok(isNativeToken('polygon', '0x0000000000000000000000000000000000001010'));
+    assert.ok(!isNativeToken('ethereum', '0x000000000000000000000000000000000000800a'));
+    assert.ok(!isNativeToken('ethereum', USDC));
+    assert.ok(isNativeToken('ethereum', ''));
+    assert.ok(isNativeToken('sonic', '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'));
+  });
+
+  it('maps chains to their native asset and CoinGecko platform', () => {
+    assert.equal(nativeAssetOf('matic')?.symbol, 'POL');
+    assert.equal(nativeAssetOf('base')?.coinGeckoId, 'ethereum');
+    assert.equal(nativeAssetOf('sonic'), undefined);
+    assert.equal(coinGeckoPlatformOf('polygon'), 'polygon-pos');
+    assert.equal(coinGeckoPlatformOf('bsc'), 'binance-smart-chain');
+    assert.equal(coinGeckoPlatformOf('sonic'), 'sonic');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NATIVE_ETH } from './helpers';
+import { parseCoinList, TokenMetadataResolver } from '../services/tokenMetadata.service';
+import { tokenKey } from '../utils/tokenId';
+
+const USDC = '0xA0b86991c6218b36c1d19d4a2e9eB0cE3606eB48';
+const USDC_BASE = '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913';
+const USDC_SOLANA = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+// A raw CoinGecko /coins/list?include_platform=true response
+const COIN_LIST = [
+  {
+    id: 'usd-coin',
+    symbol: 'usdc',
+    name: 'USDC',
+    platforms: { ethereum: USDC.toLowerCase(), base: USDC_BASE, solana: USDC_SOLANA },
+  },
+  { id: 'bridged-usdc', symbol: 'usdc.e', name: 'Bridged USDC', platforms: { base: USDC_BASE } },
+  { id: 'bitcoin', symbol: 'btc', name: 'Bitcoin', platforms: { '': '' } },
+  { symbol: 'nothing', name: 'No id' },
+];
+
+describe('TokenMetadataResolver', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'funfacts-coins-'));
+    file = path.join(dir, 'coin-list.json');
+    fs.writeFileSync(file, JSON.stringify(COIN_LIST));
+  });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('maps a contract on any of its platforms to the coin', () => {
+    const tokens = new TokenMetadataResolver(file);
+
+    assert.deepEqual(tokens.resolve('ethereum', USDC), { coinGeckoId: 'usd-coin', symbol: 'USDC', name: 'USDC' });
+    assert.equal(tokens.resolve('base', USDC_BASE)?.coinGeckoId, 'usd-coin');
+    assert.equal(tokens.resolve('solana', USDC_SOLANA)?.symbol, 'USDC');
+    assert.equal(tokens.resolve('solana', USDC_SOLANA.toLowerCase()), null);
+    assert.equal(tokens.resolve('arbitrum', USDC), null);
+    assert.equal(tokens.size(), 3);
+  });
+
+  it('resolves coin ids, token keys and native assets', () => {
+    const tokens = new TokenMetadataResolver(file);
+
+    assert.equal(tokens.resolveCoin('bitcoin')?.symbol, 'BTC');
+    assert.equal(tokens.resolveCoin(tokenKey('ethereum', USDC))?.coinGeckoId, 'usd-coin');
+    assert.equal(tokens.resolveCoin('binancecoin')?.symbol, 'BNB');
+    assert.equal(tokens.resolve('polygon', NATIVE_ETH)?.coinGeckoId, 'polygon-ecosystem-token');
+    assert.equal(tokens.resolveCoin('unknown-coin'), null);
+  });
+
+  it('tells unique symbols from shared ones', () => {
+    fs.writeFileSync(file, JSON.stringify([...COIN_LIST, { id: 'usdc-wormhole', symbol: 'usdc', name: 'USDC (Wormhole)' }]));
+    const tokens = new TokenMetadataResolver(file);
+
+    assert.equal(tokens.isUniqueSymbol('usdc'), false);
+    assert.equal(tokens.isUniqueSymbol('USDC.E'), true);
+    assert.equal(tokens.isUniqueSymbol('ETH'), true);
+  });
+
+  it('knows only native assets without a coin list', () => {
+    const tokens = new TokenMetadataResolver(path.join(dir, 'missing.json'));
+
+    assert.equal(tokens.resolve('ethereum', NATIVE_ETH)?.symbol, 'ETH');
+    assert.equal(tokens.resolve('ethereum', USDC), null);
+    assert.equal(tokens.size(), 0);
+  });
+
+  it('saves a refreshed list and reads it back', () => {
+    const tokens = new TokenMetadataResolver(file);
+    assert.equal(tokens.resolve('ethereum', USDC)?.symbol, 'USDC');
+
+    tokens.save(parseCoinList([{ id: 'dai', symbol: 'dai', name: 'Dai', platforms: { ethereum: USDC } }]));
+
+    assert.equal(tokens.resolve('ethereum', USDC)?.symbol, 'DAI');
+    assert.equal(new TokenMetadataResolver(file).resolve('ethereum', USDC)?.coinGeckoId, 'dai');
+  });
+});
+
+describe('parseCoinList', () => {
+  it('reads raw responses and stored files, dropping coins without an id', () => {
+    assert.equal(parseCoinList(COIN_LIST).length, 3);
+    assert.equal(parseCoinList({ version: 1, updatedAt: '2026-01-01T00:00:00Z', coins: COIN_LIST }).length, 3);
+    assert.throws(() => parseCoinList({ data: [] }), /Not a coin list/);
+  });
+});
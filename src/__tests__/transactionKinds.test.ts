@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { tokenTransfer, transaction } from './helpers';
+import { classifyTransaction, filterByKind } from '../features/transactionKinds';
+
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+const usdc = tokenTransfer({ token_address: USDC, token_symbol: 'USDC' });
+const token = tokenTransfer();
+
+describe('classifyTransaction', () => {
+  it('reads a trade from the shape of what moved', () => {
+    assert.equal(classifyTransaction(transaction({ tokens_sent: [usdc], tokens_received: [token] })), 'swap');
+    assert.equal(classifyTransaction(transaction({ tokens_received: [token] })), 'transfer_in');
+    assert.equal(classifyTransaction(transaction({ tokens_sent: [token] })), 'transfer_out');
+    assert.equal(classifyTransaction(transaction({ method: 'approve(address,uint256)' })), 'other');
+  });
+
+  it('treats a withdrawal from an exchange as a transfer in', () => {
+    const withdrawal = transaction({
+      method: 'transfer(address,uint256)',
+      source_type: 'transfer',
+      tokens_received: [tokenTransfer({ from_address_label: 'Binance 14' })],
+    });
+    assert.equal(classifyTransaction(withdrawal), 'transfer_in');
+  });
+
+  it('recognizes bridges by method, source type or counterparty label', () => {
+    const both = { tokens_sent: [usdc], tokens_received: [token] };
+    assert.equal(classifyTransaction(transaction({ ...both, method: 'swapAndBridge(bytes)' })), 'bridge');
+    assert.equal(classifyTransaction(transaction({ tokens_received: [token], source_type: 'Stargate' })), 'bridge');
+    assert.equal(
+      classifyTransaction(transaction({ tokens_sent: [tokenTransfer({ to_address_label: 'Arbitrum: L1 Gateway Router (Bridge)' })] })),
+      'bridge'
+    );
+  });
+
+  it('recognizes LP adds and removes by method or LP token', () => {
+    const lpToken = tokenTransfer({ token_symbol: 'UNI-V2' });
+    assert.equal(classifyTransaction(transaction({ tokens_sent: [usdc, token], tokens_received: [lpToken] })), 'lp_add');
+    assert.equal(classifyTransaction(transaction({ tokens_sent: [lpToken], tokens_received: [usdc, token] })), 'lp_remove');
+    assert.equal(
+      classifyTransaction(transaction({ method: 'addLiquidityETH(address,uint256)', tokens_sent: [usdc] })),
+      'lp_add'
+    );
+    assert.equal(
+      classifyTransaction(transaction({ method: 'decreaseLiquidity((uint256,uint128))', tokens_received: [usdc] })),
+      'lp_remove'
+    );
+  });
+
+  it('recognizes airdrops by claim method or distributor label', () => {
+    assert.equal(classifyTransaction(transaction({ method: 'claim(uint256,bytes32[])', tokens_received: [token] })), 'airdrop');
+    assert.equal(
+      classifyTransaction(transaction({ tokens_received: [tokenTransfer({ from_address_label: 'ARB: Token Distributor' })] })),
+      'airdrop'
+    );
+    // A claim that also pays something is not free
+    assert.equal(classifyTransaction(transaction({ method: 'claim()', tokens_sent: [usdc], tokens_received: [token] })), 'swap');
+  });
+
+  it('ignores zero-amount legs', () => {
+    const tx = transaction({ tokens_sent: [tokenTransfer({ token_amount: 0 })], tokens_received: [token] });
+    assert.equal(classifyTransaction(tx), 'transfer_in');
+  });
+});
+
+describe('filterByKind', () => {
+  it('keeps the transactions of the given kinds in order', () => {
+    const swap = transaction({ transaction_hash: '0x1', tokens_sent: [usdc], tokens_received: [token] });
+    const deposit = transaction({ transaction_hash: '0x2', tokens_received: [token] });
+    const payment = transaction({ transaction_hash: '0x3', tokens_sent: [token] });
+
+    assert.deepEqual(
+      filterByKind([swap, deposit, payment], ['swap', 'transfer_out']).map((tx) => tx.transaction_hash),
+      ['0x1', '0x3']
+    );
+  });
+});
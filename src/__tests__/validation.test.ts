@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  detectAddressFamily,
+  isValidBitcoinAddress,
+  isValidEthereumAddress,
+  isValidSolanaAddress,
+  toChecksumAddress,
+  validateAndNormalizeAddress,
+} from '../utils/validation';
+import { keccak256 } from '../utils/encoding';
+import { FUN_FACT_MODULES, getModulesForAddress } from '../features/registry';
+
+// Test vectors from EIP-55
+const CHECKSUMMED = [
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+];
+
+const SOLANA = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const BTC_P2PKH = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+const BTC_P2SH = '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy';
+const BTC_SEGWIT = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const BTC_TAPROOT = 'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0';
+
+describe('keccak256', () => {
+  it('matches known digests', () => {
+    assert.equal(keccak256(''), 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    assert.equal(keccak256('abc'), '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+  });
+});
+
+describe('EVM addresses', () => {
+  it('computes EIP-55 checksums', () => {
+    for (const address of CHECKSUMMED) {
+      assert.equal(toChecksumAddress(address.toLowerCase()), address);
+    }
+  });
+
+  it('accepts checksummed, all-lowercase and all-uppercase addresses', () => {
+    for (const address of CHECKSUMMED) {
+      assert.ok(isValidEthereumAddress(address));
+      assert.ok(isValidEthereumAddress(address.toLowerCase()));
+      assert.ok(isValidEthereumAddress('0x' + address.slice(2).toUpperCase()));
+    }
+  });
+
+  it('rejects a mixed-case address with a wrong checksum', () => {
+    const typo = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD';
+
+    assert.equal(isValidEthereumAddress(typo), false);
+    assert.throws(() => validateAndNormalizeAddress(typo), /Invalid EIP-55 checksum.*did you mean 0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed/);
+  });
+
+  it('normalizes to lowercase', () => {
+    assert.equal(validateAndNormalizeAddress(` ${CHECKSUMMED[0]} `), CHECKSUMMED[0].toLowerCase());
+  });
+});
+
+describe('Solana addresses', () => {
+  it('accepts base58 32-byte public keys and keeps their case', () => {
+    assert.ok(isValidSolanaAddress(SOLANA));
+    assert.ok(isValidSolanaAddress('11111111111111111111111111111111'));
+    assert.equal(validateAndNormalizeAddress(SOLANA), SOLANA);
+  });
+
+  it('rejects non-base58 characters and wrong lengths', () => {
+    assert.equal(isValidSolanaAddress('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5D0'), false); // '0' is not base58
+    assert.equal(isValidSolanaAddress(SOLANA.slice(0, 30)), false);
+  });
+});
+
+describe('Bitcoin addresses', () => {
+  it('accepts legacy, segwit and taproot mainnet addresses', () => {
+    for (const address of [BTC_P2PKH, BTC_P2SH, BTC_SEGWIT, BTC_TAPROOT, BTC_SEGWIT.toUpperCase()]) {
+      assert.ok(isValidBitcoinAddress(address), address);
+    }
+  });
+
+  it('rejects bad checksums, mixed-case bech32 and testnet addresses', () => {
+    assert.equal(isValidBitcoinAddress('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb'), false);
+    assert.equal(isValidBitcoinAddress(BTC_SEGWIT.slice(0, -1) + 'p'), false);
+    assert.equal(isValidBitcoinAddress('bc1Qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq'), false);
+    assert.equal(isValidBitcoinAddress('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx'), false);
+  });
+
+  it('lowercases bech32 but keeps legacy addresses as given', () => {
+    assert.equal(validateAndNormalizeAddress(BTC_SEGWIT.toUpperCase()), BTC_SEGWIT);
+    assert.equal(validateAndNormalizeAddress(BTC_P2PKH), BTC_P2PKH);
+  });
+});
+
+describe('detectAddressFamily', () => {
+  it('tells the families apart', () => {
+    assert.equal(detectAddressFamily(CHECKSUMMED[0]), 'evm');
+    assert.equal(detectAddressFamily(SOLANA), 'solana');
+    assert.equal(detectAddressFamily(BTC_P2PKH), 'bitcoin');
+    assert.equal(detectAddressFamily(BTC_TAPROOT), 'bitcoin');
+    assert.equal(detectAddressFamily('not-an-address'), null);
+    assert.equal(detectAddressFamily('0x1234'), null);
+  });
+
+  it('limits fun facts to the ones that support the family', () => {
+    const ids = (address: string) => getModulesForAddress(FUN_FACT_MODULES, address).map((module) => module.id);
+
+    assert.equal(ids(CHECKSUMMED[0]).length, FUN_FACT_MODULES.length);
+    assert.ok(!ids(SOLANA).includes('eth_benchmark'));
+    assert.ok(!ids(SOLANA).includes('multi_chain'));
+    assert.deepEqual(ids(BTC_SEGWIT), ['labels', 'biggest_bag']);
+  });
+});
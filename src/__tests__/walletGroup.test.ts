@@ -0,0 +1,281 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  WALLET,
+  balanceResponse,
+  createTestContext,
+  pnlSummary,
+  staticNameResolver,
+  tokenBalance,
+  tokenTransfer,
+  transaction,
+} from './helpers';
+import { AnalysisContext } from '../context';
+import { DEFAULT_CONFIG } from '../config';
+import { resolveGroupInputs } from '../commands/analyze';
+import { getFunFactModules } from '../features/registry';
+import { analyzeWalletGroup, createGroupContext, resolveWalletGroup } from '../report/walletGroup';
+import { combineBalances, combinePnlSummaries } from '../services/walletGroup.service';
+import { analyzeRuggedProjects } from '../features/ruggedProjects';
+import { CurrentBalanceRequest, TokenBalance, Transaction, TransactionsRequest, WalletGroup } from '../types';
+
+const SECOND = '0x2222222222222222222222222222222222222222';
+const EXCHANGE = '0x3333333333333333333333333333333333333333';
+const RUG = '0x1111111111111111111111111111111111111111';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const SOLANA = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const GROUP: WalletGroup = { wallets: [{ address: WALLET }, { address: SECOND }] };
+
+let ctx: AnalysisContext;
+
+function balancesByWallet(byWallet: Record<string, TokenBalance[]>) {
+  return async (request: CurrentBalanceRequest) => balanceResponse(byWallet[request.address] || []);
+}
+
+function transactionsByWallet(byWallet: Record<string, Transaction[]>) {
+  return async (request: TransactionsRequest) => ({
+    data: request.chain === 'ethereum' ? byWallet[request.address] || [] : [],
+    pagination: { page: 1, per_page: 100, is_last_page: true },
+  });
+}
+
+describe('combineBalances', () => {
+  it('sums the same token across wallets and re-sorts by value', () => {
+    const combined = combineBalances(
+      [
+        balanceResponse([
+          tokenBalance({ token_address: RUG, balance: '10', value_usd: 100, token_amount: 10 }),
+          tokenBalance({ token_address: EXCHANGE, token_symbol: 'OTHER', balance: '1', value_usd: 120 }),
+        ]),
+        balanceResponse([tokenBalance({ token_address: RUG, balance: '5', value_usd: 50, token_amount: 5 })]),
+      ],
+      1
+    );
+
+    assert.equal(combined.data.length, 1);
+    assert.equal(combined.data[0].token_address, RUG);
+    assert.equal(combined.data[0].value_usd, 150);
+    assert.equal(combined.data[0].balance, '15');
+    assert.equal((combined.data[0] as TokenBalance & { token_amount: number }).token_amount, 15);
+  });
+
+  it('keeps the same token on different chains apart', () => {
+    const combined = combineBalances([
+      balanceResponse([tokenBalance({ chain: 'ethereum' })]),
+      balanceResponse([tokenBalance({ chain: 'base' })]),
+    ]);
+    assert.equal(combined.data.length, 2);
+  });
+});
+
+describe('combinePnlSummaries', () => {
+  it('adds P&L, re-derives the percentage from cost basis and weights the win rate', () => {
+    const combined = combinePnlSummaries([
+      pnlSummary({ realized_pnl_usd: 100, realized_pnl_percent: 0.1, traded_token_count: 3, traded_times: 5, win_rate: 1 }),
+      pnlSummary({ realized_pnl_usd: -50, realized_pnl_percent: -0.5, traded_token_count: 1, traded_times: 2, win_rate: 0 }),
+    ]);
+
+    // Cost bases are 1000 and 100, so 50 / 1100
+    assert.equal(combined.realized_pnl_usd, 50);
+    assert.ok(Math.abs(combined.realized_pnl_percent - 50 / 1100) < 1e-12);
+    assert.equal(combined.traded_token_count, 4);
+    assert.equal(combined.traded_times, 7);
+    assert.equal(combined.win_rate, 0.75);
+  });
+
+  it('leaves wallets without a cost basis out of the percentage', () => {
+    const combined = combinePnlSummaries([
+      pnlSummary({ realized_pnl_usd: 100, realized_pnl_percent: 0.1 }),
+      pnlSummary({ realized_pnl_usd: 400, realized_pnl_percent: 0 }),
+    ]);
+
+    assert.equal(combined.realized_pnl_usd, 500);
+    assert.ok(Math.abs(combined.realized_pnl_percent - 0.1) < 1e-12);
+  });
+});
+
+describe('WalletGroupNansenClient transactions', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('drops transfers between members and merges a transaction both members see', async () => {
+    const internal = transaction({
+      transaction_hash: '0xinternal',
+      tokens_sent: [tokenTransfer({ from_address: WALLET, to_address: SECOND })],
+    });
+    const swapToSecond = transaction({
+      transaction_hash: '0xswap',
+      tokens_sent: [tokenTransfer({ token_address: EXCHANGE, from_address: WALLET, to_address: EXCHANGE })],
+    });
+    const swapReceived = transaction({
+      transaction_hash: '0xswap',
+      tokens_received: [tokenTransfer({ from_address: EXCHANGE, to_address: SECOND })],
+    });
+    mock.method(
+      ctx.nansen,
+      'getAllTransactions',
+      transactionsByWallet({
+        [WALLET]: [internal, swapToSecond],
+        [SECOND]: [{ ...internal, tokens_sent: [], tokens_received: internal.tokens_sent }, swapReceived],
+      })
+    );
+
+    const groupCtx = createGroupContext(ctx, GROUP);
+    const response = await groupCtx.nansen.getAllTransactions({
+      address: WALLET,
+      chain: 'ethereum',
+      pagination: { page: 1, per_page: 100 },
+    });
+
+    assert.equal(response.data.length, 1);
+    assert.equal(response.data[0].transaction_hash, '0xswap');
+    assert.equal(response.data[0].tokens_sent.length, 1);
+    assert.equal(response.data[0].tokens_received.length, 1);
+  });
+
+  it('does not offer labels for a group', async () => {
+    const groupCtx = createGroupContext(ctx, GROUP);
+    await assert.rejects(
+      groupCtx.nansen.getLabels({ parameters: { chain: 'all', address: WALLET }, pagination: { page: 1, recordsPerPage: 100 } }),
+      /not available for a wallet group/
+    );
+  });
+});
+
+describe('rugged projects over a wallet group', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  // WALLET bought the token, then moved it all to SECOND, which still holds it
+  function setup(): void {
+    mock.method(
+      ctx.nansen,
+      'getCurrentBalance',
+      balancesByWallet({
+        [SECOND]: [
+          tokenBalance({ token_address: RUG, token_symbol: 'RUG', token_amount: 1000, value_usd: 10, price_usd: 0.000001 }),
+        ],
+      })
+    );
+    mock.method(
+      ctx.nansen,
+      'getAllTransactions',
+      transactionsByWallet({
+        [WALLET]: [
+          transaction({
+            transaction_hash: '0xbuy',
+            block_timestamp: '2025-01-15T12:00:00Z',
+            volume_usd: 1000,
+            tokens_sent: [
+              tokenTransfer({ token_address: USDC, token_amount: 1000, value_usd: 1000, from_address: WALLET, to_address: EXCHANGE }),
+            ],
+            tokens_received: [tokenTransfer({ token_address: RUG, token_amount: 1000, from_address: EXCHANGE })],
+          }),
+          transaction({
+            transaction_hash: '0xmove',
+            block_timestamp: '2025-01-16T12:00:00Z',
+            volume_usd: 0,
+            tokens_sent: [tokenTransfer({ token_address: RUG, token_amount: 1000, from_address: WALLET, to_address: SECOND })],
+          }),
+        ],
+        [SECOND]: [
+          transaction({
+            transaction_hash: '0xmove',
+            block_timestamp: '2025-01-16T12:00:00Z',
+            volume_usd: 0,
+            tokens_received: [tokenTransfer({ token_address: RUG, token_amount: 1000, from_address: WALLET, to_address: SECOND })],
+          }),
+        ],
+      })
+    );
+  }
+
+  it('is missed by each wallet on its own', async () => {
+    setup();
+    for (const address of [WALLET, SECOND]) {
+      const result = await analyzeRuggedProjects(ctx, address);
+      assert.equal(result.data?.ruggedCount, 0);
+    }
+  });
+
+  it('is found when the move between the wallets is not counted as a sale', async () => {
+    setup();
+    const result = await analyzeRuggedProjects(createGroupContext(ctx, GROUP), WALLET);
+
+    assert.equal(result.data?.ruggedCount, 1);
+    assert.equal(result.data?.ruggedTokens[0].amountInvested, 1000);
+    assert.equal(result.data?.ruggedTokens[0].confidence, 'HIGH');
+  });
+});
+
+describe('analyzeWalletGroup', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('reports combined facts plus a per-wallet breakdown, skipping per-address facts', async () => {
+    mock.method(
+      ctx.nansen,
+      'getAllCurrentBalances',
+      balancesByWallet({
+        [WALLET]: [tokenBalance({ token_address: RUG, value_usd: 600 })],
+        [SECOND]: [tokenBalance({ token_address: EXCHANGE, value_usd: 400 })],
+      })
+    );
+
+    const report = await analyzeWalletGroup(
+      ctx,
+      { name: 'mine', wallets: GROUP.wallets },
+      getFunFactModules(['labels', 'token_diversity'])
+    );
+
+    assert.equal(report.address, `${WALLET}+${SECOND}`);
+    assert.equal(report.name, 'mine');
+    assert.deepEqual(report.facts.map((fact) => fact.id), ['token_diversity']);
+    assert.equal(report.facts[0].result.type === 'token_diversity' && report.facts[0].result.data?.uniqueTokens, 2);
+
+    assert.deepEqual(report.wallets?.map((wallet) => wallet.address), [WALLET, SECOND]);
+    for (const wallet of report.wallets ?? []) {
+      const fact = wallet.facts[0].result;
+      assert.equal(fact.type === 'token_diversity' && fact.data?.uniqueTokens, 1);
+    }
+  });
+});
+
+describe('resolveWalletGroup', () => {
+  it('resolves names and drops duplicate addresses', async () => {
+    const ctx = createTestContext({ names: staticNameResolver({ 'second.eth': SECOND }) });
+    const group = await resolveWalletGroup(ctx, [WALLET, 'second.eth', SECOND], 'mine');
+
+    assert.deepEqual(group, {
+      name: 'mine',
+      wallets: [{ address: WALLET }, { address: SECOND, name: 'second.eth' }],
+    });
+  });
+
+  it('rejects groups of one wallet or of mixed families', async () => {
+    const ctx = createTestContext();
+    await assert.rejects(resolveWalletGroup(ctx, [WALLET, WALLET]), /at least two different wallets/);
+    await assert.rejects(resolveWalletGroup(ctx, [WALLET, SOLANA]), /must be of one kind, got EVM and Solana/);
+  });
+});
+
+describe('resolveGroupInputs', () => {
+  const config = { ...DEFAULT_CONFIG, bundles: { mine: [WALLET, SECOND] } };
+
+  it('splits --wallets and looks up bundles', () => {
+    assert.deepEqual(resolveGroupInputs(` ${WALLET}, ,${SECOND}`, undefined, config), [WALLET, SECOND]);
+    assert.deepEqual(resolveGroupInputs(undefined, 'mine', config), [WALLET, SECOND]);
+  });
+
+  it('rejects unknown bundles and both flags together', () => {
+    assert.throws(() => resolveGroupInputs(undefined, 'theirs', config), /Unknown bundle: theirs\. Available: mine/);
+    assert.throws(() => resolveGroupInputs(WALLET, 'mine', config), /either --wallets or --bundle/);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { WALLET, createTestContext, pnlSummary } from './helpers';
+import { AnalysisContext } from '../context';
+import { analyzeWinRate } from '../features/winRate';
+import { RateLimitedError } from '../utils/errors';
+
+let ctx: AnalysisContext;
+
+const top = (symbol: string, roi: number) => ({
+  realized_pnl: roi * 1000,
+  realized_roi: roi,
+  token_address: `0x${symbol}`,
+  token_symbol: symbol,
+  chain: 'ethereum',
+});
+
+describe('analyzeWinRate', () => {
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+  afterEach(() => mock.restoreAll());
+
+  it('reports the win rate and the best token by ROI', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({
+        win_rate: 0.625,
+        traded_token_count: 8,
+        traded_times: 40,
+        top5_tokens: [top('AAA', 0.5), top('BBB', 2.5), top('CCC', -0.2)],
+      })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.winRate, 62.5);
+    assert.equal(result.data?.tradedTokens, 8);
+    assert.equal(result.data?.tradedTimes, 40);
+    assert.deepEqual(result.data?.bestToken, { symbol: 'BBB', roi: 250, pnl: 2500, chain: 'ethereum' });
+  });
+
+  it('succeeds without a best token when top5_tokens is empty', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ win_rate: 0.5, traded_token_count: 3, traded_times: 6, top5_tokens: [] })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.winRate, 50);
+    assert.equal(result.data?.bestToken, undefined);
+  });
+
+  it('succeeds without a best token when top5_tokens is missing', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ win_rate: 0.5, traded_token_count: 3, traded_times: 6, top5_tokens: undefined })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.data?.bestToken, undefined);
+  });
+
+  it('reports a 0% win rate when every trade lost', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ win_rate: 0, traded_token_count: 2, traded_times: 2, top5_tokens: [top('AAA', -0.9)] })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.success, true);
+    assert.equal(result.data?.winRate, 0);
+    assert.equal(result.data?.bestToken?.roi, -90);
+  });
+
+  it('falls back when the wallet never traded', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ win_rate: 0, traded_token_count: 0, traded_times: 0 })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.success, false);
+    assert.equal(result.fallback, 'Not enough trading history to calculate win rate');
+  });
+
+  it('falls back when tokens were traded but no trade count is reported', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ win_rate: 1, traded_token_count: 4, traded_times: undefined })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('falls back when win_rate is missing', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () =>
+      pnlSummary({ win_rate: undefined, traded_token_count: 4, traded_times: 4 })
+    );
+
+    const result = await analyzeWinRate(ctx, WALLET);
+
+    assert.equal(result.success, false);
+  });
+
+  it('rethrows upstream errors', async () => {
+    mock.method(ctx.nansen, 'getPnlSummary', async () => {
+      throw new RateLimitedError('Nansen', 1000);
+    });
+
+    await assert.rejects(analyzeWinRate(ctx, WALLET), RateLimitedError);
+  });
+});
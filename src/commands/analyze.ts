@@ -0,0 +1,469 @@
+import { parseArgs } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { ADDRESS_FAMILY_NAMES, formatWallet, isNameServiceName, validateAndNormalizeAddress } from '../utils/validation';
+import { createSectionHeader, displayFunFact, errorMessage } from '../utils/formatting';
+import {
+  FUN_FACT_IDS,
+  getFunFactModules,
+  getModulesForAddress,
+  getModulesForGroup,
+  runFunFacts,
+} from '../features/registry';
+import { addressFamilyOf } from '../features/chains';
+import { FunFactsConfig, loadConfig } from '../config';
+import { analyzeWallet } from '../report/walletReport';
+import { analyzeWalletGroup, resolveWalletGroup } from '../report/walletGroup';
+import { REPORT_FORMATS, ReportFormat, serializeReports } from '../report/serializers';
+import { AnalysisContext, createDefaultContext } from '../context';
+import { resolveWallet } from '../services/nameResolver.service';
+import { parseAnalyzeOptions, resolveWindow } from '../utils/dateRange';
+import { InvalidAddressError, isUpstreamError, NameNotFoundError } from '../utils/errors';
+import { AnalyzeOptions, FunFactModule, ResolvedWallet, WalletGroup, WalletReport } from '../types';
+
+export const EXIT_OK = 0;
+export const EXIT_ANALYSIS_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export const CONFIG_OPTIONS_USAGE = `  --config <file>    Config file (default: FUNFACTS_CONFIG or funfacts.config.json)
+  --profile <name>   Threshold profile: default, strict, lenient or one from the config file
+  --set <key=value>  Override a threshold, e.g. --set ruggedProjects.minAgeDays=60 (repeatable)`;
+
+// parseArgs options shared by every command that analyzes wallets
+export const CONFIG_PARSE_OPTIONS = {
+  config: { type: 'string' },
+  profile: { type: 'string' },
+  set: { type: 'string', multiple: true },
+} as const;
+
+export interface ConfigFlags {
+  config?: string;
+  profile?: string;
+  set?: string[];
+}
+
+export const DATE_OPTIONS_USAGE = `  --as-of <date>     Analyze the wallet as of an earlier date, e.g. 2025-01-01 (default: now)
+                     Balance-based facts still read current holdings
+  --from <date>      Start of the history window (with --to; default: each fact's lookback)
+  --to <date>        End of the history window`;
+
+export const ANALYZE_USAGE = `Usage: funfacts analyze <address or name> [--facts <ids>] [--as-of <date>] [--format <format>] [--out <file>]
+       funfacts analyze --wallets <a,b,...> | --bundle <name> [options]
+
+The wallet can be an EVM, Solana or Bitcoin address, or an ENS (.eth) or SNS (.sol) name.
+
+Options:
+  --facts <ids>      Comma-separated fun facts to run (default: enabledFacts in funfacts.config.json)
+                     Available: ${FUN_FACT_IDS.join(', ')}
+  --wallets <list>   Analyze several wallets of one kind as one entity (comma-separated),
+                     with a per-wallet breakdown; transfers between them are ignored
+  --bundle <name>    Like --wallets, using a group saved under "bundles" in the config file
+${DATE_OPTIONS_USAGE}
+${CONFIG_OPTIONS_USAGE}
+  --format <format>  Print a wallet report instead of the colored output: ${REPORT_FORMATS.join(', ')}
+                     (logs go to stderr)
+  --json             Shorthand for --format json
+  --out <file>       Write the report to a file; the format defaults to the file extension
+  -h, --help         Show this help`;
+
+/**
+ * Load the config named by --config, --profile and --set
+ * @param flags - Parsed config flags
+ * @returns The validated config
+ * @throws Error for an invalid config file, profile or setting
+ */
+export function resolveConfig(flags: ConfigFlags): FunFactsConfig {
+  return loadConfig({ configPath: flags.config, profile: flags.profile, overrides: flags.set });
+}
+
+/**
+ * Resolves the fun facts to run from a --facts flag or the config file
+ * @param value - Raw flag value (e.g., 'pnl,win_rate')
+ * @param config - Config whose enabledFacts are used when no flag is given
+ * @returns The requested fun fact modules
+ */
+export function resolveFunFacts(value: string | undefined, config: FunFactsConfig): FunFactModule[] {
+  if (!value) {
+    return getFunFactModules(config.enabledFacts);
+  }
+
+  const ids = value
+    .split(',')
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+
+  return getFunFactModules(ids);
+}
+
+/**
+ * Create the analysis context for a command, printing setup errors (e.g. a missing API key)
+ * @param config - Config loaded from the command's flags
+ * @returns The context, or null if it could not be created
+ */
+export function resolveContext(config: FunFactsConfig): AnalysisContext | null {
+  try {
+    return createDefaultContext({ config });
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return null;
+  }
+}
+
+/**
+ * Resolve a wallet address or name with the context's name resolver, printing failures
+ * @param ctx - Context whose resolver looks names up
+ * @param input - Address or name from the command line
+ * @returns The wallet and exit code 0, or null and the exit code to stop with
+ */
+export async function resolveWalletArgument(
+  ctx: AnalysisContext,
+  input: string
+): Promise<{ wallet: ResolvedWallet | null; exitCode: number }> {
+  try {
+    return { wallet: await resolveWallet(ctx.names, input), exitCode: EXIT_OK };
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    const userError = error instanceof InvalidAddressError || error instanceof NameNotFoundError;
+    return { wallet: null, exitCode: userError ? EXIT_USAGE : EXIT_ANALYSIS_FAILED };
+  }
+}
+
+/**
+ * Pick the report format from --format, --json or the --out extension
+ * @returns The format, or null for the colored terminal output
+ * @throws Error for an unknown format
+ */
+export function resolveReportFormat(
+  format: string | undefined,
+  json: boolean | undefined,
+  outFile: string | undefined
+): ReportFormat | null {
+  if (format) {
+    const normalized = format === 'md' ? 'markdown' : format;
+    if (!REPORT_FORMATS.includes(normalized as ReportFormat)) {
+      throw new Error(`Unknown format: ${format}. Available: ${REPORT_FORMATS.join(', ')}`);
+    }
+    return normalized as ReportFormat;
+  }
+
+  if (json) {
+    return 'json';
+  }
+
+  if (outFile) {
+    const extension = path.extname(outFile).toLowerCase();
+    if (extension === '.csv') return 'csv';
+    if (extension === '.md' || extension === '.markdown') return 'markdown';
+    return 'json';
+  }
+
+  return null;
+}
+
+/**
+ * Sends console.log output to stderr while fn runs, so --json keeps stdout clean
+ */
+async function withLogsOnStderr<T>(fn: () => Promise<T>): Promise<T> {
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => console.error(...args);
+  try {
+    return await fn();
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+/**
+ * `funfacts analyze <address>` - analyze one wallet (or a wallet group) without prompts
+ * @param argv - Arguments after the command name
+ * @returns Process exit code
+ */
+export async function runAnalyzeCommand(argv: string[]): Promise<number> {
+  let values: ConfigFlags & {
+    facts?: string;
+    wallets?: string;
+    bundle?: string;
+    'as-of'?: string;
+    from?: string;
+    to?: string;
+    format?: string;
+    json?: boolean;
+    out?: string;
+    help?: boolean;
+  };
+  let positionals: string[];
+
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      options: {
+        facts: { type: 'string' },
+        wallets: { type: 'string' },
+        bundle: { type: 'string' },
+        'as-of': { type: 'string' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        ...CONFIG_PARSE_OPTIONS,
+        format: { type: 'string' },
+        json: { type: 'boolean', default: false },
+        out: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+      allowPositionals: true,
+    }));
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    console.error(ANALYZE_USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (values.help) {
+    console.log(ANALYZE_USAGE);
+    return EXIT_OK;
+  }
+
+  const groupInputs = values.wallets !== undefined || values.bundle !== undefined;
+  if (groupInputs && positionals.length > 0) {
+    console.error(errorMessage('Give either an address or --wallets/--bundle, not both'));
+    console.error(ANALYZE_USAGE);
+    return EXIT_USAGE;
+  }
+  if (!groupInputs && positionals.length !== 1) {
+    console.error(errorMessage('Expected exactly one wallet address or name'));
+    console.error(ANALYZE_USAGE);
+    return EXIT_USAGE;
+  }
+
+  let config: FunFactsConfig;
+  let modules: FunFactModule[];
+  let options: AnalyzeOptions;
+  let format: ReportFormat | null;
+  let inputs: string[];
+  try {
+    config = resolveConfig(values);
+    inputs = groupInputs ? resolveGroupInputs(values.wallets, values.bundle, config) : positionals;
+    // Names are checked once the context (and its resolver) exists
+    for (const input of inputs) {
+      if (!isNameServiceName(input)) {
+        validateAndNormalizeAddress(input);
+      }
+    }
+    modules = resolveFunFacts(values.facts, config);
+    options = parseAnalyzeOptions(values['as-of'], values.from, values.to, new Date());
+    format = resolveReportFormat(values.format, values.json, values.out);
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return EXIT_USAGE;
+  }
+
+  const ctx = resolveContext(config);
+  if (!ctx) {
+    return EXIT_ANALYSIS_FAILED;
+  }
+
+  // A provider that stays rate limited or down fails the run instead of printing fallbacks
+  try {
+    return groupInputs
+      ? await runGroupAnalysis(ctx, inputs, values.bundle, modules, options, format, values.out)
+      : await runWalletAnalysis(ctx, inputs[0], modules, options, format, values.out);
+  } catch (error) {
+    if (!isUpstreamError(error)) {
+      throw error;
+    }
+    console.error(errorMessage(error.message));
+    return EXIT_ANALYSIS_FAILED;
+  }
+}
+
+/**
+ * The members of a wallet group from --wallets or a config bundle
+ * @param wallets - Comma-separated addresses or names
+ * @param bundle - Bundle name from the config file
+ * @param config - Config holding the bundles
+ * @returns Addresses or names as given
+ * @throws Error if both or neither are given, or the bundle does not exist
+ */
+export function resolveGroupInputs(
+  wallets: string | undefined,
+  bundle: string | undefined,
+  config: FunFactsConfig
+): string[] {
+  if (wallets !== undefined && bundle !== undefined) {
+    throw new Error('Use either --wallets or --bundle, not both');
+  }
+
+  if (bundle !== undefined) {
+    const members = config.bundles[bundle];
+    if (!members) {
+      const available = Object.keys(config.bundles);
+      throw new Error(
+        `Unknown bundle: ${bundle}. ${available.length > 0 ? `Available: ${available.join(', ')}` : 'No bundles are defined in the config file'}`
+      );
+    }
+    return members;
+  }
+
+  return (wallets ?? '')
+    .split(',')
+    .map((wallet) => wallet.trim())
+    .filter((wallet) => wallet.length > 0);
+}
+
+/**
+ * Analyze one wallet and print its facts
+ */
+async function runWalletAnalysis(
+  ctx: AnalysisContext,
+  input: string,
+  modules: FunFactModule[],
+  options: AnalyzeOptions,
+  format: ReportFormat | null,
+  outFile: string | undefined
+): Promise<number> {
+  const { wallet, exitCode } = await resolveWalletArgument(ctx, input);
+  if (!wallet) {
+    return exitCode;
+  }
+  const { address } = wallet;
+
+  // Facts that cannot analyze this kind of address (e.g. ETH benchmark for Solana) are skipped
+  const supported = getModulesForAddress(modules, address);
+  const familyName = ADDRESS_FAMILY_NAMES[addressFamilyOf(address)];
+  if (supported.length === 0) {
+    console.error(errorMessage(`None of the requested fun facts support ${familyName} wallets`));
+    return EXIT_USAGE;
+  }
+  reportSkipped(modules, supported, `${familyName} wallets`);
+
+  if (format) {
+    const report = outFile
+      ? await analyzeWallet(ctx, wallet, modules, undefined, options)
+      : await withLogsOnStderr(() => analyzeWallet(ctx, wallet, modules, undefined, options));
+    return writeReport(report, format, outFile);
+  }
+
+  console.log(chalk.gray(`\n${analyzingHeading(`wallet: ${formatWallet(wallet)}`, ctx, options)}\n`));
+  let failed = false;
+  const results = await runFunFacts(
+    ctx,
+    supported,
+    address,
+    (module, error) => {
+      failed = true;
+      ctx.logger.error(`${module.title} analysis error:`, error);
+    },
+    options
+  );
+
+  console.log(createSectionHeader('🎲 Fun Facts Results'));
+  results.forEach((result, i) => {
+    console.log(displayFunFact(supported[i].number, supported[i].title, supported[i].render(result)));
+  });
+
+  // A fallback ("not enough history") is an answer; only analyzers that threw fail the run
+  return failed ? EXIT_ANALYSIS_FAILED : EXIT_OK;
+}
+
+/**
+ * Analyze a wallet group and print the combined facts and the per-wallet breakdown
+ */
+async function runGroupAnalysis(
+  ctx: AnalysisContext,
+  inputs: string[],
+  bundle: string | undefined,
+  modules: FunFactModule[],
+  options: AnalyzeOptions,
+  format: ReportFormat | null,
+  outFile: string | undefined
+): Promise<number> {
+  let group: WalletGroup;
+  try {
+    group = await resolveWalletGroup(ctx, inputs, bundle);
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return isUpstreamError(error) ? EXIT_ANALYSIS_FAILED : EXIT_USAGE;
+  }
+
+  const supported = getModulesForGroup(
+    modules,
+    group.wallets.map((wallet) => wallet.address)
+  );
+  if (supported.length === 0) {
+    console.error(errorMessage('None of the requested fun facts can combine wallets'));
+    return EXIT_USAGE;
+  }
+  reportSkipped(modules, supported, 'wallet groups');
+
+  if (format) {
+    const report = outFile
+      ? await analyzeWalletGroup(ctx, group, supported, undefined, options)
+      : await withLogsOnStderr(() => analyzeWalletGroup(ctx, group, supported, undefined, options));
+    return writeReport(report, format, outFile);
+  }
+
+  const label = group.name ? `${group.name} (${group.wallets.length} wallets)` : `${group.wallets.length} wallets`;
+  console.log(chalk.gray(`\n${analyzingHeading(`wallet group: ${label}`, ctx, options)}\n`));
+  const report = await analyzeWalletGroup(ctx, group, supported, undefined, options);
+
+  console.log(createSectionHeader('🎲 Fun Facts Results (combined)'));
+  report.facts.forEach((fact, i) => {
+    console.log(displayFunFact(supported[i].number, supported[i].title, supported[i].render(fact.result)));
+  });
+
+  console.log(createSectionHeader('👛 By Wallet'));
+  for (const wallet of report.wallets ?? []) {
+    console.log(chalk.bold(formatWallet(wallet)));
+    wallet.facts.forEach((fact) => console.log(`  ${fact.title}: ${fact.summary}`));
+    console.log();
+  }
+
+  return reportExitCode(report);
+}
+
+/**
+ * Print the requested fun facts that will not run, if any
+ */
+function reportSkipped(modules: FunFactModule[], supported: FunFactModule[], target: string): void {
+  if (supported.length < modules.length) {
+    const skipped = modules.filter((module) => !supported.includes(module)).map((module) => module.title);
+    console.error(chalk.gray(`Skipping for ${target}: ${skipped.join(', ')}`));
+  }
+}
+
+/**
+ * "Analyzing <what>", plus the as-of date when one was given
+ */
+function analyzingHeading(what: string, ctx: AnalysisContext, options: AnalyzeOptions): string {
+  let heading = `Analyzing ${what}`;
+  if (options.asOf || options.range) {
+    heading += ` as of ${resolveWindow(options, {}, ctx.clock.now()).asOf.toISOString().slice(0, 10)}`;
+  }
+  return heading;
+}
+
+/**
+ * EXIT_ANALYSIS_FAILED if an analyzer threw for the wallet (or a group member), otherwise EXIT_OK
+ * Fallbacks such as "not enough history" are answers, not failures.
+ */
+function reportExitCode(report: WalletReport): number {
+  const reports = [report, ...(report.wallets ?? [])];
+  return reports.some((walletReport) => walletReport.facts.some((fact) => fact.error)) ? EXIT_ANALYSIS_FAILED : EXIT_OK;
+}
+
+/**
+ * Serialize a report to stdout or --out
+ * @returns EXIT_ANALYSIS_FAILED if an analyzer threw, otherwise EXIT_OK
+ */
+function writeReport(report: WalletReport, format: ReportFormat, outFile: string | undefined): number {
+  const output = serializeReports([report], format);
+
+  if (outFile) {
+    fs.writeFileSync(outFile, output);
+    console.log(chalk.green(`📄 ${format} report saved: ${outFile}`));
+  } else {
+    process.stdout.write(output);
+  }
+
+  return reportExitCode(report);
+}
@@ -0,0 +1,226 @@
+import { parseArgs } from 'util';
+import * as fs from 'fs';
+import chalk from 'chalk';
+import { createSectionHeader, errorMessage } from '../utils/formatting';
+import { formatWallet } from '../utils/validation';
+import { parseAnalyzeOptions } from '../utils/dateRange';
+import {
+  assertCheckpointMatches,
+  batchRunParams,
+  loadCheckpoint,
+  parseWalletList,
+  resolveWalletList,
+  runBatch,
+  summarizeBatch,
+} from '../report/batch';
+import { AnalyzeOptions, BatchSummary, FunFactModule, WalletReport } from '../types';
+import { FunFactsConfig } from '../config';
+import { isUpstreamError } from '../utils/errors';
+import {
+  CONFIG_OPTIONS_USAGE,
+  CONFIG_PARSE_OPTIONS,
+  ConfigFlags,
+  DATE_OPTIONS_USAGE,
+  EXIT_ANALYSIS_FAILED,
+  EXIT_OK,
+  EXIT_USAGE,
+  resolveConfig,
+  resolveContext,
+  resolveFunFacts,
+} from './analyze';
+
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 32;
+const DEFAULT_OUT = 'results.jsonl';
+
+export const BATCH_USAGE = `Usage: funfacts batch [--input <file>] [--concurrency <n>] [--out <file>] [--facts <ids>] [--restart]
+
+Options:
+  --input <file>     Wallet list, one address or ENS/SNS name per line (default: stdin; "-" also reads stdin)
+  --concurrency <n>  Wallets analyzed at the same time (default: ${DEFAULT_CONCURRENCY}, max: ${MAX_CONCURRENCY})
+  --out <file>       JSONL results: the run's options, then one wallet report per line (default: ${DEFAULT_OUT})
+                     Wallets already in this file are skipped, so an interrupted run resumes
+                     (with the same --facts, dates and config settings; the file records them)
+  --facts <ids>      Comma-separated fun facts to run (default: enabledFacts in funfacts.config.json)
+${DATE_OPTIONS_USAGE}
+${CONFIG_OPTIONS_USAGE}
+  --restart          Discard existing results in --out and start over
+  -h, --help         Show this help`;
+
+/**
+ * `funfacts batch` - analyze a list of wallets, checkpointing to a JSONL file
+ * @param argv - Arguments after the command name
+ * @returns Process exit code
+ */
+export async function runBatchCommand(argv: string[]): Promise<number> {
+  let values: ConfigFlags & {
+    input?: string;
+    concurrency?: string;
+    out?: string;
+    facts?: string;
+    'as-of'?: string;
+    from?: string;
+    to?: string;
+    restart?: boolean;
+    help?: boolean;
+  };
+
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        input: { type: 'string' },
+        concurrency: { type: 'string' },
+        out: { type: 'string', default: DEFAULT_OUT },
+        facts: { type: 'string' },
+        'as-of': { type: 'string' },
+        from: { type: 'string' },
+        to: { type: 'string' },
+        ...CONFIG_PARSE_OPTIONS,
+        restart: { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    console.error(BATCH_USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (values.help) {
+    console.log(BATCH_USAGE);
+    return EXIT_OK;
+  }
+
+  const checkpointPath = values.out as string;
+  const concurrency = Number(values.concurrency ?? DEFAULT_CONCURRENCY);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    console.error(errorMessage(`Invalid concurrency: ${values.concurrency} (expected 1-${MAX_CONCURRENCY})`));
+    return EXIT_USAGE;
+  }
+
+  const readsStdin = !values.input || values.input === '-';
+  if (readsStdin && process.stdin.isTTY) {
+    console.error(errorMessage('No wallet list given: pass --input <file> or pipe addresses on stdin'));
+    console.error(BATCH_USAGE);
+    return EXIT_USAGE;
+  }
+
+  let config: FunFactsConfig;
+  let modules: FunFactModule[];
+  let analyzeOptions: AnalyzeOptions;
+  let input: string;
+  try {
+    config = resolveConfig(values);
+    modules = resolveFunFacts(values.facts, config);
+    analyzeOptions = parseAnalyzeOptions(values['as-of'], values.from, values.to, new Date());
+    input = fs.readFileSync(readsStdin ? 0 : (values.input as string), 'utf-8');
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return EXIT_USAGE;
+  }
+
+  const { addresses, names, invalid } = parseWalletList(input);
+  invalid.forEach((entry) => console.warn(chalk.yellow(`⚠️  Skipping invalid address: ${entry}`)));
+
+  if (addresses.length === 0 && names.length === 0) {
+    console.error(errorMessage('No valid wallet addresses in input'));
+    return EXIT_USAGE;
+  }
+
+  const ctx = resolveContext(config);
+  if (!ctx) {
+    return EXIT_ANALYSIS_FAILED;
+  }
+
+  const { wallets, unresolved } = await resolveWalletList(ctx, addresses, names);
+  unresolved.forEach(({ name, reason }) => console.warn(chalk.yellow(`⚠️  Skipping ${name}: ${reason}`)));
+
+  if (wallets.length === 0) {
+    console.error(errorMessage('None of the names in input resolved to a wallet address'));
+    return EXIT_USAGE;
+  }
+
+  if (values.restart && fs.existsSync(checkpointPath)) {
+    fs.unlinkSync(checkpointPath);
+  }
+
+  try {
+    assertCheckpointMatches(checkpointPath, batchRunParams(modules, config, analyzeOptions));
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return EXIT_USAGE;
+  }
+
+  const inputSet = new Set(wallets.map((wallet) => wallet.address));
+  const previous = loadCheckpoint(checkpointPath).filter((report) => inputSet.has(report.address));
+  if (previous.length > 0) {
+    console.log(chalk.gray(`Resuming: ${previous.length}/${wallets.length} wallets already in ${checkpointPath}`));
+  }
+
+  // First Ctrl+C lets in-flight wallets finish and keeps the checkpoint; a second one exits
+  let stopping = false;
+  const onSigint = () => {
+    if (stopping) {
+      process.exit(130);
+    }
+    stopping = true;
+    console.log(chalk.yellow('\n⏸  Stopping after in-flight wallets finish (Ctrl+C again to quit now)...'));
+  };
+  process.on('SIGINT', onSigint);
+
+  let reports: WalletReport[];
+  try {
+    reports = await runBatch(ctx, wallets, modules, {
+      concurrency,
+      checkpointPath,
+      analyzeOptions,
+      shouldStop: () => stopping,
+      onReport: (report, completed, total) => {
+        const succeeded = report.facts.filter((fact) => fact.success).length;
+        const errors = report.facts.filter((fact) => fact.error).length;
+        const status = errors > 0 ? chalk.red(`${errors} error(s)`) : chalk.green('✅');
+        console.log(
+          `[${completed}/${total}] ${formatWallet(report)} ${succeeded}/${report.facts.length} facts ${status}`
+        );
+      },
+    });
+  } catch (error) {
+    if (!isUpstreamError(error)) {
+      throw error;
+    }
+    console.error(errorMessage(error.message));
+    console.log(chalk.yellow(`Stopped: rerun the same command to resume from ${checkpointPath}`));
+    return EXIT_ANALYSIS_FAILED;
+  } finally {
+    process.removeListener('SIGINT', onSigint);
+  }
+
+  const summary = summarizeBatch([...previous, ...reports]);
+  console.log(formatBatchSummary(summary));
+
+  if (stopping) {
+    console.log(chalk.yellow(`Interrupted: rerun the same command to resume from ${checkpointPath}`));
+  } else {
+    console.log(chalk.green(`📄 Results saved: ${checkpointPath}`));
+  }
+
+  return stopping || summary.walletsWithErrors > 0 ? EXIT_ANALYSIS_FAILED : EXIT_OK;
+}
+
+/**
+ * Render the per-fact success and fallback table
+ */
+function formatBatchSummary(summary: BatchSummary): string {
+  const lines = [createSectionHeader('📊 Batch Summary')];
+  lines.push(`Wallets analyzed: ${summary.wallets} (${summary.walletsWithErrors} with errors)\n`);
+
+  for (const fact of summary.facts) {
+    const rate = fact.total > 0 ? ((fact.succeeded / fact.total) * 100).toFixed(1) : '0.0';
+    lines.push(
+      `  ${fact.title.padEnd(28)} ${rate.padStart(5)}% success  ${String(fact.fallbacks).padStart(4)} fallbacks  ${String(fact.errors).padStart(4)} errors`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
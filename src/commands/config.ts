@@ -0,0 +1,55 @@
+import { parseArgs } from 'util';
+import { errorMessage } from '../utils/formatting';
+import {
+  CONFIG_OPTIONS_USAGE,
+  CONFIG_PARSE_OPTIONS,
+  ConfigFlags,
+  EXIT_OK,
+  EXIT_USAGE,
+  resolveConfig,
+} from './analyze';
+
+export const CONFIG_USAGE = `Usage: funfacts config [--config <file>] [--profile <name>] [--set <key=value>]
+
+Validate the configuration and print it as JSON, after the profile, FUNFACTS_* environment
+variables and --set overrides are applied.
+
+Options:
+${CONFIG_OPTIONS_USAGE}
+  -h, --help         Show this help`;
+
+/**
+ * `funfacts config` - print the effective configuration
+ * @param argv - Arguments after the command name
+ * @returns Process exit code (2 if the configuration is invalid)
+ */
+export async function runConfigCommand(argv: string[]): Promise<number> {
+  let values: ConfigFlags & { help?: boolean };
+
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        ...CONFIG_PARSE_OPTIONS,
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    console.error(CONFIG_USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (values.help) {
+    console.log(CONFIG_USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    console.log(JSON.stringify(resolveConfig(values), null, 2));
+    return EXIT_OK;
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return EXIT_USAGE;
+  }
+}
@@ -0,0 +1,66 @@
+import { errorMessage } from '../utils/formatting';
+import { runAnalyzeCommand, ANALYZE_USAGE, EXIT_OK, EXIT_USAGE } from './analyze';
+import { runBatchCommand, BATCH_USAGE } from './batch';
+import { runServeCommand, SERVE_USAGE } from './serve';
+import { runConfigCommand, CONFIG_USAGE } from './config';
+import { runPricesCommand, PRICES_USAGE } from './prices';
+
+export const CLI_USAGE = `Usage: funfacts [command] [options]
+
+Commands:
+  (none)                 Start the interactive prompt
+  analyze <address>      Analyze one wallet and exit
+  batch                  Analyze a list of wallets with resumable progress
+  serve                  Start the HTTP API
+  config                 Validate and print the effective configuration
+  prices sync            Fill the historical price store
+  prices health          Probe the price providers and show their health
+  prices coins           Refresh the token coin list (CoinGecko ids and symbols)
+  help                   Show this help
+
+${ANALYZE_USAGE}
+
+${BATCH_USAGE}
+
+${SERVE_USAGE}
+
+${CONFIG_USAGE}
+
+${PRICES_USAGE}`;
+
+/**
+ * Dispatches a non-interactive command
+ * @param argv - Command-line arguments (without node and script path)
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  switch (command) {
+    case 'analyze':
+      return runAnalyzeCommand(rest);
+
+    case 'batch':
+      return runBatchCommand(rest);
+
+    case 'serve':
+      return runServeCommand(rest);
+
+    case 'config':
+      return runConfigCommand(rest);
+
+    case 'prices':
+      return runPricesCommand(rest);
+
+    case 'help':
+    case '--help':
+    case '-h':
+      console.log(CLI_USAGE);
+      return EXIT_OK;
+
+    default:
+      console.error(errorMessage(`Unknown command: ${command}`));
+      console.error(CLI_USAGE);
+      return EXIT_USAGE;
+  }
+}
@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { subDays } from 'date-fns';
+import { errorMessage, successMessage, warningMessage } from '../utils/formatting';
+import { CoinGeckoService } from '../services/coingecko.service';
+import { PriceObservationIndex } from '../services/priceObservations.service';
+import { createPriceService } from '../services/priceProvider.service';
+import { PRICE_METHODS, ProviderHealth } from '../services/providerHealth.service';
+import { parseCoinList, TokenMetadataResolver } from '../services/tokenMetadata.service';
+import {
+  DEFAULT_PRICE_DIR,
+  parsePriceSeriesId,
+  PRICE_GRANULARITIES,
+  PriceGranularity,
+  PriceHistoryFetcher,
+  priceSeriesKey,
+  PriceSeriesId,
+  PriceStore,
+} from '../services/priceStore.service';
+import { CoinListEntry } from '../types';
+import { EXIT_ANALYSIS_FAILED, EXIT_OK, EXIT_USAGE } from './analyze';
+
+const DEFAULT_ASSETS = 'eth';
+const DEFAULT_DAYS = 365;
+const DEFAULT_HEALTH_COINS = 'ethereum,bitcoin';
+const HEALTH_PROBE_DAYS_AGO = 30;
+
+// Asset ids that differ from their CoinGecko coin id; others are used as coin ids
+const COINGECKO_COIN_IDS: Record<string, string> = {
+  eth: 'ethereum',
+  btc: 'bitcoin',
+  sol: 'solana',
+};
+
+export const PRICES_USAGE = `Usage: funfacts prices sync [--assets <ids>] [--days <n>] [--granularity <daily|hourly>] [--dir <dir>]
+       funfacts prices health [--coins <ids>] [--json]
+       funfacts prices coins [--snapshot <file>]
+
+sync:    Fill the historical price store from CoinGecko, fetching only the days (or hours) it is missing.
+health:  Ask every price provider for the current price and the price ${HEALTH_PROBE_DAYS_AGO} days ago of each coin,
+         then show each provider's status, success rate, latency and rate limits.
+coins:   Write the coin list that maps token contracts to CoinGecko ids and symbols (src/data/coin-list.json),
+         from CoinGecko or offline from a saved /coins/list?include_platform=true response.
+
+Options:
+  --assets <ids>     Comma-separated assets: eth, btc, sol, any CoinGecko coin id, or a token
+                     contract as <chain>:<address> (default: ${DEFAULT_ASSETS})
+  --days <n>         Days of history to cover, up to yesterday (default: ${DEFAULT_DAYS})
+  --granularity <g>  daily or hourly (default: daily)
+  --dir <dir>        Price store directory (default: src/data)
+  --coins <ids>      Comma-separated CoinGecko coin ids to probe (default: ${DEFAULT_HEALTH_COINS})
+  --json             Print the provider health as JSON
+  --snapshot <file>  Coin list to read instead of calling CoinGecko
+  -h, --help         Show this help`;
+
+/**
+ * `funfacts prices sync` - fill the price store's missing history
+ * `funfacts prices health` - probe the price providers and report their health
+ * `funfacts prices coins` - refresh the coin list
+ * @param argv - Arguments after the command name
+ * @returns Process exit code (1 if an asset could not be priced at all, no provider answered
+ * or the coin list could not be read)
+ */
+export async function runPricesCommand(argv: string[]): Promise<number> {
+  let values: {
+    assets?: string;
+    days?: string;
+    granularity?: string;
+    dir?: string;
+    coins?: string;
+    json?: boolean;
+    snapshot?: string;
+    help?: boolean;
+  };
+  let positionals: string[];
+
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        assets: { type: 'string', default: DEFAULT_ASSETS },
+        days: { type: 'string' },
+        granularity: { type: 'string', default: 'daily' },
+        dir: { type: 'string', default: DEFAULT_PRICE_DIR },
+        coins: { type: 'string', default: DEFAULT_HEALTH_COINS },
+        json: { type: 'boolean', default: false },
+        snapshot: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    console.error(PRICES_USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (values.help) {
+    console.log(PRICES_USAGE);
+    return EXIT_OK;
+  }
+
+  if (positionals[0] === 'health' && positionals.length === 1) {
+    return probeProviders(values.coins as string, values.json as boolean);
+  }
+
+  if (positionals[0] === 'coins' && positionals.length === 1) {
+    return refreshCoinList(values.snapshot);
+  }
+
+  if (positionals[0] !== 'sync' || positionals.length > 1) {
+    console.error(errorMessage(positionals[0] ? `Unknown prices command: ${positionals.join(' ')}` : 'Missing prices command'));
+    console.error(PRICES_USAGE);
+    return EXIT_USAGE;
+  }
+
+  const days = Number(values.days ?? DEFAULT_DAYS);
+  if (!Number.isInteger(days) || days < 1) {
+    console.error(errorMessage(`Invalid days: ${values.days} (expected a positive whole number)`));
+    return EXIT_USAGE;
+  }
+
+  const granularity = values.granularity as PriceGranularity;
+  if (!PRICE_GRANULARITIES.includes(granularity)) {
+    console.error(errorMessage(`Invalid granularity: ${values.granularity}. Available: ${PRICE_GRANULARITIES.join(', ')}`));
+    return EXIT_USAGE;
+  }
+
+  let assets: PriceSeriesId[];
+  try {
+    assets = (values.assets as string).split(',').map((spec) => spec.trim()).filter(Boolean).map(parsePriceSeriesId);
+    assets.forEach(priceSeriesKey);
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return EXIT_USAGE;
+  }
+
+  // Up to the last complete bucket
+  const to = new Date(Date.now() - (granularity === 'daily' ? 24 * 60 * 60 * 1000 : 60 * 60 * 1000));
+  const range = { from: subDays(to, days - 1), to };
+  const store = new PriceStore(values.dir);
+  const fetch = coinGeckoFetcher(new CoinGeckoService());
+
+  let failed = 0;
+  for (const asset of assets) {
+    const key = priceSeriesKey(asset);
+    console.log(`📈 Syncing ${granularity} ${key} prices for the last ${days} days...`);
+    try {
+      const result = await store.sync(asset, range, fetch, granularity);
+      const message = `${key}: ${result.filled} filled from ${result.requests} request(s), ${store.size(asset, granularity)} stored`;
+      if (result.filled === 0 && result.requests > 0) {
+        failed++;
+        console.warn(warningMessage(`${message} - no prices returned`));
+      } else {
+        console.log(successMessage(result.missing > 0 ? `${message}, ${result.missing} still missing` : message));
+      }
+    } catch (error) {
+      failed++;
+      console.error(errorMessage(`${key}: ${(error as Error).message}`));
+    }
+  }
+
+  return failed > 0 ? EXIT_ANALYSIS_FAILED : EXIT_OK;
+}
+
+/**
+ * Replace the coin list with a snapshot file's, or CoinGecko's current one
+ * @returns Process exit code (1 if the list could not be read)
+ */
+async function refreshCoinList(snapshot: string | undefined): Promise<number> {
+  let coins: CoinListEntry[];
+  try {
+    if (snapshot) {
+      console.log(`📇 Reading the coin list from ${snapshot}...`);
+      coins = parseCoinList(JSON.parse(fs.readFileSync(snapshot, 'utf-8')));
+    } else {
+      console.log('📇 Fetching the coin list from CoinGecko...');
+      coins = parseCoinList(await new CoinGeckoService().getCoinList());
+    }
+  } catch (error) {
+    console.error(errorMessage(`Could not read the coin list: ${(error as Error).message}`));
+    return EXIT_ANALYSIS_FAILED;
+  }
+
+  const tokens = new TokenMetadataResolver();
+  const written = tokens.save(coins);
+  console.log(successMessage(`${written} coins saved, ${tokens.size()} token contracts known`));
+  return EXIT_OK;
+}
+
+/**
+ * Price every coin through the provider chain, then print the providers' health
+ * @returns Process exit code (1 if no provider answered any probe)
+ */
+async function probeProviders(coinList: string, json: boolean): Promise<number> {
+  const coins = coinList.split(',').map((coin) => coin.trim().toLowerCase()).filter(Boolean);
+  if (coins.length === 0) {
+    console.error(errorMessage('No coins to probe'));
+    return EXIT_USAGE;
+  }
+
+  // No Nansen data is observed here, so the Nansen provider answers every probe with no price
+  const prices = createPriceService(new PriceObservationIndex(), {}, { logger: { warn: () => {} } });
+  const historicalDate = subDays(new Date(), HEALTH_PROBE_DAYS_AGO);
+  let priced = 0;
+
+  for (const coin of coins) {
+    for (const [label, probe] of [
+      ['current', () => prices.getCurrentPrice(coin)],
+      [`${HEALTH_PROBE_DAYS_AGO}d ago`, () => prices.getHistoricalPrice(coin, historicalDate)],
+    ] as const) {
+      try {
+        const result = await probe();
+        if (result.provider) {
+          priced++;
+        }
+        if (!json) {
+          const answer = result.provider ? `$${result.price.toLocaleString()} from ${result.provider}` : 'no price';
+          console.log(`  ${coin} (${label}): ${answer}`);
+        }
+      } catch (error) {
+        if (!json) {
+          console.log(`  ${coin} (${label}): ${(error as Error).message}`);
+        }
+      }
+    }
+  }
+
+  const health = prices.getHealth();
+  if (json) {
+    console.log(JSON.stringify(health, null, 2));
+  } else {
+    console.log('');
+    health.forEach((provider) => console.log(formatProviderHealth(provider)));
+  }
+  return priced > 0 ? EXIT_OK : EXIT_ANALYSIS_FAILED;
+}
+
+function formatProviderHealth(health: ProviderHealth): string {
+  const status =
+    health.status === 'cooling_down'
+      ? warningMessage(`cooling down until ${health.cooldownUntil?.toISOString()}`)
+      : health.status === 'degraded'
+        ? warningMessage('degraded')
+        : successMessage('healthy');
+  const lines = [`${health.provider}: ${status}`];
+  for (const method of PRICE_METHODS) {
+    const stats = health.methods[method];
+    if (stats) {
+      lines.push(
+        `  ${method.padEnd(10)} ${stats.calls} call(s), ${stats.prices} priced, ${stats.successRate}% ok, ` +
+          `${stats.avgLatencyMs}ms avg, ${stats.rateLimits} rate limit(s)` +
+          (stats.lastError ? ` - last error: ${stats.lastError}` : '')
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Fetches market chart samples from CoinGecko: by coin id for assets, by contract for tokens
+ */
+function coinGeckoFetcher(coinGecko: CoinGeckoService): PriceHistoryFetcher {
+  return async (id, range) => {
+    const chart = typeof id === 'string'
+      ? await coinGecko.getCoinMarketChartRange(COINGECKO_COIN_IDS[id.toLowerCase()] || id.toLowerCase(), range)
+      : await coinGecko.getMarketChartRange(id.chain, id.address, range);
+    return chart.prices || [];
+  };
+}
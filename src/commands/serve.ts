@@ -0,0 +1,91 @@
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import { errorMessage } from '../utils/formatting';
+import { createServer } from '../server';
+import { FunFactsConfig } from '../config';
+import {
+  CONFIG_OPTIONS_USAGE,
+  CONFIG_PARSE_OPTIONS,
+  ConfigFlags,
+  EXIT_ANALYSIS_FAILED,
+  EXIT_OK,
+  EXIT_USAGE,
+  resolveConfig,
+  resolveContext,
+} from './analyze';
+
+const DEFAULT_PORT = 3000;
+
+export const SERVE_USAGE = `Usage: funfacts serve [--port <port>] [--host <host>]
+
+Options:
+  --port <port>      Port to listen on (default: PORT env or ${DEFAULT_PORT})
+  --host <host>      Interface to bind (default: 127.0.0.1)
+${CONFIG_OPTIONS_USAGE}
+  -h, --help         Show this help`;
+
+/**
+ * `funfacts serve` - start the HTTP API and keep running until interrupted
+ * @param argv - Arguments after the command name
+ * @returns Process exit code once the server closes
+ */
+export async function runServeCommand(argv: string[]): Promise<number> {
+  let values: ConfigFlags & { port?: string; host?: string; help?: boolean };
+
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        port: { type: 'string' },
+        host: { type: 'string', default: '127.0.0.1' },
+        ...CONFIG_PARSE_OPTIONS,
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }));
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    console.error(SERVE_USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (values.help) {
+    console.log(SERVE_USAGE);
+    return EXIT_OK;
+  }
+
+  const port = Number(values.port || process.env.PORT || DEFAULT_PORT);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    console.error(errorMessage(`Invalid port: ${values.port || process.env.PORT}`));
+    return EXIT_USAGE;
+  }
+
+  let config: FunFactsConfig;
+  try {
+    config = resolveConfig(values);
+  } catch (error) {
+    console.error(errorMessage((error as Error).message));
+    return EXIT_USAGE;
+  }
+
+  const context = resolveContext(config);
+  if (!context) {
+    return EXIT_ANALYSIS_FAILED;
+  }
+
+  const server = createServer({ context });
+
+  return new Promise<number>((resolve) => {
+    server.on('error', (error) => {
+      console.error(errorMessage(`Server error: ${error.message}`));
+      resolve(1);
+    });
+
+    server.listen(port, values.host, () => {
+      console.log(chalk.green(`🚀 Fun Facts API listening on http://${values.host}:${port}`));
+    });
+
+    process.once('SIGINT', () => {
+      server.close(() => resolve(EXIT_OK));
+    });
+  });
+}
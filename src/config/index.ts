@@ -0,0 +1,390 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CONFIG_FILENAME = 'funfacts.config.json';
+
+// ============================================
+// Schema
+// ============================================
+
+export interface RuggedProjectsThresholds {
+  minInvestmentUsd: number; // Smallest total purchase that is considered
+  lossThresholdPercent: number; // Loss at or below this is a rug (e.g., -90)
+  minAgeDays: number; // Days since the last purchase before a loss counts
+  deadPriceUsd: number; // Tokens priced below this are considered dead
+}
+
+export interface PortfolioAthThresholds {
+  topHoldings: number; // Holdings (by value) valued at their ATH
+  minValueUsd: number; // Smaller holdings are dust and skipped
+}
+
+export interface PurchaseSampleThresholds {
+  topTransactions: number; // Purchases (by volume) sampled for the benchmark
+  minVolumeUsd: number; // Smaller transactions are not fetched
+}
+
+export type EthBenchmarkThresholds = PurchaseSampleThresholds;
+
+export interface BenchmarksThresholds extends PurchaseSampleThresholds {
+  stablecoinApyPercent: number; // Yield of the stablecoin benchmark
+}
+
+export interface TokenDiversityThresholds {
+  minValueUsd: number; // Smallest holding that counts as a token
+  highMinTokens: number; // HIGH needs at least this many tokens...
+  highMaxTop3Percent: number; // ...and the top 3 below this share of the portfolio
+  mediumMinTokens: number;
+  mediumMaxTop3Percent: number;
+}
+
+export interface FunFactThresholds {
+  ruggedProjects: RuggedProjectsThresholds;
+  portfolioAth: PortfolioAthThresholds;
+  ethBenchmark: EthBenchmarkThresholds;
+  benchmarks: BenchmarksThresholds;
+  tokenDiversity: TokenDiversityThresholds;
+}
+
+export type ThresholdOverrides = {
+  [S in keyof FunFactThresholds]?: Partial<FunFactThresholds[S]>;
+};
+
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'average'] as const;
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+export const BENCHMARK_IDS = ['eth', 'btc', 'sol', 'stablecoin', 'sp500'] as const;
+export type BenchmarkId = (typeof BENCHMARK_IDS)[number];
+
+export interface FunFactsConfig {
+  enabledFacts: string[]; // Fun fact ids to run (see FUN_FACT_IDS in features/registry)
+  profile: string; // Profile the thresholds were tuned with
+  thresholds: FunFactThresholds;
+  costBasisMethod: CostBasisMethod; // How sales are matched to purchases (see features/costBasis)
+  benchmarks: BenchmarkId[]; // What the benchmarks fun fact compares against (see features/benchmarks)
+  bundles: Record<string, string[]>; // Saved wallet groups: name -> addresses or ENS/SNS names
+}
+
+export interface LoadConfigOptions {
+  configPath?: string; // Config file (default: FUNFACTS_CONFIG, then funfacts.config.json)
+  profile?: string; // Profile name (default: FUNFACTS_PROFILE, then "profile" in the file)
+  overrides?: string[]; // "section.key=value" assignments applied last (e.g. from --set)
+  env?: NodeJS.ProcessEnv; // Environment to read FUNFACTS_* variables from (default: process.env)
+}
+
+interface NumberRule {
+  min: number;
+  max?: number;
+  integer?: boolean;
+}
+
+const THRESHOLD_RULES: { [S in keyof FunFactThresholds]: Record<keyof FunFactThresholds[S], NumberRule> } = {
+  ruggedProjects: {
+    minInvestmentUsd: { min: 0 },
+    lossThresholdPercent: { min: -100, max: 0 },
+    minAgeDays: { min: 0, integer: true },
+    deadPriceUsd: { min: 0 },
+  },
+  portfolioAth: {
+    topHoldings: { min: 1, max: 100, integer: true },
+    minValueUsd: { min: 0 },
+  },
+  ethBenchmark: {
+    topTransactions: { min: 1, integer: true },
+    minVolumeUsd: { min: 0 },
+  },
+  benchmarks: {
+    topTransactions: { min: 1, integer: true },
+    minVolumeUsd: { min: 0 },
+    stablecoinApyPercent: { min: 0, max: 100 },
+  },
+  tokenDiversity: {
+    minValueUsd: { min: 0 },
+    highMinTokens: { min: 1, integer: true },
+    highMaxTop3Percent: { min: 0, max: 100 },
+    mediumMinTokens: { min: 1, integer: true },
+    mediumMaxTop3Percent: { min: 0, max: 100 },
+  },
+};
+
+// ============================================
+// Defaults and profiles
+// ============================================
+
+export const DEFAULT_THRESHOLDS: FunFactThresholds = {
+  ruggedProjects: {
+    minInvestmentUsd: 100,
+    lossThresholdPercent: -90,
+    minAgeDays: 30,
+    deadPriceUsd: 0.00001,
+  },
+  portfolioAth: {
+    topHoldings: 20, // ~98% portfolio coverage
+    minValueUsd: 50,
+  },
+  ethBenchmark: {
+    topTransactions: 50, // ~98% volume coverage
+    minVolumeUsd: 10,
+  },
+  benchmarks: {
+    topTransactions: 50,
+    minVolumeUsd: 10,
+    stablecoinApyPercent: 5,
+  },
+  tokenDiversity: {
+    minValueUsd: 10,
+    highMinTokens: 15,
+    highMaxTop3Percent: 50,
+    mediumMinTokens: 5,
+    mediumMaxTop3Percent: 75,
+  },
+};
+
+/**
+ * Built-in profiles, applied on top of DEFAULT_THRESHOLDS and under the file's "thresholds"
+ * - strict: fewer, surer findings (bigger losses, older purchases, harder diversity scores)
+ * - lenient: more findings for small or young wallets
+ */
+export const PROFILES: Record<string, ThresholdOverrides> = {
+  default: {},
+  strict: {
+    ruggedProjects: { minInvestmentUsd: 500, lossThresholdPercent: -95, minAgeDays: 90, deadPriceUsd: 0.000001 },
+    portfolioAth: { minValueUsd: 100 },
+    tokenDiversity: { highMinTokens: 25, highMaxTop3Percent: 40, mediumMinTokens: 10, mediumMaxTop3Percent: 60 },
+  },
+  lenient: {
+    ruggedProjects: { minInvestmentUsd: 50, lossThresholdPercent: -80, minAgeDays: 14, deadPriceUsd: 0.0001 },
+    portfolioAth: { topHoldings: 30, minValueUsd: 10 },
+    tokenDiversity: { highMinTokens: 10, highMaxTop3Percent: 60, mediumMinTokens: 3, mediumMaxTop3Percent: 85 },
+  },
+};
+
+export const DEFAULT_CONFIG: FunFactsConfig = {
+  enabledFacts: ['pnl', 'rugged_projects', 'eth_benchmark', 'portfolio_ath', 'win_rate'],
+  profile: 'default',
+  thresholds: DEFAULT_THRESHOLDS,
+  costBasisMethod: 'fifo',
+  benchmarks: ['eth', 'stablecoin'], // Only the ETH series ships in src/data; add btc/sol after `prices sync`
+  bundles: {},
+};
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Environment variable that overrides a threshold
+ * e.g. ruggedProjects.minAgeDays -> FUNFACTS_RUGGED_PROJECTS_MIN_AGE_DAYS
+ */
+export function thresholdEnvVar(section: string, key: string): string {
+  const snake = (name: string) => name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+  return `FUNFACTS_${snake(section)}_${snake(key)}`;
+}
+
+/**
+ * Load and validate the fun facts config
+ * Thresholds are layered, later wins: defaults, the selected profile, the
+ * file's "thresholds", FUNFACTS_* environment variables, then `overrides`.
+ * A missing default config file is fine; an explicit one must exist.
+ * @param options - Config file, profile and overrides
+ * @returns The validated config
+ * @throws Error for an unreadable file, unknown profile or key, or an out-of-range value
+ */
+export function loadConfig(options: LoadConfigOptions = {}): FunFactsConfig {
+  const env = options.env ?? process.env;
+  const explicitPath = options.configPath || env.FUNFACTS_CONFIG;
+  const resolvedPath = explicitPath || path.resolve(process.cwd(), CONFIG_FILENAME);
+
+  let file: Record<string, unknown> = {};
+  if (fs.existsSync(resolvedPath)) {
+    file = readConfigFile(resolvedPath);
+  } else if (explicitPath) {
+    throw new Error(`Config file not found: ${resolvedPath}`);
+  }
+
+  const enabledFacts = file.enabledFacts ?? DEFAULT_CONFIG.enabledFacts;
+  if (!Array.isArray(enabledFacts) || !enabledFacts.every((id) => typeof id === 'string')) {
+    throw new Error(`${resolvedPath}: "enabledFacts" must be an array of fun fact ids`);
+  }
+
+  const profiles: Record<string, unknown> = { ...PROFILES };
+  if (file.profiles !== undefined) {
+    if (!isObject(file.profiles)) {
+      throw new Error(`${resolvedPath}: "profiles" must map profile names to threshold overrides`);
+    }
+    Object.assign(profiles, file.profiles);
+  }
+
+  const profile = options.profile || env.FUNFACTS_PROFILE || file.profile || 'default';
+  if (typeof profile !== 'string' || !(profile in profiles)) {
+    throw new Error(`Unknown profile: ${String(profile)}. Available: ${Object.keys(profiles).join(', ')}`);
+  }
+
+  // Values set explicitly in the file adjust the profile rather than being replaced by it
+  const thresholds = cloneThresholds(DEFAULT_THRESHOLDS);
+  applyOverrides(thresholds, profiles[profile], `profile "${profile}"`);
+  if (file.thresholds !== undefined) {
+    applyOverrides(thresholds, file.thresholds, `${resolvedPath} "thresholds"`);
+  }
+  applyEnv(thresholds, env);
+  for (const assignment of options.overrides ?? []) {
+    applyAssignment(thresholds, assignment);
+  }
+
+  validateThresholds(thresholds);
+
+  const bundles = file.bundles ?? {};
+  if (
+    !isObject(bundles) ||
+    !Object.values(bundles).every(
+      (wallets) => Array.isArray(wallets) && wallets.length > 0 && wallets.every((w) => typeof w === 'string')
+    )
+  ) {
+    throw new Error(`${resolvedPath}: "bundles" must map bundle names to non-empty arrays of wallet addresses or names`);
+  }
+
+  const costBasisMethod = env.FUNFACTS_COST_BASIS_METHOD || file.costBasisMethod || DEFAULT_CONFIG.costBasisMethod;
+  if (!COST_BASIS_METHODS.includes(costBasisMethod as CostBasisMethod)) {
+    throw new Error(`Invalid cost basis method: ${String(costBasisMethod)}. Available: ${COST_BASIS_METHODS.join(', ')}`);
+  }
+
+  const benchmarks = env.FUNFACTS_BENCHMARKS
+    ? env.FUNFACTS_BENCHMARKS.split(',').map((id) => id.trim()).filter(Boolean)
+    : file.benchmarks ?? DEFAULT_CONFIG.benchmarks;
+  if (!Array.isArray(benchmarks) || benchmarks.length === 0 || !benchmarks.every((id) => typeof id === 'string')) {
+    throw new Error(`${resolvedPath}: "benchmarks" must be a non-empty array of benchmark ids`);
+  }
+  const unknownBenchmarks = benchmarks.filter((id) => !BENCHMARK_IDS.includes(id as BenchmarkId));
+  if (unknownBenchmarks.length > 0) {
+    throw new Error(`Unknown benchmark(s): ${unknownBenchmarks.join(', ')}. Available: ${BENCHMARK_IDS.join(', ')}`);
+  }
+
+  return {
+    enabledFacts,
+    profile,
+    thresholds,
+    costBasisMethod: costBasisMethod as CostBasisMethod,
+    benchmarks: benchmarks as BenchmarkId[],
+    bundles: bundles as Record<string, string[]>,
+  };
+}
+
+/**
+ * Read and parse a config file
+ */
+function readConfigFile(filePath: string): Record<string, unknown> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not parse ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (raw === null) {
+    return {};
+  }
+  if (!isObject(raw)) {
+    throw new Error(`${filePath}: expected a JSON object`);
+  }
+  return raw;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function cloneThresholds(thresholds: FunFactThresholds): FunFactThresholds {
+  return {
+    ruggedProjects: { ...thresholds.ruggedProjects },
+    portfolioAth: { ...thresholds.portfolioAth },
+    ethBenchmark: { ...thresholds.ethBenchmark },
+    benchmarks: { ...thresholds.benchmarks },
+    tokenDiversity: { ...thresholds.tokenDiversity },
+  };
+}
+
+/**
+ * Set one threshold, rejecting unknown sections and keys
+ */
+function setThreshold(thresholds: FunFactThresholds, section: string, key: string, value: number, source: string): void {
+  const rules = THRESHOLD_RULES[section as keyof FunFactThresholds] as Record<string, NumberRule> | undefined;
+  if (!rules) {
+    throw new Error(`${source}: unknown section "${section}". Available: ${Object.keys(THRESHOLD_RULES).join(', ')}`);
+  }
+  if (!(key in rules)) {
+    throw new Error(`${source}: unknown setting "${section}.${key}". Available: ${Object.keys(rules).join(', ')}`);
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${source}: "${section}.${key}" must be a number`);
+  }
+  (thresholds[section as keyof FunFactThresholds] as unknown as Record<string, number>)[key] = value;
+}
+
+/**
+ * Apply a { section: { key: value } } object
+ */
+function applyOverrides(thresholds: FunFactThresholds, overrides: unknown, source: string): void {
+  if (!isObject(overrides)) {
+    throw new Error(`${source}: expected an object of threshold sections`);
+  }
+
+  for (const [section, values] of Object.entries(overrides)) {
+    if (!isObject(values)) {
+      throw new Error(`${source}: "${section}" must be an object`);
+    }
+    for (const [key, value] of Object.entries(values)) {
+      setThreshold(thresholds, section, key, value as number, source);
+    }
+  }
+}
+
+/**
+ * Apply FUNFACTS_<SECTION>_<KEY> environment variables
+ */
+function applyEnv(thresholds: FunFactThresholds, env: NodeJS.ProcessEnv): void {
+  for (const [section, rules] of Object.entries(THRESHOLD_RULES)) {
+    for (const key of Object.keys(rules)) {
+      const name = thresholdEnvVar(section, key);
+      const value = env[name];
+      if (value !== undefined && value !== '') {
+        setThreshold(thresholds, section, key, Number(value), name);
+      }
+    }
+  }
+}
+
+/**
+ * Apply a "section.key=value" assignment
+ */
+function applyAssignment(thresholds: FunFactThresholds, assignment: string): void {
+  const match = /^([A-Za-z]+)\.([A-Za-z0-9]+)=(.+)$/.exec(assignment.trim());
+  if (!match) {
+    throw new Error(`Invalid setting "${assignment}" (expected section.key=value, e.g. ruggedProjects.minAgeDays=60)`);
+  }
+  const [, section, key, value] = match;
+  setThreshold(thresholds, section, key, Number(value), `--set ${section}.${key}`);
+}
+
+/**
+ * Check every threshold against its allowed range
+ */
+function validateThresholds(thresholds: FunFactThresholds): void {
+  for (const [section, rules] of Object.entries(THRESHOLD_RULES)) {
+    const values = thresholds[section as keyof FunFactThresholds] as unknown as Record<string, number>;
+    for (const [key, rule] of Object.entries(rules as Record<string, NumberRule>)) {
+      const value = values[key];
+      if (value < rule.min || (rule.max !== undefined && value > rule.max)) {
+        const range = rule.max !== undefined ? `${rule.min} to ${rule.max}` : `at least ${rule.min}`;
+        throw new Error(`${section}.${key} must be ${range} (got ${value})`);
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        throw new Error(`${section}.${key} must be a whole number (got ${value})`);
+      }
+    }
+  }
+
+  const diversity = thresholds.tokenDiversity;
+  if (diversity.highMinTokens < diversity.mediumMinTokens || diversity.highMaxTop3Percent > diversity.mediumMaxTop3Percent) {
+    throw new Error('tokenDiversity: the HIGH cutoffs must be at least as strict as the MEDIUM ones');
+  }
+}
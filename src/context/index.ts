@@ -0,0 +1,104 @@
+import { NansenService } from '../services/nansen.service';
+import { createPriceService } from '../services/priceProvider.service';
+import { PriceObservationIndex, PriceObservingNansenClient } from '../services/priceObservations.service';
+import { NameResolver, NameResolverService } from '../services/nameResolver.service';
+import { AthCache, AthPrice, createAthCache, getAthCacheOptionsFromEnv } from '../services/athCache.service';
+import { FunFactsConfig, loadConfig } from '../config';
+import { DateRange, PriceResult } from '../types';
+
+/**
+ * Analysis Context - the services and settings an analyzer runs with
+ *
+ * Analyzers receive everything they talk to through this object instead of
+ * importing module-level singletons, so the same code can run with stub
+ * services in tests, with a different API key per tenant, or inside a server.
+ * createDefaultContext() is the one place the production wiring is built.
+ */
+
+/**
+ * The Nansen calls analyzers make (NansenService implements it)
+ */
+export type NansenClient = Pick<
+  NansenService,
+  'getPnlSummary' | 'getLabels' | 'getCurrentBalance' | 'getAllCurrentBalances' | 'getAllTransactions'
+>;
+
+/**
+ * Price lookups used by analyzers (PriceService implements it)
+ */
+export interface PriceSource {
+  getCurrentPrice(coinId: string): Promise<PriceResult>; // USD price now and who served it; 0 and null if unknown
+  getHistoricalPrice(coinId: string, date: Date): Promise<PriceResult>; // USD price on a date and who served it
+  batchGetATHPrices(
+    tokens: Array<{ chain: string; address: string }>,
+    window?: number | DateRange // Days before now, or an explicit range
+  ): Promise<Map<string, AthPrice>>; // Keyed by tokenKey(chain, address); provider says who served each
+  getDailyPrice(asset: string, date: Date): number | null; // Daily USD close of a stored series ('eth', 'btc', ...), interpolated over short gaps; null if unknown
+}
+
+export interface Clock {
+  now(): Date;
+}
+
+export interface Logger {
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export interface AnalysisContext {
+  nansen: NansenClient;
+  prices: PriceSource;
+  names: NameResolver; // ENS/SNS lookups for wallet input; analyzers only see addresses
+  athCache: AthCache; // ATH prices kept across analyses (and restarts, with ATH_CACHE=file or sqlite)
+  clock: Clock;
+  logger: Logger;
+  config: FunFactsConfig;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export const consoleLogger: Logger = {
+  info: (...args) => console.log(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+/**
+ * Build a context from the environment, keeping any parts passed in
+ * e.g. createDefaultContext({ nansen: new NansenService({ apiKey: tenantKey }) })
+ * Unless prices are passed in, they come from the PriceService fallback chain,
+ * and the Nansen client records the prices it returns for its Nansen provider.
+ * @param overrides - Parts to use instead of the defaults
+ * @returns The context
+ * @throws Error if a Nansen client has to be created and NANSEN_API_KEY is not set, or ATH_CACHE_* is invalid
+ */
+export function createDefaultContext(overrides: Partial<AnalysisContext> = {}): AnalysisContext {
+  const clock = overrides.clock ?? systemClock;
+  const nansen = overrides.nansen ?? new NansenService();
+  const observations = new PriceObservationIndex({ now: () => clock.now() });
+  return {
+    nansen: overrides.prices ? nansen : new PriceObservingNansenClient(nansen, observations),
+    prices: overrides.prices ?? createPriceService(observations, {}, { logger: overrides.logger, health: { now: () => clock.now() } }),
+    names: overrides.names ?? new NameResolverService(),
+    athCache: overrides.athCache ?? createAthCache({ ...getAthCacheOptionsFromEnv(), now: () => clock.now() }),
+    clock,
+    logger: overrides.logger ?? consoleLogger,
+    config: overrides.config ?? loadConfig(),
+  };
+}
+
+let defaultContext: AnalysisContext | null = null;
+
+/**
+ * The shared context for the CLI and server, created on first use
+ * @throws Error if NANSEN_API_KEY is not set
+ */
+export function getDefaultContext(): AnalysisContext {
+  if (!defaultContext) {
+    defaultContext = createDefaultContext();
+  }
+  return defaultContext;
+}
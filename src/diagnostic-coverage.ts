@@ -1,8 +1,11 @@
 import 'dotenv/config';
 import chalk from 'chalk';
 import { subMonths, subYears, format } from 'date-fns';
-import { nansenService } from './services/nansen.service';
+import { getDefaultContext } from './context';
 import { formatUSD } from './utils/formatting';
+import { isNativeToken, tokenKey } from './utils/tokenId';
+
+const ctx = getDefaultContext();
 
 const WALLET = '0x6313D7948D3491096Ffe00Dea2D246d588b4D4FC';
 
@@ -34,7 +37,7 @@ async function analyzeCoverage() {
 
   // Fetch ALL current holdings
   console.log(chalk.dim('Fetching current holdings...'));
-  const allHoldingsResponse = await nansenService.getCurrentBalance({
+  const allHoldingsResponse = await ctx.nansen.getCurrentBalance({
     address: WALLET,
     chain: 'all',
     hide_spam_token: true,
@@ -45,8 +48,7 @@ async function analyzeCoverage() {
 
   const allHoldings = allHoldingsResponse.data || [];
   const tokenHoldings = allHoldings.filter(h => 
-    h.token_address &&
-    h.token_address.toLowerCase() !== '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' &&
+    !isNativeToken(h.chain, h.token_address) &&
     h.value_usd > 0
   );
 
@@ -91,7 +93,7 @@ async function analyzeCoverage() {
 
   // Fetch ALL transactions in timeframe
   console.log(chalk.dim('Fetching all transactions...'));
-  const allTransactionsResponse = await nansenService.getAllTransactions({
+  const allTransactionsResponse = await ctx.nansen.getAllTransactions({
     address: WALLET,
     chain: 'ethereum',
     date: {
@@ -200,7 +202,7 @@ async function analyzeCoverage() {
   // Fetch ALL historical transactions (Ethereum only - most common chain)
   console.log(chalk.dim('Fetching complete transaction history (Ethereum chain)...'));
   const historyStartDate = subYears(new Date(), 5); // Last 5 years
-  const completeHistoryResponse = await nansenService.getAllTransactions({
+  const completeHistoryResponse = await ctx.nansen.getAllTransactions({
     address: WALLET,
     chain: 'ethereum',
     date: {
@@ -232,7 +234,7 @@ async function analyzeCoverage() {
     
     // Tokens received
     tx.tokens_received?.forEach(token => {
-      const key = `${token.token_address}-${tx.chain}`.toLowerCase();
+      const key = tokenKey(tx.chain, token.token_address);
       if (!uniqueTokens.has(key)) {
         uniqueTokens.set(key, {
           symbol: token.token_symbol || 'UNKNOWN',
@@ -251,7 +253,7 @@ async function analyzeCoverage() {
 
     // Tokens sent
     tx.tokens_sent?.forEach(token => {
-      const key = `${token.token_address}-${tx.chain}`.toLowerCase();
+      const key = tokenKey(tx.chain, token.token_address);
       if (!uniqueTokens.has(key)) {
         uniqueTokens.set(key, {
           symbol: token.token_symbol || 'UNKNOWN',
@@ -0,0 +1,443 @@
+import { Duration, parseISO, subDays } from 'date-fns';
+import { BenchmarkId, FunFactsConfig, PurchaseSampleThresholds } from '../config';
+import { AnalysisContext } from '../context';
+import {
+  AnalyzeOptions,
+  BenchmarkComparison,
+  BenchmarksFunFact,
+  PriceResult,
+  TokenBalance,
+  TokenTransfer,
+  Transaction,
+} from '../types';
+import { resolveWindow } from '../utils/dateRange';
+import { isUpstreamError } from '../utils/errors';
+import { tokenKey } from '../utils/tokenId';
+import { allChainsFor, transactionChainsFor } from './chains';
+import { buildCostBasis, swapCosts, TokenPosition } from './costBasis';
+import { filterByKind } from './transactionKinds';
+
+/**
+ * Benchmarks - how the tokens a wallet bought did against holding something else
+ *
+ * For each sampled purchase (a swap from ETH, a stablecoin or another base
+ * asset into a token, see classifyTransaction), the USD paid is converted to
+ * benchmark units at that day's price: the counterfactual. The outcome is what
+ * became of the tokens bought, from the cost-basis replay of the history: their
+ * current balance plus what sales of them brought in. Tokens that were also
+ * received by transfer only count in proportion to the part that was bought.
+ *
+ * Balances are only known as they are now, so both sides are valued at today's
+ * prices; the as-of date and range choose which purchases are compared.
+ * Purchases without a benchmark price on their date are left out of both sides
+ * of that comparison, and each figure's coverage says how much of it rests on data.
+ */
+
+export const BENCHMARKS_LOOKBACK: Duration = { months: 12 };
+
+// What purchases are paid with: native and wrapped majors, and stablecoins
+const BASE_ASSET_SYMBOLS = /^(w?eth|w?sol|w?btc|w?matic|pol|usdc(\.e)?|usdbc|usdt|dai|busd|fdusd|pyusd|usde|lusd|frax)$/i;
+
+// Days to look back for the latest close of a series without a live price
+const LATEST_PRICE_DAYS = 7;
+
+// Source reported for prices read from the price store (src/data)
+const PRICE_STORE = 'price store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365.25 * DAY_MS;
+
+/**
+ * Something the wallet could have bought instead
+ * A benchmark is priced in units: the USD paid for a purchase buys
+ * usd / priceOn(day) units, worth units * currentPrice() today.
+ */
+export interface Benchmark {
+  id: BenchmarkId;
+  name: string;
+  priceOn(ctx: AnalysisContext, date: Date): number | null; // Unit price on a day, or null if unknown
+  currentPrice(ctx: AnalysisContext): Promise<PriceResult>; // Unit price now and its source (0 if unknown)
+}
+
+/**
+ * A benchmark that holds an asset with a cached daily price series
+ * @param id - Benchmark id
+ * @param name - Display name
+ * @param series - Price-cache series (PriceSource.getDailyPrice)
+ * @param coinId - CoinGecko id for the live price; without one, the latest cached close is used
+ */
+export function assetBenchmark(id: BenchmarkId, name: string, series: string, coinId?: string): Benchmark {
+  return {
+    id,
+    name,
+    priceOn: (ctx, date) => ctx.prices.getDailyPrice(series, date),
+    async currentPrice(ctx) {
+      const now = ctx.clock.now();
+      if (coinId) {
+        return ctx.prices.getCurrentPrice(coinId);
+      }
+      for (let days = 0; days <= LATEST_PRICE_DAYS; days++) {
+        const price = ctx.prices.getDailyPrice(series, subDays(now, days));
+        if (price) {
+          return { price, provider: PRICE_STORE };
+        }
+      }
+      return { price: 0, provider: null };
+    },
+  };
+}
+
+/**
+ * A benchmark that earns a fixed yield, compounded continuously from a fixed origin
+ * @param id - Benchmark id
+ * @param name - Display name
+ * @param apyPercent - Annual yield (e.g., 5)
+ */
+export function yieldBenchmark(id: BenchmarkId, name: string, apyPercent: number): Benchmark {
+  // The unit "price" is the growth of $1 since 2020, so units bought later cost more
+  const origin = Date.UTC(2020, 0, 1);
+  const index = (date: Date) => Math.pow(1 + apyPercent / 100, (date.getTime() - origin) / YEAR_MS);
+  return {
+    id,
+    name,
+    priceOn: (_ctx, date) => index(date),
+    currentPrice: async (ctx) => ({ price: index(ctx.clock.now()), provider: 'fixed yield' }),
+  };
+}
+
+/**
+ * The benchmarks to compare against
+ * @param ids - Benchmark ids (ctx.config.benchmarks)
+ * @param config - Supplies the stablecoin yield
+ * @returns One benchmark per id, in the given order
+ */
+export function getBenchmarks(ids: BenchmarkId[], config: FunFactsConfig): Benchmark[] {
+  const apy = config.thresholds.benchmarks.stablecoinApyPercent;
+  const benchmarks: Record<BenchmarkId, () => Benchmark> = {
+    eth: () => assetBenchmark('eth', 'ETH', 'eth', 'ethereum'),
+    btc: () => assetBenchmark('btc', 'BTC', 'btc', 'bitcoin'),
+    sol: () => assetBenchmark('sol', 'SOL', 'sol', 'solana'),
+    stablecoin: () => yieldBenchmark('stablecoin', `Stablecoin at ${apy}% APY`, apy),
+    sp500: () => assetBenchmark('sp500', 'S&P 500 (SPY)', 'spy'),
+  };
+  return ids.map((id) => benchmarks[id]());
+}
+
+/**
+ * The outcome of a wallet's purchases against a set of benchmarks
+ */
+export interface BenchmarkRun {
+  comparisons: BenchmarkComparison[]; // Benchmarks with a price for at least one purchase, in the order given
+  unavailable: string[]; // Names of benchmarks without prices for any purchase, or without a current price
+  sampleSize: number; // Purchases compared
+  totalTransactions: number; // Purchases in the window
+  sampleCoverage: number; // Share of purchase volume in the sample
+}
+
+/**
+ * Compare a wallet's purchases with buying each benchmark instead
+ * @param ctx - Analysis context (services, clock, logger)
+ * @param address - Wallet address to analyze
+ * @param benchmarks - What to compare against
+ * @param sampling - Which purchases are fetched and sampled (the calling fact's thresholds)
+ * @param options - As-of date and window (default: the 12 months before now)
+ * @param lookback - Default window when options do not set one
+ * @returns The comparisons, or null if the wallet made no purchases in the window
+ */
+export async function compareWithBenchmarks(
+  ctx: AnalysisContext,
+  address: string,
+  benchmarks: Benchmark[],
+  sampling: PurchaseSampleThresholds,
+  options: AnalyzeOptions = {},
+  lookback: Duration = BENCHMARKS_LOOKBACK
+): Promise<BenchmarkRun | null> {
+  const window = resolveWindow(options, lookback, ctx.clock.now());
+  const chains = transactionChainsFor(address);
+
+  // Step 1: Fetch all transactions from multiple chains in parallel
+  ctx.logger.info(`  Fetching transactions from ${chains.length} chains in parallel...`);
+
+  const transactionsResults = await Promise.all(
+    chains.map((chain) =>
+      ctx.nansen
+        .getAllTransactions({
+          address,
+          chain,
+          date: window.range,
+          hide_spam_token: true,
+          filters: {
+            volume_usd: {
+              min: sampling.minVolumeUsd,
+            },
+          },
+          pagination: {
+            page: 1,
+            per_page: 100,
+          },
+          order_by: [
+            {
+              field: 'block_timestamp',
+              direction: 'ASC',
+            },
+          ],
+        })
+        .catch((err) => {
+          if (isUpstreamError(err)) {
+            throw err;
+          }
+          ctx.logger.info(`  ⚠️  Failed to fetch ${chain} transactions:`, err.message);
+          return { data: [] };
+        })
+    )
+  );
+
+  // Combine all transactions from all chains
+  const transactions = transactionsResults.flatMap((result) => result.data || []);
+  ctx.logger.info(`  Found ${transactions.length} total transactions across ${chains.length} chains`);
+
+  // Step 2: Filter for buy transactions
+  // A buy is a swap from a base asset into a token; deposits from exchanges,
+  // airdrops, bridge receipts and sales are not
+  const buyTransactions = filterByKind(transactions, ['swap']).filter(isPurchase);
+  if (buyTransactions.length === 0) {
+    return null;
+  }
+
+  // Step 3: Sample the largest purchases by volume
+  const topTransactions = [...buyTransactions]
+    .sort((a, b) => b.volume_usd - a.volume_usd)
+    .slice(0, sampling.topTransactions);
+
+  ctx.logger.info(`📊 Analyzing top ${topTransactions.length} transactions (out of ${buyTransactions.length} total across all chains)`);
+
+  const spentOn = (tx: Transaction) => purchaseCosts(tx).reduce((sum, cost) => sum + cost.costUsd, 0);
+  const totalUsdBought = buyTransactions.reduce((sum, tx) => sum + spentOn(tx), 0);
+  const sampledUsd = topTransactions.reduce((sum, tx) => sum + spentOn(tx), 0);
+
+  // Step 4: Convert what each purchase cost to benchmark units at that day's price
+  const counterfactuals: Array<{ benchmark: Benchmark; investedUsd: number; units: number; currentPrice: PriceResult; compared: PurchasedToken[] }> = [];
+  const unavailable: string[] = [];
+
+  for (const benchmark of benchmarks) {
+    let investedUsd = 0;
+    let units = 0;
+    const compared: PurchasedToken[] = [];
+
+    for (const tx of topTransactions) {
+      const price = benchmark.priceOn(ctx, parseISO(tx.block_timestamp));
+      if (!price || price <= 0) {
+        continue;
+      }
+      const costs = purchaseCosts(tx);
+      const usdSpent = costs.reduce((sum, cost) => sum + cost.costUsd, 0);
+      investedUsd += usdSpent;
+      units += usdSpent / price;
+      compared.push(...costs.map((cost) => ({ chain: tx.chain, ...cost })));
+    }
+
+    ctx.logger.info(`  Priced ${formatCoverage(ratio(investedUsd, sampledUsd))} of sampled spending in ${benchmark.name}`);
+
+    // Only look up today's price for benchmarks that have something to compare
+    const currentPrice = units > 0 ? await benchmark.currentPrice(ctx) : null;
+    if (currentPrice && currentPrice.price > 0) {
+      counterfactuals.push({ benchmark, investedUsd, units, currentPrice, compared });
+    } else {
+      unavailable.push(benchmark.name);
+    }
+  }
+
+  const run: BenchmarkRun = {
+    comparisons: [],
+    unavailable,
+    sampleSize: topTransactions.length,
+    totalTransactions: buyTransactions.length,
+    sampleCoverage: ratio(sampledUsd, totalUsdBought),
+  };
+  if (counterfactuals.length === 0) {
+    return run;
+  }
+
+  // Step 5: Value what became of the tokens bought - still held, or sold
+  const positions = buildCostBasis(transactions, ctx.config.costBasisMethod);
+  const balancesResponse = await ctx.nansen.getAllCurrentBalances({
+    address,
+    chain: allChainsFor(address),
+    hide_spam_token: true,
+    pagination: {
+      page: 1,
+      per_page: 100,
+    },
+  });
+  const balances = new Map(
+    (balancesResponse.data || []).map((holding) => [tokenKey(holding.chain, holding.token_address), holding])
+  );
+
+  // Step 6: Compare with each benchmark over the purchases it could price
+  for (const { benchmark, investedUsd, units, currentPrice, compared } of counterfactuals) {
+    let heldValue = 0;
+    let realizedValue = 0;
+    let valuedUsd = 0;
+
+    for (const purchase of compared) {
+      const key = tokenKey(purchase.chain, purchase.transfer.token_address);
+      const position = positions.get(key);
+      if (!position || position.boughtAmount === 0) continue;
+
+      const outcome = tokenOutcome(position, balances.get(key));
+      const share = purchase.transfer.token_amount / position.boughtAmount;
+      heldValue += outcome.heldValue * share;
+      realizedValue += outcome.realizedValue * share;
+      valuedUsd += purchase.costUsd * outcome.coverage;
+    }
+
+    const portfolioValue = heldValue + realizedValue;
+    const benchmarkValue = units * currentPrice.price;
+    const performancePercent = ((portfolioValue - benchmarkValue) / benchmarkValue) * 100;
+
+    ctx.logger.info(`  Tokens bought are worth $${portfolioValue.toFixed(2)} vs $${benchmarkValue.toFixed(2)} in ${benchmark.name}`);
+
+    run.comparisons.push({
+      benchmark: benchmark.id,
+      name: benchmark.name,
+      investedUsd,
+      portfolioValue,
+      heldValue,
+      realizedValue,
+      benchmarkValue,
+      performancePercent,
+      status: performancePercent >= 0 ? 'OUTPERFORMED' : 'UNDERPERFORMED',
+      currentPriceSource: currentPrice.provider ?? PRICE_STORE,
+      coverage: {
+        benchmarkValue: ratio(investedUsd, sampledUsd),
+        portfolioValue: ratio(valuedUsd, investedUsd),
+      },
+    });
+  }
+
+  return run;
+}
+
+/**
+ * Compares the tokens a wallet bought with holding each configured benchmark instead
+ * @param ctx - Analysis context (services, clock, logger); ctx.config.benchmarks picks the benchmarks
+ * @param address - Wallet address to analyze
+ * @param options - As-of date and window (default: the 12 months before now)
+ * @returns Benchmarks Fun Fact with one comparison per benchmark that could be priced
+ */
+export async function analyzeBenchmarks(
+  ctx: AnalysisContext,
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<BenchmarksFunFact> {
+  const fallback: BenchmarksFunFact = {
+    type: 'benchmarks',
+    success: false,
+    fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
+  };
+
+  try {
+    ctx.logger.info('📈 Comparing purchases with benchmarks...');
+
+    const run = await compareWithBenchmarks(
+      ctx,
+      address,
+      getBenchmarks(ctx.config.benchmarks, ctx.config),
+      ctx.config.thresholds.benchmarks,
+      options
+    );
+    if (!run || run.comparisons.length === 0) {
+      return fallback;
+    }
+
+    return {
+      type: 'benchmarks',
+      success: true,
+      data: {
+        comparisons: run.comparisons,
+        unavailable: run.unavailable,
+        sampleSize: run.sampleSize,
+        totalTransactions: run.totalTransactions,
+        sampleCoverage: run.sampleCoverage,
+      },
+    };
+  } catch (error) {
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error comparing with benchmarks:', error);
+    return fallback;
+  }
+}
+
+interface PurchasedToken {
+  chain: string;
+  transfer: TokenTransfer;
+  costUsd: number;
+}
+
+/**
+ * Whether a swap is a purchase: paid with a base asset, for at least one other token
+ * Selling into a base asset, or trading one token for another, ends the first
+ * token's run (its proceeds count) instead of starting a new one.
+ */
+function isPurchase(tx: Transaction): boolean {
+  return (
+    tx.volume_usd > 0 &&
+    (tx.tokens_sent || []).some(isBaseAsset) &&
+    (tx.tokens_received || []).some((transfer) => !isBaseAsset(transfer))
+  );
+}
+
+/**
+ * What a purchase paid for each token bought (base assets received alongside are change)
+ */
+function purchaseCosts(tx: Transaction): Array<{ transfer: TokenTransfer; costUsd: number }> {
+  return swapCosts(tx).filter((cost) => !isBaseAsset(cost.transfer));
+}
+
+function isBaseAsset(transfer: TokenTransfer): boolean {
+  return BASE_ASSET_SYMBOLS.test(transfer.token_symbol || '');
+}
+
+/**
+ * What became of a token the wallet bought
+ * Only the bought share of the token's inflows counts; the rest came in by transfer
+ * or before the history starts.
+ * @param position - The token's cost-basis position
+ * @param holding - Its current balance, if the wallet still has any
+ * @returns Value still held and sale proceeds for everything bought, and the
+ *   share of the token's inflows that is accounted for (held or sold)
+ */
+function tokenOutcome(
+  position: TokenPosition,
+  holding: TokenBalance | undefined
+): { heldValue: number; realizedValue: number; coverage: number } {
+  const inflow = position.boughtAmount + position.transferredInAmount + position.unmatchedAmount;
+  const balance = holding ? heldAmount(holding) : 0;
+  // Tokens beyond what the history accounts for were not bought in the window
+  const heldTokens = Math.min(balance, position.amount);
+  const heldValue = balance > 0 ? holding!.value_usd * (heldTokens / balance) : 0;
+  const boughtShare = position.boughtAmount / inflow;
+
+  return {
+    heldValue: heldValue * boughtShare,
+    realizedValue: position.proceedsUsd * boughtShare,
+    coverage: Math.min(1, (heldTokens + position.soldAmount) / inflow),
+  };
+}
+
+/**
+ * Tokens in a balance (Nansen sends token_amount alongside the balance string)
+ */
+function heldAmount(holding: TokenBalance): number {
+  return (holding as TokenBalance & { token_amount?: number }).token_amount ?? (parseFloat(holding.balance) || 0);
+}
+
+function ratio(part: number, whole: number): number {
+  return whole > 0 ? Math.min(1, part / whole) : 0;
+}
+
+function formatCoverage(share: number): string {
+  return `${(share * 100).toFixed(0)}%`;
+}
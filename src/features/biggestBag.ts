@@ -1,19 +1,22 @@
-import { nansenService } from '../services/nansen.service';
+import { AnalysisContext } from '../context';
 import { BiggestBagFunFact } from '../types';
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
 
 const MIN_VALUE_USD = 10; // Minimum $10 to consider
 
 /**
  * Identifies wallet's largest token holding
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
  * @returns Biggest Bag Fun Fact
  */
-export async function analyzeBiggestBag(address: string): Promise<BiggestBagFunFact> {
+export async function analyzeBiggestBag(ctx: AnalysisContext, address: string): Promise<BiggestBagFunFact> {
   try {
     // Fetch top holdings
-    const balanceResponse = await nansenService.getCurrentBalance({
+    const balanceResponse = await ctx.nansen.getCurrentBalance({
       address,
-      chain: 'all',
+      chain: allChainsFor(address),
       hide_spam_token: true,
       pagination: {
         page: 1,
@@ -72,7 +75,10 @@ export async function analyzeBiggestBag(address: string): Promise<BiggestBagFunF
       },
     };
   } catch (error) {
-    console.error('Error analyzing biggest bag:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing biggest bag:', error);
     return {
       type: 'biggest_bag',
       success: false,
@@ -0,0 +1,40 @@
+import { AddressFamily } from '../types';
+import { detectAddressFamily } from '../utils/validation';
+
+/**
+ * Chain routing per address family
+ *
+ * Nansen takes `chain: 'all'` only for EVM wallets; Solana and Bitcoin wallets
+ * are queried on their own chain. Transaction history is fetched per chain.
+ */
+
+const FAMILY_CHAINS: Record<AddressFamily, { all: string; transactions: string[] }> = {
+  evm: { all: 'all', transactions: ['ethereum', 'arbitrum', 'polygon', 'base', 'optimism'] },
+  solana: { all: 'solana', transactions: ['solana'] },
+  bitcoin: { all: 'bitcoin', transactions: ['bitcoin'] },
+};
+
+/**
+ * The address family of a normalized address (EVM if it cannot be detected)
+ */
+export function addressFamilyOf(address: string): AddressFamily {
+  return detectAddressFamily(address) ?? 'evm';
+}
+
+/**
+ * The `chain` value that covers every chain of the address's family
+ * @param address - Normalized wallet address
+ * @returns 'all' for EVM wallets, otherwise the family's own chain
+ */
+export function allChainsFor(address: string): string {
+  return FAMILY_CHAINS[addressFamilyOf(address)].all;
+}
+
+/**
+ * Chains to fetch transaction history from, one request each
+ * @param address - Normalized wallet address
+ * @returns Chain names
+ */
+export function transactionChainsFor(address: string): string[] {
+  return FAMILY_CHAINS[addressFamilyOf(address)].transactions;
+}
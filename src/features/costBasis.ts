@@ -0,0 +1,265 @@
+import { CostBasisMethod } from '../config';
+import { TokenTransfer, Transaction } from '../types';
+import { tokenKey } from '../utils/tokenId';
+import { classifyTransaction } from './transactionKinds';
+
+/**
+ * Cost basis - lots, realized and unrealized P&L per token from transaction history
+ *
+ * Transactions are replayed oldest first:
+ * - A swap (see classifyTransaction) buys the received tokens and sells the
+ *   sent ones. What was sent is the cost of what was received, split
+ *   across the received tokens by their USD value, and the other way round
+ *   for sale proceeds, so a multi-token transaction is never charged twice.
+ * - Every other kind moves tokens without trading them. Tokens coming in
+ *   (transfers, airdrops, bridge receipts, LP tokens) open a lot at their
+ *   market value, but are not a purchase. Tokens going out close lots without
+ *   realizing P&L: the basis leaves with the tokens.
+ *
+ * Sales match open lots first in, last in, or at the average cost of all open
+ * lots. Amounts sold beyond the known lots (bought before the history starts)
+ * are counted as unmatched and realize nothing.
+ */
+
+export interface Lot {
+  amount: number; // Tokens still open
+  costUsd: number; // Cost of the open tokens
+  acquiredAt: Date;
+  source: 'swap' | 'transfer';
+}
+
+export interface TokenPosition {
+  tokenAddress: string;
+  chain: string;
+  symbol: string;
+  lots: Lot[]; // Open lots, oldest first
+  amount: number; // Tokens held according to the history
+  costBasisUsd: number; // Cost of the tokens held
+  boughtAmount: number;
+  boughtUsd: number; // Total paid in swaps
+  soldAmount: number;
+  proceedsUsd: number; // Total received for sales
+  realizedPnlUsd: number; // Proceeds minus the cost of the lots sold
+  transferredInAmount: number;
+  transferredOutAmount: number;
+  unmatchedAmount: number; // Sold or sent without an open lot to match
+  firstBoughtAt?: Date;
+  lastBoughtAt?: Date;
+}
+
+export interface PositionValue {
+  valueUsd: number;
+  unrealizedPnlUsd: number; // Value minus cost basis of the tokens held
+  unrealizedPnlPercent: number | null; // null when the cost basis is zero
+}
+
+// Amounts below this are float noise from splitting lots
+const DUST = 1e-9;
+
+/**
+ * Replay transactions into per-token positions
+ * @param transactions - History in any order (it is sorted by block time)
+ * @param method - How sales are matched to lots (default: FIFO)
+ * @returns Positions keyed by tokenKey(chain, tokenAddress)
+ */
+export function buildCostBasis(
+  transactions: Transaction[],
+  method: CostBasisMethod = 'fifo'
+): Map<string, TokenPosition> {
+  const positions = new Map<string, TokenPosition>();
+  const positionFor = (chain: string, transfer: TokenTransfer): TokenPosition => {
+    const key = tokenKey(chain, transfer.token_address);
+    let position = positions.get(key);
+    if (!position) {
+      position = emptyPosition(chain, transfer);
+      positions.set(key, position);
+    }
+    return position;
+  };
+
+  const ordered = [...transactions].sort((a, b) => a.block_timestamp.localeCompare(b.block_timestamp));
+
+  for (const tx of ordered) {
+    const sent = (tx.tokens_sent || []).filter((transfer) => transfer.token_amount > 0);
+    const received = (tx.tokens_received || []).filter((transfer) => transfer.token_amount > 0);
+    const at = new Date(tx.block_timestamp);
+
+    if (classifyTransaction(tx) === 'swap') {
+      for (const { transfer, costUsd } of swapCosts(tx)) {
+        const position = positionFor(tx.chain, transfer);
+        openLot(position, { amount: transfer.token_amount, costUsd, acquiredAt: at, source: 'swap' });
+        position.boughtAmount += transfer.token_amount;
+        position.boughtUsd += costUsd;
+        position.firstBoughtAt = position.firstBoughtAt ?? at;
+        position.lastBoughtAt = at;
+      }
+
+      const proceedsUsd = totalValue(received) || totalValue(sent) || tx.volume_usd || 0;
+      sent.forEach((transfer, i) => {
+        const proceeds = proceedsUsd * shareOf(sent, i);
+        const position = positionFor(tx.chain, transfer);
+        const closed = closeLots(position, transfer.token_amount, method);
+        position.soldAmount += transfer.token_amount;
+        position.proceedsUsd += proceeds;
+        // Only the matched part has a known cost; proceeds for the rest realize nothing
+        position.realizedPnlUsd += proceeds * (closed.amount / transfer.token_amount) - closed.costUsd;
+      });
+    } else {
+      for (const transfer of received) {
+        const position = positionFor(tx.chain, transfer);
+        openLot(position, { amount: transfer.token_amount, costUsd: transferValue(transfer), acquiredAt: at, source: 'transfer' });
+        position.transferredInAmount += transfer.token_amount;
+      }
+      for (const transfer of sent) {
+        const position = positionFor(tx.chain, transfer);
+        closeLots(position, transfer.token_amount, method);
+        position.transferredOutAmount += transfer.token_amount;
+      }
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * What a swap paid for each token it received
+ * What was sent is split across the received tokens by their USD value; if
+ * neither side has a value, the transaction's volume is used.
+ * @param tx - A swap
+ * @returns One entry per token received
+ */
+export function swapCosts(tx: Transaction): Array<{ transfer: TokenTransfer; costUsd: number }> {
+  const sent = (tx.tokens_sent || []).filter((transfer) => transfer.token_amount > 0);
+  const received = (tx.tokens_received || []).filter((transfer) => transfer.token_amount > 0);
+  const costUsd = totalValue(sent) || totalValue(received) || tx.volume_usd || 0;
+
+  return received.map((transfer, i) => ({ transfer, costUsd: costUsd * shareOf(received, i) }));
+}
+
+/**
+ * Value a position at a price
+ * @param position - Position from buildCostBasis
+ * @param priceUsd - Current (or as-of) token price
+ * @param amount - Tokens actually held, if known (default: the amount from history)
+ * @returns Value and unrealized P&L
+ */
+export function valuePosition(position: TokenPosition, priceUsd: number, amount: number = position.amount): PositionValue {
+  const valueUsd = amount * priceUsd;
+  // If fewer tokens are held than the history says, only their share of the basis counts
+  const costUsd = position.amount > DUST ? position.costBasisUsd * Math.min(1, amount / position.amount) : 0;
+  const unrealizedPnlUsd = valueUsd - costUsd;
+
+  return {
+    valueUsd,
+    unrealizedPnlUsd,
+    unrealizedPnlPercent: costUsd > 0 ? (unrealizedPnlUsd / costUsd) * 100 : null,
+  };
+}
+
+/**
+ * Cost of the open lots that were bought (not transferred in)
+ */
+export function purchasedCostBasis(position: TokenPosition): number {
+  return position.lots.filter((lot) => lot.source === 'swap').reduce((sum, lot) => sum + lot.costUsd, 0);
+}
+
+function emptyPosition(chain: string, transfer: TokenTransfer): TokenPosition {
+  return {
+    tokenAddress: transfer.token_address,
+    chain,
+    symbol: transfer.token_symbol,
+    lots: [],
+    amount: 0,
+    costBasisUsd: 0,
+    boughtAmount: 0,
+    boughtUsd: 0,
+    soldAmount: 0,
+    proceedsUsd: 0,
+    realizedPnlUsd: 0,
+    transferredInAmount: 0,
+    transferredOutAmount: 0,
+    unmatchedAmount: 0,
+  };
+}
+
+function openLot(position: TokenPosition, lot: Lot): void {
+  position.lots.push(lot);
+  position.amount += lot.amount;
+  position.costBasisUsd += lot.costUsd;
+}
+
+/**
+ * Close `amount` tokens of open lots
+ * @returns How many tokens were matched to lots, and their cost
+ */
+function closeLots(
+  position: TokenPosition,
+  amount: number,
+  method: CostBasisMethod
+): { amount: number; costUsd: number } {
+  let matched = 0;
+  let costUsd = 0;
+
+  if (method === 'average') {
+    // Taking the same fraction of every lot charges the pool's average unit cost
+    const fraction = position.amount > DUST ? Math.min(1, amount / position.amount) : 0;
+    for (const lot of position.lots) {
+      const take = lot.amount * fraction;
+      const cost = lot.costUsd * fraction;
+      lot.amount -= take;
+      lot.costUsd -= cost;
+      matched += take;
+      costUsd += cost;
+    }
+  } else {
+    let remaining = amount;
+    while (remaining > DUST && position.lots.length > 0) {
+      const index = method === 'fifo' ? 0 : position.lots.length - 1;
+      const lot = position.lots[index];
+      const take = Math.min(remaining, lot.amount);
+      const cost = lot.amount > 0 ? lot.costUsd * (take / lot.amount) : 0;
+
+      lot.amount -= take;
+      lot.costUsd -= cost;
+      remaining -= take;
+      matched += take;
+      costUsd += cost;
+
+      if (lot.amount <= DUST) {
+        position.lots.splice(index, 1);
+      }
+    }
+  }
+
+  position.lots = position.lots.filter((lot) => lot.amount > DUST);
+  position.amount = position.lots.reduce((sum, lot) => sum + lot.amount, 0);
+  position.costBasisUsd = position.lots.reduce((sum, lot) => sum + lot.costUsd, 0);
+  position.unmatchedAmount += Math.max(0, amount - matched);
+
+  return { amount: matched, costUsd };
+}
+
+/**
+ * USD value of a transfer: its own value, else price times amount, else 0 (unknown)
+ */
+function transferValue(transfer: TokenTransfer): number {
+  if (transfer.value_usd !== null && transfer.value_usd !== undefined) {
+    return transfer.value_usd;
+  }
+  if (transfer.price_usd !== null && transfer.price_usd !== undefined) {
+    return transfer.price_usd * transfer.token_amount;
+  }
+  return 0;
+}
+
+function totalValue(transfers: TokenTransfer[]): number {
+  return transfers.reduce((sum, transfer) => sum + transferValue(transfer), 0);
+}
+
+/**
+ * A transfer's share of its side of a swap: by USD value, or equal shares when values are unknown
+ */
+function shareOf(transfers: TokenTransfer[], index: number): number {
+  const total = totalValue(transfers);
+  return total > 0 ? transferValue(transfers[index]) / total : 1 / transfers.length;
+}
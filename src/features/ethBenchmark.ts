@@ -1,167 +1,76 @@
-import { subMonths, parseISO, format } from 'date-fns';
-import { nansenService } from '../services/nansen.service';
-import { coinGeckoService } from '../services/coingecko.service';
-import { PriceCacheService } from '../services/priceCache.service';
-import { EthBenchmarkFunFact } from '../types';
+import { Duration } from 'date-fns';
+import { AnalysisContext } from '../context';
+import { AnalyzeOptions, EthBenchmarkFunFact } from '../types';
+import { isUpstreamError } from '../utils/errors';
+import { compareWithBenchmarks, getBenchmarks } from './benchmarks';
 
-const MIN_VOLUME_USD = 10; // Minimum $10 USD transaction volume
-const MONTHS_LOOKBACK = 12; // Look back 12 months (extended from 6 for better coverage)
-const TOP_TRANSACTIONS = 50; // Sample top 50 transactions by volume (~98% coverage)
-const SUPPORTED_CHAINS = ['ethereum', 'arbitrum', 'polygon', 'base', 'optimism']; // Multi-chain support
+export const ETH_BENCHMARK_LOOKBACK: Duration = { months: 12 }; // Extended from 6 months for better coverage
 
 /**
- * Compares wallet's token purchase performance vs. holding equivalent ETH instead
+ * Compares how the tokens a wallet bought did against buying ETH instead
+ *
+ * The ETH case of the benchmarks fun fact (see features/benchmarks): the
+ * tokens bought, valued at their current balance plus sale proceeds, against
+ * the same USD put into ETH on the same days.
+ *
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
+ * @param options - As-of date and window (default: the 12 months before now)
  * @returns ETH Benchmark Fun Fact
  */
-export async function analyzeEthBenchmark(address: string): Promise<EthBenchmarkFunFact> {
-  try {
-    const now = new Date();
-    const fromDate = subMonths(now, MONTHS_LOOKBACK);
-
-    // Step 1: Fetch all transactions from multiple chains in parallel
-    console.log(`  Fetching transactions from ${SUPPORTED_CHAINS.length} chains in parallel...`);
-    
-    const transactionsPromises = SUPPORTED_CHAINS.map(chain =>
-      nansenService.getAllTransactions({
-        address,
-        chain,
-        date: {
-          from: fromDate.toISOString(),
-          to: now.toISOString(),
-        },
-        hide_spam_token: true,
-        filters: {
-          volume_usd: {
-            min: MIN_VOLUME_USD,
-          },
-        },
-        pagination: {
-          page: 1,
-          per_page: 100,
-        },
-        order_by: [
-          {
-            field: 'block_timestamp',
-            direction: 'ASC',
-          },
-        ],
-      }).catch(err => {
-        console.log(`  ⚠️  Failed to fetch ${chain} transactions:`, err.message);
-        return { data: [] };
-      })
-    );
-
-    const transactionsResults = await Promise.all(transactionsPromises);
-    
-    // Combine all transactions from all chains
-    const transactions = transactionsResults.flatMap(result => result.data || []);
-
-    // Check if we have any transactions
-    if (transactions.length === 0) {
-      return {
-        type: 'eth_benchmark',
-        success: false,
-        fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
-      };
-    }
+export async function analyzeEthBenchmark(
+  ctx: AnalysisContext,
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<EthBenchmarkFunFact> {
+  const fallback: EthBenchmarkFunFact = {
+    type: 'eth_benchmark',
+    success: false,
+    fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
+  };
 
-    console.log(`  Found ${transactions.length} total transactions across ${SUPPORTED_CHAINS.length} chains`);
-
-    // Step 2: Filter for buy transactions (tokens received, not sent)
-    // A buy is when we receive tokens (tokens_received has items)
-    const buyTransactions = transactions.filter(
-      (tx) => tx.tokens_received && tx.tokens_received.length > 0 && tx.volume_usd > 0
+  try {
+    const run = await compareWithBenchmarks(
+      ctx,
+      address,
+      getBenchmarks(['eth'], ctx.config),
+      ctx.config.thresholds.ethBenchmark,
+      options,
+      ETH_BENCHMARK_LOOKBACK
     );
 
-    if (buyTransactions.length === 0) {
-      return {
-        type: 'eth_benchmark',
-        success: false,
-        fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
-      };
+    // No purchases, or no ETH price for them (then or now)
+    const eth = run?.comparisons[0];
+    if (!run || !eth) {
+      return fallback;
     }
 
-    // Step 2.5: Sample top transactions by volume for performance
-    // Sort by volume descending and take top 50
-    const topTransactions = buyTransactions
-      .sort((a, b) => b.volume_usd - a.volume_usd)
-      .slice(0, TOP_TRANSACTIONS);
-
-    console.log(`📊 Analyzing top ${topTransactions.length} transactions (out of ${buyTransactions.length} total across all chains)`);
-
-    // Step 3: Calculate total USD spent on purchases using pre-computed prices
-    let totalUsdSpent = 0;
-    let totalEthEquivalent = 0;
-    let pricesFound = 0;
-
-    for (const tx of topTransactions) {
-      const usdSpent = tx.volume_usd;
-      totalUsdSpent += usdSpent;
-
-      // Get ETH price at transaction time from cache (instant lookup)
-      const txDate = parseISO(tx.block_timestamp);
-      const ethPrice = PriceCacheService.getEthPrice(txDate);
-
-      if (ethPrice && ethPrice > 0) {
-        const ethEquivalent = usdSpent / ethPrice;
-        totalEthEquivalent += ethEquivalent;
-        pricesFound++;
-      }
-    }
-
-    console.log(`✅ Found ${pricesFound} cached prices out of ${topTransactions.length} transactions`);
-
-    // If we couldn't get any ETH prices, fail gracefully
-    if (totalEthEquivalent === 0) {
-      return {
-        type: 'eth_benchmark',
-        success: false,
-        fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
-      };
-    }
-
-    // Step 4: Get current ETH price
-    const currentEthPriceResponse = await coinGeckoService.getCurrentPrice('ethereum');
-    const currentEthPrice = currentEthPriceResponse.ethereum?.usd || 0;
-
-    if (currentEthPrice === 0) {
-      return {
-        type: 'eth_benchmark',
-        success: false,
-        fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
-      };
-    }
-
-    // Step 5: Calculate ETH equivalent portfolio value
-    const ethEquivalentValue = totalEthEquivalent * currentEthPrice;
-
-    // Step 6: Get current portfolio value (simplified - using total spent as proxy)
-    // In a real scenario, we'd need to fetch current token values
-    const portfolioValue = totalUsdSpent; // This is a simplification
-
-    // Step 7: Calculate performance difference
-    const performancePercent = ((portfolioValue - ethEquivalentValue) / ethEquivalentValue) * 100;
-
     return {
       type: 'eth_benchmark',
       success: true,
       data: {
-        portfolioValue,
-        ethEquivalentValue,
-        performancePercent,
-        status: performancePercent >= 0 ? 'OUTPERFORMED' : 'UNDERPERFORMED',
-        sampleSize: topTransactions.length,
-        totalTransactions: buyTransactions.length,
+        portfolioValue: eth.portfolioValue,
+        heldValue: eth.heldValue,
+        realizedValue: eth.realizedValue,
+        investedUsd: eth.investedUsd,
+        ethEquivalentValue: eth.benchmarkValue,
+        performancePercent: eth.performancePercent,
+        status: eth.status,
+        sampleSize: run.sampleSize,
+        totalTransactions: run.totalTransactions,
+        coverage: {
+          sample: run.sampleCoverage,
+          ethEquivalentValue: eth.coverage.benchmarkValue,
+          portfolioValue: eth.coverage.portfolioValue,
+        },
+        ethPriceSource: eth.currentPriceSource,
       },
     };
   } catch (error) {
-    console.error('Error analyzing ETH benchmark:', error);
-    return {
-      type: 'eth_benchmark',
-      success: false,
-      fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
-    };
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing ETH benchmark:', error);
+    return fallback;
   }
 }
-
@@ -1,5 +1,7 @@
-import { nansenService } from '../services/nansen.service';
+import { AnalysisContext } from '../context';
 import { LabelsFunFact } from '../types';
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
 
 // Official Nansen Label Priority List (highest to lowest priority)
 // Based on: https://www.nansen.ai/guides/wallet-labels-emojis-what-do-they-mean
@@ -57,14 +59,15 @@ const LABEL_PRIORITY = [
 
 /**
  * Identifies wallet labels/tags from Nansen
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
  * @returns Labels Fun Fact
  */
-export async function analyzeLabels(address: string): Promise<LabelsFunFact> {
+export async function analyzeLabels(ctx: AnalysisContext, address: string): Promise<LabelsFunFact> {
   try {
-    const response = await nansenService.getLabels({
+    const response = await ctx.nansen.getLabels({
       parameters: {
-        chain: 'all',
+        chain: allChainsFor(address),
         address,
       },
       pagination: {
@@ -85,7 +88,7 @@ export async function analyzeLabels(address: string): Promise<LabelsFunFact> {
     // Extract label names
     const labelNames = response.map((label) => label.label);
     
-    console.log(`  Found ${labelNames.length} label(s) for address: ${labelNames.join(', ')}`);
+    ctx.logger.info(`  Found ${labelNames.length} label(s) for address: ${labelNames.join(', ')}`);
 
     // Find the highest priority label using improved matching logic
     let highestPriorityLabel: string | null = null;
@@ -137,7 +140,7 @@ export async function analyzeLabels(address: string): Promise<LabelsFunFact> {
 
     // If no priority label found, return the first label as fallback
     if (!highestPriorityLabel) {
-      console.log(`  No priority label matched. Using first label: ${labelNames[0]}`);
+      ctx.logger.info(`  No priority label matched. Using first label: ${labelNames[0]}`);
       return {
         type: 'labels',
         success: true,
@@ -147,7 +150,7 @@ export async function analyzeLabels(address: string): Promise<LabelsFunFact> {
       };
     }
 
-    console.log(`  Selected label: "${actualLabel}" (Priority ${highestPriorityIndex + 1}: ${highestPriorityLabel})`);
+    ctx.logger.info(`  Selected label: "${actualLabel}" (Priority ${highestPriorityIndex + 1}: ${highestPriorityLabel})`);
 
     return {
       type: 'labels',
@@ -157,7 +160,10 @@ export async function analyzeLabels(address: string): Promise<LabelsFunFact> {
       },
     };
   } catch (error) {
-    console.error('Error analyzing labels:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing labels:', error);
     return {
       type: 'labels',
       success: false,
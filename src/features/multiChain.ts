@@ -1,20 +1,23 @@
 import { subYears } from 'date-fns';
-import { nansenService } from '../services/nansen.service';
+import { AnalysisContext } from '../context';
 import { MultiChainFunFact } from '../types';
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
 
 const MIN_VALUE_USD = 10; // Minimum $10 USD to consider
 
 /**
  * Analyzes wallet's multi-chain activity
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
  * @returns Multi-Chain Fun Fact
  */
-export async function analyzeMultiChain(address: string): Promise<MultiChainFunFact> {
+export async function analyzeMultiChain(ctx: AnalysisContext, address: string): Promise<MultiChainFunFact> {
   try {
     // Fetch current holdings across all chains
-    const balanceResponse = await nansenService.getAllCurrentBalances({
+    const balanceResponse = await ctx.nansen.getAllCurrentBalances({
       address,
-      chain: 'all',
+      chain: allChainsFor(address),
       hide_spam_token: true,
       pagination: {
         page: 1,
@@ -103,7 +106,10 @@ export async function analyzeMultiChain(address: string): Promise<MultiChainFunF
       },
     };
   } catch (error) {
-    console.error('Error analyzing multi-chain activity:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing multi-chain activity:', error);
     return {
       type: 'multi_chain',
       success: false,
@@ -1,25 +1,31 @@
-import { subYears } from 'date-fns';
-import { nansenService } from '../services/nansen.service';
-import { PnlFunFact } from '../types';
+import { Duration } from 'date-fns';
+import { AnalysisContext } from '../context';
+import { AnalyzeOptions, PnlFunFact } from '../types';
+import { describeWindow, resolveWindow } from '../utils/dateRange';
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
+
+export const PNL_LOOKBACK: Duration = { years: 1 };
 
 /**
  * Analyzes wallet's realized profit/loss over the past year
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
- * @param years - Number of years to look back (default: 1)
+ * @param options - As-of date and window (default: the year before now)
  * @returns P&L Fun Fact
  */
-export async function analyzePnl(address: string, years: number = 1): Promise<PnlFunFact> {
-  try {
-    const now = new Date();
-    const fromDate = subYears(now, years);
+export async function analyzePnl(
+  ctx: AnalysisContext,
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<PnlFunFact> {
+  const window = resolveWindow(options, PNL_LOOKBACK, ctx.clock.now());
 
-    const response = await nansenService.getPnlSummary({
+  try {
+    const response = await ctx.nansen.getPnlSummary({
       address,
-      chain: 'all',
-      date: {
-        from: fromDate.toISOString(),
-        to: now.toISOString(),
-      },
+      chain: allChainsFor(address),
+      date: window.range,
     });
 
     // Check if we have valid data
@@ -51,11 +57,14 @@ export async function analyzePnl(address: string, years: number = 1): Promise<Pn
         realized_pnl_percent: pnlPercent,
         realized_pnl_usd: pnlUsd,
         status: pnlPercent >= 0 ? 'GAIN' : 'LOSS',
-        timeframe: years === 1 ? 'in the past year' : `in the past ${years} years`,
+        timeframe: describeWindow(window),
       },
     };
   } catch (error) {
-    console.error('Error analyzing P&L:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing P&L:', error);
     return {
       type: 'pnl',
       success: false,
@@ -1,26 +1,49 @@
-import { nansenService } from '../services/nansen.service';
-import { coinGeckoService } from '../services/coingecko.service';
-import { PortfolioAthFunFact } from '../types';
+import { Duration, differenceInCalendarDays, parseISO } from 'date-fns';
+import { AnalysisContext } from '../context';
+import { AnalyzeOptions, PortfolioAthFunFact, PriceSources } from '../types';
+import { resolveWindow } from '../utils/dateRange';
+import { isUpstreamError } from '../utils/errors';
+import { isNativeToken, tokenKey } from '../utils/tokenId';
+import { allChainsFor } from './chains';
 
-const ATH_LOOKBACK_DAYS = 365; // Look back 1 year for ATH
-const TOP_HOLDINGS_COUNT = 20; // Top 20 holdings (~98% portfolio coverage)
-const MIN_VALUE_USD = 50; // Minimum $50 USD value to include
+export const PORTFOLIO_ATH_LOOKBACK: Duration = { days: 365 }; // Window the ATH is taken over
 
 /**
  * Calculates wallet's potential value if all current holdings were at their all-time highs
+ * ATH prices are read through ctx.athCache, so only tokens it lacks reach CoinGecko.
+ * Holdings are always today's: Nansen has no balance history, so a snapshot
+ * as of an earlier day gets the fallback instead of mixing today's holdings with old prices.
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
+ * @param options - As-of date and ATH price window (default: the 365 days before now)
  * @returns Portfolio ATH Fun Fact
  */
-export async function analyzePortfolioATH(address: string): Promise<PortfolioAthFunFact> {
+export async function analyzePortfolioATH(
+  ctx: AnalysisContext,
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<PortfolioAthFunFact> {
+  const window = resolveWindow(options, PORTFOLIO_ATH_LOOKBACK, ctx.clock.now());
+  const thresholds = ctx.config.thresholds.portfolioAth;
+
+  if (options.asOf && differenceInCalendarDays(ctx.clock.now(), options.asOf) > 0) {
+    ctx.logger.warn('⚠️  Portfolio ATH values current holdings and cannot be backdated');
+    return {
+      type: 'portfolio_ath',
+      success: false,
+      fallback: 'Portfolio ATH only describes current holdings, so it has no as-of snapshot',
+    };
+  }
+
   try {
     // Step 1: Fetch top holdings (excluding ETH)
-    const balanceResponse = await nansenService.getCurrentBalance({
+    const balanceResponse = await ctx.nansen.getCurrentBalance({
       address,
-      chain: 'all',
+      chain: allChainsFor(address),
       hide_spam_token: true,
       pagination: {
         page: 1,
-        per_page: TOP_HOLDINGS_COUNT,
+        per_page: thresholds.topHoldings,
       },
       order_by: [
         {
@@ -44,14 +67,12 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
     // Filter out ETH/native tokens and small holdings
     const tokenHoldings = holdings.filter(
       (holding) =>
-        holding.token_address &&
-        holding.token_address.toLowerCase() !== '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' &&
-        holding.token_address.toLowerCase() !== '0x000000000000000000000000000000000000800a' && // ZkSync ETH
         holding.chain &&
-        holding.value_usd >= MIN_VALUE_USD // Filter out dust
+        !isNativeToken(holding.chain, holding.token_address) &&
+        holding.value_usd >= thresholds.minValueUsd // Filter out dust
     );
 
-    console.log(`📊 Analyzing top ${tokenHoldings.length} holdings (min $${MIN_VALUE_USD} value)`);
+    ctx.logger.info(`📊 Analyzing top ${tokenHoldings.length} holdings (min $${thresholds.minValueUsd} value)`);
 
     if (tokenHoldings.length === 0) {
       return {
@@ -73,17 +94,24 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
       address: holding.token_address,
     }));
 
-    const athPrices = await coinGeckoService.batchGetATHPrices(
-      tokensToFetch,
-      ATH_LOOKBACK_DAYS
+    // A window ending now is requested in days; any other window by its dates
+    const athWindow = window.lookback
+      ? differenceInCalendarDays(parseISO(window.range.to), parseISO(window.range.from))
+      : window.range;
+    // Tokens priced by an earlier analysis come from the ATH cache
+    const athPrices = await ctx.athCache.getMany(tokensToFetch, athWindow, (tokens, athSpan) =>
+      ctx.prices.batchGetATHPrices(tokens, athSpan)
     );
+    const cacheStats = ctx.athCache.getStats();
+    ctx.logger.info(`  ATH cache (${cacheStats.backend}): ${cacheStats.hits} hits, ${cacheStats.misses} misses, ${cacheStats.size} entries`);
 
     // Step 4: Calculate ATH portfolio value
     let athValue = 0;
     let successfulTokens = 0;
+    const priceSources: PriceSources = {};
 
     for (const holding of tokenHoldings) {
-      const athData = athPrices.get(holding.token_address.toLowerCase());
+      const athData = athPrices.get(tokenKey(holding.chain, holding.token_address));
 
       if (athData && athData.athPrice > 0) {
         // Calculate token amount - use balance if available, otherwise calculate from value/price
@@ -95,14 +123,14 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
           // Calculate balance from value and price
           tokenAmount = holding.value_usd / holding.price_usd;
         } else {
-          console.warn(`⚠️  Cannot calculate balance for ${holding.token_symbol}`);
+          ctx.logger.warn(`⚠️  Cannot calculate balance for ${holding.token_symbol}`);
           athValue += holding.value_usd; // Use current value as fallback
           continue;
         }
 
         // Validate token amount
         if (isNaN(tokenAmount) || tokenAmount <= 0) {
-          console.warn(`⚠️  Invalid balance for ${holding.token_symbol}: ${tokenAmount}`);
+          ctx.logger.warn(`⚠️  Invalid balance for ${holding.token_symbol}: ${tokenAmount}`);
           athValue += holding.value_usd; // Use current value as fallback
           continue;
         }
@@ -112,11 +140,13 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
         
         // Validate result
         if (isNaN(athTokenValue) || athTokenValue < 0) {
-          console.warn(`⚠️  Invalid ATH calculation for ${holding.token_symbol}`);
+          ctx.logger.warn(`⚠️  Invalid ATH calculation for ${holding.token_symbol}`);
           athValue += holding.value_usd; // Use current value as fallback
         } else {
           athValue += athTokenValue;
           successfulTokens++;
+          const source = athData.provider ?? 'unknown';
+          priceSources[source] = (priceSources[source] ?? 0) + 1;
         }
       } else {
         // If we can't get ATH, use current value as fallback
@@ -133,7 +163,7 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
       };
     }
 
-    console.log(`✅ Successfully retrieved ATH data for ${successfulTokens}/${tokenHoldings.length} tokens`);
+    ctx.logger.info(`✅ Successfully retrieved ATH data for ${successfulTokens}/${tokenHoldings.length} tokens`);
 
     // Step 5: Calculate potential gain
     const potentialGainPercent = ((athValue - currentValue) / currentValue) * 100;
@@ -147,10 +177,14 @@ export async function analyzePortfolioATH(address: string): Promise<PortfolioAth
         potentialGainPercent,
         sampleSize: tokenHoldings.length,
         successfulTokens,
+        priceSources,
       },
     };
   } catch (error) {
-    console.error('Error analyzing portfolio ATH:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing portfolio ATH:', error);
     return {
       type: 'portfolio_ath',
       success: false,
@@ -0,0 +1,484 @@
+import chalk from 'chalk';
+import {
+  formatPercentColored,
+  formatUSD,
+  successMessage,
+  warningMessage,
+  infoMessage,
+} from '../utils/formatting';
+import { analyzePnl, PNL_LOOKBACK } from './pnl';
+import { analyzeLabels } from './labels';
+import { analyzeSmartMoney } from './smartMoney';
+import { analyzeRuggedProjects, RUGGED_PROJECTS_LOOKBACK } from './ruggedProjects';
+import { analyzeEthBenchmark, ETH_BENCHMARK_LOOKBACK } from './ethBenchmark';
+import { analyzePortfolioATH, PORTFOLIO_ATH_LOOKBACK } from './portfolioATH';
+import { analyzeWinRate, WIN_RATE_LOOKBACK } from './winRate';
+import { analyzeBiggestBag } from './biggestBag';
+import { analyzeTokenDiversity } from './tokenDiversity';
+import { analyzeMultiChain } from './multiChain';
+import { analyzeBenchmarks, BENCHMARKS_LOOKBACK } from './benchmarks';
+import { addressFamilyOf } from './chains';
+import {
+  AnalyzeOptions,
+  FunFact,
+  FunFactId,
+  FunFactModule,
+  PnlFunFact,
+  LabelsFunFact,
+  SmartMoneyFunFact,
+  RuggedProjectsFunFact,
+  EthBenchmarkFunFact,
+  PortfolioAthFunFact,
+  WinRateFunFact,
+  BiggestBagFunFact,
+  TokenDiversityFunFact,
+  MultiChainFunFact,
+  BenchmarksFunFact,
+} from '../types';
+import { AnalysisContext } from '../context';
+import { isUpstreamError } from '../utils/errors';
+
+/**
+ * A 0-1 coverage share as a whole percentage
+ */
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+const pnlModule: FunFactModule<PnlFunFact> = {
+  id: 'pnl',
+  number: 1,
+  title: 'P&L (Profit & Loss)',
+  lookback: PNL_LOOKBACK,
+  families: ['evm', 'solana'],
+  combinesWallets: true,
+  analyze: (ctx, address, options) => analyzePnl(ctx, address, options),
+  fallback: () => ({
+    type: 'pnl',
+    success: false,
+    fallback: 'Only mist—too little history to read.',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const direction = result.data.status === 'GAIN' ? 'Up' : 'Down';
+      const directionColor = result.data.status === 'GAIN' ? chalk.green : chalk.red;
+      return `My wallet P&L ${result.data.timeframe}:\n${directionColor(direction + ' ' + formatPercentColored(result.data.realized_pnl_percent))}`;
+    }
+    return warningMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      const direction = result.data.status === 'GAIN' ? 'Up' : 'Down';
+      return `${direction} ${result.data.realized_pnl_percent.toFixed(2)}%`;
+    }
+    return result.fallback || 'No data';
+  },
+};
+
+const labelsModule: FunFactModule<LabelsFunFact> = {
+  id: 'labels',
+  number: 2,
+  title: 'Wallet Labels',
+  families: ['evm', 'solana', 'bitcoin'],
+  analyze: (ctx, address) => analyzeLabels(ctx, address),
+  fallback: () => ({ type: 'labels', success: false, fallback: null }),
+  render(result) {
+    if (result.success && result.data) {
+      return successMessage(`This wallet is labeled as: ${chalk.bold(result.data.label)}`);
+    }
+    return infoMessage('No priority labels found for this wallet');
+  },
+  summarize(result) {
+    return result.success && result.data ? result.data.label : 'No labels';
+  },
+};
+
+const smartMoneyModule: FunFactModule<SmartMoneyFunFact> = {
+  id: 'smart_money',
+  number: 3,
+  title: 'Smart Money Trader',
+  families: ['evm', 'solana'],
+  analyze: (ctx, address) => analyzeSmartMoney(ctx, address),
+  fallback: () => ({ type: 'smart_money', success: false, fallback: null }),
+  render(result) {
+    if (result.success && result.data) {
+      return successMessage(
+        `✨ Smart Money Detected! Labels: ${chalk.bold(result.data.labels.join(', '))}`
+      );
+    }
+    return infoMessage('Not identified as smart money trader');
+  },
+  summarize(result) {
+    if (result.success && result.data && result.data.isSmartMoney) {
+      return `Identified (${result.data.labels.join(', ')})`;
+    }
+    return 'Not identified';
+  },
+};
+
+const ruggedProjectsModule: FunFactModule<RuggedProjectsFunFact> = {
+  id: 'rugged_projects',
+  number: 4,
+  title: 'Rugged Projects',
+  lookback: RUGGED_PROJECTS_LOOKBACK,
+  families: ['evm', 'solana'],
+  combinesWallets: true,
+  analyze: (ctx, address, options) => analyzeRuggedProjects(ctx, address, options),
+  fallback: () => ({
+    type: 'rugged_projects',
+    success: true,
+    data: { ruggedCount: 0, ruggedTokens: [] },
+    fallback: 'No rugged projects detected—clear skies ahead',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      if (result.data.ruggedCount > 0) {
+        const tokenWord = result.data.ruggedCount === 1 ? 'token' : 'tokens';
+        const rugCount = chalk.red.bold(result.data.ruggedCount.toString());
+        return `I have ${rugCount} rugged ${tokenWord} as my battle scars`;
+      }
+      return successMessage(result.fallback || 'No rugged projects detected—clear skies ahead');
+    }
+    return successMessage('No rugged projects detected—clear skies ahead');
+  },
+  summarize(result) {
+    if (result.success && result.data && result.data.ruggedCount > 0) {
+      return `${result.data.ruggedCount} rugged token${result.data.ruggedCount === 1 ? '' : 's'}`;
+    }
+    return '0 rugged tokens';
+  },
+};
+
+const ethBenchmarkModule: FunFactModule<EthBenchmarkFunFact> = {
+  id: 'eth_benchmark',
+  number: 5,
+  title: 'ETH Benchmark',
+  lookback: ETH_BENCHMARK_LOOKBACK,
+  analyze: (ctx, address, options) => analyzeEthBenchmark(ctx, address, options),
+  fallback: () => ({
+    type: 'eth_benchmark',
+    success: false,
+    fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const difference = result.data.portfolioValue - result.data.ethEquivalentValue;
+      const direction = difference >= 0 ? 'Up' : 'Down';
+      const directionColor = difference >= 0 ? chalk.green : chalk.red;
+      const absDifference = Math.abs(difference);
+      const percentColored = formatPercentColored(result.data.performancePercent);
+      const { coverage } = result.data;
+      const breakdown = `${formatUSD(result.data.heldValue)} held + ${formatUSD(result.data.realizedValue)} sold vs ${formatUSD(result.data.ethEquivalentValue)} in ETH`;
+      const coverageLine = `coverage: ${formatShare(coverage.portfolioValue)} of purchases accounted for, ${formatShare(coverage.ethEquivalentValue)} priced in ETH, ${formatShare(coverage.sample)} of volume sampled`;
+      return `If I traded everything in ETH:\n${directionColor(direction + ' ' + percentColored)}\n${chalk.dim('  (' + formatUSD(absDifference) + ' difference)')}\n${chalk.dim('  ' + breakdown)}\n${chalk.dim('  ' + coverageLine)}`;
+    }
+    return warningMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      const difference = result.data.portfolioValue - result.data.ethEquivalentValue;
+      const direction = difference >= 0 ? 'Up' : 'Down';
+      const absPercent = Math.abs(result.data.performancePercent);
+      return `${direction} ${absPercent.toFixed(2)}% ($${Math.abs(difference).toFixed(0)}), ${formatShare(result.data.coverage.portfolioValue)} of purchases accounted for`;
+    }
+    return result.fallback || 'No data';
+  },
+  sampleSize: (result) => result.data?.sampleSize,
+};
+
+const portfolioAthModule: FunFactModule<PortfolioAthFunFact> = {
+  id: 'portfolio_ath',
+  number: 6,
+  title: 'Portfolio at ATH',
+  lookback: PORTFOLIO_ATH_LOOKBACK,
+  families: ['evm', 'solana'],
+  combinesWallets: true,
+  analyze: (ctx, address, options) => analyzePortfolioATH(ctx, address, options),
+  fallback: () => ({
+    type: 'portfolio_ath',
+    success: false,
+    fallback: 'No meaningful history yet for young/empty wallets',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const holdingsCount = result.data.sampleSize || 20;
+      const athValueFormatted = formatUSD(result.data.athValue);
+      const gainPercentColored = formatPercentColored(result.data.potentialGainPercent);
+      return `If I cashed out my top ${holdingsCount} holdings at ATH:\n${chalk.green('Up ' + gainPercentColored)}\n${chalk.dim('  (' + athValueFormatted + ' total value)')}`;
+    }
+    return warningMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      return `Up ${result.data.potentialGainPercent.toFixed(2)}% ($${result.data.athValue.toFixed(0)} at ATH)`;
+    }
+    return result.fallback || 'No data';
+  },
+  sampleSize: (result) => result.data?.sampleSize,
+};
+
+const winRateModule: FunFactModule<WinRateFunFact> = {
+  id: 'win_rate',
+  number: 7,
+  title: 'Win Rate Champion',
+  lookback: WIN_RATE_LOOKBACK,
+  families: ['evm', 'solana'],
+  combinesWallets: true,
+  analyze: (ctx, address, options) => analyzeWinRate(ctx, address, options),
+  fallback: () => ({
+    type: 'win_rate',
+    success: false,
+    fallback: 'Not enough trading history to calculate win rate',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const winRateColor = result.data.winRate >= 50 ? chalk.green : chalk.yellow;
+      const winRateText = winRateColor(`${result.data.winRate.toFixed(0)}% Win Rate`);
+      return `My wallet win rate:\n${winRateText}`;
+    }
+    return warningMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      return `${result.data.winRate.toFixed(0)}% Win Rate`;
+    }
+    return result.fallback || 'No data';
+  },
+  sampleSize: (result) => result.data?.tradedTokens,
+};
+
+const biggestBagModule: FunFactModule<BiggestBagFunFact> = {
+  id: 'biggest_bag',
+  number: 8,
+  title: 'Biggest Bag',
+  families: ['evm', 'solana', 'bitcoin'],
+  combinesWallets: true,
+  analyze: (ctx, address) => analyzeBiggestBag(ctx, address),
+  fallback: () => ({
+    type: 'biggest_bag',
+    success: false,
+    fallback: 'No significant holdings found',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      return successMessage(
+        `${chalk.bold(result.data.tokenSymbol)} (${result.data.tokenName})\n  Value: ${formatUSD(result.data.valueUsd)} on ${result.data.chain}\n  ${result.data.percentOfPortfolio.toFixed(1)}% of your portfolio`
+      );
+    }
+    return infoMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      return `${result.data.tokenSymbol} (${result.data.percentOfPortfolio.toFixed(0)}% of portfolio)`;
+    }
+    return result.fallback || 'No data';
+  },
+};
+
+const tokenDiversityModule: FunFactModule<TokenDiversityFunFact> = {
+  id: 'token_diversity',
+  number: 9,
+  title: 'Token Diversity',
+  families: ['evm', 'solana'],
+  combinesWallets: true,
+  analyze: (ctx, address) => analyzeTokenDiversity(ctx, address),
+  fallback: () => ({
+    type: 'token_diversity',
+    success: false,
+    fallback: 'No significant holdings found',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const scoreColor =
+        result.data.diversityScore === 'HIGH' ? chalk.green :
+        result.data.diversityScore === 'MEDIUM' ? chalk.yellow :
+        chalk.red;
+      const scoreText = scoreColor(result.data.diversityScore);
+      return `Diversity Score: ${scoreText}\n  Holding ${result.data.uniqueTokens} unique tokens\n  Portfolio Value: ${formatUSD(result.data.totalValueUsd)}\n  Top 3 concentration: ${result.data.top3Concentration.toFixed(1)}%`;
+    }
+    return infoMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      return `${result.data.diversityScore} (${result.data.uniqueTokens} tokens)`;
+    }
+    return result.fallback || 'No data';
+  },
+  sampleSize: (result) => result.data?.uniqueTokens,
+};
+
+const multiChainModule: FunFactModule<MultiChainFunFact> = {
+  id: 'multi_chain',
+  number: 10,
+  title: 'Multi-Chain Explorer',
+  combinesWallets: true,
+  analyze: (ctx, address) => analyzeMultiChain(ctx, address),
+  fallback: () => ({
+    type: 'multi_chain',
+    success: false,
+    fallback: 'No multi-chain activity detected',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const chainList = result.data.chains.slice(0, 5).join(', ');
+      const moreChains = result.data.chains.length > 5 ? ` (+${result.data.chains.length - 5} more)` : '';
+      return successMessage(
+        `🌐 Active on ${result.data.chainCount} chains!\n  Primary: ${chalk.bold(result.data.primaryChain)} (${result.data.primaryChainPercent.toFixed(1)}% of holdings)\n  Chains: ${chainList}${moreChains}`
+      );
+    }
+    return infoMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      return `${result.data.chainCount} chains (primary: ${result.data.primaryChain})`;
+    }
+    return result.fallback || 'No data';
+  },
+};
+
+const benchmarksModule: FunFactModule<BenchmarksFunFact> = {
+  id: 'benchmarks',
+  number: 11,
+  title: 'Benchmarks',
+  lookback: BENCHMARKS_LOOKBACK,
+  analyze: (ctx, address, options) => analyzeBenchmarks(ctx, address, options),
+  fallback: () => ({
+    type: 'benchmarks',
+    success: false,
+    fallback: 'No meaningful history yet for young wallets, CEX-only flows excluded',
+  }),
+  render(result) {
+    if (result.success && result.data) {
+      const lines = result.data.comparisons.map((comparison) => {
+        const difference = comparison.portfolioValue - comparison.benchmarkValue;
+        const direction = difference >= 0 ? chalk.green('Up') : chalk.red('Down');
+        const detail = `${formatUSD(comparison.benchmarkValue)} in ${comparison.name}, ${formatShare(comparison.coverage.benchmarkValue)} of purchases priced`;
+        return `  ${chalk.bold(comparison.name)}: ${direction} ${formatPercentColored(comparison.performancePercent)} ${chalk.dim('(' + detail + ')')}`;
+      });
+      if (result.data.unavailable.length > 0) {
+        lines.push(chalk.dim(`  No prices for: ${result.data.unavailable.join(', ')}`));
+      }
+      return `If I had bought these instead:\n${lines.join('\n')}\n${chalk.dim('  coverage: ' + formatShare(result.data.sampleCoverage) + ' of volume sampled')}`;
+    }
+    return warningMessage(result.fallback || 'No data available');
+  },
+  summarize(result) {
+    if (result.success && result.data) {
+      return result.data.comparisons
+        .map((comparison) => {
+          const direction = comparison.performancePercent >= 0 ? 'Up' : 'Down';
+          return `${comparison.name}: ${direction} ${Math.abs(comparison.performancePercent).toFixed(2)}%`;
+        })
+        .join(', ');
+    }
+    return result.fallback || 'No data';
+  },
+  sampleSize: (result) => result.data?.sampleSize,
+};
+
+/**
+ * Every known fun fact, in display order.
+ * Whether a fact actually runs is decided by `enabledFacts` in funfacts.config.json.
+ */
+export const FUN_FACT_MODULES: FunFactModule[] = [
+  pnlModule,
+  labelsModule,
+  smartMoneyModule,
+  ruggedProjectsModule,
+  ethBenchmarkModule,
+  portfolioAthModule,
+  winRateModule,
+  biggestBagModule,
+  tokenDiversityModule,
+  multiChainModule,
+  benchmarksModule,
+];
+
+export const FUN_FACT_IDS: FunFactId[] = FUN_FACT_MODULES.map((module) => module.id);
+
+/**
+ * Look up fun fact modules by id
+ * @param ids - Fun fact ids (e.g., ['pnl', 'win_rate'])
+ * @returns Matching modules, in registry order
+ * @throws Error if any id is not registered
+ */
+export function getFunFactModules(ids: string[]): FunFactModule[] {
+  const unknown = ids.filter((id) => !FUN_FACT_IDS.includes(id as FunFactId));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown fun fact(s): ${unknown.join(', ')}. Available: ${FUN_FACT_IDS.join(', ')}`);
+  }
+
+  return FUN_FACT_MODULES.filter((module) => ids.includes(module.id));
+}
+
+/**
+ * Keep the fun facts that support the address's family (EVM, Solana, Bitcoin)
+ * @param modules - Candidate fun facts
+ * @param address - Normalized wallet address
+ * @returns The supported modules, in the given order
+ */
+export function getModulesForAddress(modules: FunFactModule[], address: string): FunFactModule[] {
+  const family = addressFamilyOf(address);
+  return modules.filter((module) => (module.families ?? ['evm']).includes(family));
+}
+
+/**
+ * Keep the fun facts that can run over a wallet group's combined activity
+ * @param modules - Candidate fun facts
+ * @param addresses - Normalized member addresses (all of one family)
+ * @returns The supported modules, in the given order
+ */
+export function getModulesForGroup(modules: FunFactModule[], addresses: string[]): FunFactModule[] {
+  return getModulesForAddress(modules, addresses[0]).filter((module) => module.combinesWallets);
+}
+
+/**
+ * Runs a single fun fact, returning its fallback if the analyzer throws
+ * Upstream errors (rate limits, outages, missing fixtures) are not the
+ * analyzer's fault and are rethrown, so callers can retry or report them.
+ * @param ctx - Analysis context
+ * @param module - The fun fact to run
+ * @param address - Normalized wallet address
+ * @param onError - Called with the error before the fallback is returned
+ * @param options - As-of date and window passed to the analyzer
+ * @returns The analyzer result or the module's fallback
+ * @throws UpstreamError if a provider could not serve the analyzer
+ */
+export async function runFunFact(
+  ctx: AnalysisContext,
+  module: FunFactModule,
+  address: string,
+  onError: (module: FunFactModule, error: unknown) => void = (m, err) =>
+    ctx.logger.error(`${m.title} analysis error:`, err),
+  options: AnalyzeOptions = {}
+): Promise<FunFact> {
+  try {
+    return await module.analyze(ctx, address, options);
+  } catch (error) {
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    onError(module, error);
+    return module.fallback();
+  }
+}
+
+/**
+ * Runs several fun facts in parallel
+ * @param ctx - Analysis context
+ * @param modules - Fun facts to run
+ * @param address - Normalized wallet address
+ * @param onError - Called for each analyzer that throws
+ * @param options - As-of date and window passed to every analyzer
+ * @returns Results in the same order as modules
+ * @throws UpstreamError if a provider could not serve one of the analyzers
+ */
+export function runFunFacts(
+  ctx: AnalysisContext,
+  modules: FunFactModule[],
+  address: string,
+  onError?: (module: FunFactModule, error: unknown) => void,
+  options: AnalyzeOptions = {}
+): Promise<FunFact[]> {
+  return Promise.all(modules.map((module) => runFunFact(ctx, module, address, onError, options)));
+}
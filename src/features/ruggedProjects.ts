@@ -1,28 +1,40 @@
-import { subYears, differenceInDays } from 'date-fns';
-import { nansenService } from '../services/nansen.service';
-import { RuggedProjectsFunFact } from '../types';
+import { Duration, differenceInDays } from 'date-fns';
+import { AnalysisContext } from '../context';
+import { AnalyzeOptions, RuggedProjectsFunFact } from '../types';
+import { resolveWindow } from '../utils/dateRange';
+import { isUpstreamError } from '../utils/errors';
+import { isNativeToken, tokenKey } from '../utils/tokenId';
+import { allChainsFor, transactionChainsFor } from './chains';
+import { buildCostBasis, purchasedCostBasis } from './costBasis';
 
-const MIN_INVESTMENT = 100; // Minimum $100 investment to consider
-const LOSS_THRESHOLD = -90; // 90% loss threshold
-const MIN_AGE_DAYS = 30; // Minimum 30 days since last purchase
-const DEAD_PRICE_THRESHOLD = 0.00001; // Tokens with price < $0.00001 considered dead
-const SUPPORTED_CHAINS = ['ethereum', 'arbitrum', 'polygon', 'base', 'optimism']; // Multi-chain support
+export const RUGGED_PROJECTS_LOOKBACK: Duration = { years: 2 };
 
 /**
  * Detects if wallet holds tokens in rugged/scam projects
- * Uses transaction history to identify significant investments that lost 90%+ value
+ * Uses transaction history to identify significant investments that lost 90%+ value.
+ * The amount invested is the cost basis of the purchased tokens still held (see costBasis).
  * 
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
+ * @param options - As-of date and purchase history window (default: the 2 years before now)
  * @returns Rugged Projects Fun Fact with investment details
  */
-export async function analyzeRuggedProjects(address: string): Promise<RuggedProjectsFunFact> {
+export async function analyzeRuggedProjects(
+  ctx: AnalysisContext,
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<RuggedProjectsFunFact> {
+  const window = resolveWindow(options, RUGGED_PROJECTS_LOOKBACK, ctx.clock.now());
+  const thresholds = ctx.config.thresholds.ruggedProjects;
+  const chains = transactionChainsFor(address);
+
   try {
-    console.log('📦 Analyzing rugged projects...');
+    ctx.logger.info('📦 Analyzing rugged projects...');
 
     // Step 1: Fetch ALL current holdings (no value filter - we need even worthless tokens)
-    const holdingsResponse = await nansenService.getCurrentBalance({
+    const holdingsResponse = await ctx.nansen.getCurrentBalance({
       address,
-      chain: 'all',
+      chain: allChainsFor(address),
       hide_spam_token: true,
       pagination: {
         page: 1,
@@ -50,22 +62,17 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
     }
 
     const holdings = holdingsResponse.data;
-    console.log(`  Found ${holdings.length} total holdings`);
+    ctx.logger.info(`  Found ${holdings.length} total holdings`);
 
-    // Step 2: Fetch transaction history (last 2 years) from multiple chains in parallel
-    const historyStartDate = subYears(new Date(), 2);
-    
-    console.log(`  Fetching transactions from ${SUPPORTED_CHAINS.length} chains in parallel...`);
+    // Step 2: Fetch transaction history (last 2 years by default) from multiple chains in parallel
+    ctx.logger.info(`  Fetching transactions from ${chains.length} chains in parallel...`);
     
     // Fetch transactions from all supported chains in parallel
-    const txHistoryPromises = SUPPORTED_CHAINS.map(chain =>
-      nansenService.getAllTransactions({
+    const txHistoryPromises = chains.map(chain =>
+      ctx.nansen.getAllTransactions({
         address,
         chain,
-        date: {
-          from: historyStartDate.toISOString(),
-          to: new Date().toISOString(),
-        },
+        date: window.range,
         hide_spam_token: true,
         pagination: {
           page: 1,
@@ -78,7 +85,10 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
           },
         ],
       }).catch(err => {
-        console.log(`  ⚠️  Failed to fetch ${chain} transactions:`, err.message);
+        if (isUpstreamError(err)) {
+          throw err;
+        }
+        ctx.logger.info(`  ⚠️  Failed to fetch ${chain} transactions:`, err.message);
         return { data: [] };
       })
     );
@@ -87,71 +97,12 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
     
     // Combine all transactions from all chains
     const transactions = txHistoryResults.flatMap(result => result.data || []);
-    console.log(`  Found ${transactions.length} transactions across ${SUPPORTED_CHAINS.length} chains`);
-
-    // Step 3: Build purchase history map with token amounts
-    interface PurchaseInfo {
-      totalInvested: number;
-      firstPurchaseDate: Date;
-      lastPurchaseDate: Date;
-      txCount: number;
-      tokensPurchased: number;  // NEW: Track tokens received
-      tokensSold: number;        // NEW: Track tokens sent
-      netPosition: number;       // NEW: purchased - sold
-    }
-
-    const purchaseMap = new Map<string, PurchaseInfo>();
-
-    transactions.forEach(tx => {
-      // Track tokens RECEIVED (purchases)
-      if (tx.tokens_received && tx.tokens_received.length > 0) {
-        tx.tokens_received.forEach(token => {
-          const key = `${token.token_address}-${tx.chain}`.toLowerCase();
-          const txDate = new Date(tx.block_timestamp);
-          const tokenAmount = token.token_amount || 0;
-
-          if (!purchaseMap.has(key)) {
-            purchaseMap.set(key, {
-              totalInvested: tx.volume_usd || 0,
-              firstPurchaseDate: txDate,
-              lastPurchaseDate: txDate,
-              txCount: 1,
-              tokensPurchased: tokenAmount,
-              tokensSold: 0,
-              netPosition: tokenAmount,
-            });
-          } else {
-            const existing = purchaseMap.get(key)!;
-            existing.totalInvested += tx.volume_usd || 0;
-            existing.tokensPurchased += tokenAmount;
-            existing.txCount++;
-            if (txDate < existing.firstPurchaseDate) {
-              existing.firstPurchaseDate = txDate;
-            }
-            if (txDate > existing.lastPurchaseDate) {
-              existing.lastPurchaseDate = txDate;
-            }
-            existing.netPosition = existing.tokensPurchased - existing.tokensSold;
-          }
-        });
-      }
-
-      // Track tokens SENT (sales/transfers)
-      if (tx.tokens_sent && tx.tokens_sent.length > 0) {
-        tx.tokens_sent.forEach(token => {
-          const key = `${token.token_address}-${tx.chain}`.toLowerCase();
-          const tokenAmount = token.token_amount || 0;
+    ctx.logger.info(`  Found ${transactions.length} transactions across ${chains.length} chains`);
 
-          if (purchaseMap.has(key)) {
-            const existing = purchaseMap.get(key)!;
-            existing.tokensSold += tokenAmount;
-            existing.netPosition = existing.tokensPurchased - existing.tokensSold;
-          }
-        });
-      }
-    });
+    // Step 3: Replay the history into cost-basis positions (swaps are purchases, transfers are not)
+    const positions = buildCostBasis(transactions, ctx.config.costBasisMethod);
 
-    console.log(`  Built purchase history for ${purchaseMap.size} tokens`);
+    ctx.logger.info(`  Built cost basis for ${positions.size} tokens`);
 
     // Step 4: Identify rugged tokens
     const ruggedTokens: Array<{
@@ -168,56 +119,55 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
 
     for (const holding of holdings) {
       // Skip native tokens (can't be rugged)
-      if (!holding.token_address ||
-          holding.token_address.toLowerCase() === '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee' ||
-          holding.token_address.toLowerCase() === '0x000000000000000000000000000000000000800a') {
+      if (isNativeToken(holding.chain, holding.token_address)) {
         continue;
       }
 
-      const key = `${holding.token_address}-${holding.chain}`.toLowerCase();
-      const purchase = purchaseMap.get(key);
+      const position = positions.get(tokenKey(holding.chain, holding.token_address));
 
       // Skip if never purchased (airdrops, etc.) - only analyze tokens user bought
-      if (!purchase) continue;
+      if (!position || position.boughtAmount === 0) continue;
+
+      // Skip if user sold everything
+      if (position.amount <= 0) {
+        ctx.logger.info(`  Skipping ${holding.token_symbol}: Sold entire position`);
+        continue;
+      }
+
+      // Cost of the purchased tokens still open (sales take lots by the configured method)
+      const amountInvested = purchasedCostBasis(position);
 
       // Skip if insignificant investment
-      if (purchase.totalInvested < MIN_INVESTMENT) continue;
+      if (amountInvested < thresholds.minInvestmentUsd) continue;
 
       // NEW: Calculate hold percentage to detect if user sold their position
       const tokensCurrentlyHeld = (holding as any).token_amount || 0;
-      const netPosition = purchase.netPosition;
-      
-      // Skip if user sold everything (or net position is zero/negative)
-      if (netPosition <= 0) {
-        console.log(`  Skipping ${holding.token_symbol}: Sold entire position (net: ${netPosition})`);
-        continue;
-      }
       
       // Calculate what % of their position they still hold
-      const holdPercentage = tokensCurrentlyHeld / netPosition;
+      const holdPercentage = tokensCurrentlyHeld / position.amount;
       
       // NEW: Skip if user sold >50% of position (intentional exit, not rugged)
       if (holdPercentage <= 0.5) {
-        console.log(`  Skipping ${holding.token_symbol}: Only holds ${(holdPercentage * 100).toFixed(1)}% of position (sold ${((1 - holdPercentage) * 100).toFixed(1)}%)`);
+        ctx.logger.info(`  Skipping ${holding.token_symbol}: Only holds ${(holdPercentage * 100).toFixed(1)}% of position (sold ${((1 - holdPercentage) * 100).toFixed(1)}%)`);
         continue;
       }
       
       // NEW: Skip dust positions (even if hold >50%, value must be meaningful)
       const currentValue = holding.value_usd;
       if (currentValue < 10) {
-        console.log(`  Skipping ${holding.token_symbol}: Dust position ($${currentValue.toFixed(2)})`);
+        ctx.logger.info(`  Skipping ${holding.token_symbol}: Dust position ($${currentValue.toFixed(2)})`);
         continue;
       }
 
       // Calculate loss
-      const lossPercent = ((currentValue - purchase.totalInvested) / purchase.totalInvested) * 100;
-      const lossAmount = currentValue - purchase.totalInvested;
+      const lossPercent = ((currentValue - amountInvested) / amountInvested) * 100;
+      const lossAmount = currentValue - amountInvested;
 
       // Check rug criteria
-      const isLargeEnoughLoss = lossPercent <= LOSS_THRESHOLD; // Lost 90%+
-      const daysSinceLastPurchase = differenceInDays(new Date(), purchase.lastPurchaseDate);
-      const isOldEnough = daysSinceLastPurchase > MIN_AGE_DAYS; // 30+ days old
-      const isEffectivelyDead = holding.price_usd < DEAD_PRICE_THRESHOLD; // Extremely low price
+      const isLargeEnoughLoss = lossPercent <= thresholds.lossThresholdPercent; // Lost 90%+ by default
+      const daysSinceLastPurchase = differenceInDays(window.asOf, position.lastBoughtAt!);
+      const isOldEnough = daysSinceLastPurchase > thresholds.minAgeDays; // 30+ days old by default
+      const isEffectivelyDead = holding.price_usd < thresholds.deadPriceUsd; // Extremely low price
       const stillHoldsMost = holdPercentage > 0.8; // NEW: Holds >80% of position
 
       // Confidence scoring based on indicators
@@ -237,11 +187,11 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
           name: holding.token_name,
           symbol: holding.token_symbol,
           chain: holding.chain,
-          amountInvested: purchase.totalInvested,
+          amountInvested,
           currentValue,
           lossPercent,
           lossAmount,
-          purchaseDate: purchase.firstPurchaseDate.toISOString(),
+          purchaseDate: position.firstBoughtAt!.toISOString(),
           confidence,
         });
       }
@@ -253,7 +203,7 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
     // Calculate total loss
     const totalLoss = ruggedTokens.reduce((sum, token) => sum + token.lossAmount, 0);
 
-    console.log(`  Detected ${ruggedTokens.length} potentially rugged tokens`);
+    ctx.logger.info(`  Detected ${ruggedTokens.length} potentially rugged tokens`);
 
     if (ruggedTokens.length === 0) {
       return {
@@ -277,7 +227,10 @@ export async function analyzeRuggedProjects(address: string): Promise<RuggedProj
       },
     };
   } catch (error) {
-    console.error('Error analyzing rugged projects:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing rugged projects:', error);
     return {
       type: 'rugged_projects',
       success: true,
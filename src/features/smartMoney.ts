@@ -1,5 +1,7 @@
-import { nansenService } from '../services/nansen.service';
+import { AnalysisContext } from '../context';
 import { SmartMoneyFunFact } from '../types';
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
 
 // Smart money labels to look for
 const SMART_MONEY_LABELS = [
@@ -13,14 +15,15 @@ const SMART_MONEY_LABELS = [
 
 /**
  * Identifies if wallet belongs to smart money/professional traders
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
  * @returns Smart Money Fun Fact
  */
-export async function analyzeSmartMoney(address: string): Promise<SmartMoneyFunFact> {
+export async function analyzeSmartMoney(ctx: AnalysisContext, address: string): Promise<SmartMoneyFunFact> {
   try {
-    const response = await nansenService.getLabels({
+    const response = await ctx.nansen.getLabels({
       parameters: {
-        chain: 'all',
+        chain: allChainsFor(address),
         address,
       },
       pagination: {
@@ -72,7 +75,10 @@ export async function analyzeSmartMoney(address: string): Promise<SmartMoneyFunF
       },
     };
   } catch (error) {
-    console.error('Error analyzing smart money:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing smart money:', error);
     return {
       type: 'smart_money',
       success: false,
@@ -1,19 +1,22 @@
-import { nansenService } from '../services/nansen.service';
+import { AnalysisContext } from '../context';
 import { TokenDiversityFunFact } from '../types';
-
-const MIN_VALUE_USD = 10; // Minimum $10 to consider
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
 
 /**
  * Analyzes wallet's token portfolio diversity
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
  * @returns Token Diversity Fun Fact
  */
-export async function analyzeTokenDiversity(address: string): Promise<TokenDiversityFunFact> {
+export async function analyzeTokenDiversity(ctx: AnalysisContext, address: string): Promise<TokenDiversityFunFact> {
+  const thresholds = ctx.config.thresholds.tokenDiversity;
+
   try {
     // Fetch all holdings
-    const balanceResponse = await nansenService.getAllCurrentBalances({
+    const balanceResponse = await ctx.nansen.getAllCurrentBalances({
       address,
-      chain: 'all',
+      chain: allChainsFor(address),
       hide_spam_token: true,
       pagination: {
         page: 1,
@@ -27,7 +30,7 @@ export async function analyzeTokenDiversity(address: string): Promise<TokenDiver
       ],
       filters: {
         value_usd: {
-          min: MIN_VALUE_USD,
+          min: thresholds.minValueUsd,
         },
       },
     });
@@ -47,7 +50,7 @@ export async function analyzeTokenDiversity(address: string): Promise<TokenDiver
     // Calculate total portfolio value
     const totalValueUsd = holdings.reduce((sum, holding) => sum + holding.value_usd, 0);
 
-    if (totalValueUsd < MIN_VALUE_USD) {
+    if (totalValueUsd < thresholds.minValueUsd) {
       return {
         type: 'token_diversity',
         success: false,
@@ -64,9 +67,9 @@ export async function analyzeTokenDiversity(address: string): Promise<TokenDiver
     // Determine diversity score based on concentration and unique tokens
     let diversityScore: 'HIGH' | 'MEDIUM' | 'LOW';
     
-    if (uniqueTokens >= 15 && top3Concentration < 50) {
+    if (uniqueTokens >= thresholds.highMinTokens && top3Concentration < thresholds.highMaxTop3Percent) {
       diversityScore = 'HIGH'; // Well diversified
-    } else if (uniqueTokens >= 5 && top3Concentration < 75) {
+    } else if (uniqueTokens >= thresholds.mediumMinTokens && top3Concentration < thresholds.mediumMaxTop3Percent) {
       diversityScore = 'MEDIUM'; // Moderately diversified
     } else {
       diversityScore = 'LOW'; // Concentrated portfolio
@@ -83,7 +86,10 @@ export async function analyzeTokenDiversity(address: string): Promise<TokenDiver
       },
     };
   } catch (error) {
-    console.error('Error analyzing token diversity:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing token diversity:', error);
     return {
       type: 'token_diversity',
       success: false,
@@ -0,0 +1,89 @@
+import { TokenTransfer, Transaction, TransactionKind } from '../types';
+
+/**
+ * Transaction kinds - what a transaction did for the wallet
+ *
+ * Nansen reports every transaction as tokens sent and received. Whether that
+ * was a trade is read from, in order:
+ * - Bridges: the method, source_type or a counterparty label names a bridge
+ * - LP adds and removes: the method (addLiquidity, removeLiquidity, ...) or an
+ *   LP token (UNI-V2, SLP, BPT, ...) going in or out
+ * - Airdrops: tokens received for nothing from a claim method or a
+ *   distributor/airdrop contract
+ * - Swaps: anything else that both sent and received tokens
+ * - Transfers: tokens only received (CEX withdrawals, payments) or only sent
+ * - Other: nothing moved (approvals, failed transactions)
+ *
+ * Analyzers filter on the kind instead of treating every receipt as a buy.
+ */
+
+const BRIDGE = /bridge|wormhole|stargate|layerzero|synapse|across protocol|hop protocol|celer|portal|sendtol2|outboundtransfer|finalizeinboundtransfer|depositfortransaction/;
+const LP_ADD_METHOD = /^(addliquidity|increaseliquidity|joinpool|provideliquidity)/;
+const LP_REMOVE_METHOD = /^(removeliquidity|decreaseliquidity|exitpool|withdrawliquidity)/;
+const LP_TOKEN = /^(uni-v2|slp|bpt)$|(^|[-\s_])lp$/i;
+const AIRDROP_METHOD = /^(claim|airdrop)/;
+const AIRDROP_LABEL = /airdrop|distributor/;
+
+/**
+ * Classify a transaction
+ * @param tx - Transaction as returned by Nansen
+ * @returns Its kind
+ */
+export function classifyTransaction(tx: Transaction): TransactionKind {
+  const sent = (tx.tokens_sent || []).filter((transfer) => transfer.token_amount > 0);
+  const received = (tx.tokens_received || []).filter((transfer) => transfer.token_amount > 0);
+  const method = methodName(tx.method);
+  const sourceType = (tx.source_type || '').toLowerCase();
+  const labels = [...sent, ...received].flatMap(counterpartyLabels);
+
+  if (sent.length === 0 && received.length === 0) {
+    return 'other';
+  }
+
+  if (BRIDGE.test(method) || BRIDGE.test(sourceType) || labels.some((label) => BRIDGE.test(label))) {
+    return 'bridge';
+  }
+
+  if (LP_ADD_METHOD.test(method) || received.some(isLpToken)) {
+    return 'lp_add';
+  }
+  if (LP_REMOVE_METHOD.test(method) || sent.some(isLpToken)) {
+    return 'lp_remove';
+  }
+
+  if (sent.length === 0 && (AIRDROP_METHOD.test(method) || labels.some((label) => AIRDROP_LABEL.test(label)))) {
+    return 'airdrop';
+  }
+
+  if (sent.length > 0 && received.length > 0) {
+    return 'swap';
+  }
+  return sent.length > 0 ? 'transfer_out' : 'transfer_in';
+}
+
+/**
+ * Keep the transactions of the given kinds
+ * @param transactions - Transactions to filter
+ * @param kinds - Kinds to keep
+ * @returns The matching transactions, in their original order
+ */
+export function filterByKind(transactions: Transaction[], kinds: TransactionKind[]): Transaction[] {
+  return transactions.filter((tx) => kinds.includes(classifyTransaction(tx)));
+}
+
+/**
+ * The function name of a method signature, lowercased: 'swapExactETHForTokens(uint256,...)' -> 'swapexactethfortokens'
+ */
+function methodName(method: string | null | undefined): string {
+  return (method || '').split('(')[0].trim().toLowerCase();
+}
+
+function counterpartyLabels(transfer: TokenTransfer): string[] {
+  return [transfer.from_address_label, transfer.to_address_label]
+    .filter((label): label is string => !!label)
+    .map((label) => label.toLowerCase());
+}
+
+function isLpToken(transfer: TokenTransfer): boolean {
+  return LP_TOKEN.test(transfer.token_symbol || '');
+}
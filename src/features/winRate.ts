@@ -1,25 +1,31 @@
-import { subYears } from 'date-fns';
-import { nansenService } from '../services/nansen.service';
-import { WinRateFunFact } from '../types';
+import { Duration } from 'date-fns';
+import { AnalysisContext } from '../context';
+import { AnalyzeOptions, WinRateFunFact } from '../types';
+import { resolveWindow } from '../utils/dateRange';
+import { isUpstreamError } from '../utils/errors';
+import { allChainsFor } from './chains';
+
+export const WIN_RATE_LOOKBACK: Duration = { years: 1 };
 
 /**
  * Analyzes wallet's trading win rate and best performing token
+ * @param ctx - Analysis context (services, clock, logger)
  * @param address - Wallet address to analyze
- * @param years - Number of years to look back (default: 1)
+ * @param options - As-of date and window (default: the year before now)
  * @returns Win Rate Fun Fact
  */
-export async function analyzeWinRate(address: string, years: number = 1): Promise<WinRateFunFact> {
-  try {
-    const now = new Date();
-    const fromDate = subYears(now, years);
+export async function analyzeWinRate(
+  ctx: AnalysisContext,
+  address: string,
+  options: AnalyzeOptions = {}
+): Promise<WinRateFunFact> {
+  const window = resolveWindow(options, WIN_RATE_LOOKBACK, ctx.clock.now());
 
-    const response = await nansenService.getPnlSummary({
+  try {
+    const response = await ctx.nansen.getPnlSummary({
       address,
-      chain: 'all',
-      date: {
-        from: fromDate.toISOString(),
-        to: now.toISOString(),
-      },
+      chain: allChainsFor(address),
+      date: window.range,
     });
 
     // Check if we have valid data
@@ -73,7 +79,10 @@ export async function analyzeWinRate(address: string, years: number = 1): Promis
       },
     };
   } catch (error) {
-    console.error('Error analyzing win rate:', error);
+    if (isUpstreamError(error)) {
+      throw error;
+    }
+    ctx.logger.error('Error analyzing win rate:', error);
     return {
       type: 'win_rate',
       success: false,
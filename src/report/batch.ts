@@ -0,0 +1,360 @@
+import * as fs from 'fs';
+import { isNameServiceName, validateAndNormalizeAddress } from '../utils/validation';
+import { AnalysisContext } from '../context';
+import { normalizeName, resolveWallet } from '../services/nameResolver.service';
+import { Duration } from 'date-fns';
+import {
+  AnalyzeOptions,
+  BatchFactStats,
+  BatchSummary,
+  DateRange,
+  FunFactModule,
+  ResolvedWallet,
+  WalletReport,
+} from '../types';
+import { analyzeWallet } from './walletReport';
+import { BenchmarkId, CostBasisMethod, DEFAULT_THRESHOLDS, FunFactsConfig, FunFactThresholds } from '../config';
+
+/**
+ * Batch analysis - run many wallets with bounded concurrency
+ *
+ * Results are appended to a JSONL checkpoint file (one WalletReport per line)
+ * as each wallet finishes, so an interrupted run can be restarted with the
+ * same file and only the remaining wallets are analyzed. The first line records
+ * the run's facts, dates and settings ({ "batch": BatchRunParams }); resuming with
+ * other ones is refused, since the file would mix reports that do not compare.
+ * Provider rate limits are enforced by the shared HTTP clients, not here.
+ */
+
+export interface BatchOptions {
+  concurrency: number;
+  checkpointPath: string;
+  onReport?: (report: WalletReport, completed: number, total: number) => void;
+  shouldStop?: () => boolean; // Checked before each wallet is started
+  analyzeOptions?: AnalyzeOptions; // As-of date and window for every wallet
+}
+
+/**
+ * What a batch run analyzes, as recorded in its checkpoint
+ */
+export interface BatchRunParams {
+  facts: string[]; // Fun fact ids, sorted
+  asOf?: string; // ISO 8601 format
+  range?: DateRange;
+  lookback?: Duration;
+  profile: string;
+  thresholds: FunFactThresholds; // After the profile, file, environment and --set
+  costBasisMethod: CostBasisMethod;
+  benchmarks: BenchmarkId[];
+}
+
+interface CheckpointHeader {
+  batch: BatchRunParams;
+}
+
+function isCheckpointHeader(line: unknown): line is CheckpointHeader {
+  return typeof line === 'object' && line !== null && 'batch' in line;
+}
+
+/**
+ * The parameters a run with these facts, settings and options records
+ * @param modules - Fun facts to run
+ * @param config - Resolved config (profile, thresholds, cost basis method, benchmarks)
+ * @param options - As-of date and window
+ */
+export function batchRunParams(
+  modules: FunFactModule[],
+  config: FunFactsConfig,
+  options: AnalyzeOptions = {}
+): BatchRunParams {
+  return {
+    facts: modules.map((module) => module.id).sort(),
+    asOf: options.asOf?.toISOString(),
+    range: options.range,
+    lookback: options.lookback,
+    profile: config.profile,
+    thresholds: config.thresholds,
+    costBasisMethod: config.costBasisMethod,
+    benchmarks: config.benchmarks,
+  };
+}
+
+/**
+ * Check that a checkpoint was started with the same facts, dates and settings
+ * @param checkpointPath - JSONL file (a missing or empty file matches anything)
+ * @param params - This run's parameters
+ * @throws Error if the file records other parameters, or none
+ */
+export function assertCheckpointMatches(checkpointPath: string, params: BatchRunParams): void {
+  const firstLine = fs.existsSync(checkpointPath)
+    ? fs.readFileSync(checkpointPath, 'utf-8').split('\n').find((line) => line.trim())
+    : undefined;
+  if (firstLine === undefined) {
+    return;
+  }
+
+  let header: unknown;
+  try {
+    header = JSON.parse(firstLine);
+  } catch {
+    header = null;
+  }
+  if (!isCheckpointHeader(header)) {
+    throw new Error(`${checkpointPath} does not record the options it was run with; use --restart to start over`);
+  }
+  if (describeRunParams(header.batch) !== describeRunParams(params)) {
+    throw new Error(
+      `${checkpointPath} was started with ${describeRunParams(header.batch)}, not ${describeRunParams(params)}; rerun with the same options or use --restart`
+    );
+  }
+}
+
+/**
+ * Describe run parameters; thresholds are listed where they differ from DEFAULT_THRESHOLDS
+ * Checkpoints written before the settings were recorded describe them as unknown.
+ */
+export function describeRunParams(params: BatchRunParams): string {
+  const parts = [`--facts ${params.facts.join(',')}`];
+  if (params.asOf) parts.push(`--as-of ${params.asOf}`);
+  if (params.range) parts.push(`--from ${params.range.from} --to ${params.range.to}`);
+  if (params.lookback) parts.push(`lookback ${JSON.stringify(params.lookback)}`);
+  parts.push(`--profile ${params.profile ?? 'unknown'}`);
+
+  type Sections = Record<string, Record<string, number>>;
+  const defaults = DEFAULT_THRESHOLDS as unknown as Sections;
+  const thresholds = params.thresholds as unknown as Sections | undefined;
+  const changed = thresholds
+    ? Object.entries(thresholds).flatMap(([section, values]) =>
+        Object.entries(values)
+          .filter(([key, value]) => defaults[section]?.[key] !== value)
+          .map(([key, value]) => `${section}.${key}=${value}`)
+      )
+    : ['unknown'];
+  if (changed.length > 0) parts.push(`thresholds ${changed.join(', ')}`);
+
+  parts.push(`cost basis ${params.costBasisMethod ?? 'unknown'}`);
+  parts.push(`benchmarks ${params.benchmarks?.join(',') ?? 'unknown'}`);
+  return parts.join(' ');
+}
+
+/**
+ * Parse a wallet list: one address or name per line (commas and spaces also separate),
+ * blank lines and # comments ignored, duplicates dropped
+ * @param text - File or stdin contents
+ * @returns Normalized addresses and names (each in input order), plus entries that are neither
+ */
+export function parseWalletList(text: string): { addresses: string[]; names: string[]; invalid: string[] } {
+  const addresses: string[] = [];
+  const names: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const content = line.replace(/#.*$/, '').trim();
+    for (const entry of content.split(/[\s,]+/).filter(Boolean)) {
+      if (isNameServiceName(entry)) {
+        const name = normalizeName(entry);
+        if (!seen.has(name)) {
+          seen.add(name);
+          names.push(name);
+        }
+        continue;
+      }
+
+      let address: string;
+      try {
+        address = validateAndNormalizeAddress(entry);
+      } catch {
+        invalid.push(entry);
+        continue;
+      }
+
+      if (!seen.has(address)) {
+        seen.add(address);
+        addresses.push(address);
+      }
+    }
+  }
+
+  return { addresses, names, invalid };
+}
+
+/**
+ * Resolve the names from a wallet list and merge them with its addresses
+ * A name that points at an address already in the list labels that wallet
+ * instead of adding it twice.
+ * @param ctx - Context whose name resolver is used
+ * @param addresses - Normalized addresses
+ * @param names - Normalized names
+ * @returns The wallets (addresses first, then names) and the names that failed with the reason
+ */
+export async function resolveWalletList(
+  ctx: AnalysisContext,
+  addresses: string[],
+  names: string[]
+): Promise<{ wallets: ResolvedWallet[]; unresolved: Array<{ name: string; reason: string }> }> {
+  const wallets: ResolvedWallet[] = addresses.map((address) => ({ address }));
+  const unresolved: Array<{ name: string; reason: string }> = [];
+
+  const results = await Promise.allSettled(names.map((name) => resolveWallet(ctx.names, name)));
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      unresolved.push({ name: names[i], reason: (result.reason as Error).message });
+      return;
+    }
+
+    const existing = wallets.find((wallet) => wallet.address === result.value.address);
+    if (!existing) {
+      wallets.push(result.value);
+    } else if (!existing.name) {
+      existing.name = result.value.name;
+    }
+  });
+
+  return { wallets, unresolved };
+}
+
+/**
+ * Read the reports already written to a checkpoint file
+ * A partially written last line (from a crash) is ignored.
+ * @param checkpointPath - JSONL file
+ * @returns Reports in file order (empty if the file does not exist)
+ */
+export function loadCheckpoint(checkpointPath: string): WalletReport[] {
+  if (!fs.existsSync(checkpointPath)) {
+    return [];
+  }
+
+  const reports: WalletReport[] = [];
+  for (const line of fs.readFileSync(checkpointPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as WalletReport | CheckpointHeader;
+      if (!isCheckpointHeader(parsed)) {
+        reports.push(parsed);
+      }
+    } catch {
+      console.warn(`[Batch] Skipping unreadable checkpoint line in ${checkpointPath}`);
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Analyze wallets with at most `concurrency` in flight, appending each report to the checkpoint
+ * Wallets already present in the checkpoint are skipped; a new checkpoint starts
+ * with the run's parameters. If a provider fails
+ * (UpstreamError), workers finish their in-flight wallets and the error is
+ * rethrown; the checkpoint keeps every wallet completed so far.
+ * @param ctx - Analysis context shared by every worker
+ * @param wallets - Normalized addresses, or resolved names
+ * @param modules - Fun facts to run for every wallet
+ * @param options - Concurrency, checkpoint file and progress callbacks
+ * @returns Reports produced by this run (not including earlier checkpointed ones)
+ * @throws Error if the checkpoint was started with other facts, dates or settings
+ * @throws UpstreamError if a provider could not serve a wallet
+ */
+export async function runBatch(
+  ctx: AnalysisContext,
+  wallets: Array<string | ResolvedWallet>,
+  modules: FunFactModule[],
+  options: BatchOptions
+): Promise<WalletReport[]> {
+  const params = batchRunParams(modules, ctx.config, options.analyzeOptions);
+  assertCheckpointMatches(options.checkpointPath, params);
+
+  const done = new Set(loadCheckpoint(options.checkpointPath).map((report) => report.address));
+  const pending = wallets.filter((wallet) => !done.has(typeof wallet === 'string' ? wallet : wallet.address));
+  const reports: WalletReport[] = [];
+
+  if (!fs.existsSync(options.checkpointPath) || fs.statSync(options.checkpointPath).size === 0) {
+    fs.writeFileSync(options.checkpointPath, JSON.stringify({ batch: params } satisfies CheckpointHeader) + '\n');
+  }
+  ensureTrailingNewline(options.checkpointPath);
+
+  let next = 0;
+  let failure: unknown = null;
+  const worker = async (): Promise<void> => {
+    while (next < pending.length && failure === null && !options.shouldStop?.()) {
+      const wallet = pending[next++];
+      let report: WalletReport;
+      try {
+        report = await analyzeWallet(ctx, wallet, modules, undefined, options.analyzeOptions);
+      } catch (error) {
+        // Not checkpointed, so a rerun picks the wallet up again
+        failure ??= error;
+        return;
+      }
+
+      fs.appendFileSync(options.checkpointPath, JSON.stringify(report) + '\n');
+      reports.push(report);
+      options.onReport?.(report, reports.length, pending.length);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, pending.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  if (failure !== null) {
+    throw failure;
+  }
+  return reports;
+}
+
+/**
+ * Aggregate success, fallback and error counts per fun fact
+ * @param reports - Reports to summarize
+ * @returns Per-fact stats in the order facts first appear
+ */
+export function summarizeBatch(reports: WalletReport[]): BatchSummary {
+  const stats = new Map<string, BatchFactStats>();
+
+  for (const report of reports) {
+    for (const fact of report.facts) {
+      let entry = stats.get(fact.id);
+      if (!entry) {
+        entry = { id: fact.id, title: fact.title, total: 0, succeeded: 0, fallbacks: 0, errors: 0 };
+        stats.set(fact.id, entry);
+      }
+
+      entry.total++;
+      if (fact.error) {
+        entry.errors++;
+      } else if (fact.success) {
+        entry.succeeded++;
+      } else {
+        entry.fallbacks++;
+      }
+    }
+  }
+
+  return {
+    wallets: reports.length,
+    walletsWithErrors: reports.filter((report) => report.facts.some((fact) => fact.error)).length,
+    facts: Array.from(stats.values()),
+  };
+}
+
+/**
+ * Terminate a partially written last line so appended reports start on their own line
+ */
+function ensureTrailingNewline(filePath: string): void {
+  if (!fs.existsSync(filePath)) {
+    return;
+  }
+
+  const size = fs.statSync(filePath).size;
+  if (size === 0) {
+    return;
+  }
+
+  const fd = fs.openSync(filePath, 'r');
+  const last = Buffer.alloc(1);
+  fs.readSync(fd, last, 0, 1, size - 1);
+  fs.closeSync(fd);
+
+  if (last.toString() !== '\n') {
+    fs.appendFileSync(filePath, '\n');
+  }
+}
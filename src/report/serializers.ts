@@ -0,0 +1,187 @@
+import { WalletReport, WalletReportFact } from '../types';
+
+export type ReportFormat = 'json' | 'csv' | 'markdown';
+
+export const REPORT_FORMATS: ReportFormat[] = ['json', 'csv', 'markdown'];
+
+const CSV_COLUMNS = [
+  'address',
+  'name',
+  'group',
+  'analyzed_at',
+  'fact_id',
+  'title',
+  'success',
+  'summary',
+  'window_from',
+  'window_to',
+  'sample_size',
+  'error',
+];
+
+/**
+ * Serialize one or more wallet reports
+ * @param reports - Reports to serialize
+ * @param format - Output format
+ * @returns The serialized text (newline-terminated)
+ */
+export function serializeReports(reports: WalletReport[], format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return reportsToJson(reports);
+    case 'csv':
+      return reportsToCsv(reports);
+    case 'markdown':
+      return reportsToMarkdown(reports);
+  }
+}
+
+/**
+ * JSON: a single report is written as an object, several as an array
+ */
+export function reportsToJson(reports: WalletReport[]): string {
+  const payload = reports.length === 1 ? reports[0] : reports;
+  return JSON.stringify(payload, null, 2) + '\n';
+}
+
+/**
+ * CSV: one row per (wallet, fun fact)
+ * A wallet group's rows are followed by its members' rows, which name the group in `group`.
+ */
+export function reportsToCsv(reports: WalletReport[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+
+  const entries = reports.flatMap((report) => [
+    { report, group: '' },
+    ...(report.wallets ?? []).map((wallet) => ({ report: wallet, group: report.address })),
+  ]);
+
+  for (const { report, group } of entries) {
+    for (const fact of report.facts) {
+      rows.push(
+        [
+          report.address,
+          report.name ?? '',
+          group,
+          report.analyzedAt,
+          fact.id,
+          fact.title,
+          String(fact.success),
+          fact.summary,
+          fact.window?.from ?? '',
+          fact.window?.to ?? '',
+          fact.sampleSize !== undefined ? String(fact.sampleSize) : '',
+          fact.error ?? '',
+        ]
+          .map(escapeCsv)
+          .join(',')
+      );
+    }
+  }
+
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Markdown: a per-wallet table of facts, plus an overview table when there are several wallets
+ * The overview has a column for every fact any wallet ran (wallets of different
+ * kinds run different facts), with — where a wallet did not run it.
+ * @param generatedAt - Time printed in the header (default: now)
+ */
+export function reportsToMarkdown(reports: WalletReport[], generatedAt: Date = new Date()): string {
+  let markdown = '# Fun Facts Report\n\n';
+  markdown += `Generated: ${generatedAt.toISOString()}\n\n`;
+
+  if (reports.length > 1) {
+    // Fact ids in the order they first appear, with their titles
+    const columns = new Map<string, string>();
+    for (const fact of reports.flatMap((report) => report.facts)) {
+      if (!columns.has(fact.id)) {
+        columns.set(fact.id, fact.title);
+      }
+    }
+    const titles = [...columns.values()].map(escapeMarkdown);
+
+    markdown += `Total Wallets: ${reports.length}\n\n`;
+    markdown += '## Overview\n\n';
+    markdown += `| # | Wallet | ${titles.join(' | ')} | Errors |\n`;
+    markdown += `|---|--------|${titles.map(() => '---').join('|')}|--------|\n`;
+
+    reports.forEach((report, index) => {
+      const cells = [...columns.keys()]
+        .map((id) => {
+          const fact = report.facts.find((candidate) => candidate.id === id);
+          return fact ? escapeMarkdown(fact.summary) : '—';
+        })
+        .join(' | ');
+      const errorCount = report.facts.filter((fact) => fact.error).length;
+      const errors = errorCount > 0 ? `${errorCount} error(s)` : '✅';
+      markdown += `| ${index + 1} | ${formatWallet(report)} | ${cells} | ${errors} |\n`;
+    });
+
+    markdown += '\n';
+  }
+
+  for (const report of reports) {
+    markdown += `## ${report.wallets ? 'Wallet group' : 'Wallet'} ${formatWallet(report)}\n\n`;
+    markdown += `Analyzed: ${report.analyzedAt}${report.asOf ? ` (as of ${report.asOf})` : ''}\n\n`;
+    markdown += '| Fun Fact | Result | Window | Sample Size |\n';
+    markdown += '|----------|--------|--------|-------------|\n';
+
+    for (const fact of report.facts) {
+      const status = fact.success ? '' : ' ⚠️';
+      markdown += `| ${escapeMarkdown(fact.title)} | ${escapeMarkdown(fact.summary)}${status} | ${formatWindow(fact)} | ${fact.sampleSize ?? '—'} |\n`;
+    }
+
+    if (report.wallets) {
+      markdown += '\n### By wallet\n\n';
+      markdown += `| Wallet | ${report.facts.map((fact) => escapeMarkdown(fact.title)).join(' | ')} |\n`;
+      markdown += `|--------|${report.facts.map(() => '---').join('|')}|\n`;
+      for (const wallet of report.wallets) {
+        const cells = report.facts.map((fact) => {
+          const memberFact = wallet.facts.find((candidate) => candidate.id === fact.id);
+          return memberFact ? escapeMarkdown(memberFact.summary) : '—';
+        });
+        markdown += `| ${formatWallet(wallet)} | ${cells.join(' | ')} |\n`;
+      }
+    }
+
+    const failed = report.facts.filter((fact) => fact.error);
+    if (failed.length > 0) {
+      markdown += '\n**Errors**:\n';
+      failed.forEach((fact) => {
+        markdown += `- ${fact.title}: ${fact.error}\n`;
+      });
+    }
+
+    markdown += '\n';
+  }
+
+  return markdown;
+}
+
+function formatWallet(report: WalletReport): string {
+  const address = report.wallets
+    ? report.wallets.map((wallet) => `\`${wallet.address}\``).join(' + ')
+    : `\`${report.address}\``;
+  return report.name ? `${escapeMarkdown(report.name)} (${address})` : address;
+}
+
+function formatWindow(fact: WalletReportFact): string {
+  if (!fact.window) {
+    return 'current';
+  }
+  return `${fact.window.from.slice(0, 10)} → ${fact.window.to.slice(0, 10)}`;
+}
+
+/**
+ * Quote a CSV cell; cells a spreadsheet would run as a formula get a leading '
+ */
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
@@ -0,0 +1,125 @@
+import { getModulesForGroup, runFunFacts } from '../features/registry';
+import { addressFamilyOf } from '../features/chains';
+import { AnalysisContext } from '../context';
+import { resolveWallet } from '../services/nameResolver.service';
+import { WalletGroupNansenClient } from '../services/walletGroup.service';
+import { ADDRESS_FAMILY_NAMES } from '../utils/validation';
+import { AnalyzeOptions, FunFactModule, ResolvedWallet, WalletGroup, WalletReport } from '../types';
+import { analyzeWallet, buildWalletReport } from './walletReport';
+
+/**
+ * Wallet groups - several wallets of one owner analyzed as one entity
+ *
+ * The combined facts run with a context whose Nansen client merges the
+ * members' holdings and history (see WalletGroupNansenClient); each member is
+ * also analyzed on its own for the per-wallet breakdown.
+ */
+
+export const MAX_GROUP_WALLETS = 20;
+
+/**
+ * Resolve the members of a wallet group
+ * @param ctx - Context whose name resolver looks up ENS/SNS names
+ * @param inputs - Addresses or names
+ * @param name - Bundle name, if the group came from the config file
+ * @returns The group, with duplicate addresses dropped
+ * @throws Error if a member does not resolve, there are fewer than two distinct
+ *   wallets or more than MAX_GROUP_WALLETS, or the wallets are of different families
+ */
+export async function resolveWalletGroup(
+  ctx: AnalysisContext,
+  inputs: string[],
+  name?: string
+): Promise<WalletGroup> {
+  const wallets: ResolvedWallet[] = [];
+  for (const wallet of await Promise.all(inputs.map((input) => resolveWallet(ctx.names, input)))) {
+    if (!wallets.some((existing) => existing.address === wallet.address)) {
+      wallets.push(wallet);
+    }
+  }
+
+  if (wallets.length < 2) {
+    throw new Error('A wallet group needs at least two different wallets');
+  }
+  if (wallets.length > MAX_GROUP_WALLETS) {
+    throw new Error(`A wallet group can have at most ${MAX_GROUP_WALLETS} wallets`);
+  }
+
+  const families = new Set(wallets.map((wallet) => addressFamilyOf(wallet.address)));
+  if (families.size > 1) {
+    const names = Array.from(families, (family) => ADDRESS_FAMILY_NAMES[family]).join(' and ');
+    throw new Error(`Wallets in a group must be of one kind, got ${names} addresses`);
+  }
+
+  return name ? { name, wallets } : { wallets };
+}
+
+/**
+ * The address a group report is filed under: the members joined with '+'
+ */
+export function groupAddress(group: WalletGroup): string {
+  return group.wallets.map((wallet) => wallet.address).join('+');
+}
+
+/**
+ * A context that sees the group's wallets as one
+ * @param ctx - Context for the individual wallets
+ * @param group - The group
+ * @returns The same context with a merging Nansen client
+ */
+export function createGroupContext(ctx: AnalysisContext, group: WalletGroup): AnalysisContext {
+  return {
+    ...ctx,
+    nansen: new WalletGroupNansenClient(
+      ctx.nansen,
+      group.wallets.map((wallet) => wallet.address)
+    ),
+  };
+}
+
+/**
+ * Run fun facts over a wallet group's combined activity, with a per-wallet breakdown
+ * @param ctx - Analysis context for the individual wallets
+ * @param group - The group
+ * @param modules - Fun facts to run; those that cannot combine wallets are left out
+ * @param onError - Called for each analyzer that throws (the report records the message either way)
+ * @param options - As-of date and window for every analyzer
+ * @returns The combined report, with one report per member in `wallets`
+ */
+export async function analyzeWalletGroup(
+  ctx: AnalysisContext,
+  group: WalletGroup,
+  modules: FunFactModule[],
+  onError?: (module: FunFactModule, error: unknown) => void,
+  options: AnalyzeOptions = {}
+): Promise<WalletReport> {
+  const addresses = group.wallets.map((wallet) => wallet.address);
+  const supported = getModulesForGroup(modules, addresses);
+  const analyzedAt = ctx.clock.now();
+  const errors = new Map<string, string>();
+
+  // Analyzers route requests by the address they are given; the group client fans them out
+  const [results, wallets] = await Promise.all([
+    runFunFacts(
+      createGroupContext(ctx, group),
+      supported,
+      addresses[0],
+      (module, error) => {
+        errors.set(module.id, error instanceof Error ? error.message : String(error));
+        onError?.(module, error);
+      },
+      options
+    ),
+    Promise.all(group.wallets.map((wallet) => analyzeWallet(ctx, wallet, supported, onError, options))),
+  ]);
+
+  const report = buildWalletReport(
+    { address: groupAddress(group), name: group.name },
+    supported,
+    results,
+    analyzedAt,
+    errors,
+    options
+  );
+  return { ...report, wallets };
+}
@@ -0,0 +1,99 @@
+import { getModulesForAddress, runFunFacts } from '../features/registry';
+import { AnalysisContext } from '../context';
+import { AnalyzeOptions, FunFact, FunFactModule, ResolvedWallet, WalletReport, WalletReportFact } from '../types';
+import { resolveWindow } from '../utils/dateRange';
+
+/**
+ * Assemble a WalletReport from fun fact results
+ * @param wallet - Normalized wallet address, or the address and the name it was entered as
+ * @param modules - Fun facts that produced the results
+ * @param results - Results, in the same order as modules
+ * @param analyzedAt - When the analysis ran (used to compute lookback windows)
+ * @param errors - Error messages keyed by fun fact id, for analyzers that threw
+ * @param options - As-of date and window the analyzers ran with
+ * @returns The report
+ */
+export function buildWalletReport(
+  wallet: string | ResolvedWallet,
+  modules: FunFactModule[],
+  results: FunFact[],
+  analyzedAt: Date = new Date(),
+  errors: Map<string, string> = new Map(),
+  options: AnalyzeOptions = {}
+): WalletReport {
+  const facts: WalletReportFact[] = modules.map((module, i) => {
+    const result = results[i];
+    const fact: WalletReportFact = {
+      id: module.id,
+      title: module.title,
+      success: result.success,
+      summary: module.summarize(result),
+      result,
+    };
+
+    if (module.lookback) {
+      fact.window = resolveWindow(options, module.lookback, analyzedAt).range;
+    }
+
+    const sampleSize = module.sampleSize?.(result);
+    if (sampleSize !== undefined) {
+      fact.sampleSize = sampleSize;
+    }
+
+    const error = errors.get(module.id);
+    if (error) {
+      fact.error = error;
+    }
+
+    return fact;
+  });
+
+  const { address, name } = typeof wallet === 'string' ? { address: wallet, name: undefined } : wallet;
+  const report: WalletReport = {
+    address,
+    ...(name ? { name } : {}),
+    analyzedAt: analyzedAt.toISOString(),
+    facts,
+  };
+
+  if (options.asOf || options.range) {
+    report.asOf = resolveWindow(options, {}, analyzedAt).asOf.toISOString();
+  }
+
+  return report;
+}
+
+/**
+ * Run fun facts for a wallet and collect them into a WalletReport
+ * @param ctx - Analysis context
+ * @param wallet - Normalized wallet address, or a resolved name (kept on the report)
+ * @param modules - Fun facts to run; those that do not support the address's family are left out
+ * @param onError - Called for each analyzer that throws (the report records the message either way)
+ * @param options - As-of date and window for every analyzer (default: lookbacks ending now)
+ * @returns The report
+ */
+export async function analyzeWallet(
+  ctx: AnalysisContext,
+  wallet: string | ResolvedWallet,
+  modules: FunFactModule[],
+  onError?: (module: FunFactModule, error: unknown) => void,
+  options: AnalyzeOptions = {}
+): Promise<WalletReport> {
+  const address = typeof wallet === 'string' ? wallet : wallet.address;
+  const analyzedAt = ctx.clock.now();
+  const errors = new Map<string, string>();
+  const supported = getModulesForAddress(modules, address);
+
+  const results = await runFunFacts(
+    ctx,
+    supported,
+    address,
+    (module, error) => {
+      errors.set(module.id, error instanceof Error ? error.message : String(error));
+      onError?.(module, error);
+    },
+    options
+  );
+
+  return buildWalletReport(wallet, supported, results, analyzedAt, errors, options);
+}
@@ -0,0 +1,177 @@
+import * as http from 'http';
+import { URL } from 'url';
+import { ADDRESS_FAMILY_NAMES } from '../utils/validation';
+import { FUN_FACT_MODULES, getModulesForAddress, runFunFact, runFunFacts } from '../features/registry';
+import { addressFamilyOf } from '../features/chains';
+import { loadConfig } from '../config';
+import { AnalysisContext, getDefaultContext } from '../context';
+import { resolveWallet } from '../services/nameResolver.service';
+import { parseAnalyzeOptions } from '../utils/dateRange';
+import { InvalidAddressError, isUpstreamError, NameNotFoundError, RateLimitedError } from '../utils/errors';
+import { AnalyzeOptions, FunFactModule, ResolvedWallet } from '../types';
+
+export interface ServerOptions {
+  context?: AnalysisContext; // Services to analyze with (default: getDefaultContext(), created on first request)
+  modules?: FunFactModule[]; // Registry to serve (default: FUN_FACT_MODULES)
+  enabledFacts?: string[]; // Facts returned by the list endpoint (default: config file)
+  corsOrigin?: string; // Access-Control-Allow-Origin value (default: '*')
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const WALLET_ROUTE = /^\/wallets\/([^/]+)\/fun-facts(?:\/([^/]+))?\/?$/;
+
+/**
+ * Build the request handler for the fun facts API
+ *
+ * Routes:
+ * - GET /health
+ * - GET /wallets/:address/fun-facts[?facts=pnl,win_rate]
+ * - GET /wallets/:address/fun-facts/:type
+ *
+ * :address may also be an ENS or SNS name (vitalik.eth); unregistered names get a 404,
+ * and a name service that fails to answer a 502.
+ * A provider that is rate limiting us gives a 429 (with Retry-After when known),
+ * any other provider failure a 503; neither is served as a fallback result.
+ * Both wallet routes accept ?asOf=2025-01-01 and ?from=...&to=... for historical snapshots.
+ *
+ * @param options - Context, registry and CORS settings
+ * @returns A handler usable with http.createServer
+ */
+export function createRequestHandler(options: ServerOptions = {}): http.RequestListener {
+  const modules = options.modules || FUN_FACT_MODULES;
+  const enabledFacts = options.enabledFacts || options.context?.config.enabledFacts || loadConfig().enabledFacts;
+  const corsOrigin = options.corsOrigin ?? '*';
+
+  const findModules = (ids: string[]): FunFactModule[] => {
+    const unknown = ids.filter((id) => !modules.some((m) => m.id === id));
+    if (unknown.length > 0) {
+      throw new HttpError(404, `Unknown fun fact(s): ${unknown.join(', ')}`);
+    }
+    return modules.filter((m) => ids.includes(m.id));
+  };
+
+  return async (req, res) => {
+    try {
+      if (req.method !== 'GET') {
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (url.pathname === '/health') {
+        sendJson(res, 200, { status: 'ok' }, corsOrigin);
+        return;
+      }
+
+      const match = WALLET_ROUTE.exec(url.pathname);
+      if (!match) {
+        throw new HttpError(404, `No route for ${url.pathname}`);
+      }
+
+      const ctx = options.context ?? getDefaultContext();
+
+      let input: string;
+      try {
+        input = decodeURIComponent(match[1]);
+      } catch {
+        throw new HttpError(400, `Malformed wallet in ${url.pathname}`);
+      }
+
+      let wallet: ResolvedWallet;
+      try {
+        wallet = await resolveWallet(ctx.names, input);
+      } catch (error) {
+        if (error instanceof NameNotFoundError) {
+          throw new HttpError(404, error.message);
+        }
+        if (error instanceof InvalidAddressError) {
+          throw new HttpError(400, error.message);
+        }
+        if (isUpstreamError(error)) {
+          throw error;
+        }
+        // The name service answered with an error (e.g. an RPC failure)
+        throw new HttpError(502, `Could not resolve ${input}: ${(error as Error).message}`);
+      }
+      const { address } = wallet;
+
+      let analyzeOptions: AnalyzeOptions;
+      try {
+        analyzeOptions = parseAnalyzeOptions(
+          url.searchParams.get('asOf') ?? undefined,
+          url.searchParams.get('from') ?? undefined,
+          url.searchParams.get('to') ?? undefined,
+          ctx.clock.now()
+        );
+      } catch (error) {
+        throw new HttpError(400, (error as Error).message);
+      }
+
+      const type = match[2];
+      if (type) {
+        const [module] = findModules([type]);
+        if (getModulesForAddress([module], address).length === 0) {
+          throw new HttpError(400, `${module.id} is not available for ${ADDRESS_FAMILY_NAMES[addressFamilyOf(address)]} wallets`);
+        }
+        sendJson(res, 200, await runFunFact(ctx, module, address, undefined, analyzeOptions), corsOrigin);
+        return;
+      }
+
+      const factsParam = url.searchParams.get('facts');
+      const ids = factsParam
+        ? factsParam.split(',').map((id) => id.trim()).filter((id) => id.length > 0)
+        : enabledFacts;
+      const selected = getModulesForAddress(findModules(ids), address);
+      const results = await runFunFacts(ctx, selected, address, undefined, analyzeOptions);
+
+      sendJson(res, 200, { ...wallet, results }, corsOrigin);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message }, corsOrigin);
+      } else if (error instanceof RateLimitedError) {
+        const retryAfter = error.retryAfterMs !== undefined ? { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) } : {};
+        sendJson(res, 429, { error: error.message }, corsOrigin, retryAfter);
+      } else if (isUpstreamError(error)) {
+        sendJson(res, 503, { error: error.message }, corsOrigin);
+      } else {
+        console.error('[Server] Unexpected error:', error);
+        sendJson(res, 500, { error: 'Internal server error' }, corsOrigin);
+      }
+    }
+  };
+}
+
+/**
+ * Create (but do not start) the fun facts HTTP server
+ * @param options - Context, registry and CORS settings
+ * @returns The http.Server; call listen() to start it
+ */
+export function createServer(options: ServerOptions = {}): http.Server {
+  return http.createServer(createRequestHandler(options));
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  corsOrigin: string,
+  headers: http.OutgoingHttpHeaders = {}
+): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+    ...(corsOrigin ? { 'Access-Control-Allow-Origin': corsOrigin } : {}),
+    ...headers,
+  });
+  res.end(payload);
+}
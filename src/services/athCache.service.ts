@@ -0,0 +1,492 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DateRange } from '../types';
+import { tokenKey } from '../utils/tokenId';
+
+/**
+ * ATH Cache - All-time-high prices kept across analyses and restarts
+ *
+ * ATH prices only change when a token makes a new high, so re-fetching the
+ * market chart for every analysis wastes most of the CoinGecko budget.
+ * Entries are keyed by chain, token address and the window the ATH was taken
+ * over: the same address can be a different token on another chain.
+ *
+ * Storage is pluggable (AthCacheBackend):
+ * - memory: lost on restart (the default)
+ * - file: one JSON file, written after each batch of updates
+ * - sqlite: a SQLite database via better-sqlite3, which must be installed separately
+ *
+ * ATH_CACHE=memory|file|sqlite|off, ATH_CACHE_PATH and ATH_CACHE_TTL_HOURS
+ * pick the backend for the default context (see getAthCacheOptionsFromEnv).
+ */
+
+export interface AthPrice {
+  athPrice: number;
+  athDate: Date | null;
+  provider?: string; // Provider that served it (ATH_CACHE_SOURCE from getMany's cache hits); not stored
+}
+
+export interface AthCacheEntry extends Omit<AthPrice, 'provider'> {
+  cachedAt: Date;
+}
+
+/**
+ * Where cache entries live; every backend is synchronous
+ */
+export interface AthCacheBackend {
+  readonly name: string;
+  get(key: string): AthCacheEntry | undefined;
+  set(key: string, entry: AthCacheEntry): void;
+  delete(key: string): void;
+  keys(): string[];
+  clear(): void;
+  flush(): void; // Persist pending writes (no-op for backends that write through)
+}
+
+export type AthCacheBackendType = 'memory' | 'file' | 'sqlite';
+
+export interface AthCacheOptions {
+  backend?: AthCacheBackendType | 'off'; // Default: memory; off caches nothing
+  path?: string; // File or database for the file and sqlite backends
+  ttlHours?: number; // How long an entry stays fresh (default: 24)
+  now?: () => Date; // Clock for expiry (default: the system clock)
+}
+
+/**
+ * Fetches ATH prices for tokens, keyed by tokenKey(chain, address) (PriceSource.batchGetATHPrices)
+ */
+export type AthFetcher = (
+  tokens: Array<{ chain: string; address: string }>,
+  window: number | DateRange
+) => Promise<Map<string, AthPrice>>;
+
+// Provider reported for ATHs getMany found in the cache
+export const ATH_CACHE_SOURCE = 'ATH cache';
+
+const DEFAULT_TTL_HOURS = 24;
+const DEFAULT_PATHS: Record<Exclude<AthCacheBackendType, 'memory'>, string> = {
+  file: '.cache/ath-cache.json',
+  sqlite: '.cache/ath-cache.sqlite',
+};
+
+/**
+ * Cache key for a token's ATH over a window: the token's tokenKey plus the span
+ * @param chain - Chain the token is on
+ * @param address - Token contract or mint address
+ * @param window - Days before now, or an explicit range
+ * @returns e.g. 'ethereum:0xa0b8...:365d' or 'solana:EPjF...:2024-01-01..2024-12-31'
+ */
+export function athCacheKey(chain: string, address: string, window: number | DateRange): string {
+  const span = typeof window === 'number' ? `${window}d` : `${window.from.slice(0, 10)}..${window.to.slice(0, 10)}`;
+  return `${tokenKey(chain, address)}:${span}`;
+}
+
+export class AthCache {
+  private readonly backend: AthCacheBackend;
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+  private hits: number;
+  private misses: number;
+
+  /**
+   * @param backend - Where entries are stored (default: memory)
+   * @param options - TTL (0 disables caching) and clock
+   */
+  constructor(backend: AthCacheBackend = new MemoryAthCacheBackend(), options: Pick<AthCacheOptions, 'ttlHours' | 'now'> = {}) {
+    this.backend = backend;
+    this.ttlMs = (options.ttlHours ?? DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+    this.now = options.now ?? (() => new Date());
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Get a token's ATH from the cache
+   * @param chain - Chain the token is on
+   * @param address - Token address
+   * @param window - Days before now, or an explicit range
+   * @returns The ATH if cached and fresh, null otherwise
+   */
+  get(chain: string, address: string, window: number | DateRange): AthPrice | null {
+    const key = athCacheKey(chain, address, window);
+    const entry = this.backend.get(key);
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) {
+        this.backend.delete(key);
+      }
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    return { athPrice: entry.athPrice, athDate: entry.athDate };
+  }
+
+  /**
+   * Store a token's ATH (call flush() to persist a batch)
+   */
+  set(chain: string, address: string, window: number | DateRange, ath: AthPrice): void {
+    if (this.ttlMs <= 0) {
+      return;
+    }
+    this.backend.set(athCacheKey(chain, address, window), { athPrice: ath.athPrice, athDate: ath.athDate, cachedAt: this.now() });
+  }
+
+  /**
+   * Get ATH prices, fetching only the tokens that are not cached
+   * @param tokens - Tokens to price
+   * @param window - Days before now, or an explicit range
+   * @param fetch - Fetches the missing tokens (e.g. ctx.prices.batchGetATHPrices)
+   * @returns Map of tokenKey(chain, address) to ATH prices, as batchGetATHPrices returns them
+   */
+  async getMany(
+    tokens: Array<{ chain: string; address: string }>,
+    window: number | DateRange,
+    fetch: AthFetcher
+  ): Promise<Map<string, AthPrice>> {
+    const results = new Map<string, AthPrice>();
+    const missing: Array<{ chain: string; address: string }> = [];
+
+    for (const token of tokens) {
+      const cached = this.get(token.chain, token.address, window);
+      if (cached) {
+        results.set(tokenKey(token.chain, token.address), { ...cached, provider: ATH_CACHE_SOURCE });
+      } else {
+        missing.push(token);
+      }
+    }
+
+    for (const [key, ath] of await this.fetchMissing(missing, window, fetch)) {
+      results.set(key, ath);
+    }
+    return results;
+  }
+
+  /**
+   * Fetch and cache the ATH of tokens ahead of an analysis (e.g. a batch's known holdings)
+   * Hits and misses during warm-up are not counted in the statistics.
+   * @returns Number of tokens fetched (those already cached are skipped)
+   */
+  async warmUp(tokens: Array<{ chain: string; address: string }>, window: number | DateRange, fetch: AthFetcher): Promise<number> {
+    const { hits, misses } = this;
+    const missing = tokens.filter((token) => this.get(token.chain, token.address, window) === null);
+    this.hits = hits;
+    this.misses = misses;
+
+    await this.fetchMissing(missing, window, fetch);
+    return missing.length;
+  }
+
+  /**
+   * Remove expired entries
+   * @returns Number of entries removed
+   */
+  cleanup(): number {
+    let removed = 0;
+    for (const key of this.backend.keys()) {
+      const entry = this.backend.get(key);
+      if (entry && this.isExpired(entry)) {
+        this.backend.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.backend.flush();
+    }
+    return removed;
+  }
+
+  /**
+   * Remove every entry and reset the statistics
+   */
+  clear(): void {
+    this.backend.clear();
+    this.backend.flush();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Persist pending writes
+   */
+  flush(): void {
+    this.backend.flush();
+  }
+
+  /**
+   * Get cache statistics
+   * @returns Backend, entry count, and hit rate since startup
+   */
+  getStats(): { backend: string; size: number; hits: number; misses: number; hitRate: number } {
+    const total = this.hits + this.misses;
+    const hitRate = total > 0 ? (this.hits / total) * 100 : 0;
+
+    return {
+      backend: this.backend.name,
+      size: this.backend.keys().length,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: Math.round(hitRate * 100) / 100, // Round to 2 decimals
+    };
+  }
+
+  /**
+   * Fetch tokens that missed the cache and store the prices above zero
+   * (a zero, for an unlisted token, is retried next time)
+   */
+  private async fetchMissing(
+    missing: Array<{ chain: string; address: string }>,
+    window: number | DateRange,
+    fetch: AthFetcher
+  ): Promise<Map<string, AthPrice>> {
+    const results = new Map<string, AthPrice>();
+    if (missing.length === 0) {
+      return results;
+    }
+
+    const fetched = await fetch(missing, window);
+    for (const token of missing) {
+      const key = tokenKey(token.chain, token.address);
+      const ath = fetched.get(key);
+      if (!ath) continue;
+      results.set(key, ath);
+      if (ath.athPrice > 0) {
+        this.set(token.chain, token.address, window, ath);
+      }
+    }
+    this.backend.flush();
+    return results;
+  }
+
+  private isExpired(entry: AthCacheEntry): boolean {
+    return this.now().getTime() - entry.cachedAt.getTime() > this.ttlMs;
+  }
+}
+
+export class MemoryAthCacheBackend implements AthCacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, AthCacheEntry>();
+
+  get(key: string): AthCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: AthCacheEntry): void {
+    this.entries.set(key, entry);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  flush(): void {}
+}
+
+/**
+ * Entries in one JSON file: read when opened, rewritten on flush() when anything changed
+ */
+export class FileAthCacheBackend implements AthCacheBackend {
+  readonly name = 'file';
+  private entries = new Map<string, AthCacheEntry>();
+  private dirty = false;
+
+  /**
+   * @param filePath - Cache file (created on first flush)
+   */
+  constructor(private readonly filePath: string) {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as {
+        entries?: Record<string, { athPrice: number; athDate: string | null; cachedAt: string }>;
+      };
+      for (const [key, entry] of Object.entries(stored.entries || {})) {
+        this.entries.set(key, {
+          athPrice: entry.athPrice,
+          athDate: entry.athDate ? new Date(entry.athDate) : null,
+          cachedAt: new Date(entry.cachedAt),
+        });
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not read ATH cache ${filePath}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  get(key: string): AthCacheEntry | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: AthCacheEntry): void {
+    this.entries.set(key, entry);
+    this.dirty = true;
+  }
+
+  delete(key: string): void {
+    this.dirty = this.entries.delete(key) || this.dirty;
+  }
+
+  keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  clear(): void {
+    this.dirty = this.dirty || this.entries.size > 0;
+    this.entries.clear();
+  }
+
+  flush(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    const entries: Record<string, { athPrice: number; athDate: string | null; cachedAt: string }> = {};
+    for (const [key, entry] of this.entries) {
+      entries[key] = {
+        athPrice: entry.athPrice,
+        athDate: entry.athDate ? entry.athDate.toISOString() : null,
+        cachedAt: entry.cachedAt.toISOString(),
+      };
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename, so a crash mid-write leaves the previous file intact
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ version: 1, entries }));
+    fs.renameSync(tempPath, this.filePath);
+    this.dirty = false;
+  }
+}
+
+/**
+ * The part of better-sqlite3's API the SQLite backend uses
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+    run(...params: unknown[]): unknown;
+  };
+}
+
+/**
+ * Open a database file with better-sqlite3, creating its directory
+ * better-sqlite3 is an optional dependency (a native module), so it is
+ * loaded only when this backend is chosen.
+ * @throws Error if better-sqlite3 is not installed
+ */
+function openBetterSqlite(filePath: string): SqliteDatabase {
+  let Database: new (filename: string) => SqliteDatabase;
+  try {
+    Database = require('better-sqlite3') as new (filename: string) => SqliteDatabase;
+  } catch {
+    throw new Error('The sqlite ATH cache needs better-sqlite3, which failed to install: npm install better-sqlite3');
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  return new Database(filePath);
+}
+
+/**
+ * Entries in a SQLite table, written through on every change
+ */
+export class SqliteAthCacheBackend implements AthCacheBackend {
+  readonly name = 'sqlite';
+  private db: SqliteDatabase;
+
+  /**
+   * @param filePath - Database file (created if missing)
+   * @param open - Opens the database (default: better-sqlite3)
+   * @throws Error if better-sqlite3 is not installed
+   */
+  constructor(filePath: string, open: (filePath: string) => SqliteDatabase = openBetterSqlite) {
+    this.db = open(filePath);
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS ath_cache (key TEXT PRIMARY KEY, ath_price REAL NOT NULL, ath_date INTEGER, cached_at INTEGER NOT NULL)'
+    );
+  }
+
+  get(key: string): AthCacheEntry | undefined {
+    const row = this.db.prepare('SELECT ath_price, ath_date, cached_at FROM ath_cache WHERE key = ?').get(key) as
+      | { ath_price: number; ath_date: number | null; cached_at: number }
+      | undefined;
+    if (!row) {
+      return undefined;
+    }
+    return {
+      athPrice: row.ath_price,
+      athDate: row.ath_date === null ? null : new Date(row.ath_date),
+      cachedAt: new Date(row.cached_at),
+    };
+  }
+
+  set(key: string, entry: AthCacheEntry): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO ath_cache (key, ath_price, ath_date, cached_at) VALUES (?, ?, ?, ?)')
+      .run(key, entry.athPrice, entry.athDate ? entry.athDate.getTime() : null, entry.cachedAt.getTime());
+  }
+
+  delete(key: string): void {
+    this.db.prepare('DELETE FROM ath_cache WHERE key = ?').run(key);
+  }
+
+  keys(): string[] {
+    return (this.db.prepare('SELECT key FROM ath_cache').all() as Array<{ key: string }>).map((row) => row.key);
+  }
+
+  clear(): void {
+    this.db.exec('DELETE FROM ath_cache');
+  }
+
+  flush(): void {}
+}
+
+/**
+ * Read ATH cache settings from ATH_CACHE, ATH_CACHE_PATH and ATH_CACHE_TTL_HOURS
+ * @param env - Environment to read (default: process.env)
+ * @throws Error if a setting is invalid
+ */
+export function getAthCacheOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): AthCacheOptions {
+  const backend = (env.ATH_CACHE || 'memory') as AthCacheOptions['backend'];
+  if (!['memory', 'file', 'sqlite', 'off'].includes(backend as string)) {
+    throw new Error(`Invalid ATH_CACHE: ${env.ATH_CACHE}. Available: memory, file, sqlite, off`);
+  }
+
+  const ttlHours = env.ATH_CACHE_TTL_HOURS === undefined ? undefined : Number(env.ATH_CACHE_TTL_HOURS);
+  if (ttlHours !== undefined && (!Number.isFinite(ttlHours) || ttlHours < 0)) {
+    throw new Error(`Invalid ATH_CACHE_TTL_HOURS: ${env.ATH_CACHE_TTL_HOURS}`);
+  }
+
+  return { backend, path: env.ATH_CACHE_PATH || undefined, ttlHours };
+}
+
+/**
+ * Create an ATH cache
+ * @param options - Backend, path, TTL and clock
+ * @returns The cache (with off, one that never stores anything)
+ */
+export function createAthCache(options: AthCacheOptions = {}): AthCache {
+  const { backend = 'memory', now } = options;
+  if (backend === 'off') {
+    return new AthCache(new MemoryAthCacheBackend(), { ttlHours: 0, now });
+  }
+
+  const store =
+    backend === 'file'
+      ? new FileAthCacheBackend(options.path || DEFAULT_PATHS.file)
+      : backend === 'sqlite'
+        ? new SqliteAthCacheBackend(options.path || DEFAULT_PATHS.sqlite)
+        : new MemoryAthCacheBackend();
+  return new AthCache(store, { ttlHours: options.ttlHours, now });
+}
@@ -1,19 +1,47 @@
 import axios, { AxiosInstance } from 'axios';
 import { format } from 'date-fns';
 import {
+  CoinListEntry,
   HistoricalPriceResponse,
   CurrentPriceResponse,
+  DateRange,
   MarketChartResponse,
 } from '../types';
+import { applyResilience, ResilienceOptions } from './httpMiddleware';
+import { applyFixtures, FixtureOptions, getFixtureOptionsFromEnv } from './fixtureTransport';
+import { isUpstreamError } from '../utils/errors';
+import { coinGeckoPlatformOf, tokenKey } from '../utils/tokenId';
+
+// Free tier allows roughly 30 calls/minute
+export const COINGECKO_RESILIENCE: ResilienceOptions = {
+  provider: 'CoinGecko',
+  retry: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 },
+  rateLimit: { capacity: 5, refillPerSecond: 0.5 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60000 },
+};
+
+export interface CoinGeckoServiceOptions {
+  resilience?: ResilienceOptions; // Defaults to COINGECKO_RESILIENCE
+  fixtures?: FixtureOptions | false; // Defaults to FIXTURES_MODE / FIXTURES_DIR; false disables
+}
 
 export class CoinGeckoService {
   private client: AxiosInstance;
 
-  constructor() {
+  constructor(options: CoinGeckoServiceOptions = {}) {
     this.client = axios.create({
       baseURL: 'https://api.coingecko.com/api/v3',
       timeout: 30000, // 30 second timeout
     });
+
+    const fixtures = options.fixtures === undefined ? getFixtureOptionsFromEnv() : options.fixtures || undefined;
+    if (fixtures) {
+      applyFixtures(this.client, COINGECKO_RESILIENCE.provider, fixtures);
+    }
+    // Replayed responses need no pacing or retries
+    if (fixtures?.mode !== 'replay') {
+      applyResilience(this.client, options.resilience || COINGECKO_RESILIENCE);
+    }
   }
 
   /**
@@ -40,7 +68,10 @@ export class CoinGeckoService {
       return response.data.market_data?.current_price?.usd || 0;
     } catch (error) {
       this.handleError('getHistoricalPrice', error);
-      // Return 0 instead of throwing to allow graceful degradation
+      if (isUpstreamError(error)) {
+        throw error;
+      }
+      // Return 0 for unknown coins/dates to allow graceful degradation
       return 0;
     }
   }
@@ -71,6 +102,26 @@ export class CoinGeckoService {
     }
   }
 
+  /**
+   * Get every coin CoinGecko lists, with the contract it has on each platform
+   * One large response (over 10,000 coins); see TokenMetadataResolver.
+   * @returns The coin list
+   */
+  async getCoinList(): Promise<CoinListEntry[]> {
+    try {
+      const response = await this.client.get<CoinListEntry[]>('/coins/list', {
+        params: {
+          include_platform: true,
+        },
+      });
+
+      return response.data;
+    } catch (error) {
+      this.handleError('getCoinList', error);
+      throw error;
+    }
+  }
+
   /**
    * Get market chart data for a token (price history over time)
    * @param chain - The blockchain (e.g., 'ethereum')
@@ -84,19 +135,8 @@ export class CoinGeckoService {
     days: number
   ): Promise<MarketChartResponse> {
     try {
-      // Map chain names to CoinGecko platform IDs
-      const platformMap: Record<string, string> = {
-        ethereum: 'ethereum',
-        polygon: 'polygon-pos',
-        bnb: 'binance-smart-chain',
-        bsc: 'binance-smart-chain',
-        arbitrum: 'arbitrum-one',
-        avalanche: 'avalanche',
-        optimism: 'optimistic-ethereum',
-      };
+      const platform = coinGeckoPlatformOf(chain);
 
-      const platform = platformMap[chain.toLowerCase()] || chain.toLowerCase();
-      
       const response = await this.client.get<MarketChartResponse>(
         `/coins/${platform}/contract/${tokenAddress}/market_chart`,
         {
@@ -110,7 +150,83 @@ export class CoinGeckoService {
       return response.data;
     } catch (error) {
       this.handleError('getMarketChart', error);
-      // Return empty data instead of throwing to allow graceful degradation
+      if (isUpstreamError(error)) {
+        throw error;
+      }
+      // Return empty data for unlisted tokens to allow graceful degradation
+      return {
+        prices: [],
+        market_caps: [],
+        total_volumes: [],
+      };
+    }
+  }
+
+  /**
+   * Get market chart data for a token between two dates
+   * @param chain - The blockchain (e.g., 'ethereum')
+   * @param tokenAddress - The token contract address
+   * @param range - Start and end of the history to fetch
+   * @returns Market chart data with prices over time
+   */
+  async getMarketChartRange(
+    chain: string,
+    tokenAddress: string,
+    range: DateRange
+  ): Promise<MarketChartResponse> {
+    try {
+      const platform = coinGeckoPlatformOf(chain);
+      const response = await this.client.get<MarketChartResponse>(
+        `/coins/${platform}/contract/${tokenAddress}/market_chart/range`,
+        {
+          params: {
+            vs_currency: 'usd',
+            from: Math.floor(Date.parse(range.from) / 1000).toString(),
+            to: Math.floor(Date.parse(range.to) / 1000).toString(),
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      this.handleError('getMarketChartRange', error);
+      if (isUpstreamError(error)) {
+        throw error;
+      }
+      return {
+        prices: [],
+        market_caps: [],
+        total_volumes: [],
+      };
+    }
+  }
+
+  /**
+   * Get market chart data for a coin between two dates
+   * CoinGecko returns hourly samples for ranges up to 90 days, daily beyond.
+   * @param coinId - The CoinGecko coin ID (e.g., 'ethereum')
+   * @param range - Start and end of the history to fetch
+   * @returns Market chart data with prices over time
+   */
+  async getCoinMarketChartRange(coinId: string, range: DateRange): Promise<MarketChartResponse> {
+    try {
+      const response = await this.client.get<MarketChartResponse>(
+        `/coins/${coinId}/market_chart/range`,
+        {
+          params: {
+            vs_currency: 'usd',
+            from: Math.floor(Date.parse(range.from) / 1000).toString(),
+            to: Math.floor(Date.parse(range.to) / 1000).toString(),
+          },
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      this.handleError('getCoinMarketChartRange', error);
+      if (isUpstreamError(error)) {
+        throw error;
+      }
       return {
         prices: [],
         market_caps: [],
@@ -123,16 +239,18 @@ export class CoinGeckoService {
    * Get ATH (All-Time High) price from market chart data
    * @param chain - The blockchain
    * @param tokenAddress - The token contract address
-   * @param days - Number of days to look back (default: 365)
+   * @param window - Days to look back, or an explicit range (default: 365 days)
    * @returns The ATH price and when it occurred
    */
   async getATHPrice(
     chain: string,
     tokenAddress: string,
-    days: number = 365
+    window: number | DateRange = 365
   ): Promise<{ athPrice: number; athDate: Date | null }> {
     try {
-      const chartData = await this.getMarketChart(chain, tokenAddress, days);
+      const chartData = typeof window === 'number'
+        ? await this.getMarketChart(chain, tokenAddress, window)
+        : await this.getMarketChartRange(chain, tokenAddress, window);
 
       if (!chartData.prices || chartData.prices.length === 0) {
         return { athPrice: 0, athDate: null };
@@ -155,60 +273,54 @@ export class CoinGeckoService {
       };
     } catch (error) {
       this.handleError('getATHPrice', error);
+      if (isUpstreamError(error)) {
+        throw error;
+      }
       return { athPrice: 0, athDate: null };
     }
   }
 
   /**
    * Batch get ATH prices for multiple tokens
+   * Requests are paced by the client's rate limiter; rate limit and outage
+   * errors propagate to the caller.
    * @param tokens - Array of token objects with chain and address
-   * @param days - Number of days to look back
-   * @returns Map of token addresses to ATH prices
+   * @param window - Days to look back, or an explicit range (default: 365 days)
+   * @returns Map of tokenKey(chain, address) to ATH prices
    */
   async batchGetATHPrices(
     tokens: Array<{ chain: string; address: string }>,
-    days: number = 365
+    window: number | DateRange = 365
   ): Promise<Map<string, { athPrice: number; athDate: Date | null }>> {
     const results = new Map<string, { athPrice: number; athDate: Date | null }>();
 
-    // Process in batches to avoid rate limiting
+    // Process in batches to bound concurrency
     const batchSize = 5;
     for (let i = 0; i < tokens.length; i += batchSize) {
       const batch = tokens.slice(i, i + batchSize);
       const promises = batch.map(async (token) => {
-        const ath = await this.getATHPrice(token.chain, token.address, days);
-        return { address: token.address.toLowerCase(), ath };
+        const ath = await this.getATHPrice(token.chain, token.address, window);
+        return { key: tokenKey(token.chain, token.address), ath };
       });
 
       const batchResults = await Promise.all(promises);
-      batchResults.forEach(({ address, ath }) => {
-        results.set(address, ath);
+      batchResults.forEach(({ key, ath }) => {
+        results.set(key, ath);
       });
-
-      // Add delay between batches to respect rate limits
-      if (i + batchSize < tokens.length) {
-        await this.delay(1000); // 1 second delay
-      }
     }
 
     return results;
   }
 
-  /**
-   * Utility function to add delay
-   * @param ms - Milliseconds to delay
-   */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * Handle and log errors from API calls
    * @param methodName - Name of the method that errored
    * @param error - The error object
    */
   private handleError(methodName: string, error: any): void {
-    if (axios.isAxiosError(error)) {
+    if (isUpstreamError(error)) {
+      console.error(`[CoinGecko ${methodName}] ${error.name}: ${error.message}`);
+    } else if (axios.isAxiosError(error)) {
       console.error(`[CoinGecko ${methodName}] API Error:`, {
         status: error.response?.status,
         statusText: error.response?.statusText,
@@ -220,7 +332,3 @@ export class CoinGeckoService {
     }
   }
 }
-
-// Export a singleton instance
-export const coinGeckoService = new CoinGeckoService();
-
@@ -0,0 +1,253 @@
+/**
+ * CoinMarketCap API Service
+ *
+ * Alternative price data provider with better rate limits than CoinGecko free tier.
+ *
+ * Free Tier:
+ * - 333 calls/day (10,000 calls/month)
+ * - Basic plan with API key required
+ * - Good for historical and current prices
+ *
+ * Documentation: https://coinmarketcap.com/api/documentation/v1/
+ *
+ * Usage:
+ * 1. Sign up at https://coinmarketcap.com/api/
+ * 2. Get free API key
+ * 3. Add COINMARKETCAP_API_KEY to .env
+ * 4. Service will automatically be available as fallback (see PriceService)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { subDays } from 'date-fns';
+import { DateRange } from '../types';
+import { applyResilience, ResilienceOptions } from './httpMiddleware';
+import { applyFixtures, FixtureOptions, getFixtureOptionsFromEnv } from './fixtureTransport';
+import { isUpstreamError } from '../utils/errors';
+
+// 333 calls/day: a small burst, then one call every few seconds
+export const COINMARKETCAP_RESILIENCE: ResilienceOptions = {
+  provider: 'CoinMarketCap',
+  retry: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 30000 },
+  rateLimit: { capacity: 5, refillPerSecond: 0.25 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60000 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CoinMarketCapServiceOptions {
+  apiKey?: string; // Defaults to COINMARKETCAP_API_KEY; the service is disabled without one
+  resilience?: ResilienceOptions; // Defaults to COINMARKETCAP_RESILIENCE
+  fixtures?: FixtureOptions | false; // Defaults to FIXTURES_MODE / FIXTURES_DIR; false disables
+}
+
+interface CoinMarketCapQuote {
+  price: number;
+  volume_24h: number;
+  percent_change_24h: number;
+  market_cap: number;
+}
+
+interface CoinMarketCapHistoricalQuote {
+  timestamp: string;
+  quote: {
+    USD: CoinMarketCapQuote;
+  };
+}
+
+interface CoinMarketCapCurrentPriceResponse {
+  data: {
+    [symbol: string]: {
+      id: number;
+      name: string;
+      symbol: string;
+      quote: {
+        USD: CoinMarketCapQuote;
+      };
+    };
+  };
+}
+
+interface CoinMarketCapHistoricalResponse {
+  data: {
+    quotes: CoinMarketCapHistoricalQuote[];
+  };
+}
+
+export class CoinMarketCapService {
+  private client: AxiosInstance;
+  private isConfigured: boolean;
+
+  constructor(options: CoinMarketCapServiceOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.COINMARKETCAP_API_KEY ?? '';
+    this.isConfigured = apiKey.length > 0;
+
+    this.client = axios.create({
+      baseURL: 'https://pro-api.coinmarketcap.com/v1',
+      headers: {
+        'X-CMC_PRO_API_KEY': apiKey,
+        Accept: 'application/json',
+      },
+      timeout: 30000, // 30 second timeout
+    });
+
+    const fixtures = options.fixtures === undefined ? getFixtureOptionsFromEnv() : options.fixtures || undefined;
+    if (fixtures) {
+      applyFixtures(this.client, COINMARKETCAP_RESILIENCE.provider, fixtures);
+    }
+    // Replayed responses need no pacing or retries
+    if (fixtures?.mode !== 'replay') {
+      applyResilience(this.client, options.resilience || COINMARKETCAP_RESILIENCE);
+    }
+  }
+
+  /**
+   * Check if CoinMarketCap service is configured
+   */
+  isEnabled(): boolean {
+    return this.isConfigured;
+  }
+
+  /**
+   * Get current price for a cryptocurrency
+   * @param symbol - Cryptocurrency symbol (e.g., 'ETH', 'BTC')
+   * @returns Current price in USD, or 0 if unknown
+   * @throws Error if no API key is configured; rate limit and outage errors
+   */
+  async getCurrentPrice(symbol: string): Promise<number> {
+    this.assertConfigured();
+
+    try {
+      const response = await this.client.get<CoinMarketCapCurrentPriceResponse>(
+        '/cryptocurrency/quotes/latest',
+        {
+          params: {
+            symbol: symbol.toUpperCase(),
+          },
+        }
+      );
+
+      const data = response.data.data[symbol.toUpperCase()];
+      return data?.quote?.USD?.price || 0;
+    } catch (error) {
+      this.handleError('getCurrentPrice', error);
+      if (isUpstreamError(error)) {
+        throw error;
+      }
+      return 0;
+    }
+  }
+
+  /**
+   * Get historical price for a cryptocurrency on a specific date
+   * Fetches the hourly quotes of the UTC day and takes the one closest to `date`.
+   * @param symbol - Cryptocurrency symbol (e.g., 'ETH', 'BTC')
+   * @param date - Date to get price for
+   * @returns Historical price in USD, or 0 if unknown
+   * @throws Error if no API key is configured; rate limit and outage errors
+   */
+  async getHistoricalPrice(symbol: string, date: Date): Promise<number> {
+    const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    const quotes = await this.getHistoricalQuotes(
+      symbol,
+      { from: new Date(dayStart).toISOString(), to: new Date(dayStart + DAY_MS).toISOString() },
+      'hourly'
+    );
+
+    let nearest: { timestamp: Date; price: number } | undefined;
+    for (const quote of quotes) {
+      const distance = Math.abs(quote.timestamp.getTime() - date.getTime());
+      if (!nearest || distance < Math.abs(nearest.timestamp.getTime() - date.getTime())) {
+        nearest = quote;
+      }
+    }
+    return nearest?.price || 0;
+  }
+
+  /**
+   * Get a cryptocurrency's USD quotes over a range
+   * @param symbol - Cryptocurrency symbol (e.g., 'ETH', 'BTC')
+   * @param range - Start and end of the history to fetch
+   * @param interval - Spacing of the quotes (default: daily)
+   * @returns Quotes, oldest first; empty if unknown
+   * @throws Error if no API key is configured; rate limit and outage errors
+   */
+  async getHistoricalQuotes(
+    symbol: string,
+    range: DateRange,
+    interval: 'hourly' | 'daily' = 'daily'
+  ): Promise<Array<{ timestamp: Date; price: number }>> {
+    this.assertConfigured();
+
+    try {
+      const response = await this.client.get<CoinMarketCapHistoricalResponse>(
+        '/cryptocurrency/quotes/historical',
+        {
+          params: {
+            symbol: symbol.toUpperCase(),
+            time_start: range.from,
+            time_end: range.to,
+            interval,
+          },
+        }
+      );
+
+      return (response.data.data?.quotes || [])
+        .filter((quote) => quote.quote?.USD?.price > 0)
+        .map((quote) => ({ timestamp: new Date(quote.timestamp), price: quote.quote.USD.price }))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    } catch (error) {
+      this.handleError('getHistoricalQuotes', error);
+      if (isUpstreamError(error)) {
+        throw error;
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Get ATH (All-Time High) price from daily historical quotes
+   * @param symbol - Cryptocurrency symbol (e.g., 'ETH', 'BTC')
+   * @param window - Days to look back, or an explicit range (default: 365 days)
+   * @returns The ATH price and when it occurred (0 and null if unknown)
+   * @throws Error if no API key is configured; rate limit and outage errors
+   */
+  async getATHPrice(
+    symbol: string,
+    window: number | DateRange = 365
+  ): Promise<{ athPrice: number; athDate: Date | null }> {
+    const now = new Date();
+    const range = typeof window === 'number' ? { from: subDays(now, window).toISOString(), to: now.toISOString() } : window;
+    const quotes = await this.getHistoricalQuotes(symbol, range, 'daily');
+
+    let athPrice = 0;
+    let athDate: Date | null = null;
+    for (const quote of quotes) {
+      if (quote.price > athPrice) {
+        athPrice = quote.price;
+        athDate = quote.timestamp;
+      }
+    }
+    return { athPrice, athDate };
+  }
+
+  private assertConfigured(): void {
+    if (!this.isConfigured) {
+      throw new Error('CoinMarketCap API key not configured');
+    }
+  }
+
+  /**
+   * Handle and log errors from API calls
+   * @param methodName - Name of the method that errored
+   * @param error - The error object
+   */
+  private handleError(methodName: string, error: any): void {
+    if (isUpstreamError(error)) {
+      console.error(`[CoinMarketCap ${methodName}] ${error.name}: ${error.message}`);
+    } else if (axios.isAxiosError(error)) {
+      console.error(`[CoinMarketCap ${methodName}] API Error:`, error.response?.data || error.message);
+    } else {
+      console.error(`[CoinMarketCap ${methodName}] Unexpected Error:`, error);
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FixtureMissingError } from '../utils/errors';
+
+/**
+ * Fixture Transport - record/replay of HTTP responses for axios clients
+ *
+ * - record: requests go to the real API and every response (including 4xx/5xx
+ *   answers) is written to <dir>/<provider>/<hash>.json
+ * - replay: requests never leave the machine; the recorded response is served,
+ *   and a request with no fixture fails with FixtureMissingError
+ *
+ * Fixtures are matched on method, URL, query params and body. Dates in a
+ * request are compared at day precision. Only a date range may match loosely:
+ * if nothing matches exactly (e.g. a "last 12 months" window recorded on
+ * another day), a fixture that differs only in the bounds of its windows
+ * (from/to, time_start/time_end) is used instead. A single-date lookup, such
+ * as CoinGecko's /history for one day, must have been recorded for that day.
+ * Request headers (API keys) are never saved.
+ */
+
+export type FixtureMode = 'record' | 'replay';
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  dir: string; // Root fixture directory; each provider gets a subdirectory
+}
+
+interface Fixture {
+  key: string;
+  looseKey: string; // Key with the bounds of date ranges masked
+  recordedAt: string;
+  request: { method: string; url: string; params?: unknown; data?: unknown };
+  response: { status: number; statusText: string; data: unknown };
+}
+
+export const DEFAULT_FIXTURES_DIR = 'fixtures';
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const DAY_MONTH_YEAR = /^\d{2}-\d{2}-\d{4}$/; // CoinGecko /history format
+const UNIX_SECONDS = /^\d{9,10}$/; // CoinGecko /market_chart/range bounds
+
+// Request fields holding the bounds of a date window: Nansen's date.from/to,
+// CoinGecko's from/to and CoinMarketCap's time_start/time_end
+const RANGE_BOUNDS = new Set(['from', 'to', 'time_start', 'time_end']);
+
+/**
+ * Read fixture settings from FIXTURES_MODE and FIXTURES_DIR
+ * @returns Options, or undefined when fixtures are off
+ * @throws Error for an unknown FIXTURES_MODE
+ */
+export function getFixtureOptionsFromEnv(): FixtureOptions | undefined {
+  const mode = process.env.FIXTURES_MODE;
+  if (!mode || mode === 'off') {
+    return undefined;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Unknown FIXTURES_MODE: ${mode} (expected record, replay or off)`);
+  }
+  return { mode, dir: process.env.FIXTURES_DIR || DEFAULT_FIXTURES_DIR };
+}
+
+/**
+ * Install a recording or replaying adapter on an axios client
+ * @param client - The axios instance
+ * @param provider - Provider name, used as the fixture subdirectory
+ * @param options - Mode and fixture directory
+ */
+export function applyFixtures(client: AxiosInstance, provider: string, options: FixtureOptions): void {
+  const dir = path.join(options.dir, provider.toLowerCase());
+
+  if (options.mode === 'record') {
+    const realAdapter = axios.getAdapter(client.defaults.adapter);
+    client.defaults.adapter = async (config) => {
+      try {
+        const response = await realAdapter(config);
+        saveFixture(dir, config, response);
+        return response;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response) {
+          saveFixture(dir, config, error.response);
+        }
+        throw error;
+      }
+    };
+    return;
+  }
+
+  const store = new FixtureStore(dir);
+  client.defaults.adapter = replayAdapter(store, provider);
+}
+
+/**
+ * Build the exact and loose matching keys for a request
+ * @param config - Axios request config
+ * @returns Both keys; they are equal for requests without a date range
+ */
+export function buildFixtureKeys(config: InternalAxiosRequestConfig): { key: string; looseKey: string } {
+  return keysOf(describeRequest(config));
+}
+
+function keysOf(request: Fixture['request']): { key: string; looseKey: string } {
+  const base = `${request.method} ${request.url}`;
+
+  return {
+    key: `${base} ${JSON.stringify(normalize(request.params, 'day'))} ${JSON.stringify(normalize(request.data, 'day'))}`,
+    looseKey: `${base} ${JSON.stringify(normalize(request.params, 'mask'))} ${JSON.stringify(normalize(request.data, 'mask'))}`,
+  };
+}
+
+/**
+ * In-memory index of one provider's fixture files
+ */
+class FixtureStore {
+  private byKey: Map<string, Fixture>;
+  private byLooseKey: Map<string, Fixture>;
+
+  constructor(private readonly dir: string) {
+    this.byKey = new Map();
+    this.byLooseKey = new Map();
+    this.load();
+  }
+
+  /**
+   * Find the fixture for a request, preferring an exact match
+   */
+  find(key: string, looseKey: string): Fixture | undefined {
+    return this.byKey.get(key) ?? this.byLooseKey.get(looseKey);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.dir)) {
+      return;
+    }
+
+    // Sorted so that, among loose matches, the most recent recording wins deterministically
+    const fixtures = fs
+      .readdirSync(this.dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')) as Fixture)
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt) || a.key.localeCompare(b.key));
+
+    // Keys are rebuilt from the request so older recordings follow the current matching rules
+    for (const fixture of fixtures) {
+      const { key, looseKey } = keysOf(fixture.request);
+      this.byKey.set(key, fixture);
+      this.byLooseKey.set(looseKey, fixture);
+    }
+  }
+}
+
+function replayAdapter(store: FixtureStore, provider: string): AxiosAdapter {
+  return async (config) => {
+    const { key, looseKey } = buildFixtureKeys(config);
+    const fixture = store.find(key, looseKey);
+
+    if (!fixture) {
+      throw new FixtureMissingError(provider, key);
+    }
+
+    const response: AxiosResponse = {
+      data: fixture.response.data,
+      status: fixture.response.status,
+      statusText: fixture.response.statusText,
+      headers: {},
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        {},
+        response
+      );
+    }
+
+    return response;
+  };
+}
+
+function saveFixture(dir: string, config: InternalAxiosRequestConfig, response: AxiosResponse): void {
+  const { key, looseKey } = buildFixtureKeys(config);
+  const fixture: Fixture = {
+    key,
+    looseKey,
+    recordedAt: new Date().toISOString(),
+    request: describeRequest(config),
+    response: { status: response.status, statusText: response.statusText, data: response.data },
+  };
+
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    fs.writeFileSync(path.join(dir, `${hash}.json`), JSON.stringify(fixture, null, 2) + '\n');
+  } catch (error) {
+    console.warn('[Fixtures] Could not save fixture:', error instanceof Error ? error.message : error);
+  }
+}
+
+function describeRequest(config: InternalAxiosRequestConfig): Fixture['request'] {
+  const baseURL = config.baseURL ?? '';
+  const url = config.url ?? '';
+  const data = typeof config.data === 'string' ? safeParse(config.data) : config.data;
+
+  return {
+    method: (config.method ?? 'get').toUpperCase(),
+    url: url.startsWith('http') ? url : baseURL.replace(/\/$/, '') + url,
+    params: config.params,
+    data,
+  };
+}
+
+function safeParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Sort object keys and rewrite dates: 'day' truncates them, 'mask' also
+ * replaces the bounds of date ranges
+ * @param field - Name of the field holding the value
+ */
+function normalize(value: unknown, dates: 'day' | 'mask', field?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalize(item, dates));
+  }
+
+  if (dates === 'mask' && field !== undefined && RANGE_BOUNDS.has(field) && isDateLike(value)) {
+    return '<date>';
+  }
+
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const name of Object.keys(value as Record<string, unknown>).sort()) {
+      const item = (value as Record<string, unknown>)[name];
+      if (item !== undefined) {
+        sorted[name] = normalize(item, dates, name);
+      }
+    }
+    return sorted;
+  }
+
+  if (typeof value === 'string' && (ISO_TIMESTAMP.test(value) || DAY_MONTH_YEAR.test(value))) {
+    return toDay(value);
+  }
+
+  return value;
+}
+
+function isDateLike(value: unknown): boolean {
+  const text = typeof value === 'number' ? String(value) : value;
+  return typeof text === 'string' && (ISO_TIMESTAMP.test(text) || DAY_MONTH_YEAR.test(text) || UNIX_SECONDS.test(text));
+}
+
+function toDay(value: string): string {
+  if (DAY_MONTH_YEAR.test(value)) {
+    const [day, month, year] = value.split('-');
+    return `${year}-${month}-${day}`;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,287 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  CircuitOpenError,
+  RateLimitedError,
+  UpstreamUnavailableError,
+} from '../utils/errors';
+
+/**
+ * HTTP Middleware - retries, rate limiting and circuit breaking for axios clients
+ *
+ * - Token bucket: every request (including retries) waits for a token, so a
+ *   provider's request rate stays under its limit without fixed sleeps
+ * - Retries: 429, 5xx, timeouts and network errors are retried with exponential
+ *   backoff and full jitter; a Retry-After header takes precedence (if it asks
+ *   for longer than maxDelayMs the request fails with RateLimitedError instead)
+ * - Circuit breaker: after repeated upstream failures the client fails fast with
+ *   CircuitOpenError until a cool-down passes, then lets one probe through
+ * - Once retries are exhausted callers get RateLimitedError or
+ *   UpstreamUnavailableError; other errors (e.g. 404) pass through unchanged
+ */
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RateLimitOptions {
+  capacity: number; // Burst size
+  refillPerSecond: number; // Sustained requests per second
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before opening
+  resetTimeoutMs: number; // How long to stay open before a probe
+}
+
+export interface ResilienceOptions {
+  provider: string; // Used in error messages and logs
+  retry: RetryOptions;
+  rateLimit: RateLimitOptions;
+  circuitBreaker: CircuitBreakerOptions;
+}
+
+/**
+ * Time source for waits and cool-downs; tests pass a fake one
+ */
+export interface ResilienceClock {
+  now(): number; // Epoch ms
+  sleep(ms: number): Promise<void>;
+}
+
+export const SYSTEM_CLOCK: ResilienceClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+interface RetryState {
+  __attempt?: number;
+}
+
+/**
+ * Token bucket rate limiter
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void>;
+
+  constructor(
+    private readonly options: RateLimitOptions,
+    private readonly clock: ResilienceClock = SYSTEM_CLOCK
+  ) {
+    this.tokens = options.capacity;
+    this.lastRefill = clock.now();
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Wait until a token is available and consume it
+   * Callers are served in FIFO order.
+   */
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.waitForToken());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.options.refillPerSecond) * 1000;
+      await this.clock.sleep(Math.ceil(waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.capacity, this.tokens + elapsedSeconds * this.options.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker (closed → open → half-open → closed)
+ */
+export class CircuitBreaker {
+  private failures: number;
+  private openedAt: number | null;
+  private probeInFlight: boolean;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly clock: ResilienceClock = SYSTEM_CLOCK
+  ) {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.clock.now() - this.openedAt >= this.options.resetTimeoutMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent now
+   * In half-open state only one probe request is allowed at a time.
+   */
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') {
+      return true;
+    }
+    if (state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * When the breaker will next allow a probe (epoch ms)
+   */
+  retryAt(): number {
+    return (this.openedAt ?? this.clock.now()) + this.options.resetTimeoutMs;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.probeInFlight = false;
+    if (this.openedAt !== null || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.clock.now();
+    }
+  }
+}
+
+/**
+ * Install retry, rate limiting and circuit breaking on an axios client
+ * @param client - The axios instance to wrap
+ * @param options - Per-provider settings
+ * @param clock - Time source for waits and the breaker's cool-down (default: the system clock)
+ * @returns The limiter and breaker, for inspection
+ */
+export function applyResilience(
+  client: AxiosInstance,
+  options: ResilienceOptions,
+  clock: ResilienceClock = SYSTEM_CLOCK
+): { limiter: TokenBucket; breaker: CircuitBreaker } {
+  const limiter = new TokenBucket(options.rateLimit, clock);
+  const breaker = new CircuitBreaker(options.circuitBreaker, clock);
+
+  client.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+    if (!breaker.allowRequest()) {
+      throw new CircuitOpenError(options.provider, breaker.retryAt());
+    }
+    await limiter.take();
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error: unknown) => {
+      // Errors raised before the request was sent (e.g. CircuitOpenError)
+      if (!axios.isAxiosError(error) || !error.config) {
+        throw error;
+      }
+
+      const status = error.response?.status;
+      const retryable = isRetryable(error);
+
+      if (!retryable) {
+        // The provider answered; a 4xx is the caller's problem, not an outage
+        breaker.recordSuccess();
+        throw error;
+      }
+
+      if (status === 429) {
+        // Rate limited means the provider is up; the token bucket handles pacing
+        breaker.recordSuccess();
+      } else {
+        breaker.recordFailure();
+      }
+
+      const config = error.config as InternalAxiosRequestConfig & RetryState;
+      const attempt = config.__attempt ?? 0;
+      const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after'], clock.now());
+      const waitTooLong = retryAfterMs !== undefined && retryAfterMs > options.retry.maxDelayMs;
+
+      if (attempt < options.retry.maxRetries && !waitTooLong) {
+        const waitMs = retryAfterMs ?? backoffDelay(attempt, options.retry);
+        console.warn(
+          `[${options.provider}] ${status ?? error.code ?? 'network error'} on ${config.url}, retrying in ${waitMs}ms (${attempt + 1}/${options.retry.maxRetries})`
+        );
+        await clock.sleep(waitMs);
+        config.__attempt = attempt + 1;
+        return client.request(config);
+      }
+
+      if (status === 429) {
+        throw new RateLimitedError(options.provider, retryAfterMs);
+      }
+      throw new UpstreamUnavailableError(
+        options.provider,
+        `${options.provider} unavailable after ${attempt + 1} attempts: ${error.message}`,
+        status
+      );
+    }
+  );
+
+  return { limiter, breaker };
+}
+
+/**
+ * 429, 5xx, timeouts and connection errors are worth retrying
+ */
+function isRetryable(error: AxiosError): boolean {
+  const status = error.response?.status;
+  if (status === undefined) {
+    return error.code !== AxiosError.ERR_CANCELED;
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param attempt - Zero-based retry number
+ * @param options - Retry settings
+ * @returns Delay in milliseconds
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ * @param now - Current time (epoch ms), for HTTP dates
+ * @returns Delay in milliseconds, or undefined if absent/invalid
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,241 @@
+import axios, { AxiosInstance } from 'axios';
+import { ResolvedWallet } from '../types';
+import { keccak256 } from '../utils/encoding';
+import { InvalidAddressError, NameNotFoundError } from '../utils/errors';
+import { isNameServiceName, validateAndNormalizeAddress } from '../utils/validation';
+import { applyResilience, ResilienceOptions } from './httpMiddleware';
+import { applyFixtures, FixtureOptions, getFixtureOptionsFromEnv } from './fixtureTransport';
+import { RequestCache } from './requestCache.service';
+
+/**
+ * Name Resolver - turns human-readable wallet names into addresses
+ *
+ * - ENS (vitalik.eth, and DNS names imported into ENS) is read straight from
+ *   the ENS registry with eth_call against an Ethereum JSON-RPC endpoint
+ * - Solana Name Service (bonfida.sol) goes through Bonfida's public SNS proxy
+ *
+ * Lookups are cached (misses too) so a name typed twice, or listed in a batch
+ * alongside its address, costs one request. Anything implementing NameResolver
+ * can be put on the analysis context instead, e.g. an in-memory map in tests.
+ */
+
+export interface NameResolver {
+  /**
+   * @param name - Normalized name (lowercase, e.g. 'vitalik.eth')
+   * @returns The address the name points to, or null if it is not registered or has no address set
+   */
+  resolve(name: string): Promise<string | null>;
+}
+
+// Public endpoints; set ETH_RPC_URL to use your own node or provider
+export const DEFAULT_ETH_RPC_URL = 'https://cloudflare-eth.com';
+export const SNS_PROXY_URL = 'https://sns-sdk-proxy.bonfida.workers.dev';
+
+const ENS_REGISTRY = '0x00000000000c2e074ec69a0dfb2997ba6c7d2e1e';
+const RESOLVER_SELECTOR = '0x0178b8bf'; // resolver(bytes32)
+const ADDR_SELECTOR = '0x3b3b57de'; // addr(bytes32)
+const ZERO_WORD = '0'.repeat(64);
+
+export const NAME_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export const ENS_RESILIENCE: ResilienceOptions = {
+  provider: 'ENS',
+  retry: { maxRetries: 2, baseDelayMs: 500, maxDelayMs: 5000 },
+  rateLimit: { capacity: 5, refillPerSecond: 5 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 },
+};
+
+export const SNS_RESILIENCE: ResilienceOptions = {
+  ...ENS_RESILIENCE,
+  provider: 'SNS',
+};
+
+/**
+ * ENS namehash (EIP-137)
+ * Names are expected to be normalized already; full ENSIP-15 normalization
+ * (confusables, emoji sequences) is not applied.
+ * @param name - e.g. 'vitalik.eth'
+ * @returns The node as 64 hex characters, without 0x
+ */
+export function namehash(name: string): string {
+  let node = ZERO_WORD;
+  if (!name) {
+    return node;
+  }
+
+  for (const label of name.split('.').reverse()) {
+    node = keccak256(Buffer.from(node + keccak256(label), 'hex'));
+  }
+  return node;
+}
+
+export interface EnsResolverOptions {
+  rpcUrl?: string; // Defaults to ETH_RPC_URL, then DEFAULT_ETH_RPC_URL
+  resilience?: ResilienceOptions; // Defaults to ENS_RESILIENCE
+  fixtures?: FixtureOptions | false; // Defaults to FIXTURES_MODE / FIXTURES_DIR; false disables
+}
+
+/**
+ * Resolves ENS names through the registry: registry.resolver(node), then resolver.addr(node)
+ */
+export class EnsResolver implements NameResolver {
+  private client: AxiosInstance;
+  private rpcUrl: string;
+
+  constructor(options: EnsResolverOptions = {}) {
+    this.rpcUrl = options.rpcUrl ?? process.env.ETH_RPC_URL ?? DEFAULT_ETH_RPC_URL;
+    this.client = axios.create({
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 15000,
+    });
+
+    const fixtures = options.fixtures === undefined ? getFixtureOptionsFromEnv() : options.fixtures || undefined;
+    if (fixtures) {
+      applyFixtures(this.client, ENS_RESILIENCE.provider, fixtures);
+    }
+    if (fixtures?.mode !== 'replay') {
+      applyResilience(this.client, options.resilience || ENS_RESILIENCE);
+    }
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const node = namehash(name);
+
+    const resolver = wordToAddress(await this.call(ENS_REGISTRY, RESOLVER_SELECTOR + node));
+    if (!resolver) {
+      return null;
+    }
+
+    return wordToAddress(await this.call(resolver, ADDR_SELECTOR + node));
+  }
+
+  /**
+   * eth_call against the latest block
+   * @returns The first 32-byte word of the result, as hex without 0x
+   * @throws Error if the node returns a JSON-RPC error
+   */
+  private async call(to: string, data: string): Promise<string> {
+    const response = await this.client.post<{ result?: string; error?: { message: string } }>(this.rpcUrl, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'eth_call',
+      params: [{ to, data }, 'latest'],
+    });
+
+    if (response.data.error) {
+      throw new Error(`ENS lookup failed: ${response.data.error.message}`);
+    }
+    // A contract without the function (or an empty account) returns 0x
+    return (response.data.result || '0x').slice(2, 66).padEnd(64, '0');
+  }
+}
+
+export interface SnsResolverOptions {
+  baseUrl?: string; // Defaults to SNS_PROXY_URL
+  resilience?: ResilienceOptions; // Defaults to SNS_RESILIENCE
+  fixtures?: FixtureOptions | false; // Defaults to FIXTURES_MODE / FIXTURES_DIR; false disables
+}
+
+/**
+ * Resolves .sol names through the SNS proxy
+ */
+export class SnsResolver implements NameResolver {
+  private client: AxiosInstance;
+
+  constructor(options: SnsResolverOptions = {}) {
+    this.client = axios.create({
+      baseURL: options.baseUrl ?? SNS_PROXY_URL,
+      timeout: 15000,
+    });
+
+    const fixtures = options.fixtures === undefined ? getFixtureOptionsFromEnv() : options.fixtures || undefined;
+    if (fixtures) {
+      applyFixtures(this.client, SNS_RESILIENCE.provider, fixtures);
+    }
+    if (fixtures?.mode !== 'replay') {
+      applyResilience(this.client, options.resilience || SNS_RESILIENCE);
+    }
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const domain = name.replace(/\.sol$/, '');
+    // The proxy answers { s: 'ok', result: <owner> } or { s: 'error', result: <message> } for unknown names
+    const response = await this.client.get<{ s: string; result: string }>(`/resolve/${encodeURIComponent(domain)}`);
+    return response.data.s === 'ok' ? response.data.result : null;
+  }
+}
+
+export interface NameResolverServiceOptions {
+  resolvers?: Record<string, NameResolver>; // Top-level domain -> resolver; '*' handles the rest
+  cacheTtlMs?: number; // Defaults to NAME_CACHE_TTL_MS; 0 disables caching
+}
+
+/**
+ * Routes each name to the resolver for its top-level domain and caches the answers
+ * By default .sol names go to SNS and everything else to ENS.
+ */
+export class NameResolverService implements NameResolver {
+  private resolvers: Record<string, NameResolver>;
+  private cache: RequestCache;
+
+  constructor(options: NameResolverServiceOptions = {}) {
+    this.resolvers = options.resolvers ?? {
+      sol: new SnsResolver(),
+      '*': new EnsResolver(),
+    };
+    this.cache = new RequestCache({ defaultTtlMs: options.cacheTtlMs ?? NAME_CACHE_TTL_MS });
+  }
+
+  async resolve(name: string): Promise<string | null> {
+    const tld = name.slice(name.lastIndexOf('.') + 1);
+    const resolver = this.resolvers[tld] ?? this.resolvers['*'];
+    if (!resolver) {
+      return null;
+    }
+
+    return this.cache.getOrFetch(`names/${tld}`, name, () => resolver.resolve(name));
+  }
+}
+
+/**
+ * Turn wallet input - an address or a name - into a normalized address
+ * @param resolver - Name resolver (ctx.names)
+ * @param input - What the user typed
+ * @returns The address, plus the name when one was given
+ * @throws InvalidAddressError if the input is neither, or the name resolves to an unsupported address
+ * @throws NameNotFoundError if the name has no address record
+ * @throws Error (or UpstreamError) if the lookup itself fails
+ */
+export async function resolveWallet(resolver: NameResolver, input: string): Promise<ResolvedWallet> {
+  const trimmed = input.trim();
+  if (!isNameServiceName(trimmed)) {
+    return { address: validateAndNormalizeAddress(trimmed) };
+  }
+
+  const name = normalizeName(trimmed);
+  const resolved = await resolver.resolve(name);
+  if (!resolved) {
+    throw new NameNotFoundError(name);
+  }
+
+  try {
+    return { address: validateAndNormalizeAddress(resolved), name };
+  } catch {
+    throw new InvalidAddressError(`${name} resolves to ${resolved}, which is not a supported wallet address`);
+  }
+}
+
+/**
+ * Lowercase and NFC-normalize a name so cache keys and lookups agree
+ */
+export function normalizeName(name: string): string {
+  return name.trim().normalize('NFC').toLowerCase();
+}
+
+/**
+ * Read an address from a 32-byte ABI word (left-padded), or null for the zero address
+ */
+function wordToAddress(word: string): string | null {
+  const address = word.slice(24);
+  return /^0+$/.test(address) ? null : `0x${address}`;
+}
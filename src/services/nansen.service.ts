@@ -14,17 +14,60 @@ import {
   TokenScreenerRequest,
   TokenScreenerResponse,
 } from '../types';
+import { RequestCache, RequestCacheOptions } from './requestCache.service';
+import { applyResilience, ResilienceOptions } from './httpMiddleware';
+import { applyFixtures, FixtureOptions, getFixtureOptionsFromEnv } from './fixtureTransport';
+import { isUpstreamError } from '../utils/errors';
 
 dotenv.config();
 
+const ENDPOINTS = {
+  pnlSummary: '/api/v1/profiler/address/pnl-summary',
+  labels: '/api/beta/profiler/address/labels',
+  currentBalance: '/api/v1/profiler/address/current-balance',
+  transactions: '/api/v1/profiler/address/transactions',
+  tokenScreener: '/api/v1/token-screener',
+};
+
+// How long each endpoint's responses stay fresh
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  [ENDPOINTS.pnlSummary]: 60 * 60 * 1000, // 1 hour
+  [ENDPOINTS.labels]: 24 * 60 * 60 * 1000, // 24 hours - labels rarely change
+  [ENDPOINTS.currentBalance]: 5 * 60 * 1000, // 5 minutes - balances move with prices
+  [ENDPOINTS.transactions]: 60 * 60 * 1000, // 1 hour
+  [ENDPOINTS.tokenScreener]: 15 * 60 * 1000, // 15 minutes
+};
+
+// Retry, rate limit and circuit breaker settings for the Nansen API
+export const NANSEN_RESILIENCE: ResilienceOptions = {
+  provider: 'Nansen',
+  retry: { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10000 },
+  rateLimit: { capacity: 10, refillPerSecond: 5 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 },
+};
+
+export interface NansenServiceOptions {
+  apiKey?: string; // Defaults to NANSEN_API_KEY
+  cache?: RequestCacheOptions | false; // false disables caching
+  resilience?: ResilienceOptions; // Defaults to NANSEN_RESILIENCE
+  fixtures?: FixtureOptions | false; // Defaults to FIXTURES_MODE / FIXTURES_DIR; false disables
+}
+
 export class NansenService {
   private client: AxiosInstance;
   private apiKey: string;
+  private cache: RequestCache | null;
 
-  constructor() {
-    this.apiKey = process.env.NANSEN_API_KEY || '';
+  /**
+   * Caching is on by default. Set NANSEN_CACHE=off to disable it, or
+   * NANSEN_CACHE_DIR to persist responses to disk between runs.
+   * With FIXTURES_MODE=replay no API key is needed and nothing hits the network.
+   */
+  constructor(options: NansenServiceOptions = {}) {
+    const fixtures = options.fixtures === undefined ? getFixtureOptionsFromEnv() : options.fixtures || undefined;
+    this.apiKey = options.apiKey ?? process.env.NANSEN_API_KEY ?? '';
     
-    if (!this.apiKey) {
+    if (!this.apiKey && fixtures?.mode !== 'replay') {
       throw new Error('NANSEN_API_KEY is not set in environment variables');
     }
 
@@ -36,6 +79,25 @@ export class NansenService {
       },
       timeout: 30000, // 30 second timeout
     });
+
+    if (fixtures) {
+      applyFixtures(this.client, NANSEN_RESILIENCE.provider, fixtures);
+    }
+    // Replayed responses need no pacing or retries
+    if (fixtures?.mode !== 'replay') {
+      applyResilience(this.client, options.resilience || NANSEN_RESILIENCE);
+    }
+
+    if (options.cache === false || (options.cache === undefined && process.env.NANSEN_CACHE === 'off')) {
+      this.cache = null;
+    } else {
+      this.cache = new RequestCache({
+        // Responses served from a persisted cache would never reach the recorder
+        persistDir: fixtures?.mode === 'record' ? undefined : process.env.NANSEN_CACHE_DIR || undefined,
+        ...options.cache,
+        ttls: { ...DEFAULT_CACHE_TTLS, ...options.cache?.ttls },
+      });
+    }
   }
 
   /**
@@ -44,16 +106,7 @@ export class NansenService {
    * @returns P&L summary data
    */
   async getPnlSummary(request: PnlSummaryRequest): Promise<PnlSummaryResponse> {
-    try {
-      const response = await this.client.post<PnlSummaryResponse>(
-        '/api/v1/profiler/address/pnl-summary',
-        request
-      );
-      return response.data;
-    } catch (error) {
-      this.handleError('getPnlSummary', error);
-      throw error;
-    }
+    return this.post<PnlSummaryResponse>('getPnlSummary', ENDPOINTS.pnlSummary, request);
   }
 
   /**
@@ -62,16 +115,7 @@ export class NansenService {
    * @returns Labels data
    */
   async getLabels(request: LabelsRequest): Promise<LabelsResponse> {
-    try {
-      const response = await this.client.post<LabelsResponse>(
-        '/api/beta/profiler/address/labels',
-        request
-      );
-      return response.data;
-    } catch (error) {
-      this.handleError('getLabels', error);
-      throw error;
-    }
+    return this.post<LabelsResponse>('getLabels', ENDPOINTS.labels, request);
   }
 
   /**
@@ -80,16 +124,7 @@ export class NansenService {
    * @returns Current balance data
    */
   async getCurrentBalance(request: CurrentBalanceRequest): Promise<CurrentBalanceResponse> {
-    try {
-      const response = await this.client.post<CurrentBalanceResponse>(
-        '/api/v1/profiler/address/current-balance',
-        request
-      );
-      return response.data;
-    } catch (error) {
-      this.handleError('getCurrentBalance', error);
-      throw error;
-    }
+    return this.post<CurrentBalanceResponse>('getCurrentBalance', ENDPOINTS.currentBalance, request);
   }
 
   /**
@@ -142,16 +177,7 @@ export class NansenService {
    * @returns Transactions data
    */
   async getTransactions(request: TransactionsRequest): Promise<TransactionsResponse> {
-    try {
-      const response = await this.client.post<TransactionsResponse>(
-        '/api/v1/profiler/address/transactions',
-        request
-      );
-      return response.data;
-    } catch (error) {
-      this.handleError('getTransactions', error);
-      throw error;
-    }
+    return this.post<TransactionsResponse>('getTransactions', ENDPOINTS.transactions, request);
   }
 
   /**
@@ -210,16 +236,43 @@ export class NansenService {
    * @returns Token screener data
    */
   async screenTokens(request: TokenScreenerRequest): Promise<TokenScreenerResponse> {
-    try {
-      const response = await this.client.post<TokenScreenerResponse>(
-        '/api/v1/token-screener',
-        request
-      );
-      return response.data;
-    } catch (error) {
-      this.handleError('screenTokens', error);
-      throw error;
-    }
+    return this.post<TokenScreenerResponse>('screenTokens', ENDPOINTS.tokenScreener, request);
+  }
+
+  /**
+   * Get request cache statistics
+   * @returns Cache counters, or null when caching is disabled
+   */
+  getCacheStats(): ReturnType<RequestCache['getStats']> | null {
+    return this.cache ? this.cache.getStats() : null;
+  }
+
+  /**
+   * Clear cached responses (memory and disk)
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * POST to a Nansen endpoint through the request cache
+   * @param methodName - Public method name, for error logs
+   * @param endpoint - API path
+   * @param request - Request body
+   * @returns Response data
+   */
+  private async post<T>(methodName: string, endpoint: string, request: object): Promise<T> {
+    const fetch = async (): Promise<T> => {
+      try {
+        const response = await this.client.post<T>(endpoint, request);
+        return response.data;
+      } catch (error) {
+        this.handleError(methodName, error);
+        throw error;
+      }
+    };
+
+    return this.cache ? this.cache.getOrFetch(endpoint, request, fetch) : fetch();
   }
 
   /**
@@ -228,7 +281,9 @@ export class NansenService {
    * @param error - The error object
    */
   private handleError(methodName: string, error: any): void {
-    if (axios.isAxiosError(error)) {
+    if (isUpstreamError(error)) {
+      console.error(`[Nansen ${methodName}] ${error.name}: ${error.message}`);
+    } else if (axios.isAxiosError(error)) {
       console.error(`[Nansen ${methodName}] API Error:`, {
         status: error.response?.status,
         statusText: error.response?.statusText,
@@ -240,7 +295,3 @@ export class NansenService {
     }
   }
 }
-
-// Export a singleton instance
-export const nansenService = new NansenService();
-
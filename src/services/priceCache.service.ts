@@ -1,39 +1,30 @@
 import { format } from 'date-fns';
-import * as fs from 'fs';
-import * as path from 'path';
+import { PriceStore } from './priceStore.service';
 
 /**
  * PriceCacheService - Manages pre-computed and runtime price caching
  * 
- * Provides fast ETH price lookups from pre-computed data file,
+ * Provides fast daily price lookups from the pre-computed price store
+ * (src/data/<asset>-prices.json, see PriceStore; filled by `funfacts prices sync`),
  * plus in-memory caching for other tokens fetched at runtime.
  */
 export class PriceCacheService {
-  private static ethPrices: Record<string, number> | null = null;
+  private static store = new PriceStore();
   private runtimeCache: Map<string, number>;
 
   constructor() {
     this.runtimeCache = new Map<string, number>();
-    
-    // Load ETH prices on first instantiation
-    if (!PriceCacheService.ethPrices) {
-      PriceCacheService.loadEthPrices();
-    }
   }
 
   /**
-   * Load pre-computed ETH prices from JSON file
+   * Get an asset's daily price for a date from the price store
+   * A missing day is interpolated from the nearest known days (up to a week away).
+   * @param asset - Series id (e.g., 'eth', 'btc', 'sol')
+   * @param date - The date to lookup
+   * @returns Price in USD, or null if not found
    */
-  private static loadEthPrices(): void {
-    try {
-      const dataPath = path.join(__dirname, '../data/eth-prices.json');
-      const fileContent = fs.readFileSync(dataPath, 'utf-8');
-      PriceCacheService.ethPrices = JSON.parse(fileContent);
-      console.log(`✅ Loaded ${Object.keys(PriceCacheService.ethPrices || {}).length} days of ETH price data`);
-    } catch (error) {
-      console.warn('⚠️  Could not load ETH price cache:', error instanceof Error ? error.message : 'Unknown error');
-      PriceCacheService.ethPrices = {};
-    }
+  static getPrice(asset: string, date: Date): number | null {
+    return PriceCacheService.store.getPrice(asset, date);
   }
 
   /**
@@ -42,12 +33,7 @@ export class PriceCacheService {
    * @returns Price in USD, or null if not found
    */
   static getEthPrice(date: Date): number | null {
-    if (!PriceCacheService.ethPrices) {
-      PriceCacheService.loadEthPrices();
-    }
-    
-    const dateKey = format(date, 'yyyy-MM-dd');
-    return PriceCacheService.ethPrices?.[dateKey] || null;
+    return PriceCacheService.getPrice('eth', date);
   }
 
   /**
@@ -56,12 +42,7 @@ export class PriceCacheService {
    * @returns true if price exists in cache
    */
   static hasPrice(date: Date): boolean {
-    if (!PriceCacheService.ethPrices) {
-      PriceCacheService.loadEthPrices();
-    }
-    
-    const dateKey = format(date, 'yyyy-MM-dd');
-    return dateKey in (PriceCacheService.ethPrices || {});
+    return PriceCacheService.store.has('eth', date);
   }
 
   /**
@@ -112,7 +93,7 @@ export class PriceCacheService {
    */
   getCacheStats(): { ethPrices: number; runtimeCache: number } {
     return {
-      ethPrices: Object.keys(PriceCacheService.ethPrices || {}).length,
+      ethPrices: PriceCacheService.store.size('eth'),
       runtimeCache: this.runtimeCache.size,
     };
   }
@@ -0,0 +1,212 @@
+import { NansenClient } from '../context';
+import {
+  CurrentBalanceRequest,
+  CurrentBalanceResponse,
+  LabelsRequest,
+  LabelsResponse,
+  PnlSummaryRequest,
+  PnlSummaryResponse,
+  TokenBalance,
+  Transaction,
+  TransactionsRequest,
+  TransactionsResponse,
+} from '../types';
+import { isNativeToken, nativeAssetOf, tokenKey } from '../utils/tokenId';
+
+/**
+ * Price observations - the USD prices Nansen already returned, indexed by token
+ *
+ * Every transfer in a transaction and every balance carries a price_usd. The
+ * index keeps them per token (tokenKey(chain, address)) and, for a chain's
+ * native asset, also under its CoinGecko id ('ethereum', 'binancecoin', ...),
+ * so NansenPriceProvider can answer price lookups without another API call.
+ * Transfers are observed at their block time, balances when they were fetched.
+ * The index is shared by every analysis in a process, so it keeps at most
+ * maxTokens ids, dropping the one recorded least recently.
+ */
+
+export interface PriceObservation {
+  price: number;
+  at: Date;
+  source: 'transfer' | 'balance';
+}
+
+export interface PriceObservationIndexOptions {
+  now?: () => Date; // When balances are observed (default: the system clock)
+  maxPerToken?: number; // Observations kept per id; the oldest are dropped (default: 500)
+  maxTokens?: number; // Ids kept; the least recently recorded are dropped (default: 5000)
+}
+
+const DEFAULT_MAX_PER_TOKEN = 500;
+const DEFAULT_MAX_TOKENS = 5000;
+
+export class PriceObservationIndex {
+  private readonly observations = new Map<string, PriceObservation[]>(); // Oldest first
+  private readonly now: () => Date;
+  private readonly maxPerToken: number;
+  private readonly maxTokens: number;
+
+  constructor(options: PriceObservationIndexOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+    this.maxPerToken = options.maxPerToken ?? DEFAULT_MAX_PER_TOKEN;
+    this.maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  }
+
+  /**
+   * Record the prices of every transfer in the transactions
+   * @returns Number of observations recorded
+   */
+  recordTransactions(transactions: Transaction[]): number {
+    let recorded = 0;
+    for (const tx of transactions) {
+      const at = new Date(tx.block_timestamp);
+      for (const transfer of [...(tx.tokens_sent || []), ...(tx.tokens_received || [])]) {
+        if (this.record(transfer.chain || tx.chain, transfer.token_address, transfer.price_usd, at, 'transfer')) {
+          recorded++;
+        }
+      }
+    }
+    return recorded;
+  }
+
+  /**
+   * Record the prices of the balances, as of now
+   * @returns Number of observations recorded
+   */
+  recordBalances(balances: TokenBalance[]): number {
+    const at = this.now();
+    return balances.filter((balance) => this.record(balance.chain, balance.token_address, balance.price_usd, at, 'balance'))
+      .length;
+  }
+
+  /**
+   * The observed price closest to a date
+   * @param id - tokenKey(chain, address), or a native asset's CoinGecko id
+   * @param date - When the price is wanted
+   * @param toleranceMs - How far from the date an observation may be
+   * @returns Price in USD, or null if nothing was observed close enough
+   */
+  priceAt(id: string, date: Date, toleranceMs: number): number | null {
+    const target = date.getTime();
+    let best: PriceObservation | null = null;
+    for (const observation of this.observations.get(id) ?? []) {
+      const distance = Math.abs(observation.at.getTime() - target);
+      if (distance <= toleranceMs && (!best || distance < Math.abs(best.at.getTime() - target))) {
+        best = observation;
+      }
+    }
+    return best?.price ?? null;
+  }
+
+  /**
+   * The most recent observed price
+   * @param id - tokenKey(chain, address), or a native asset's CoinGecko id
+   * @param maxAgeMs - How old the observation may be
+   * @returns Price in USD, or null if nothing recent was observed
+   */
+  latestPrice(id: string, maxAgeMs: number): number | null {
+    const observations = this.observations.get(id);
+    const latest = observations?.[observations.length - 1];
+    if (!latest || this.now().getTime() - latest.at.getTime() > maxAgeMs) {
+      return null;
+    }
+    return latest.price;
+  }
+
+  /**
+   * Number of ids with observations
+   */
+  size(): number {
+    return this.observations.size;
+  }
+
+  clear(): void {
+    this.observations.clear();
+  }
+
+  /**
+   * Store one observation under the token's key (and its native asset's id)
+   * Prices that are missing, zero or not finite are skipped.
+   */
+  private record(
+    chain: string,
+    address: string,
+    price: number | null | undefined,
+    at: Date,
+    source: PriceObservation['source']
+  ): boolean {
+    if (!chain || !address || typeof price !== 'number' || !Number.isFinite(price) || price <= 0 || isNaN(at.getTime())) {
+      return false;
+    }
+
+    const ids = [tokenKey(chain, address)];
+    const native = isNativeToken(chain, address) ? nativeAssetOf(chain) : undefined;
+    if (native) {
+      ids.push(native.coinGeckoId);
+    }
+
+    for (const id of ids) {
+      const list = this.observations.get(id) ?? [];
+      // Insert in time order; the same transfer seen twice is kept once
+      let index = list.length;
+      while (index > 0 && list[index - 1].at.getTime() > at.getTime()) {
+        index--;
+      }
+      const previous = list[index - 1];
+      if (previous && previous.at.getTime() === at.getTime() && previous.price === price) {
+        continue;
+      }
+      list.splice(index, 0, { price, at, source });
+      if (list.length > this.maxPerToken) {
+        list.shift();
+      }
+      this.observations.delete(id);
+      this.observations.set(id, list);
+    }
+    // Maps iterate in insertion order, so the first id is the least recently recorded
+    while (this.observations.size > this.maxTokens) {
+      this.observations.delete(this.observations.keys().next().value as string);
+    }
+    return true;
+  }
+}
+
+/**
+ * PriceObservingNansenClient - a Nansen client that records the prices it returns
+ *
+ * Requests are passed through unchanged; the prices in every balance and
+ * transaction response are added to the index on the way back.
+ */
+export class PriceObservingNansenClient implements NansenClient {
+  /**
+   * @param client - Client the requests go to
+   * @param index - Where observed prices are recorded
+   */
+  constructor(private client: NansenClient, private index: PriceObservationIndex) {}
+
+  getPnlSummary(request: PnlSummaryRequest): Promise<PnlSummaryResponse> {
+    return this.client.getPnlSummary(request);
+  }
+
+  getLabels(request: LabelsRequest): Promise<LabelsResponse> {
+    return this.client.getLabels(request);
+  }
+
+  async getCurrentBalance(request: CurrentBalanceRequest): Promise<CurrentBalanceResponse> {
+    const response = await this.client.getCurrentBalance(request);
+    this.index.recordBalances(response.data || []);
+    return response;
+  }
+
+  async getAllCurrentBalances(request: CurrentBalanceRequest): Promise<CurrentBalanceResponse> {
+    const response = await this.client.getAllCurrentBalances(request);
+    this.index.recordBalances(response.data || []);
+    return response;
+  }
+
+  async getAllTransactions(request: TransactionsRequest): Promise<TransactionsResponse> {
+    const response = await this.client.getAllTransactions(request);
+    this.index.recordTransactions(response.data || []);
+    return response;
+  }
+}
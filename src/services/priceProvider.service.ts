@@ -0,0 +1,446 @@
+/**
+ * Price Provider Service - Abstraction Layer
+ *
+ * This service provides a unified interface for fetching cryptocurrency prices
+ * from multiple providers with automatic fallback support.
+ *
+ * Provider Priority:
+ * 1. Nansen (primary) - Prices Nansen already returned with transactions and
+ *    balances (see PriceObservationIndex), no extra API calls
+ * 2. CoinGecko (fallback) - Free tier with rate limits
+ * 3. CoinMarketCap (optional) - Requires API key
+ *
+ * A provider that has no price answers 0 and the next one is asked. Rate limit
+ * and outage errors also move on to the next provider; they are rethrown only
+ * if no provider had a price, so the analysis fails as it would without the
+ * fallback. Every call is recorded in a ProviderHealthTracker, which skips
+ * rate-limited or failing providers for a while and asks degraded ones last.
+ */
+
+import { DateRange, PriceResult } from '../types';
+import { Logger, PriceSource } from '../context';
+import { isUpstreamError, RateLimitedError } from '../utils/errors';
+import { tokenKey } from '../utils/tokenId';
+import { AthPrice } from './athCache.service';
+import { CoinGeckoService } from './coingecko.service';
+import { CoinMarketCapService } from './coinmarketcap.service';
+import { PriceCacheService } from './priceCache.service';
+import { PriceObservationIndex } from './priceObservations.service';
+import { PriceMethod, ProviderHealth, ProviderHealthOptions, ProviderHealthTracker, ProviderOutcome } from './providerHealth.service';
+import { TokenMetadataResolver } from './tokenMetadata.service';
+
+/**
+ * Price Provider Interface
+ * All providers must implement this interface
+ */
+export interface PriceProvider {
+  name: string;
+
+  /**
+   * Get historical price for a coin on a specific date
+   * @param coinId - Coin identifier (e.g., 'ethereum')
+   * @param date - Date to get price for
+   * @returns Price in USD, or 0 if unavailable
+   */
+  getHistoricalPrice(coinId: string, date: Date): Promise<number>;
+
+  /**
+   * Get current price for a coin
+   * @param coinId - Coin identifier (e.g., 'ethereum')
+   * @returns Price in USD, or 0 if unavailable
+   */
+  getCurrentPrice(coinId: string): Promise<number>;
+
+  /**
+   * Get all-time high price for a token
+   * @param chain - Blockchain name (e.g., 'ethereum')
+   * @param address - Token contract address
+   * @param window - Days to look back, or an explicit range
+   * @returns ATH price and date, or 0 and null if unavailable
+   */
+  getATHPrice(chain: string, address: string, window: number | DateRange): Promise<AthPrice>;
+
+  /**
+   * Get ATH prices for several tokens at once, if the provider can do better than one by one
+   * @returns Map of tokenKey(chain, address) to ATH prices
+   */
+  batchGetATHPrices?(tokens: Array<{ chain: string; address: string }>, window: number | DateRange): Promise<Map<string, AthPrice>>;
+}
+
+const NO_ATH: AthPrice = { athPrice: 0, athDate: null };
+
+export interface NansenPriceProviderOptions {
+  historicalToleranceHours?: number; // How far from the date an observed price may be (default: 24)
+  currentMaxAgeMinutes?: number; // How old an observed price may be to count as current (default: 60)
+}
+
+/**
+ * Nansen Price Provider
+ *
+ * Answers from prices Nansen returned with earlier transaction and balance
+ * queries, recorded in a PriceObservationIndex:
+ * - No additional API calls needed
+ * - Coin ids are a native asset's CoinGecko id ('ethereum') or a token's
+ *   tokenKey ('base:0x...')
+ * - Cannot provide ATH data: observations are too sparse to find the high
+ */
+export class NansenPriceProvider implements PriceProvider {
+  name = 'Nansen';
+  private readonly toleranceMs: number;
+  private readonly maxAgeMs: number;
+
+  /**
+   * @param index - Prices observed in Nansen responses
+   * @param options - How close in time an observation must be
+   */
+  constructor(private index: PriceObservationIndex, options: NansenPriceProviderOptions = {}) {
+    this.toleranceMs = (options.historicalToleranceHours ?? 24) * 60 * 60 * 1000;
+    this.maxAgeMs = (options.currentMaxAgeMinutes ?? 60) * 60 * 1000;
+  }
+
+  async getHistoricalPrice(coinId: string, date: Date): Promise<number> {
+    return this.index.priceAt(coinId, date, this.toleranceMs) ?? 0;
+  }
+
+  async getCurrentPrice(coinId: string): Promise<number> {
+    return this.index.latestPrice(coinId, this.maxAgeMs) ?? 0;
+  }
+
+  async getATHPrice(): Promise<AthPrice> {
+    return NO_ATH;
+  }
+}
+
+/**
+ * CoinGecko Price Provider
+ *
+ * Uses CoinGecko free tier API
+ * - Rate limited (10-50 calls/minute)
+ * - Good for fallback when Nansen data unavailable
+ * - Token contracts are priced under their coin id from the coin list
+ * - Can provide ATH data, in batches
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  name = 'CoinGecko';
+
+  /**
+   * @param coinGecko - CoinGecko client
+   * @param tokens - Coin ids of token contracts (default: the coin list in src/data)
+   */
+  constructor(private coinGecko: CoinGeckoService, private tokens = new TokenMetadataResolver()) {}
+
+  async getHistoricalPrice(coinId: string, date: Date): Promise<number> {
+    const id = this.coinGeckoIdOf(coinId);
+    return id ? this.coinGecko.getHistoricalPrice(id, date) : 0;
+  }
+
+  async getCurrentPrice(coinId: string): Promise<number> {
+    const id = this.coinGeckoIdOf(coinId);
+    if (!id) {
+      return 0;
+    }
+    const response = await this.coinGecko.getCurrentPrice(id);
+    return response[id]?.usd || 0;
+  }
+
+  getATHPrice(chain: string, address: string, window: number | DateRange): Promise<AthPrice> {
+    return this.coinGecko.getATHPrice(chain, address, window);
+  }
+
+  batchGetATHPrices(tokens: Array<{ chain: string; address: string }>, window: number | DateRange): Promise<Map<string, AthPrice>> {
+    return this.coinGecko.batchGetATHPrices(tokens, window);
+  }
+
+  /**
+   * Coin ids pass through; token contracts ('chain:address') are looked up in the coin list
+   */
+  private coinGeckoIdOf(coinId: string): string | null {
+    return isTokenKey(coinId) ? (this.tokens.resolveCoin(coinId)?.coinGeckoId ?? null) : coinId;
+  }
+}
+
+/**
+ * CoinMarketCap Price Provider
+ *
+ * Uses CoinMarketCap API (requires API key)
+ * - Better rate limits than CoinGecko free tier (333 calls/day)
+ * - Good for historical and current prices
+ * - ATH is the highest daily quote in the window
+ * - Looks coins up by symbol, taken from the coin list for coin ids and contracts;
+ *   coins whose symbol other coins share are skipped, since the lookup could
+ *   return the wrong one
+ */
+export class CoinMarketCapPriceProvider implements PriceProvider {
+  name = 'CoinMarketCap';
+
+  /**
+   * @param coinMarketCap - CoinMarketCap client
+   * @param tokens - Symbols of coin ids and token contracts (default: the coin list in src/data)
+   */
+  constructor(private coinMarketCap: CoinMarketCapService, private tokens = new TokenMetadataResolver()) {}
+
+  async getHistoricalPrice(coinId: string, date: Date): Promise<number> {
+    const symbol = this.symbolOf(coinId);
+    return symbol ? this.coinMarketCap.getHistoricalPrice(symbol, date) : 0;
+  }
+
+  async getCurrentPrice(coinId: string): Promise<number> {
+    const symbol = this.symbolOf(coinId);
+    return symbol ? this.coinMarketCap.getCurrentPrice(symbol) : 0;
+  }
+
+  async getATHPrice(chain: string, address: string, window: number | DateRange): Promise<AthPrice> {
+    const symbol = this.symbolOf(tokenKey(chain, address));
+    return symbol ? this.coinMarketCap.getATHPrice(symbol, window) : NO_ATH;
+  }
+
+  /**
+   * Convert a coin id or token contract to a CoinMarketCap symbol
+   * @param coinId - CoinGecko coin ID (e.g., 'ethereum') or tokenKey(chain, address)
+   * @returns CoinMarketCap symbol (e.g., 'ETH'), or null if unknown, ambiguous or the service is disabled
+   */
+  private symbolOf(coinId: string): string | null {
+    if (!this.coinMarketCap.isEnabled()) {
+      return null;
+    }
+    const symbol = this.tokens.resolveCoin(coinId)?.symbol;
+    return symbol && this.tokens.isUniqueSymbol(symbol) ? symbol : null;
+  }
+}
+
+export interface PriceServiceOptions {
+  dailyPrices?: (asset: string, date: Date) => number | null; // Stored daily series (default: PriceCacheService)
+  logger?: Pick<Logger, 'warn'>; // Where providers going into a cooldown are reported (default: console)
+  health?: ProviderHealthOptions; // Cooldown and degradation settings, and the clock
+}
+
+const NO_PRICE: PriceResult = { price: 0, provider: null };
+
+/**
+ * Price Service with Provider Fallback
+ *
+ * Manages multiple price providers and automatically falls back
+ * to the next provider if the current one fails or returns no data.
+ * Each answer says which provider served it. It is the PriceSource
+ * analyzers use (ctx.prices).
+ */
+export class PriceService implements PriceSource {
+  private readonly dailyPrices: (asset: string, date: Date) => number | null;
+  private readonly logger: Pick<Logger, 'warn'>;
+  private readonly health: ProviderHealthTracker;
+
+  /**
+   * @param providers - Providers in the order they are asked while healthy
+   * @param options - Daily price series, logger and health settings
+   */
+  constructor(private providers: PriceProvider[], options: PriceServiceOptions = {}) {
+    this.dailyPrices = options.dailyPrices ?? ((asset, date) => PriceCacheService.getPrice(asset, date));
+    this.logger = options.logger ?? console;
+    this.health = new ProviderHealthTracker(options.health);
+  }
+
+  /**
+   * Names of the providers, in their configured order
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Success rate, latency and rate limits per provider and method since startup
+   */
+  getHealth(): ProviderHealth[] {
+    return this.health.getHealth(this.getProviderNames());
+  }
+
+  /**
+   * Get historical price with automatic provider fallback
+   * @param coinId - Coin identifier
+   * @param date - Date to get price for
+   * @returns Price in USD and the provider that served it (0 and null if none had one)
+   * @throws The last rate limit or outage error, if no provider had a price
+   */
+  async getHistoricalPrice(coinId: string, date: Date): Promise<PriceResult> {
+    const result = await this.firstPrice('historical', (provider) => provider.getHistoricalPrice(coinId, date), (price) => price);
+    return result ? { price: result.value, provider: result.provider } : NO_PRICE;
+  }
+
+  /**
+   * Get current price with automatic provider fallback
+   * @param coinId - Coin identifier
+   * @returns Price in USD and the provider that served it (0 and null if none had one)
+   * @throws The last rate limit or outage error, if no provider had a price
+   */
+  async getCurrentPrice(coinId: string): Promise<PriceResult> {
+    const result = await this.firstPrice('current', (provider) => provider.getCurrentPrice(coinId), (price) => price);
+    return result ? { price: result.value, provider: result.provider } : NO_PRICE;
+  }
+
+  /**
+   * Get ATH price with automatic provider fallback
+   * @param chain - Blockchain name
+   * @param address - Token contract address
+   * @param window - Days to look back, or an explicit range (default: 365 days)
+   * @returns ATH price, date and provider, or 0 and null if no provider has one
+   * @throws The last rate limit or outage error, if no provider had a price
+   */
+  async getATHPrice(chain: string, address: string, window: number | DateRange = 365): Promise<AthPrice> {
+    const result = await this.firstPrice('ath', (provider) => provider.getATHPrice(chain, address, window), (ath) => ath.athPrice);
+    return result ? { ...result.value, provider: result.provider } : NO_ATH;
+  }
+
+  /**
+   * Batch get ATH prices for multiple tokens
+   * Each provider, in health order, is asked for the tokens the ones before
+   * it could not price, in one batch if it supports that.
+   * @param tokens - Array of tokens to fetch ATH for
+   * @param window - Days to look back, or an explicit range (default: 365 days)
+   * @returns Map of tokenKey(chain, address) to ATH data and provider, with every token present
+   * @throws The last rate limit or outage error, if some tokens had no price from any provider
+   */
+  async batchGetATHPrices(
+    tokens: Array<{ chain: string; address: string }>,
+    window: number | DateRange = 365
+  ): Promise<Map<string, AthPrice>> {
+    const results = new Map<string, AthPrice>(tokens.map((token) => [tokenKey(token.chain, token.address), NO_ATH]));
+    let remaining = tokens;
+    let failure: unknown = null;
+
+    const ordered = this.health.order(this.providers, 'ath');
+
+    for (const provider of this.providers.filter((provider) => !ordered.includes(provider))) {
+      failure = this.health.lastFailureOf(provider.name) ?? failure;
+    }
+    for (const provider of ordered) {
+      if (remaining.length === 0) {
+        break;
+      }
+
+      const started = Date.now();
+      try {
+        const prices = provider.batchGetATHPrices
+          ? await provider.batchGetATHPrices(remaining, window)
+          : await this.oneByOne(provider, remaining, window);
+        let priced = 0;
+        for (const [key, ath] of prices) {
+          if (ath.athPrice > 0 && results.has(key)) {
+            results.set(key, { ...ath, provider: provider.name });
+            priced++;
+          }
+        }
+        this.record(provider, 'ath', priced > 0 ? 'price' : 'empty', started);
+      } catch (error) {
+        failure = this.failed(provider, 'ath', started, error) ?? failure;
+      }
+      remaining = remaining.filter((token) => !(results.get(tokenKey(token.chain, token.address))!.athPrice > 0));
+    }
+
+    if (remaining.length > 0 && failure) {
+      throw failure;
+    }
+    return results;
+  }
+
+  /**
+   * Daily USD close of a stored series ('eth', 'btc', ...), interpolated over short gaps
+   */
+  getDailyPrice(asset: string, date: Date): number | null {
+    return this.dailyPrices(asset, date);
+  }
+
+  private async oneByOne(
+    provider: PriceProvider,
+    tokens: Array<{ chain: string; address: string }>,
+    window: number | DateRange
+  ): Promise<Map<string, AthPrice>> {
+    const prices = new Map<string, AthPrice>();
+    for (const token of tokens) {
+      prices.set(tokenKey(token.chain, token.address), await provider.getATHPrice(token.chain, token.address, window));
+    }
+    return prices;
+  }
+
+  /**
+   * Ask the providers in health order until one has a price above zero
+   * @returns The answer and who gave it, or null if nobody had a price
+   * @throws The last rate limit or outage error (including that of a provider
+   * skipped for its cooldown), if nobody had a price
+   */
+  private async firstPrice<T>(
+    method: PriceMethod,
+    ask: (provider: PriceProvider) => Promise<T>,
+    priceOf: (answer: T) => number
+  ): Promise<{ value: T; provider: string } | null> {
+    let failure: unknown = null;
+    const ordered = this.health.order(this.providers, method);
+
+    for (const provider of this.providers.filter((provider) => !ordered.includes(provider))) {
+      failure = this.health.lastFailureOf(provider.name) ?? failure;
+    }
+    for (const provider of ordered) {
+      const started = Date.now();
+      try {
+        const answer = await ask(provider);
+        const found = priceOf(answer) > 0;
+        this.record(provider, method, found ? 'price' : 'empty', started);
+        if (found) {
+          return { value: answer, provider: provider.name };
+        }
+      } catch (error) {
+        failure = this.failed(provider, method, started, error) ?? failure;
+      }
+    }
+    if (failure) {
+      throw failure;
+    }
+    return null;
+  }
+
+  private record(provider: PriceProvider, method: PriceMethod, outcome: ProviderOutcome, started: number, error?: unknown): void {
+    this.health.record(provider.name, method, outcome, Date.now() - started, error);
+  }
+
+  /**
+   * Record a failed call, reporting the provider if it is now sitting out
+   * @returns The error if it is a rate limit or outage (to rethrow if no provider succeeds), else null
+   */
+  private failed(provider: PriceProvider, method: PriceMethod, started: number, error: unknown): unknown {
+    this.record(provider, method, error instanceof RateLimitedError ? 'rate_limited' : 'error', started, error);
+    if (this.health.isCoolingDown(provider.name)) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`[PriceService] Skipping ${provider.name} for now (${message})`);
+    }
+    return isUpstreamError(error) ? error : null;
+  }
+}
+
+/**
+ * The default provider chain: Nansen → CoinGecko → CoinMarketCap (if COINMARKETCAP_API_KEY is set)
+ * @param observations - Prices observed in Nansen responses
+ * @param services - Clients and coin list to use instead of new ones
+ * @param options - Daily price series, logger and health settings
+ */
+export function createPriceService(
+  observations: PriceObservationIndex,
+  services: { coinGecko?: CoinGeckoService; coinMarketCap?: CoinMarketCapService; tokens?: TokenMetadataResolver } = {},
+  options: PriceServiceOptions = {}
+): PriceService {
+  const tokens = services.tokens ?? new TokenMetadataResolver();
+  const providers: PriceProvider[] = [
+    new NansenPriceProvider(observations),
+    new CoinGeckoPriceProvider(services.coinGecko ?? new CoinGeckoService(), tokens),
+  ];
+
+  const coinMarketCap = services.coinMarketCap ?? new CoinMarketCapService();
+  if (coinMarketCap.isEnabled()) {
+    providers.push(new CoinMarketCapPriceProvider(coinMarketCap, tokens));
+  }
+  return new PriceService(providers, options);
+}
+
+/**
+ * Coin ids of the form 'chain:address' name a token contract (see NansenPriceProvider)
+ */
+function isTokenKey(coinId: string): boolean {
+  return coinId.includes(':');
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DateRange } from '../types';
+
+/**
+ * PriceStore - Historical USD prices on disk, one series per asset and granularity
+ *
+ * A series is an asset id ('eth', 'btc') or a token contract ({ chain, address }),
+ * bucketed by UTC day or hour. Files live in src/data:
+ * - <asset>-prices.json (daily), <asset>-prices.hourly.json (hourly)
+ * - <chain>-<address>-prices.json for contracts
+ *
+ * Files are compact: the first bucket, the bucket size and a dense price array
+ * with null for gaps. The older { "2025-01-15": 3300.5 } format is still read.
+ * Lookups for a missing bucket interpolate between the nearest known prices.
+ */
+
+export const PRICE_GRANULARITIES = ['daily', 'hourly'] as const;
+export type PriceGranularity = (typeof PRICE_GRANULARITIES)[number];
+
+export type PriceSeriesId = string | { chain: string; address: string };
+
+export const DEFAULT_PRICE_DIR = path.join(__dirname, '../data');
+
+const STEP_MS: Record<PriceGranularity, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  hourly: 60 * 60 * 1000,
+};
+
+// Furthest a lookup reaches for a neighbouring price, in buckets (a week, a day)
+const MAX_GAP: Record<PriceGranularity, number> = {
+  daily: 7,
+  hourly: 24,
+};
+
+// Longest range fetched at once for hourly series (CoinGecko only returns hourly samples up to 90 days)
+const MAX_HOURLY_FETCH_MS = 90 * STEP_MS.daily;
+
+const SERIES_KEY = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Fetches price samples for a series over a range ([timestamp ms, price] pairs)
+ */
+export type PriceHistoryFetcher = (id: PriceSeriesId, range: DateRange) => Promise<Array<[number, number]>>;
+
+export interface PriceSyncResult {
+  series: string;
+  requests: number; // Ranges fetched
+  filled: number; // Buckets added
+  missing: number; // Buckets still without a price
+}
+
+/**
+ * On-disk series (format version 1)
+ */
+interface StoredSeries {
+  version: 1;
+  series: string;
+  granularity: PriceGranularity;
+  start: number; // First bucket, Unix seconds
+  step: number; // Bucket size, seconds
+  prices: Array<number | null>; // One per bucket from start; null where unknown
+}
+
+/**
+ * File-safe key for a series: 'eth', or 'ethereum-0xa0b8...' for a contract
+ * @param id - Asset id or token contract
+ * @returns The lowercased key
+ * @throws Error if the id cannot name a file
+ */
+export function priceSeriesKey(id: PriceSeriesId): string {
+  const key = (typeof id === 'string' ? id : `${id.chain}-${id.address}`).trim().toLowerCase();
+  if (!SERIES_KEY.test(key)) {
+    throw new Error(`Invalid price series: ${typeof id === 'string' ? id : `${id.chain}:${id.address}`}`);
+  }
+  return key;
+}
+
+/**
+ * Parse a series id as written on the command line: 'eth' or 'ethereum:0xa0b8...'
+ */
+export function parsePriceSeriesId(spec: string): PriceSeriesId {
+  const [chain, address] = spec.split(':');
+  return address === undefined ? chain : { chain, address };
+}
+
+export class PriceStore {
+  private series = new Map<string, Map<number, number>>();
+
+  /**
+   * @param dir - Directory holding the series files
+   */
+  constructor(private readonly dir: string = DEFAULT_PRICE_DIR) {}
+
+  /**
+   * Get a price, interpolating between the nearest known buckets when this one is missing
+   * Linear between a price before and after; the nearer one if only one side
+   * is within reach (7 days, or 24 hours for hourly series).
+   * @param id - Asset id or token contract
+   * @param date - When
+   * @param granularity - Series to read (default: daily)
+   * @returns Price in USD, or null if nothing is known near the date
+   */
+  getPrice(id: PriceSeriesId, date: Date, granularity: PriceGranularity = 'daily'): number | null {
+    const buckets = this.load(id, granularity);
+    const bucket = bucketOf(date, granularity);
+    const exact = buckets.get(bucket);
+    if (exact !== undefined) {
+      return exact;
+    }
+
+    let before: [number, number] | null = null;
+    let after: [number, number] | null = null;
+    for (let distance = 1; distance <= MAX_GAP[granularity] && !(before && after); distance++) {
+      const earlier = buckets.get(bucket - distance);
+      const later = buckets.get(bucket + distance);
+      if (!before && earlier !== undefined) before = [distance, earlier];
+      if (!after && later !== undefined) after = [distance, later];
+    }
+
+    if (before && after) {
+      const [toBefore, priceBefore] = before;
+      const [toAfter, priceAfter] = after;
+      return priceBefore + ((priceAfter - priceBefore) * toBefore) / (toBefore + toAfter);
+    }
+    return before?.[1] ?? after?.[1] ?? null;
+  }
+
+  /**
+   * Whether the series has a price for exactly this bucket (no interpolation)
+   */
+  has(id: PriceSeriesId, date: Date, granularity: PriceGranularity = 'daily'): boolean {
+    return this.load(id, granularity).has(bucketOf(date, granularity));
+  }
+
+  /**
+   * Number of buckets with a price
+   */
+  size(id: PriceSeriesId, granularity: PriceGranularity = 'daily'): number {
+    return this.load(id, granularity).size;
+  }
+
+  /**
+   * The stretches of a range the series has no price for
+   * @param id - Asset id or token contract
+   * @param range - Range to check (both ends included)
+   * @param granularity - Series to check
+   * @returns Contiguous missing ranges, oldest first, each from the start of its
+   *   first bucket to the end of its last
+   */
+  missingRanges(id: PriceSeriesId, range: { from: Date; to: Date }, granularity: PriceGranularity = 'daily'): DateRange[] {
+    const buckets = this.load(id, granularity);
+    const step = STEP_MS[granularity];
+    const gaps: DateRange[] = [];
+    let gapStart: number | null = null;
+
+    const last = bucketOf(range.to, granularity);
+    for (let bucket = bucketOf(range.from, granularity); bucket <= last + 1; bucket++) {
+      const missing = bucket <= last && !buckets.has(bucket);
+      if (missing && gapStart === null) {
+        gapStart = bucket;
+      } else if (!missing && gapStart !== null) {
+        gaps.push({
+          from: new Date(gapStart * step).toISOString(),
+          to: new Date(bucket * step - 1).toISOString(),
+        });
+        gapStart = null;
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Add prices to buckets that have none; known buckets are kept
+   * Several samples in one bucket resolve to the latest (its close).
+   * @param id - Asset id or token contract
+   * @param samples - [timestamp ms, price] pairs, as CoinGecko market charts return them
+   * @param granularity - Series to fill
+   * @returns Number of buckets filled
+   */
+  merge(id: PriceSeriesId, samples: Array<[number, number]>, granularity: PriceGranularity = 'daily'): number {
+    const buckets = this.load(id, granularity);
+    const closes = new Map<number, [number, number]>();
+    for (const [timestamp, price] of samples) {
+      if (!(price > 0)) continue;
+      const bucket = Math.floor(timestamp / STEP_MS[granularity]);
+      const close = closes.get(bucket);
+      if (!close || timestamp >= close[0]) {
+        closes.set(bucket, [timestamp, price]);
+      }
+    }
+
+    let filled = 0;
+    for (const [bucket, [, price]] of closes) {
+      if (!buckets.has(bucket)) {
+        buckets.set(bucket, price);
+        filled++;
+      }
+    }
+    return filled;
+  }
+
+  /**
+   * Fill the buckets of a range that have no price, fetching only the gaps, and save
+   * @param id - Asset id or token contract
+   * @param range - Range to cover
+   * @param fetch - Where prices come from
+   * @param granularity - Series to fill
+   * @returns What was fetched and what is still missing
+   */
+  async sync(
+    id: PriceSeriesId,
+    range: { from: Date; to: Date },
+    fetch: PriceHistoryFetcher,
+    granularity: PriceGranularity = 'daily'
+  ): Promise<PriceSyncResult> {
+    const gaps = this.missingRanges(id, range, granularity).flatMap((gap) =>
+      granularity === 'hourly' ? splitRange(gap, MAX_HOURLY_FETCH_MS) : [gap]
+    );
+
+    let filled = 0;
+    for (const gap of gaps) {
+      filled += this.merge(id, await fetch(id, gap), granularity);
+    }
+    if (filled > 0) {
+      this.save(id, granularity);
+    }
+
+    const missing = this.missingRanges(id, range, granularity).reduce(
+      (sum, gap) => sum + Math.round((Date.parse(gap.to) + 1 - Date.parse(gap.from)) / STEP_MS[granularity]),
+      0
+    );
+    return { series: priceSeriesKey(id), requests: gaps.length, filled, missing };
+  }
+
+  /**
+   * Write a series to its file in the compact format
+   * @returns The file written
+   */
+  save(id: PriceSeriesId, granularity: PriceGranularity = 'daily'): string {
+    const key = priceSeriesKey(id);
+    const buckets = this.load(id, granularity);
+    const indices = [...buckets.keys()].sort((a, b) => a - b);
+    const first = indices[0] ?? 0;
+    const count = indices.length > 0 ? indices[indices.length - 1] - first + 1 : 0;
+    const step = STEP_MS[granularity];
+
+    const stored: StoredSeries = {
+      version: 1,
+      series: key,
+      granularity,
+      start: (first * step) / 1000,
+      step: step / 1000,
+      prices: Array.from({ length: count }, (_, i) => buckets.get(first + i) ?? null),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    const filePath = this.filePath(key, granularity);
+    fs.writeFileSync(filePath, JSON.stringify(stored) + '\n');
+    return filePath;
+  }
+
+  /**
+   * A series' buckets, read from its file on first use
+   * A missing file leaves the series empty.
+   */
+  private load(id: PriceSeriesId, granularity: PriceGranularity): Map<number, number> {
+    const key = priceSeriesKey(id);
+    const cacheKey = `${key}:${granularity}`;
+    const loaded = this.series.get(cacheKey);
+    if (loaded) {
+      return loaded;
+    }
+
+    const buckets = new Map<number, number>();
+    const filePath = this.filePath(key, granularity);
+    if (fs.existsSync(filePath)) {
+      try {
+        readSeries(JSON.parse(fs.readFileSync(filePath, 'utf-8')), granularity, buckets);
+        console.log(`✅ Loaded ${buckets.size} ${granularity === 'daily' ? 'days' : 'hours'} of ${key.toUpperCase()} price data`);
+      } catch (error) {
+        console.warn(`⚠️  Could not load ${key.toUpperCase()} price cache:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    this.series.set(cacheKey, buckets);
+    return buckets;
+  }
+
+  private filePath(key: string, granularity: PriceGranularity): string {
+    return path.join(this.dir, granularity === 'daily' ? `${key}-prices.json` : `${key}-prices.${granularity}.json`);
+  }
+}
+
+/**
+ * Read a series file, compact or the older date-keyed format, into buckets
+ * @throws Error if the file's granularity does not match
+ */
+function readSeries(contents: unknown, granularity: PriceGranularity, buckets: Map<number, number>): void {
+  const stored = contents as Partial<StoredSeries>;
+  if (Array.isArray(stored.prices)) {
+    if (stored.granularity !== granularity) {
+      throw new Error(`expected ${granularity} prices, found ${stored.granularity}`);
+    }
+    const first = ((stored.start ?? 0) * 1000) / STEP_MS[granularity];
+    stored.prices.forEach((price, i) => {
+      if (typeof price === 'number') buckets.set(first + i, price);
+    });
+    return;
+  }
+
+  // { "2025-01-15": 3300.5, ... }
+  for (const [date, price] of Object.entries(contents as Record<string, number>)) {
+    const timestamp = Date.parse(`${date}T00:00:00Z`);
+    if (!Number.isNaN(timestamp) && typeof price === 'number') {
+      buckets.set(Math.floor(timestamp / STEP_MS[granularity]), price);
+    }
+  }
+}
+
+/**
+ * Split a range into consecutive pieces of at most maxMs
+ */
+function splitRange(range: DateRange, maxMs: number): DateRange[] {
+  const pieces: DateRange[] = [];
+  const end = Date.parse(range.to);
+  for (let from = Date.parse(range.from); from <= end; from += maxMs) {
+    pieces.push({ from: new Date(from).toISOString(), to: new Date(Math.min(from + maxMs - 1, end)).toISOString() });
+  }
+  return pieces;
+}
+
+function bucketOf(date: Date, granularity: PriceGranularity): number {
+  return Math.floor(date.getTime() / STEP_MS[granularity]);
+}
@@ -0,0 +1,193 @@
+import { CircuitOpenError, RateLimitedError } from '../utils/errors';
+
+/**
+ * Provider health - how well each price provider has been answering
+ *
+ * PriceService records every call it makes: whether the provider had a price,
+ * had none, failed or was rate limited, and how long it took. The tracker
+ * uses that to decide who to ask:
+ * - A rate-limited provider sits out until its Retry-After (or the cooldown)
+ * - A provider whose circuit breaker opened sits out until it closes
+ * - A provider that failed `failureThreshold` times in a row sits out for the cooldown
+ * - A provider failing more than half of its calls for a method (over at
+ *   least `minCalls`) is degraded and asked after the healthy ones
+ * Answering "no price" is not a failure: the Nansen provider often has none
+ * and stays first because it costs nothing.
+ */
+
+export const PRICE_METHODS = ['current', 'historical', 'ath'] as const;
+export type PriceMethod = (typeof PRICE_METHODS)[number];
+
+export type ProviderOutcome = 'price' | 'empty' | 'error' | 'rate_limited';
+
+export interface ProviderMethodStats {
+  calls: number;
+  prices: number; // Calls answered with a price
+  empty: number; // Calls answered without a price
+  errors: number; // Failed calls, rate limits included
+  rateLimits: number;
+  successRate: number; // Share of calls that did not fail (0-100)
+  avgLatencyMs: number;
+  lastError?: string;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  status: 'healthy' | 'degraded' | 'cooling_down';
+  cooldownUntil: Date | null;
+  consecutiveFailures: number;
+  methods: Partial<Record<PriceMethod, ProviderMethodStats>>;
+}
+
+export interface ProviderHealthOptions {
+  now?: () => Date; // Clock for cooldowns (default: the system clock)
+  failureThreshold?: number; // Consecutive failures before a cooldown (default: 3)
+  cooldownMs?: number; // How long an unhealthy provider sits out (default: 60s)
+  minCalls?: number; // Calls for a method before its success rate counts (default: 5)
+}
+
+interface ProviderState {
+  consecutiveFailures: number;
+  cooldownUntil: number; // Epoch ms; 0 when not cooling down
+  lastFailure: unknown; // Rethrown when the provider is skipped and nobody else has a price
+  methods: Map<PriceMethod, { calls: number; prices: number; empty: number; errors: number; rateLimits: number; latencyMs: number; lastError?: string }>;
+}
+
+const DEGRADED_BELOW_PERCENT = 50;
+
+export class ProviderHealthTracker {
+  private readonly states = new Map<string, ProviderState>();
+  private readonly now: () => Date;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly minCalls: number;
+
+  constructor(options: ProviderHealthOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 60_000;
+    this.minCalls = options.minCalls ?? 5;
+  }
+
+  /**
+   * Record the outcome of one call
+   * @param provider - Provider name
+   * @param method - What was asked
+   * @param outcome - How it went
+   * @param latencyMs - How long it took
+   * @param error - The error, for failures
+   */
+  record(provider: string, method: PriceMethod, outcome: ProviderOutcome, latencyMs: number, error?: unknown): void {
+    const state = this.stateOf(provider);
+    const stats = state.methods.get(method) ?? { calls: 0, prices: 0, empty: 0, errors: 0, rateLimits: 0, latencyMs: 0 };
+    stats.calls++;
+    stats.latencyMs += latencyMs;
+
+    if (outcome === 'price' || outcome === 'empty') {
+      stats[outcome === 'price' ? 'prices' : 'empty']++;
+      state.consecutiveFailures = 0;
+    } else {
+      stats.errors++;
+      stats.lastError = error instanceof Error ? error.message : String(error);
+      state.consecutiveFailures++;
+      state.lastFailure = error;
+
+      const now = this.now().getTime();
+      if (outcome === 'rate_limited') {
+        stats.rateLimits++;
+        const retryAfterMs = error instanceof RateLimitedError ? error.retryAfterMs : undefined;
+        state.cooldownUntil = Math.max(state.cooldownUntil, now + (retryAfterMs ?? this.cooldownMs));
+      } else if (error instanceof CircuitOpenError) {
+        state.cooldownUntil = Math.max(state.cooldownUntil, error.retryAtMs);
+      } else if (state.consecutiveFailures >= this.failureThreshold) {
+        state.cooldownUntil = Math.max(state.cooldownUntil, now + this.cooldownMs);
+      }
+    }
+    state.methods.set(method, stats);
+  }
+
+  /**
+   * Whether a provider is sitting out a cooldown
+   */
+  isCoolingDown(provider: string): boolean {
+    return this.stateOf(provider).cooldownUntil > this.now().getTime();
+  }
+
+  /**
+   * The error that put a provider in its cooldown
+   */
+  lastFailureOf(provider: string): unknown {
+    return this.stateOf(provider).lastFailure;
+  }
+
+  /**
+   * The providers to ask for a method: healthy ones in their given order,
+   * then degraded ones; those cooling down are left out
+   * @param providers - Providers in their configured order
+   * @param method - What is being asked
+   */
+  order<T extends { name: string }>(providers: T[], method: PriceMethod): T[] {
+    const available = providers.filter((provider) => !this.isCoolingDown(provider.name));
+    return [
+      ...available.filter((provider) => !this.isDegraded(provider.name, method)),
+      ...available.filter((provider) => this.isDegraded(provider.name, method)),
+    ];
+  }
+
+  /**
+   * Health of every provider that has been called, with per-method statistics
+   * @param providers - Names to include even if never called, in this order
+   */
+  getHealth(providers: string[] = []): ProviderHealth[] {
+    const names = [...providers, ...[...this.states.keys()].filter((name) => !providers.includes(name))];
+    return names.map((name) => {
+      const state = this.stateOf(name);
+      const methods: Partial<Record<PriceMethod, ProviderMethodStats>> = {};
+      for (const [method, stats] of state.methods) {
+        methods[method] = {
+          calls: stats.calls,
+          prices: stats.prices,
+          empty: stats.empty,
+          errors: stats.errors,
+          rateLimits: stats.rateLimits,
+          successRate: Math.round(((stats.calls - stats.errors) / stats.calls) * 10000) / 100,
+          avgLatencyMs: Math.round(stats.latencyMs / stats.calls),
+          ...(stats.lastError !== undefined && { lastError: stats.lastError }),
+        };
+      }
+
+      const coolingDown = this.isCoolingDown(name);
+      return {
+        provider: name,
+        status: coolingDown ? 'cooling_down' : PRICE_METHODS.some((method) => this.isDegraded(name, method)) ? 'degraded' : 'healthy',
+        cooldownUntil: coolingDown ? new Date(state.cooldownUntil) : null,
+        consecutiveFailures: state.consecutiveFailures,
+        methods,
+      };
+    });
+  }
+
+  /**
+   * Forget all statistics and cooldowns
+   */
+  reset(): void {
+    this.states.clear();
+  }
+
+  private isDegraded(provider: string, method: PriceMethod): boolean {
+    const stats = this.stateOf(provider).methods.get(method);
+    if (!stats || stats.calls < this.minCalls) {
+      return false;
+    }
+    return ((stats.calls - stats.errors) / stats.calls) * 100 < DEGRADED_BELOW_PERCENT;
+  }
+
+  private stateOf(provider: string): ProviderState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = { consecutiveFailures: 0, cooldownUntil: 0, lastFailure: null, methods: new Map() };
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,261 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * RequestCache - Response cache for POST-style API calls
+ *
+ * Responses are keyed on endpoint + normalized request body, so two callers
+ * building the same request a few milliseconds apart share one API call.
+ * Identical requests that are in flight at the same time are coalesced into
+ * a single promise. Entries can optionally be persisted to disk (one JSON file
+ * per entry) so re-running a wallet or a QA batch reuses earlier responses.
+ *
+ * Memory holds at most maxEntries responses, dropping the least recently used.
+ * Every caller gets its own copy of a response, so mutating one cannot change
+ * what the cache (or another caller) sees.
+ */
+
+export type DatePrecision = 'minute' | 'hour' | 'day';
+
+export interface RequestCacheOptions {
+  ttls?: Record<string, number>; // Endpoint -> TTL in ms
+  defaultTtlMs?: number; // TTL for endpoints not listed in ttls
+  persistDir?: string; // Directory for on-disk entries (disabled when unset)
+  datePrecision?: DatePrecision; // ISO timestamps in request bodies are truncated to this before keying
+  maxEntries?: number; // Responses kept in memory (default: 1000)
+  now?: () => Date; // Clock for expiry (default: the system clock)
+}
+
+interface CacheEntry {
+  key: string;
+  endpoint: string;
+  storedAt: number;
+  expiresAt: number;
+  value: unknown;
+}
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+export class RequestCache {
+  private entries: Map<string, CacheEntry>;
+  private inflight: Map<string, Promise<unknown>>;
+  private readonly ttls: Record<string, number>;
+  private readonly defaultTtlMs: number;
+  private readonly persistDir?: string;
+  private readonly datePrecision: DatePrecision;
+  private readonly maxEntries: number;
+  private readonly now: () => Date;
+  private hits: number;
+  private misses: number;
+  private coalesced: number;
+
+  constructor(options: RequestCacheOptions = {}) {
+    this.entries = new Map();
+    this.inflight = new Map();
+    this.ttls = options.ttls || {};
+    this.defaultTtlMs = options.defaultTtlMs ?? 60 * 60 * 1000; // 1 hour
+    this.persistDir = options.persistDir;
+    this.datePrecision = options.datePrecision || 'hour';
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.now = options.now ?? (() => new Date());
+    this.hits = 0;
+    this.misses = 0;
+    this.coalesced = 0;
+
+    if (this.persistDir && !fs.existsSync(this.persistDir)) {
+      fs.mkdirSync(this.persistDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Return a cached response, join an identical in-flight request, or fetch
+   * @param endpoint - API path (used for the key and TTL lookup)
+   * @param body - Request body
+   * @param fetchFn - Performs the real request on a miss
+   * @returns The response data (a copy the caller may modify)
+   */
+  async getOrFetch<T>(endpoint: string, body: unknown, fetchFn: () => Promise<T>): Promise<T> {
+    const ttl = this.getTtl(endpoint);
+    if (ttl <= 0) {
+      return fetchFn();
+    }
+
+    const key = this.buildKey(endpoint, body);
+
+    const cached = this.read(key);
+    if (cached) {
+      this.hits++;
+      return structuredClone(cached.value) as T;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return pending.then((value) => structuredClone(value) as T);
+    }
+
+    this.misses++;
+    const promise = fetchFn()
+      .then((value) => {
+        const storedAt = this.now().getTime();
+        this.write({ key, endpoint, storedAt, expiresAt: storedAt + ttl, value: structuredClone(value) });
+        return value;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Build the cache key for a request
+   * Object keys are sorted and ISO timestamps truncated to the configured precision.
+   * @param endpoint - API path
+   * @param body - Request body
+   * @returns Stable key string
+   */
+  buildKey(endpoint: string, body: unknown): string {
+    return `${endpoint}:${JSON.stringify(this.normalize(body))}`;
+  }
+
+  /**
+   * Drop every entry from memory and, if persistence is on, from disk
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.coalesced = 0;
+
+    if (this.persistDir && fs.existsSync(this.persistDir)) {
+      for (const file of fs.readdirSync(this.persistDir)) {
+        if (file.endsWith('.json')) {
+          fs.unlinkSync(path.join(this.persistDir, file));
+        }
+      }
+    }
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): { size: number; hits: number; misses: number; coalesced: number; hitRate: number } {
+    const total = this.hits + this.misses + this.coalesced;
+    const hitRate = total > 0 ? ((this.hits + this.coalesced) / total) * 100 : 0;
+
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      hitRate: Math.round(hitRate * 100) / 100,
+    };
+  }
+
+  private getTtl(endpoint: string): number {
+    return this.ttls[endpoint] ?? this.defaultTtlMs;
+  }
+
+  private read(key: string): CacheEntry | null {
+    let entry = this.entries.get(key) || null;
+
+    if (!entry && this.persistDir) {
+      entry = this.readFromDisk(key);
+      if (entry) {
+        this.entries.set(key, entry);
+      }
+    }
+
+    if (entry && entry.expiresAt <= this.now().getTime()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    if (entry) {
+      // Move to the back of the eviction order
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private write(entry: CacheEntry): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    // Maps iterate in insertion order, so the first key is the least recently used
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+
+    if (this.persistDir) {
+      try {
+        fs.writeFileSync(this.entryPath(entry.key), JSON.stringify(entry));
+      } catch (error) {
+        console.warn('[RequestCache] Could not persist entry:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  private readFromDisk(key: string): CacheEntry | null {
+    const filePath = this.entryPath(key);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry;
+      // Guard against hash collisions and truncated files
+      return entry.key === key ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private entryPath(key: string): string {
+    const hash = crypto.createHash('sha1').update(key).digest('hex');
+    return path.join(this.persistDir as string, `${hash}.json`);
+  }
+
+  private normalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalize(item));
+    }
+
+    if (value && typeof value === 'object') {
+      const sorted: Record<string, unknown> = {};
+      for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+        const item = (value as Record<string, unknown>)[key];
+        if (item !== undefined) {
+          sorted[key] = this.normalize(item);
+        }
+      }
+      return sorted;
+    }
+
+    if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) {
+      return this.truncateTimestamp(value);
+    }
+
+    return value;
+  }
+
+  private truncateTimestamp(value: string): string {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return value;
+    }
+
+    const iso = date.toISOString();
+    switch (this.datePrecision) {
+      case 'day':
+        return iso.slice(0, 10);
+      case 'hour':
+        return iso.slice(0, 13);
+      case 'minute':
+        return iso.slice(0, 16);
+    }
+  }
+}
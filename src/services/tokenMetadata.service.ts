@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CoinListEntry } from '../types';
+import { isNativeToken, nativeAssetOf, nativeAssets, tokenKey } from '../utils/tokenId';
+
+/**
+ * Token metadata - which coin a (chain, contract) pair is, as the price providers know it
+ *
+ * Features only have contract addresses, while CoinGecko prices coin ids
+ * ('usd-coin') and CoinMarketCap prices symbols ('USDC'). The resolver maps
+ * one to the other from a coin list file: CoinGecko's /coins/list with
+ * platforms, every contract a coin is deployed at keyed by tokenKey().
+ * Native assets come from the chain registry and need no list entry.
+ *
+ * The list is read once, on first use. It is not committed (the full list is
+ * large and changes daily): `funfacts prices coins` writes it from CoinGecko,
+ * or offline from a saved /coins/list response. Until then only native
+ * assets resolve.
+ *
+ * Symbols are not unique - many coins are called 'UNI' or 'USDC' - so
+ * isUniqueSymbol() tells symbol-based providers which lookups are safe.
+ */
+
+export const DEFAULT_COIN_LIST_FILE = path.join(__dirname, '../data/coin-list.json');
+
+export interface TokenMetadata {
+  coinGeckoId: string;
+  symbol: string; // Upper case, as CoinMarketCap looks coins up
+  name: string;
+}
+
+/**
+ * On-disk coin list (format version 1)
+ */
+interface StoredCoinList {
+  version: 1;
+  updatedAt: string;
+  coins: CoinListEntry[];
+}
+
+/**
+ * Read a coin list: a stored file, or a raw CoinGecko /coins/list response
+ * Entries without an id or symbol are dropped.
+ * @throws Error if the data is neither
+ */
+export function parseCoinList(data: unknown): CoinListEntry[] {
+  const coins = Array.isArray(data) ? data : (data as StoredCoinList | null)?.coins;
+  if (!Array.isArray(coins)) {
+    throw new Error('Not a coin list (expected an array of coins, or { coins: [...] })');
+  }
+  return coins.filter(
+    (coin): coin is CoinListEntry => typeof coin?.id === 'string' && typeof coin?.symbol === 'string' && coin.id !== ''
+  );
+}
+
+export class TokenMetadataResolver {
+  private byToken: Map<string, TokenMetadata> | null = null;
+  private byCoinId = new Map<string, TokenMetadata>();
+  private coinsBySymbol = new Map<string, number>();
+
+  /**
+   * @param file - Coin list file (default: src/data/coin-list.json, written by `funfacts prices coins`)
+   */
+  constructor(private readonly file: string = DEFAULT_COIN_LIST_FILE) {}
+
+  /**
+   * The coin a token is
+   * @param chain - Chain name in any spelling
+   * @param address - Contract or mint address (a native sentinel for the chain's own asset)
+   * @returns Its CoinGecko id, symbol and name, or null if it is not in the list
+   */
+  resolve(chain: string, address: string): TokenMetadata | null {
+    if (isNativeToken(chain, address)) {
+      const native = nativeAssetOf(chain);
+      return native ? { coinGeckoId: native.coinGeckoId, symbol: native.symbol, name: native.name } : null;
+    }
+    return this.load().get(tokenKey(chain, address)) ?? null;
+  }
+
+  /**
+   * The coin behind a price id
+   * @param coinId - A CoinGecko coin id ('ethereum'), or tokenKey(chain, address) for a contract
+   * @returns Its CoinGecko id, symbol and name, or null if unknown
+   */
+  resolveCoin(coinId: string): TokenMetadata | null {
+    const separator = coinId.indexOf(':');
+    if (separator > 0) {
+      return this.resolve(coinId.slice(0, separator), coinId.slice(separator + 1));
+    }
+    this.load();
+    return this.byCoinId.get(coinId.toLowerCase()) ?? null;
+  }
+
+  /**
+   * Whether a symbol names a single coin, so looking it up by symbol finds that coin
+   * Native assets' symbols count as unique: they are the coin a symbol lookup returns.
+   * @param symbol - Symbol in any case
+   * @returns false if two or more coins in the list share it
+   */
+  isUniqueSymbol(symbol: string): boolean {
+    const upper = symbol.toUpperCase();
+    if (nativeAssets().some((native) => native.symbol === upper)) {
+      return true;
+    }
+    this.load();
+    return (this.coinsBySymbol.get(upper) ?? 0) <= 1;
+  }
+
+  /**
+   * Number of contracts in the list
+   */
+  size(): number {
+    return this.load().size;
+  }
+
+  /**
+   * Replace the coin list file and forget what was loaded from it
+   * @param coins - Coins with their platforms
+   * @returns Number of coins written
+   */
+  save(coins: CoinListEntry[]): number {
+    const stored: StoredCoinList = { version: 1, updatedAt: new Date().toISOString(), coins };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(stored) + '\n');
+    this.byToken = null;
+    return coins.length;
+  }
+
+  /**
+   * The contract index, built from the list file on first use
+   * A missing or unreadable file leaves only the native assets known.
+   */
+  private load(): Map<string, TokenMetadata> {
+    if (this.byToken) {
+      return this.byToken;
+    }
+
+    this.byToken = new Map();
+    this.byCoinId = new Map();
+    this.coinsBySymbol = new Map();
+    // Native assets resolve by coin id ('binancecoin') without a list
+    for (const native of nativeAssets()) {
+      this.byCoinId.set(native.coinGeckoId, { coinGeckoId: native.coinGeckoId, symbol: native.symbol, name: native.name });
+    }
+    if (!fs.existsSync(this.file)) {
+      console.warn(`⚠️  No coin list at ${this.file}; only native assets can be priced by id. Run: funfacts prices coins`);
+      return this.byToken;
+    }
+
+    try {
+      for (const coin of parseCoinList(JSON.parse(fs.readFileSync(this.file, 'utf-8')))) {
+        const metadata: TokenMetadata = { coinGeckoId: coin.id, symbol: coin.symbol.toUpperCase(), name: coin.name };
+        if (!this.byCoinId.has(coin.id)) {
+          this.byCoinId.set(coin.id, metadata);
+          this.coinsBySymbol.set(metadata.symbol, (this.coinsBySymbol.get(metadata.symbol) ?? 0) + 1);
+        }
+        for (const [platform, address] of Object.entries(coin.platforms ?? {})) {
+          const key = platform && address ? tokenKey(platform, address) : null;
+          // The first coin listed for a contract wins
+          if (key && !this.byToken.has(key)) {
+            this.byToken.set(key, metadata);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not load the coin list:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+    return this.byToken;
+  }
+}
+
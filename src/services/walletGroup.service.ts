@@ -0,0 +1,215 @@
+import { NansenClient } from '../context';
+import {
+  CurrentBalanceRequest,
+  CurrentBalanceResponse,
+  LabelsResponse,
+  PnlSummaryRequest,
+  PnlSummaryResponse,
+  TokenBalance,
+  TokenTransfer,
+  Transaction,
+  TransactionsRequest,
+  TransactionsResponse,
+} from '../types';
+import { tokenKey } from '../utils/tokenId';
+
+/**
+ * WalletGroupNansenClient - answers Nansen requests for a group of wallets as if they were one
+ *
+ * Each request is sent once per member (so the shared request cache still
+ * serves per-wallet breakdowns) and the answers are merged:
+ * - Balances are summed per token and chain, then re-sorted by value
+ * - Transactions are concatenated; transfers between members are dropped, so
+ *   moving tokens from one wallet to another is neither a buy nor a sell, and
+ *   a transaction seen from two members is merged into one
+ * - P&L summaries are added up; the percentage is re-derived from each
+ *   wallet's cost basis and the win rate is weighted by traded tokens
+ *
+ * P&L summaries come from Nansen per wallet and only count trades, so internal
+ * transfers do not show up there either. Labels describe a single address and
+ * are not available for a group.
+ */
+export class WalletGroupNansenClient implements NansenClient {
+  private members: string[];
+  private memberSet: Set<string>;
+
+  /**
+   * @param client - Client for the individual wallets
+   * @param addresses - Normalized member addresses
+   */
+  constructor(private client: NansenClient, addresses: string[]) {
+    this.members = addresses;
+    this.memberSet = new Set(addresses.map((address) => address.toLowerCase()));
+  }
+
+  async getPnlSummary(request: PnlSummaryRequest): Promise<PnlSummaryResponse> {
+    const responses = await Promise.all(
+      this.members.map((address) => this.client.getPnlSummary({ ...request, address }))
+    );
+    return combinePnlSummaries(responses);
+  }
+
+  async getLabels(): Promise<LabelsResponse> {
+    throw new Error('Labels are per address and not available for a wallet group');
+  }
+
+  async getCurrentBalance(request: CurrentBalanceRequest): Promise<CurrentBalanceResponse> {
+    const responses = await Promise.all(
+      this.members.map((address) => this.client.getCurrentBalance({ ...request, address }))
+    );
+    // Each member's top page is merged and cut back to one page, so a token just
+    // outside every member's page can be missed even if its combined value is larger
+    const perPage = request.pagination.per_page ?? request.pagination.recordsPerPage;
+    return combineBalances(responses, perPage);
+  }
+
+  async getAllCurrentBalances(request: CurrentBalanceRequest): Promise<CurrentBalanceResponse> {
+    const responses = await Promise.all(
+      this.members.map((address) => this.client.getAllCurrentBalances({ ...request, address }))
+    );
+    return combineBalances(responses);
+  }
+
+  async getAllTransactions(request: TransactionsRequest): Promise<TransactionsResponse> {
+    const responses = await Promise.all(
+      this.members.map((address) => this.client.getAllTransactions({ ...request, address }))
+    );
+
+    const merged = new Map<string, Transaction>();
+    for (const transaction of responses.flatMap((response) => response.data || [])) {
+      const external = this.withoutInternalTransfers(transaction);
+      if (!external) continue;
+
+      const key = `${transaction.chain}:${transaction.transaction_hash}`;
+      const existing = merged.get(key);
+      merged.set(key, existing ? mergeTransactions(existing, external) : external);
+    }
+
+    return {
+      data: Array.from(merged.values()).sort((a, b) => b.block_timestamp.localeCompare(a.block_timestamp)),
+      pagination: { page: 1, per_page: merged.size, is_last_page: true },
+    };
+  }
+
+  /**
+   * Drop the legs of a transaction that move tokens between members
+   * @returns The transaction with only external transfers, or null if nothing external is left
+   */
+  private withoutInternalTransfers(transaction: Transaction): Transaction | null {
+    const isInternal = (transfer: TokenTransfer) =>
+      this.memberSet.has((transfer.from_address || '').toLowerCase()) &&
+      this.memberSet.has((transfer.to_address || '').toLowerCase());
+
+    const sent = (transaction.tokens_sent || []).filter((transfer) => !isInternal(transfer));
+    const received = (transaction.tokens_received || []).filter((transfer) => !isInternal(transfer));
+
+    const hadTransfers = (transaction.tokens_sent || []).length + (transaction.tokens_received || []).length > 0;
+    if (hadTransfers && sent.length === 0 && received.length === 0) {
+      return null;
+    }
+    return { ...transaction, tokens_sent: sent, tokens_received: received };
+  }
+}
+
+/**
+ * Add up P&L summaries from several wallets
+ * The percentage is taken over the wallets whose cost basis can be recovered;
+ * a wallet reporting 0% has none, so its P&L only counts towards the USD total.
+ * @param responses - One summary per wallet
+ * @returns A summary for the wallets together
+ */
+export function combinePnlSummaries(responses: PnlSummaryResponse[]): PnlSummaryResponse {
+  let realizedUsd = 0;
+  let costedUsd = 0; // Realized P&L of the wallets in costBasis
+  let costBasis = 0;
+  let tradedTokens = 0;
+  let tradedTimes = 0;
+  let weightedWins = 0;
+  let hasWinRate = false;
+
+  for (const response of responses) {
+    realizedUsd += response.realized_pnl_usd || 0;
+    // realized_pnl_percent is pnl / cost, so each wallet's cost basis can be recovered
+    if (response.realized_pnl_percent) {
+      costedUsd += response.realized_pnl_usd || 0;
+      costBasis += (response.realized_pnl_usd || 0) / response.realized_pnl_percent;
+    }
+    tradedTokens += response.traded_token_count || 0;
+    tradedTimes += response.traded_times || 0;
+    if (response.win_rate !== undefined) {
+      hasWinRate = true;
+      weightedWins += response.win_rate * (response.traded_token_count || 0);
+    }
+  }
+
+  const top5 = responses
+    .flatMap((response) => response.top5_tokens || [])
+    .sort((a, b) => b.realized_pnl - a.realized_pnl)
+    .slice(0, 5);
+
+  return {
+    realized_pnl_usd: realizedUsd,
+    realized_pnl_percent: costBasis !== 0 ? costedUsd / Math.abs(costBasis) : 0,
+    traded_token_count: tradedTokens,
+    traded_times: tradedTimes,
+    win_rate: hasWinRate && tradedTokens > 0 ? weightedWins / tradedTokens : undefined,
+    top5_tokens: top5,
+  };
+}
+
+/**
+ * Sum balances of the same token on the same chain across wallets
+ * @param responses - One balance response per wallet
+ * @param limit - Keep only this many holdings (largest first)
+ * @returns The merged holdings, largest value first
+ */
+export function combineBalances(responses: CurrentBalanceResponse[], limit?: number): CurrentBalanceResponse {
+  const merged = new Map<string, TokenBalance & { token_amount?: number }>();
+
+  for (const holding of responses.flatMap((response) => response.data || []) as Array<
+    TokenBalance & { token_amount?: number }
+  >) {
+    const key = tokenKey(holding.chain, holding.token_address || holding.token_symbol.toLowerCase());
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...holding });
+      continue;
+    }
+
+    existing.balance = String((parseFloat(existing.balance) || 0) + (parseFloat(holding.balance) || 0));
+    existing.balance_usd = (existing.balance_usd || 0) + (holding.balance_usd || 0);
+    existing.value_usd = (existing.value_usd || 0) + (holding.value_usd || 0);
+    if (existing.token_amount !== undefined || holding.token_amount !== undefined) {
+      existing.token_amount = (existing.token_amount || 0) + (holding.token_amount || 0);
+    }
+  }
+
+  const data = Array.from(merged.values()).sort((a, b) => b.value_usd - a.value_usd);
+  const page = limit !== undefined ? data.slice(0, limit) : data;
+
+  return {
+    data: page,
+    pagination: { page: 1, per_page: page.length, is_last_page: true },
+  };
+}
+
+/**
+ * Merge two members' views of one transaction, keeping each transfer once
+ */
+function mergeTransactions(a: Transaction, b: Transaction): Transaction {
+  const transferKey = (transfer: TokenTransfer) =>
+    [transfer.token_address, transfer.from_address, transfer.to_address, transfer.token_amount]
+      .join(':')
+      .toLowerCase();
+  const union = (left: TokenTransfer[], right: TokenTransfer[]) => {
+    const seen = new Set(left.map(transferKey));
+    return [...left, ...right.filter((transfer) => !seen.has(transferKey(transfer)))];
+  };
+
+  return {
+    ...a,
+    tokens_sent: union(a.tokens_sent, b.tokens_sent),
+    tokens_received: union(a.tokens_received, b.tokens_received),
+    volume_usd: Math.max(a.volume_usd || 0, b.volume_usd || 0),
+  };
+}
@@ -8,10 +8,13 @@ import { analyzeRuggedProjects } from './features/ruggedProjects';
 import { analyzeEthBenchmark } from './features/ethBenchmark';
 import { analyzePortfolioATH } from './features/portfolioATH';
 import { analyzeWinRate } from './features/winRate';
+import { getDefaultContext } from './context';
 // import { analyzeBiggestBag } from './features/biggestBag'; // DISABLED: Fun Fact #8
 // import { analyzeTokenDiversity } from './features/tokenDiversity'; // DISABLED: Fun Fact #9
 // import { analyzeMultiChain } from './features/multiChain'; // DISABLED: Fun Fact #10
 
+const ctx = getDefaultContext();
+
 const WALLETS = [
   '0x22F7406101f90771d5bb3E930195cCc6700cC583',
   '0x5648B4f63359dd5C901d0CB801a3CB2F030C0625',
@@ -42,16 +45,16 @@ async function analyzeWallet(address: string): Promise<WalletResults> {
   const [
     pnl, rugged, ethBench, portfolioATH, winRate
   ] = await Promise.all([
-    analyzePnl(address).catch(() => ({ type: 'pnl' as const, success: false })),
-    // analyzeLabels(address).catch(() => ({ type: 'labels' as const, success: false })), // DISABLED
-    // analyzeSmartMoney(address).catch(() => ({ type: 'smart_money' as const, success: false })), // DISABLED
-    analyzeRuggedProjects(address).catch(() => ({ type: 'rugged_projects' as const, success: false })),
-    analyzeEthBenchmark(address).catch(() => ({ type: 'eth_benchmark' as const, success: false })),
-    analyzePortfolioATH(address).catch(() => ({ type: 'portfolio_ath' as const, success: false })),
-    analyzeWinRate(address).catch(() => ({ type: 'win_rate' as const, success: false })),
-    // analyzeBiggestBag(address).catch(() => ({ type: 'biggest_bag' as const, success: false })), // DISABLED
-    // analyzeTokenDiversity(address).catch(() => ({ type: 'token_diversity' as const, success: false })), // DISABLED
-    // analyzeMultiChain(address).catch(() => ({ type: 'multi_chain' as const, success: false })), // DISABLED
+    analyzePnl(ctx, address).catch(() => ({ type: 'pnl' as const, success: false })),
+    // analyzeLabels(ctx, address).catch(() => ({ type: 'labels' as const, success: false })), // DISABLED
+    // analyzeSmartMoney(ctx, address).catch(() => ({ type: 'smart_money' as const, success: false })), // DISABLED
+    analyzeRuggedProjects(ctx, address).catch(() => ({ type: 'rugged_projects' as const, success: false })),
+    analyzeEthBenchmark(ctx, address).catch(() => ({ type: 'eth_benchmark' as const, success: false })),
+    analyzePortfolioATH(ctx, address).catch(() => ({ type: 'portfolio_ath' as const, success: false })),
+    analyzeWinRate(ctx, address).catch(() => ({ type: 'win_rate' as const, success: false })),
+    // analyzeBiggestBag(ctx, address).catch(() => ({ type: 'biggest_bag' as const, success: false })), // DISABLED
+    // analyzeTokenDiversity(ctx, address).catch(() => ({ type: 'token_diversity' as const, success: false })), // DISABLED
+    // analyzeMultiChain(ctx, address).catch(() => ({ type: 'multi_chain' as const, success: false })), // DISABLED
   ]);
 
   const timing = (Date.now() - startTime) / 1000;
@@ -10,8 +10,11 @@ import { analyzeWinRate } from './features/winRate';
 import { analyzeBiggestBag } from './features/biggestBag';
 import { analyzeTokenDiversity } from './features/tokenDiversity';
 import { analyzeMultiChain } from './features/multiChain';
+import { getDefaultContext } from './context';
 
 // Test wallet with known activity
+const ctx = getDefaultContext();
+
 const TEST_WALLET = '0x6313D7948D3491096Ffe00Dea2D246d588b4D4FC';
 
 async function testNewFeatures() {
@@ -22,7 +25,7 @@ async function testNewFeatures() {
   try {
     // Test 1: Win Rate Champion
     console.log(chalk.bold.yellow('1️⃣  Testing Win Rate Champion...'));
-    const winRateResult = await analyzeWinRate(TEST_WALLET);
+    const winRateResult = await analyzeWinRate(ctx, TEST_WALLET);
     console.log(chalk.gray('Result:'), JSON.stringify(winRateResult, null, 2));
     
     if (winRateResult.success && winRateResult.data) {
@@ -41,7 +44,7 @@ async function testNewFeatures() {
 
     // Test 2: Biggest Bag
     console.log(chalk.bold.yellow('2️⃣  Testing Biggest Bag...'));
-    const biggestBagResult = await analyzeBiggestBag(TEST_WALLET);
+    const biggestBagResult = await analyzeBiggestBag(ctx, TEST_WALLET);
     console.log(chalk.gray('Result:'), JSON.stringify(biggestBagResult, null, 2));
     
     if (biggestBagResult.success && biggestBagResult.data) {
@@ -58,7 +61,7 @@ async function testNewFeatures() {
 
     // Test 3: Token Diversity
     console.log(chalk.bold.yellow('3️⃣  Testing Token Diversity...'));
-    const tokenDiversityResult = await analyzeTokenDiversity(TEST_WALLET);
+    const tokenDiversityResult = await analyzeTokenDiversity(ctx, TEST_WALLET);
     console.log(chalk.gray('Result:'), JSON.stringify(tokenDiversityResult, null, 2));
     
     if (tokenDiversityResult.success && tokenDiversityResult.data) {
@@ -75,7 +78,7 @@ async function testNewFeatures() {
 
     // Test 4: Multi-Chain Explorer
     console.log(chalk.bold.yellow('4️⃣  Testing Multi-Chain Explorer...'));
-    const multiChainResult = await analyzeMultiChain(TEST_WALLET);
+    const multiChainResult = await analyzeMultiChain(ctx, TEST_WALLET);
     console.log(chalk.gray('Result:'), JSON.stringify(multiChainResult, null, 2));
     
     if (multiChainResult.success && multiChainResult.data) {
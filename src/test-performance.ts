@@ -2,8 +2,11 @@ import 'dotenv/config';
 import { analyzeEthBenchmark } from './features/ethBenchmark';
 import { analyzePortfolioATH } from './features/portfolioATH';
 import chalk from 'chalk';
+import { getDefaultContext } from './context';
 
 // Test wallet address (previously tested)
+const ctx = getDefaultContext();
+
 const TEST_ADDRESS = '0x6313D7948D3491096Ffe00Dea2D246d588b4D4FC';
 
 async function testPerformance() {
@@ -15,7 +18,7 @@ async function testPerformance() {
   console.log(chalk.dim('Expected: < 3 seconds\n'));
   
   const ethBenchmarkStart = Date.now();
-  const ethBenchmarkResult = await analyzeEthBenchmark(TEST_ADDRESS);
+  const ethBenchmarkResult = await analyzeEthBenchmark(ctx, TEST_ADDRESS);
   const ethBenchmarkTime = (Date.now() - ethBenchmarkStart) / 1000;
   
   if (ethBenchmarkResult.success && ethBenchmarkResult.data) {
@@ -43,7 +46,7 @@ async function testPerformance() {
   console.log(chalk.dim('Expected: < 3 seconds\n'));
   
   const portfolioATHStart = Date.now();
-  const portfolioATHResult = await analyzePortfolioATH(TEST_ADDRESS);
+  const portfolioATHResult = await analyzePortfolioATH(ctx, TEST_ADDRESS);
   const portfolioATHTime = (Date.now() - portfolioATHStart) / 1000;
   
   if (portfolioATHResult.success && portfolioATHResult.data) {
@@ -4,25 +4,17 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 import { validateAndNormalizeAddress, truncateAddress } from './utils/validation';
-import { formatPercentColored, formatUSD } from './utils/formatting';
-import { analyzePnl } from './features/pnl';
-import { analyzeRuggedProjects } from './features/ruggedProjects';
-import { analyzeEthBenchmark } from './features/ethBenchmark';
-import { analyzePortfolioATH } from './features/portfolioATH';
-import { analyzeWinRate } from './features/winRate';
-import { FunFact } from './types';
+import { getFunFactModules } from './features/registry';
+import { createDefaultContext } from './context';
+import { NansenService } from './services/nansen.service';
+import { analyzeWallet, buildWalletReport } from './report/walletReport';
+import { reportsToCsv, reportsToMarkdown } from './report/serializers';
+import { FunFactModule, WalletReport } from './types';
 import * as fs from 'fs';
 
-interface QAResult {
-  wallet: string;
-  walletTruncated: string;
-  pnl: string;
-  ruggedProjects: string;
-  ethBenchmark: string;
-  portfolioATH: string;
-  winRate: string;
-  errors: string[];
-}
+const nansen = new NansenService();
+const ctx = createDefaultContext({ nansen });
+const MODULES: FunFactModule[] = getFunFactModules(ctx.config.enabledFacts);
 
 const WALLET_ADDRESSES = [
   '0x00ba77ebeab5ff010a427fded060819ec3d79e88',
@@ -81,221 +73,73 @@ const WALLET_ADDRESSES = [
   '0xd024771d8d25e8f90ef5749df9607f510affd223',
 ];
 
-function formatResultForQA(result: FunFact): string {
-  switch (result.type) {
-    case 'pnl':
-      if (result.success && result.data) {
-        const direction = result.data.status === 'GAIN' ? 'Up' : 'Down';
-        return `${direction} ${result.data.realized_pnl_percent.toFixed(2)}%`;
-      } else {
-        return result.fallback || 'No data';
-      }
-
-    case 'rugged_projects':
-      if (result.success && result.data) {
-        if (result.data.ruggedCount > 0) {
-          return `${result.data.ruggedCount} rugged token${result.data.ruggedCount === 1 ? '' : 's'}`;
-        } else {
-          return '0 rugged tokens';
-        }
-      } else {
-        return '0 rugged tokens';
-      }
-
-    case 'eth_benchmark':
-      if (result.success && result.data) {
-        const difference = result.data.portfolioValue - result.data.ethEquivalentValue;
-        const direction = difference >= 0 ? 'Up' : 'Down';
-        const absDifference = Math.abs(difference);
-        const absPercent = Math.abs(result.data.performancePercent);
-        return `${direction} ${absPercent.toFixed(2)}% ($${absDifference.toFixed(0)})`;
-      } else {
-        return result.fallback || 'No data';
-      }
-
-    case 'portfolio_ath':
-      if (result.success && result.data) {
-        return `Up ${result.data.potentialGainPercent.toFixed(2)}% ($${result.data.athValue.toFixed(0)} at ATH)`;
-      } else {
-        return result.fallback || 'No data';
-      }
-
-    case 'win_rate':
-      if (result.success && result.data) {
-        return `${result.data.winRate.toFixed(0)}% Win Rate`;
-      } else {
-        return result.fallback || 'No data';
-      }
-
-    default:
-      return 'Unknown';
-  }
-}
-
-async function analyzeWallet(address: string): Promise<QAResult> {
+async function analyzeQAWallet(address: string): Promise<WalletReport> {
   const normalizedAddress = validateAndNormalizeAddress(address);
   const truncated = truncateAddress(normalizedAddress);
-  const errors: string[] = [];
 
   console.log(`\n📊 Analyzing wallet: ${truncated} (${address})`);
 
-  const [pnlResult, ruggedProjectsResult, ethBenchmarkResult, portfolioATHResult, winRateResult] =
-    await Promise.all([
-      analyzePnl(normalizedAddress).catch((err) => {
-        errors.push(`P&L error: ${err.message}`);
-        return {
-          type: 'pnl' as const,
-          success: false,
-          fallback: 'Only mist—too little history to read.',
-        };
-      }),
-      analyzeRuggedProjects(normalizedAddress).catch((err) => {
-        errors.push(`Rugged projects error: ${err.message}`);
-        return {
-          type: 'rugged_projects' as const,
-          success: true,
-          data: { ruggedCount: 0, ruggedTokens: [] },
-          fallback: 'No rugged projects detected',
-        };
-      }),
-      analyzeEthBenchmark(normalizedAddress).catch((err) => {
-        errors.push(`ETH benchmark error: ${err.message}`);
-        return {
-          type: 'eth_benchmark' as const,
-          success: false,
-          fallback: 'No meaningful history yet',
-        };
-      }),
-      analyzePortfolioATH(normalizedAddress).catch((err) => {
-        errors.push(`Portfolio ATH error: ${err.message}`);
-        return {
-          type: 'portfolio_ath' as const,
-          success: false,
-          fallback: 'No meaningful history yet',
-        };
-      }),
-      analyzeWinRate(normalizedAddress).catch((err) => {
-        errors.push(`Win rate error: ${err.message}`);
-        return {
-          type: 'win_rate' as const,
-          success: false,
-          fallback: 'Not enough trading history',
-        };
-      }),
-    ]);
-
-  return {
-    wallet: normalizedAddress,
-    walletTruncated: truncated,
-    pnl: formatResultForQA(pnlResult),
-    ruggedProjects: formatResultForQA(ruggedProjectsResult),
-    ethBenchmark: formatResultForQA(ethBenchmarkResult),
-    portfolioATH: formatResultForQA(portfolioATHResult),
-    winRate: formatResultForQA(winRateResult),
-    errors,
-  };
-}
-
-function generateMarkdownTable(results: QAResult[]): string {
-  let markdown = '# Fun Facts QA Results\n\n';
-  markdown += `Generated: ${new Date().toISOString()}\n\n`;
-  markdown += `Total Wallets Tested: ${results.length}\n\n`;
-
-  markdown += '## Results Table\n\n';
-  markdown +=
-    '| # | Wallet | P&L | Rugged Projects | ETH Benchmark | Portfolio ATH | Win Rate | Errors |\n';
-  markdown +=
-    '|---|--------|-----|-----------------|---------------|---------------|----------|--------|\n';
-
-  results.forEach((result, index) => {
-    const errorCount = result.errors.length > 0 ? `${result.errors.length} error(s)` : '✅';
-    markdown += `| ${index + 1} | \`${result.walletTruncated}\` | ${result.pnl} | ${result.ruggedProjects} | ${result.ethBenchmark} | ${result.portfolioATH} | ${result.winRate} | ${errorCount} |\n`;
-  });
-
-  markdown += '\n## Detailed Results\n\n';
-  results.forEach((result, index) => {
-    markdown += `### ${index + 1}. Wallet: \`${result.wallet}\`\n\n`;
-    markdown += `- **P&L**: ${result.pnl}\n`;
-    markdown += `- **Rugged Projects**: ${result.ruggedProjects}\n`;
-    markdown += `- **ETH Benchmark**: ${result.ethBenchmark}\n`;
-    markdown += `- **Portfolio ATH**: ${result.portfolioATH}\n`;
-    markdown += `- **Win Rate**: ${result.winRate}\n`;
-
-    if (result.errors.length > 0) {
-      markdown += `- **Errors**:\n`;
-      result.errors.forEach((error) => {
-        markdown += `  - ${error}\n`;
-      });
-    }
-    markdown += '\n';
-  });
-
-  return markdown;
-}
-
-function generateCSV(results: QAResult[]): string {
-  let csv = 'Wallet Address,Truncated,P&L,Rugged Projects,ETH Benchmark,Portfolio ATH,Win Rate,Error Count\n';
-
-  results.forEach((result) => {
-    const errorCount = result.errors.length;
-    csv += `"${result.wallet}","${result.walletTruncated}","${result.pnl}","${result.ruggedProjects}","${result.ethBenchmark}","${result.portfolioATH}","${result.winRate}",${errorCount}\n`;
-  });
-
-  return csv;
+  return analyzeWallet(ctx, normalizedAddress, MODULES);
 }
 
 async function main() {
   console.log('🚀 Starting QA Batch Testing');
   console.log(`📋 Testing ${WALLET_ADDRESSES.length} wallets\n`);
 
-  const results: QAResult[] = [];
+  const results: WalletReport[] = [];
 
   for (let i = 0; i < WALLET_ADDRESSES.length; i++) {
     const address = WALLET_ADDRESSES[i];
     console.log(`\n[${i + 1}/${WALLET_ADDRESSES.length}] Processing: ${address}`);
 
     try {
-      const result = await analyzeWallet(address);
+      const result = await analyzeQAWallet(address);
       results.push(result);
 
       // Add a small delay to avoid rate limiting
       await new Promise((resolve) => setTimeout(resolve, 1000));
     } catch (error) {
       console.error(`❌ Failed to analyze wallet ${address}:`, error);
-      results.push({
-        wallet: address,
-        walletTruncated: truncateAddress(address),
-        pnl: 'ERROR',
-        ruggedProjects: 'ERROR',
-        ethBenchmark: 'ERROR',
-        portfolioATH: 'ERROR',
-        winRate: 'ERROR',
-        errors: [(error as Error).message],
-      });
+      const message = (error as Error).message;
+      results.push(
+        buildWalletReport(
+          address,
+          MODULES,
+          MODULES.map((m) => m.fallback()),
+          new Date(),
+          new Map(MODULES.map((m) => [m.id, message]))
+        )
+      );
     }
   }
 
   console.log('\n\n✅ Analysis Complete! Generating reports...\n');
 
   // Generate and save Markdown report
-  const markdownReport = generateMarkdownTable(results);
+  const markdownReport = reportsToMarkdown(results);
   fs.writeFileSync('QA_RESULTS.md', markdownReport);
   console.log('📄 Markdown report saved: QA_RESULTS.md');
 
   // Generate and save CSV report
-  const csvReport = generateCSV(results);
+  const csvReport = reportsToCsv(results);
   fs.writeFileSync('QA_RESULTS.csv', csvReport);
   console.log('📊 CSV report saved: QA_RESULTS.csv');
 
   // Generate summary statistics
-  const successCount = results.filter((r) => r.errors.length === 0).length;
-  const errorCount = results.filter((r) => r.errors.length > 0).length;
+  const hasErrors = (report: WalletReport) => report.facts.some((fact) => fact.error);
+  const successCount = results.filter((r) => !hasErrors(r)).length;
+  const errorCount = results.filter(hasErrors).length;
 
   console.log('\n📊 Summary Statistics:');
   console.log(`   ✅ Successful: ${successCount}`);
   console.log(`   ❌ With Errors: ${errorCount}`);
   console.log(`   📈 Success Rate: ${((successCount / results.length) * 100).toFixed(2)}%`);
 
+  const cacheStats = nansen.getCacheStats();
+  if (cacheStats) {
+    console.log(`   💾 Nansen cache: ${cacheStats.hits} hits, ${cacheStats.coalesced} coalesced, ${cacheStats.misses} API calls`);
+  }
+
   console.log('\n🎉 QA Testing Complete!');
 }
 
@@ -1,16 +1,7 @@
 import 'dotenv/config';
 import chalk from 'chalk';
-import { analyzePnl } from './features/pnl';
-import { analyzeLabels } from './features/labels';
-import { analyzeSmartMoney } from './features/smartMoney';
-import { analyzeRuggedProjects } from './features/ruggedProjects';
-import { analyzeEthBenchmark } from './features/ethBenchmark';
-import { analyzePortfolioATH } from './features/portfolioATH';
-import {
-  formatPercent,
-  formatPercentColored,
-  formatUSD,
-} from './utils/formatting';
+import { getFunFactModules, runFunFact } from './features/registry';
+import { getDefaultContext } from './context';
 
 interface TestResult {
   feature: string;
@@ -21,108 +12,26 @@ interface TestResult {
 
 async function runAllFunFacts(address: string): Promise<TestResult[]> {
   const results: TestResult[] = [];
+  const ctx = getDefaultContext();
+  const modules = getFunFactModules(ctx.config.enabledFacts);
 
-  // Test 1: P&L
-  const pnlStart = Date.now();
-  try {
-    const pnlResult = await analyzePnl(address);
-    const duration = Date.now() - pnlStart;
-    
-    if (pnlResult.success && pnlResult.data) {
-      const status = pnlResult.data.status === 'GAIN' ? 'GAIN' : 'LOSS';
-      const pnl = `${status} ${formatPercent(pnlResult.data.realized_pnl_percent)} (${formatUSD(pnlResult.data.realized_pnl_usd)})`;
-      results.push({ feature: 'P&L', success: true, summary: pnl, duration });
-    } else {
-      results.push({ feature: 'P&L', success: false, summary: pnlResult.fallback || 'No data', duration });
-    }
-  } catch (error) {
-    results.push({ feature: 'P&L', success: false, summary: 'Error occurred', duration: Date.now() - pnlStart });
-  }
-
-  // Test 2: Labels
-  const labelsStart = Date.now();
-  try {
-    const labelsResult = await analyzeLabels(address);
-    const duration = Date.now() - labelsStart;
-    
-    if (labelsResult.success && labelsResult.data) {
-      results.push({ feature: 'Labels', success: true, summary: labelsResult.data.label, duration });
-    } else {
-      results.push({ feature: 'Labels', success: false, summary: labelsResult.fallback || 'No labels', duration });
-    }
-  } catch (error) {
-    results.push({ feature: 'Labels', success: false, summary: 'Error occurred', duration: Date.now() - labelsStart });
-  }
-
-  // Test 3: Smart Money
-  const smartMoneyStart = Date.now();
-  try {
-    const smartMoneyResult = await analyzeSmartMoney(address);
-    const duration = Date.now() - smartMoneyStart;
-    
-    if (smartMoneyResult.success && smartMoneyResult.data && smartMoneyResult.data.isSmartMoney) {
-      const labels = smartMoneyResult.data.labels.length > 0 
-        ? ` (${smartMoneyResult.data.labels.join(', ')})` 
-        : '';
-      results.push({ feature: 'Smart Money', success: true, summary: `Identified${labels}`, duration });
-    } else {
-      results.push({ feature: 'Smart Money', success: true, summary: 'Not identified', duration });
-    }
-  } catch (error) {
-    results.push({ feature: 'Smart Money', success: false, summary: 'Error occurred', duration: Date.now() - smartMoneyStart });
-  }
-
-  // Test 4: Rugged Projects
-  const ruggedStart = Date.now();
-  try {
-    const ruggedResult = await analyzeRuggedProjects(address);
-    const duration = Date.now() - ruggedStart;
-    
-    if (ruggedResult.success && ruggedResult.data) {
-      if (ruggedResult.data.ruggedCount > 0) {
-        const summary = `${ruggedResult.data.ruggedCount} detected (${formatUSD(ruggedResult.data.totalLoss || 0)} loss)`;
-        results.push({ feature: 'Rugged Projects', success: true, summary, duration });
-      } else {
-        results.push({ feature: 'Rugged Projects', success: true, summary: 'None detected', duration });
-      }
-    } else {
-      results.push({ feature: 'Rugged Projects', success: false, summary: 'No data', duration });
-    }
-  } catch (error) {
-    results.push({ feature: 'Rugged Projects', success: false, summary: 'Error occurred', duration: Date.now() - ruggedStart });
-  }
-
-  // Test 5: ETH Benchmark
-  const ethBenchmarkStart = Date.now();
-  try {
-    const ethBenchmarkResult = await analyzeEthBenchmark(address);
-    const duration = Date.now() - ethBenchmarkStart;
-    
-    if (ethBenchmarkResult.success && ethBenchmarkResult.data) {
-      const status = ethBenchmarkResult.data.status === 'OUTPERFORMED' ? 'OUTPERFORMED' : 'UNDERPERFORMED';
-      const perf = `${status} ${formatPercent(ethBenchmarkResult.data.performancePercent)}`;
-      results.push({ feature: 'ETH Benchmark', success: true, summary: perf, duration });
-    } else {
-      results.push({ feature: 'ETH Benchmark', success: false, summary: ethBenchmarkResult.fallback || 'No data', duration });
-    }
-  } catch (error) {
-    results.push({ feature: 'ETH Benchmark', success: false, summary: 'Error occurred', duration: Date.now() - ethBenchmarkStart });
-  }
+  for (const module of modules) {
+    const start = Date.now();
+    let failure: string | undefined;
+    const result = await runFunFact(ctx, module, address, () => {
+      failure = 'Error occurred';
+    }).catch((error: Error) => {
+      // Rate limited or unavailable provider
+      failure = error.message;
+      return null;
+    });
+    const duration = Date.now() - start;
 
-  // Test 6: Portfolio ATH
-  const portfolioAthStart = Date.now();
-  try {
-    const portfolioAthResult = await analyzePortfolioATH(address);
-    const duration = Date.now() - portfolioAthStart;
-    
-    if (portfolioAthResult.success && portfolioAthResult.data) {
-      const gain = `${formatPercent(portfolioAthResult.data.potentialGainPercent)} potential gain`;
-      results.push({ feature: 'Portfolio ATH', success: true, summary: gain, duration });
+    if (failure !== undefined || !result) {
+      results.push({ feature: module.title, success: false, summary: failure ?? 'Error occurred', duration });
     } else {
-      results.push({ feature: 'Portfolio ATH', success: false, summary: portfolioAthResult.fallback || 'No data', duration });
+      results.push({ feature: module.title, success: result.success, summary: module.summarize(result), duration });
     }
-  } catch (error) {
-    results.push({ feature: 'Portfolio ATH', success: false, summary: 'Error occurred', duration: Date.now() - portfolioAthStart });
   }
 
   return results;
@@ -147,7 +56,7 @@ async function testWallet(address: string) {
   // Display results
   results.forEach(result => {
     const icon = result.success ? chalk.green('✓') : chalk.red('✗');
-    const feature = result.feature.padEnd(18);
+    const feature = result.feature.padEnd(22);
     const timing = chalk.dim(`(${formatDuration(result.duration)})`);
     console.log(`${icon} ${feature} ${result.summary} ${timing}`);
   });
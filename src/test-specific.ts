@@ -22,6 +22,9 @@ import {
   warningMessage,
   infoMessage,
 } from './utils/formatting';
+import { getDefaultContext } from './context';
+
+const ctx = getDefaultContext();
 
 const TEST_WALLET = '0x6313D7948D3491096Ffe00Dea2D246d588b4D4FC';
 
@@ -37,7 +40,7 @@ async function runTests() {
 
     // Test 1: P&L
     console.log(chalk.blue('→ Analyzing P&L...'));
-    const pnlResult = await analyzePnl(address);
+    const pnlResult = await analyzePnl(ctx, address);
     
     if (pnlResult.success && pnlResult.data) {
       const statusColor = pnlResult.data.status === 'GAIN' ? chalk.green : chalk.red;
@@ -52,7 +55,7 @@ async function runTests() {
 
     // Test 2: Labels
     console.log(chalk.blue('→ Analyzing Labels...'));
-    const labelsResult = await analyzeLabels(address);
+    const labelsResult = await analyzeLabels(ctx, address);
     
     if (labelsResult.success && labelsResult.data) {
       console.log(displayFunFact(
@@ -66,7 +69,7 @@ async function runTests() {
 
     // Test 3: Smart Money
     console.log(chalk.blue('→ Analyzing Smart Money...'));
-    const smartMoneyResult = await analyzeSmartMoney(address);
+    const smartMoneyResult = await analyzeSmartMoney(ctx, address);
     
     if (smartMoneyResult.success && smartMoneyResult.data) {
       console.log(displayFunFact(
@@ -80,7 +83,7 @@ async function runTests() {
 
     // Test 4: Rugged Projects
     console.log(chalk.blue('→ Analyzing Rugged Projects...'));
-    const ruggedResult = await analyzeRuggedProjects(address);
+    const ruggedResult = await analyzeRuggedProjects(ctx, address);
     
     if (ruggedResult.success && ruggedResult.data) {
       if (ruggedResult.data.ruggedCount > 0) {
@@ -102,7 +105,7 @@ async function runTests() {
 
     // Test 5: ETH Benchmark
     console.log(chalk.blue('→ Analyzing ETH Benchmark (this may take a while)...'));
-    const ethBenchmarkResult = await analyzeEthBenchmark(address);
+    const ethBenchmarkResult = await analyzeEthBenchmark(ctx, address);
     
     if (ethBenchmarkResult.success && ethBenchmarkResult.data) {
       const statusText = ethBenchmarkResult.data.status === 'OUTPERFORMED'
@@ -119,7 +122,7 @@ async function runTests() {
 
     // Test 6: Portfolio ATH
     console.log(chalk.blue('→ Analyzing Portfolio at ATH (this may take a while)...'));
-    const portfolioAthResult = await analyzePortfolioATH(address);
+    const portfolioAthResult = await analyzePortfolioATH(ctx, address);
     
     if (portfolioAthResult.success && portfolioAthResult.data) {
       console.log(displayFunFact(
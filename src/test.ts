@@ -13,6 +13,9 @@ import { analyzeSmartMoney } from './features/smartMoney';
 import { analyzeRuggedProjects } from './features/ruggedProjects';
 import { analyzeEthBenchmark } from './features/ethBenchmark';
 import { analyzePortfolioATH } from './features/portfolioATH';
+import { getDefaultContext } from './context';
+
+const ctx = getDefaultContext();
 
 const TEST_WALLET = '0xF977814e90dA44bFA03b6295A0616a897441aceC';
 
@@ -27,7 +30,7 @@ async function runTests() {
 
     // Test 1: P&L
     console.log(chalk.blue('→ Testing P&L analysis...'));
-    const pnlResult = await analyzePnl(address);
+    const pnlResult = await analyzePnl(ctx, address);
     console.log(chalk.green(`✓ P&L: success=${pnlResult.success}`));
     if (pnlResult.success && pnlResult.data) {
       console.log(`  P&L: ${pnlResult.data.realized_pnl_percent.toFixed(2)}%`);
@@ -37,7 +40,7 @@ async function runTests() {
 
     // Test 2: Labels
     console.log(chalk.blue('\n→ Testing Labels analysis...'));
-    const labelsResult = await analyzeLabels(address);
+    const labelsResult = await analyzeLabels(ctx, address);
     console.log(chalk.green(`✓ Labels: success=${labelsResult.success}`));
     if (labelsResult.success && labelsResult.data) {
       console.log(`  Label: ${labelsResult.data.label}`);
@@ -47,7 +50,7 @@ async function runTests() {
 
     // Test 3: Smart Money
     console.log(chalk.blue('\n→ Testing Smart Money analysis...'));
-    const smartMoneyResult = await analyzeSmartMoney(address);
+    const smartMoneyResult = await analyzeSmartMoney(ctx, address);
     console.log(chalk.green(`✓ Smart Money: success=${smartMoneyResult.success}`));
     if (smartMoneyResult.success && smartMoneyResult.data) {
       console.log(`  Smart Money: ${smartMoneyResult.data.isSmartMoney}`);
@@ -58,7 +61,7 @@ async function runTests() {
 
     // Test 4: Rugged Projects
     console.log(chalk.blue('\n→ Testing Rugged Projects analysis...'));
-    const ruggedResult = await analyzeRuggedProjects(address);
+    const ruggedResult = await analyzeRuggedProjects(ctx, address);
     console.log(chalk.green(`✓ Rugged Projects: success=${ruggedResult.success}`));
     if (ruggedResult.success && ruggedResult.data) {
       console.log(`  Rugged Count: ${ruggedResult.data.ruggedCount}`);
@@ -66,7 +69,7 @@ async function runTests() {
 
     // Test 5: ETH Benchmark
     console.log(chalk.blue('\n→ Testing ETH Benchmark analysis...'));
-    const ethBenchmarkResult = await analyzeEthBenchmark(address);
+    const ethBenchmarkResult = await analyzeEthBenchmark(ctx, address);
     console.log(chalk.green(`✓ ETH Benchmark: success=${ethBenchmarkResult.success}`));
     if (ethBenchmarkResult.success && ethBenchmarkResult.data) {
       console.log(`  Performance: ${ethBenchmarkResult.data.performancePercent.toFixed(2)}%`);
@@ -77,7 +80,7 @@ async function runTests() {
 
     // Test 6: Portfolio ATH
     console.log(chalk.blue('\n→ Testing Portfolio ATH analysis...'));
-    const portfolioAthResult = await analyzePortfolioATH(address);
+    const portfolioAthResult = await analyzePortfolioATH(ctx, address);
     console.log(chalk.green(`✓ Portfolio ATH: success=${portfolioAthResult.success}`));
     if (portfolioAthResult.success && portfolioAthResult.data) {
       console.log(`  Current: $${portfolioAthResult.data.currentValue.toFixed(2)}`);
@@ -1,3 +1,7 @@
+import { Duration } from 'date-fns';
+import { BenchmarkId } from '../config';
+import { AnalysisContext } from '../context';
+
 // ============================================
 // Common Types
 // ============================================
@@ -7,6 +11,20 @@ export interface DateRange {
   to: string;   // ISO 8601 format
 }
 
+export type AddressFamily = 'evm' | 'solana' | 'bitcoin';
+
+// A wallet the user asked for, by address or by name (ENS, SNS)
+export interface ResolvedWallet {
+  address: string; // Normalized address
+  name?: string; // Name it was entered as, e.g. 'vitalik.eth'
+}
+
+// Several wallets of one owner, analyzed as one entity
+export interface WalletGroup {
+  name?: string; // Bundle name from the config file
+  wallets: ResolvedWallet[]; // Two or more distinct addresses of one family
+}
+
 export interface Pagination {
   page: number;
   per_page?: number;
@@ -152,6 +170,19 @@ export interface Transaction {
   source_type: string;
 }
 
+/**
+ * What a transaction did for the wallet (see features/transactionKinds)
+ */
+export type TransactionKind =
+  | 'swap'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'airdrop'
+  | 'bridge'
+  | 'lp_add'
+  | 'lp_remove'
+  | 'other';
+
 export interface TransactionsResponse {
   data: Transaction[];
   pagination: {
@@ -223,6 +254,14 @@ export interface CurrentPriceResponse {
   };
 }
 
+// Coin List (/coins/list?include_platform=true)
+export interface CoinListEntry {
+  id: string;
+  symbol: string;
+  name: string;
+  platforms?: Record<string, string | null>; // Asset platform id -> contract address
+}
+
 // Market Chart
 export interface MarketChartResponse {
   prices: [number, number][]; // [timestamp, price]
@@ -230,6 +269,21 @@ export interface MarketChartResponse {
   total_volumes: [number, number][];
 }
 
+// ============================================
+// Price Types
+// ============================================
+
+/**
+ * A price and the provider that served it (see PriceService)
+ */
+export interface PriceResult {
+  price: number; // USD; 0 when no provider had one
+  provider: string | null; // 'Nansen', 'CoinGecko', ...; null when no provider had a price
+}
+
+// Prices a fun fact used, counted per source (a provider, 'ATH cache', 'price store')
+export type PriceSources = Record<string, number>;
+
 // ============================================
 // Fun Facts Result Types
 // ============================================
@@ -286,16 +340,63 @@ export interface RuggedProjectsFunFact {
   fallback?: string;
 }
 
+/**
+ * How much of each ETH benchmark figure rests on data (0-1)
+ */
+export interface EthBenchmarkCoverage {
+  sample: number; // Share of all purchase volume in the sampled purchases
+  ethEquivalentValue: number; // Share of sampled spending with an ETH price on its date (the rest is left out)
+  portfolioValue: number; // Share of compared spending whose tokens are accounted for (held or sold)
+}
+
 export interface EthBenchmarkFunFact {
   type: 'eth_benchmark';
   success: boolean;
   data?: {
-    portfolioValue: number;
-    ethEquivalentValue: number;
+    portfolioValue: number; // Tokens bought: value still held plus sale proceeds
+    heldValue: number; // Part of portfolioValue still in the wallet
+    realizedValue: number; // Part of portfolioValue from sales
+    investedUsd: number; // Paid for the purchases compared
+    ethEquivalentValue: number; // investedUsd had it bought ETH on the same days
     performancePercent: number;
     status: 'OUTPERFORMED' | 'UNDERPERFORMED';
     sampleSize?: number; // Number of transactions analyzed
     totalTransactions?: number; // Total transactions available
+    coverage: EthBenchmarkCoverage;
+    ethPriceSource?: string; // Who priced ETH today (a price provider, or 'price store')
+  };
+  fallback?: string;
+}
+
+/**
+ * A wallet's purchases against buying one benchmark instead
+ */
+export interface BenchmarkComparison {
+  benchmark: BenchmarkId;
+  name: string; // Display name (e.g., 'BTC', 'Stablecoin at 5% APY')
+  investedUsd: number; // Paid for the purchases compared (those with a benchmark price on their date)
+  portfolioValue: number; // Tokens bought: value still held plus sale proceeds
+  heldValue: number; // Part of portfolioValue still in the wallet
+  realizedValue: number; // Part of portfolioValue from sales
+  benchmarkValue: number; // investedUsd had it bought the benchmark on the same days
+  performancePercent: number;
+  status: 'OUTPERFORMED' | 'UNDERPERFORMED';
+  currentPriceSource: string; // Who priced the benchmark today (a price provider, 'price store', 'fixed yield'); past prices come from the price store
+  coverage: {
+    benchmarkValue: number; // Share of sampled spending with a benchmark price on its date
+    portfolioValue: number; // Share of compared spending whose tokens are accounted for
+  };
+}
+
+export interface BenchmarksFunFact {
+  type: 'benchmarks';
+  success: boolean;
+  data?: {
+    comparisons: BenchmarkComparison[]; // One per benchmark that could be priced, in configured order
+    unavailable: string[]; // Benchmarks left out for lack of prices
+    sampleSize: number; // Number of transactions analyzed
+    totalTransactions: number; // Total transactions available
+    sampleCoverage: number; // Share of all purchase volume in the sample (0-1)
   };
   fallback?: string;
 }
@@ -309,6 +410,7 @@ export interface PortfolioAthFunFact {
     potentialGainPercent: number;
     sampleSize?: number; // Number of holdings analyzed
     successfulTokens?: number; // Number of holdings with ATH data
+    priceSources?: PriceSources; // Holdings priced per ATH source (a price provider, or 'ATH cache')
   };
   fallback?: string;
 }
@@ -377,5 +479,74 @@ export type FunFact =
   | WinRateFunFact
   | BiggestBagFunFact
   | TokenDiversityFunFact
-  | MultiChainFunFact;
+  | MultiChainFunFact
+  | BenchmarksFunFact;
+
+// ============================================
+// Fun Fact Registry Types
+// ============================================
+
+export type FunFactId = FunFact['type'];
+
+/**
+ * When and over which window an analyzer looks at a wallet
+ * Current-state facts (no lookback) read balances as they are now and ignore these.
+ */
+export interface AnalyzeOptions {
+  asOf?: Date; // Snapshot date (default: ctx.clock.now(), or the end of range)
+  range?: DateRange; // History window (default: the analyzer's lookback ending at asOf)
+  lookback?: Duration; // Replaces the analyzer's default lookback when no range is given
+}
+
+export interface FunFactModule<T extends FunFact = FunFact> {
+  id: T['type'];
+  number: number; // Display number ("Fun Fact #n")
+  title: string;
+  lookback?: Duration; // History window the analyzer reads (omit for current-state facts)
+  families?: AddressFamily[]; // Address families the analyzer supports (default: EVM only)
+  combinesWallets?: boolean; // Meaningful over a wallet group's merged holdings and history
+  analyze(ctx: AnalysisContext, address: string, options?: AnalyzeOptions): Promise<T>;
+  fallback(): T; // Result used when analyze throws
+  render(result: T): string; // Colored text for the terminal
+  summarize(result: T): string; // Plain one-line text for reports
+  sampleSize?(result: T): number | undefined; // Items the result is based on
+}
+
+// ============================================
+// Wallet Report Types
+// ============================================
+
+export interface WalletReportFact {
+  id: FunFactId;
+  title: string;
+  success: boolean;
+  summary: string;
+  window?: DateRange; // Lookback window the fact covers
+  sampleSize?: number;
+  error?: string; // Set when the analyzer threw and the fallback was used
+  result: FunFact;
+}
+
+export interface WalletReport {
+  address: string; // For a wallet group, the member addresses joined with '+'
+  name?: string; // ENS/SNS name the wallet was entered as, or the group's bundle name
+  analyzedAt: string; // ISO 8601 format
+  asOf?: string; // Snapshot date, when the report was run for a date other than analyzedAt
+  facts: WalletReportFact[];
+  wallets?: WalletReport[]; // Per-wallet breakdown of a wallet group
+}
 
+export interface BatchFactStats {
+  id: FunFactId;
+  title: string;
+  total: number;
+  succeeded: number;
+  fallbacks: number; // Analyzer ran but returned its fallback
+  errors: number; // Analyzer threw (upstream failure etc.)
+}
+
+export interface BatchSummary {
+  wallets: number;
+  walletsWithErrors: number;
+  facts: BatchFactStats[];
+}
@@ -0,0 +1,108 @@
+import { Duration, formatDuration, sub } from 'date-fns';
+import { AnalyzeOptions, DateRange } from '../types';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * The dates an analyzer run covers
+ */
+export interface AnalysisWindow {
+  asOf: Date;
+  range: DateRange; // ISO 8601 timestamps, ready for API requests
+  lookback?: Duration; // Set when the range is the default lookback ending now
+}
+
+/**
+ * Parse a date given on the command line or in options
+ * @param value - ISO 8601 date or timestamp (e.g., 2025-01-01, read as UTC midnight)
+ * @param name - What the date is, for the error message
+ * @returns The date
+ * @throws Error if the value is not a valid date
+ */
+export function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (!ISO_DATE.test(value) || isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: ${value} (expected an ISO date such as 2025-01-01)`);
+  }
+  return date;
+}
+
+/**
+ * Work out the window an analyzer reads
+ * An explicit range wins; otherwise the window is the lookback ending at asOf.
+ * asOf defaults to the end of the range, then to now.
+ * @param options - asOf, range and lookback from the caller
+ * @param lookback - The analyzer's default lookback
+ * @param now - Current time (ctx.clock.now())
+ * @returns The resolved window
+ * @throws Error if the range is not valid or ends before it starts
+ */
+export function resolveWindow(options: AnalyzeOptions, lookback: Duration, now: Date): AnalysisWindow {
+  if (options.range) {
+    const from = parseDate(options.range.from, 'range start');
+    const to = parseDate(options.range.to, 'range end');
+    if (from > to) {
+      throw new Error(`Invalid range: ${options.range.from} is after ${options.range.to}`);
+    }
+    return {
+      asOf: options.asOf ?? to,
+      range: { from: from.toISOString(), to: to.toISOString() },
+    };
+  }
+
+  const asOf = options.asOf ?? now;
+  const duration = options.lookback ?? lookback;
+  return {
+    asOf,
+    range: { from: sub(asOf, duration).toISOString(), to: asOf.toISOString() },
+    lookback: options.asOf ? undefined : duration,
+  };
+}
+
+/**
+ * Build analyzer options from as-of / from / to strings (CLI flags or query params)
+ * @param asOf - Snapshot date
+ * @param from - Start of the history window
+ * @param to - End of the history window
+ * @param now - Current time; the snapshot may not be later
+ * @returns The options (empty when nothing is given)
+ * @throws Error for invalid or future dates, or a range missing one end
+ */
+export function parseAnalyzeOptions(
+  asOf: string | undefined,
+  from: string | undefined,
+  to: string | undefined,
+  now: Date
+): AnalyzeOptions {
+  const options: AnalyzeOptions = {};
+
+  if (asOf) {
+    options.asOf = parseDate(asOf, 'as-of date');
+  }
+
+  if (from || to) {
+    if (!from || !to) {
+      throw new Error('A date range needs both a start and an end');
+    }
+    options.range = { from, to };
+  }
+
+  if (resolveWindow(options, {}, now).asOf > now) {
+    throw new Error('The as-of date cannot be in the future');
+  }
+
+  return options;
+}
+
+/**
+ * Describe a window for fun fact text
+ * @param window - Resolved window
+ * @returns e.g. "in the past year", "in the past 2 years" or "from 2024-01-01 to 2025-01-01"
+ */
+export function describeWindow(window: AnalysisWindow): string {
+  if (window.lookback) {
+    const duration = formatDuration(window.lookback);
+    return `in the past ${duration.replace(/^1 /, '')}`;
+  }
+  return `from ${window.range.from.slice(0, 10)} to ${window.range.to.slice(0, 10)}`;
+}
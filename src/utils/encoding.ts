@@ -0,0 +1,226 @@
+/**
+ * Encoding helpers for address validation - Keccak-256, base58 and bech32
+ *
+ * Small self-contained implementations; they only ever see wallet addresses,
+ * so clarity wins over speed.
+ */
+
+// ============================================
+// Keccak-256 (the pre-standard SHA-3 used by Ethereum)
+// ============================================
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets, indexed by x + 5 * y
+const ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+const KECCAK_256_RATE = 136; // Bytes absorbed per block
+
+function rotl64(value: bigint, shift: number): bigint {
+  if (shift === 0) return value;
+  const n = BigInt(shift);
+  return ((value << n) | (value >> (64n - n))) & MASK_64;
+}
+
+function keccakF1600(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // θ
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    // ρ and π
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK_64 & b[((x + 2) % 5) + y]);
+      }
+    }
+
+    // ι
+    state[0] ^= roundConstant;
+  }
+}
+
+/**
+ * Keccak-256 digest
+ * @param input - Bytes, or a string hashed as UTF-8
+ * @returns The 32-byte digest as lowercase hex
+ */
+export function keccak256(input: Uint8Array | string): string {
+  const data = typeof input === 'string' ? Buffer.from(input, 'utf-8') : input;
+
+  // Keccak padding: 0x01, zeros, 0x80 in the last byte of the block
+  const blocks = Math.floor(data.length / KECCAK_256_RATE) + 1;
+  const padded = new Uint8Array(blocks * KECCAK_256_RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += KECCAK_256_RATE) {
+    for (let lane = 0; lane < KECCAK_256_RATE / 8; lane++) {
+      let value = 0n;
+      for (let i = 7; i >= 0; i--) {
+        value = (value << 8n) | BigInt(padded[offset + lane * 8 + i]);
+      }
+      state[lane] ^= value;
+    }
+    keccakF1600(state);
+  }
+
+  let hex = '';
+  for (let lane = 0; lane < 4; lane++) {
+    for (let i = 0; i < 8; i++) {
+      hex += Number((state[lane] >> BigInt(8 * i)) & 0xffn).toString(16).padStart(2, '0');
+    }
+  }
+  return hex;
+}
+
+// ============================================
+// Base58 (Bitcoin alphabet, used by Solana and legacy Bitcoin addresses)
+// ============================================
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Decode a base58 string
+ * @param value - Base58 text
+ * @returns The bytes, or null if the text has characters outside the alphabet
+ */
+export function base58Decode(value: string): Uint8Array | null {
+  let number = 0n;
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      return null;
+    }
+    number = number * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > 0n) {
+    bytes.unshift(Number(number & 0xffn));
+    number >>= 8n;
+  }
+
+  // Each leading '1' is a leading zero byte
+  for (let i = 0; i < value.length && value[i] === '1'; i++) {
+    bytes.unshift(0);
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+// ============================================
+// Bech32 / Bech32m (BIP-173, BIP-350)
+// ============================================
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+export const BECH32_CONSTANT = 1;
+export const BECH32M_CONSTANT = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        checksum ^= BECH32_GENERATORS[i];
+      }
+    }
+  }
+  return checksum >>> 0;
+}
+
+function expandHrp(hrp: string): number[] {
+  const chars = Array.from(hrp, (char) => char.charCodeAt(0));
+  return [...chars.map((code) => code >> 5), 0, ...chars.map((code) => code & 31)];
+}
+
+/**
+ * Decode a bech32 or bech32m string
+ * @param value - Lowercase or uppercase (not mixed) bech32 text
+ * @returns Human-readable part, 5-bit data words (checksum removed) and which
+ *   checksum constant matched, or null if the text or checksum is invalid
+ */
+export function bech32Decode(value: string): { hrp: string; words: number[]; constant: number } | null {
+  if (value.length > 90 || (value !== value.toLowerCase() && value !== value.toUpperCase())) {
+    return null;
+  }
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    return null;
+  }
+
+  const hrp = lower.slice(0, separator);
+  const words: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const word = BECH32_CHARSET.indexOf(char);
+    if (word === -1) {
+      return null;
+    }
+    words.push(word);
+  }
+
+  const constant = bech32Polymod([...expandHrp(hrp), ...words]);
+  if (constant !== BECH32_CONSTANT && constant !== BECH32M_CONSTANT) {
+    return null;
+  }
+
+  return { hrp, words: words.slice(0, -6), constant };
+}
+
+/**
+ * Regroup 5-bit words into bytes
+ * @returns The bytes, or null if the padding is invalid
+ */
+export function wordsToBytes(words: number[]): Uint8Array | null {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+
+  for (const word of words) {
+    accumulator = (accumulator << 5) | word;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+
+  if (bits >= 5 || ((accumulator << (8 - bits)) & 0xff) !== 0) {
+    return null;
+  }
+  return Uint8Array.from(bytes);
+}
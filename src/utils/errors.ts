@@ -0,0 +1,94 @@
+/**
+ * Typed errors raised by the HTTP middleware when an upstream API
+ * (Nansen, CoinGecko, ...) cannot serve a request after retries, or by
+ * the fixture transport when replay has no recorded response; and the
+ * wallet input errors the CLI and the HTTP API report as user mistakes.
+ */
+
+export class UpstreamError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * The provider kept answering 429 after all retries
+ */
+export class RateLimitedError extends UpstreamError {
+  constructor(
+    provider: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(provider, `${provider} rate limit exceeded`, 429);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * The provider failed with 5xx, a timeout or a network error after all retries
+ */
+export class UpstreamUnavailableError extends UpstreamError {
+  constructor(provider: string, message: string, status?: number) {
+    super(provider, message, status);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/**
+ * The provider's circuit breaker is open; the request was not sent
+ */
+export class CircuitOpenError extends UpstreamUnavailableError {
+  constructor(
+    provider: string,
+    public readonly retryAtMs: number
+  ) {
+    super(provider, `${provider} circuit breaker is open after repeated failures`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Replay mode found no recorded response for a request
+ */
+export class FixtureMissingError extends UpstreamError {
+  constructor(
+    provider: string,
+    public readonly fixtureKey: string
+  ) {
+    super(provider, `No ${provider} fixture recorded for ${fixtureKey} (run with FIXTURES_MODE=record first)`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+/**
+ * Check whether an error came from the HTTP middleware
+ * Analyzers rethrow these instead of reporting "not enough history".
+ */
+export function isUpstreamError(error: unknown): error is UpstreamError {
+  return error instanceof UpstreamError;
+}
+
+/**
+ * Wallet input that is not a supported address
+ */
+export class InvalidAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAddressError';
+  }
+}
+
+/**
+ * A name-service name with no address record
+ */
+export class NameNotFoundError extends Error {
+  constructor(public readonly walletName: string) {
+    super(`No address found for ${walletName}`);
+    this.name = 'NameNotFoundError';
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Token identity - which token an address refers to
+ *
+ * The same contract address can be a different token on another chain, and
+ * providers spell chains differently ('bsc', 'bnb', 'binance-smart-chain').
+ * A TokenId pairs a normalized chain slug with a normalized address; key
+ * maps by tokenKey() so lookups agree everywhere.
+ *
+ * Each chain also has a native asset (ETH, POL, BNB, SOL, ...), which Nansen
+ * reports under sentinel addresses rather than a contract, and a CoinGecko
+ * platform id for contract lookups.
+ */
+
+export interface TokenId {
+  chain: string; // Normalized chain slug (normalizeChain)
+  address: string; // Normalized address (normalizeAddress)
+}
+
+export interface NativeAsset {
+  symbol: string;
+  name: string;
+  coinGeckoId: string;
+}
+
+interface ChainInfo {
+  native: NativeAsset;
+  nativeAddresses: string[]; // Sentinels this chain's native asset is reported under (lowercased)
+  coinGeckoPlatform?: string; // Asset platform for /coins/{platform}/contract/{address}
+}
+
+// Reported for the native asset on every EVM chain
+const EVM_NATIVE = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+const ETH: NativeAsset = { symbol: 'ETH', name: 'Ether', coinGeckoId: 'ethereum' };
+
+const CHAINS: Record<string, ChainInfo> = {
+  ethereum: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'ethereum' },
+  arbitrum: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'arbitrum-one' },
+  optimism: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'optimistic-ethereum' },
+  base: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'base' },
+  linea: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'linea' },
+  scroll: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'scroll' },
+  blast: { native: ETH, nativeAddresses: [EVM_NATIVE], coinGeckoPlatform: 'blast' },
+  zksync: {
+    native: ETH,
+    nativeAddresses: [EVM_NATIVE, '0x000000000000000000000000000000000000800a'],
+    coinGeckoPlatform: 'zksync',
+  },
+  polygon: {
+    native: { symbol: 'POL', name: 'Polygon', coinGeckoId: 'polygon-ecosystem-token' },
+    nativeAddresses: [EVM_NATIVE, '0x0000000000000000000000000000000000001010'],
+    coinGeckoPlatform: 'polygon-pos',
+  },
+  bnb: {
+    native: { symbol: 'BNB', name: 'BNB', coinGeckoId: 'binancecoin' },
+    nativeAddresses: [EVM_NATIVE],
+    coinGeckoPlatform: 'binance-smart-chain',
+  },
+  avalanche: {
+    native: { symbol: 'AVAX', name: 'Avalanche', coinGeckoId: 'avalanche-2' },
+    nativeAddresses: [EVM_NATIVE],
+    coinGeckoPlatform: 'avalanche',
+  },
+  solana: {
+    native: { symbol: 'SOL', name: 'Solana', coinGeckoId: 'solana' },
+    nativeAddresses: [], // Native SOL has no mint; wrapped SOL is an ordinary token
+    coinGeckoPlatform: 'solana',
+  },
+  bitcoin: {
+    native: { symbol: 'BTC', name: 'Bitcoin', coinGeckoId: 'bitcoin' },
+    nativeAddresses: [],
+  },
+};
+
+// Other spellings of the chain slugs above (CoinGecko platform ids, short names)
+const CHAIN_ALIASES: Record<string, string> = {
+  eth: 'ethereum',
+  mainnet: 'ethereum',
+  'arbitrum-one': 'arbitrum',
+  'optimistic-ethereum': 'optimism',
+  op: 'optimism',
+  'zksync-era': 'zksync',
+  'polygon-pos': 'polygon',
+  matic: 'polygon',
+  bsc: 'bnb',
+  'binance-smart-chain': 'bnb',
+  avax: 'avalanche',
+  sol: 'solana',
+  btc: 'bitcoin',
+};
+
+/**
+ * The canonical slug for a chain name
+ * @param chain - Chain as any provider spells it (e.g., 'BSC', 'arbitrum-one')
+ * @returns e.g. 'bnb', 'arbitrum'; unknown chains are lowercased as they are
+ */
+export function normalizeChain(chain: string): string {
+  const slug = chain.trim().toLowerCase();
+  return CHAIN_ALIASES[slug] ?? slug;
+}
+
+/**
+ * The canonical form of a token address
+ * EVM (0x) addresses are case-insensitive and lowercased; Solana mints and
+ * other base58 addresses are case-sensitive and kept as they are.
+ */
+export function normalizeAddress(address: string): string {
+  const trimmed = address.trim();
+  return /^0x/i.test(trimmed) ? trimmed.toLowerCase() : trimmed;
+}
+
+/**
+ * A token's identity
+ * @param chain - Chain name in any spelling
+ * @param address - Contract or mint address
+ */
+export function tokenId(chain: string, address: string): TokenId {
+  return { chain: normalizeChain(chain), address: normalizeAddress(address) };
+}
+
+/**
+ * Map key for a token: 'ethereum:0xa0b8...'
+ * @param chain - Chain name in any spelling
+ * @param address - Contract or mint address
+ */
+export function tokenKey(chain: string, address: string): string {
+  const id = tokenId(chain, address);
+  return `${id.chain}:${id.address}`;
+}
+
+/**
+ * Whether two (chain, address) pairs are the same token
+ */
+export function sameToken(a: { chain: string; address: string }, b: { chain: string; address: string }): boolean {
+  return tokenKey(a.chain, a.address) === tokenKey(b.chain, b.address);
+}
+
+/**
+ * The native asset of a chain (ETH on Ethereum and its L2s, POL on Polygon, ...)
+ * @returns The asset, or undefined for chains not in the registry
+ */
+export function nativeAssetOf(chain: string): NativeAsset | undefined {
+  return CHAINS[normalizeChain(chain)]?.native;
+}
+
+/**
+ * Every chain's native asset, each once
+ */
+export function nativeAssets(): NativeAsset[] {
+  return [...new Set(Object.values(CHAINS).map((info) => info.native))];
+}
+
+/**
+ * Whether an address stands for the chain's native asset rather than a token contract
+ * A missing address counts as native. On unknown chains, only the EVM sentinel does.
+ * @param chain - Chain name in any spelling
+ * @param address - Address as reported by Nansen
+ */
+export function isNativeToken(chain: string, address: string | null | undefined): boolean {
+  if (!address) {
+    return true;
+  }
+  const sentinels = CHAINS[normalizeChain(chain)]?.nativeAddresses ?? [EVM_NATIVE];
+  return sentinels.includes(address.trim().toLowerCase());
+}
+
+/**
+ * The CoinGecko asset platform id for a chain
+ * @param chain - Chain name in any spelling
+ * @returns e.g. 'polygon-pos' for polygon; unknown chains pass through as their slug
+ */
+export function coinGeckoPlatformOf(chain: string): string {
+  const slug = normalizeChain(chain);
+  return CHAINS[slug]?.coinGeckoPlatform ?? slug;
+}
@@ -1,31 +1,145 @@
+import * as crypto from 'crypto';
+import { AddressFamily, ResolvedWallet } from '../types';
+import { base58Decode, bech32Decode, BECH32_CONSTANT, keccak256, wordsToBytes } from './encoding';
+import { InvalidAddressError } from './errors';
+
+export const ADDRESS_FAMILY_NAMES: Record<AddressFamily, string> = {
+  evm: 'EVM',
+  solana: 'Solana',
+  bitcoin: 'Bitcoin',
+};
+
+const EVM_ADDRESS = /^0x[a-fA-F0-9]{40}$/;
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const BITCOIN_LEGACY_VERSIONS = [0x00, 0x05]; // P2PKH (1...) and P2SH (3...) on mainnet
+// Dot-separated labels of letters, digits, '-' and '_', ending in an alphabetic top-level domain
+const NAME_SERVICE_NAME = /^(?:[\p{L}\p{N}_-]+\.)+\p{L}{2,}$/u;
+
 /**
- * Validates an Ethereum wallet address
+ * Converts an EVM address to its EIP-55 mixed-case checksum form
+ * @param address - 0x-prefixed address in any case
+ * @returns The checksummed address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = keccak256(lower);
+
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Validates an Ethereum (EVM) wallet address
+ * All-lowercase and all-uppercase addresses carry no checksum; mixed case must match EIP-55.
  * @param address - The address to validate
  * @returns true if valid, false otherwise
  */
 export function isValidEthereumAddress(address: string): boolean {
-  // Check if it starts with 0x and has 40 hex characters after
-  const regex = /^0x[a-fA-F0-9]{40}$/;
-  return regex.test(address);
+  if (!EVM_ADDRESS.test(address)) {
+    return false;
+  }
+
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return true;
+  }
+  return toChecksumAddress(address) === address;
+}
+
+/**
+ * Validates a Solana wallet address (a base58-encoded 32-byte public key)
+ * @param address - The address to validate
+ * @returns true if valid, false otherwise
+ */
+export function isValidSolanaAddress(address: string): boolean {
+  return SOLANA_ADDRESS.test(address) && base58Decode(address)?.length === 32;
+}
+
+/**
+ * Validates a mainnet Bitcoin address: legacy base58check (1..., 3...) or
+ * segwit bech32/bech32m (bc1q..., bc1p...)
+ * @param address - The address to validate
+ * @returns true if valid, false otherwise
+ */
+export function isValidBitcoinAddress(address: string): boolean {
+  if (/^bc1/i.test(address)) {
+    return isValidSegwitAddress(address);
+  }
+
+  const bytes = base58Decode(address);
+  if (!bytes || bytes.length !== 25 || !BITCOIN_LEGACY_VERSIONS.includes(bytes[0])) {
+    return false;
+  }
+
+  const payload = bytes.subarray(0, 21);
+  const checksum = crypto.createHash('sha256').update(crypto.createHash('sha256').update(payload).digest()).digest();
+  return checksum.subarray(0, 4).equals(Buffer.from(bytes.subarray(21)));
+}
+
+/**
+ * Works out which chain family an address belongs to
+ * @param address - The address (surrounding whitespace is ignored)
+ * @returns The family, or null if the address is not valid for any of them
+ */
+export function detectAddressFamily(address: string): AddressFamily | null {
+  const trimmed = address.trim();
+
+  if (trimmed.startsWith('0x')) {
+    return isValidEthereumAddress(trimmed) ? 'evm' : null;
+  }
+  if (isValidBitcoinAddress(trimmed)) {
+    return 'bitcoin';
+  }
+  if (isValidSolanaAddress(trimmed)) {
+    return 'solana';
+  }
+  return null;
 }
 
 /**
- * Validates and normalizes an Ethereum address
+ * Checks whether input looks like a name-service name (vitalik.eth, bonfida.sol)
+ * rather than an address; whether it is registered is up to the resolver
+ * @param value - User input
+ * @returns true for name-shaped input
+ */
+export function isNameServiceName(value: string): boolean {
+  return NAME_SERVICE_NAME.test(value.trim());
+}
+
+/**
+ * Validates and normalizes a wallet address
+ * EVM and bech32 addresses are lowercased; base58 addresses (Solana, legacy
+ * Bitcoin) are case-sensitive and kept as given.
  * @param address - The address to validate
- * @returns The normalized address or throws an error
+ * @returns The normalized address
+ * @throws InvalidAddressError if it is not an address of a supported family
  */
 export function validateAndNormalizeAddress(address: string): string {
   const trimmed = address.trim();
-  
-  if (!isValidEthereumAddress(trimmed)) {
-    throw new Error('Invalid Ethereum address format. Expected format: 0x followed by 40 hexadecimal characters');
+  const family = detectAddressFamily(trimmed);
+
+  if (!family) {
+    if (EVM_ADDRESS.test(trimmed)) {
+      throw new InvalidAddressError(
+        `Invalid EIP-55 checksum for ${trimmed}. Check the address for typos (did you mean ${toChecksumAddress(trimmed)}?) or enter it in all lowercase`
+      );
+    }
+    throw new InvalidAddressError(
+      'Invalid wallet address format. Expected an EVM address (0x followed by 40 hexadecimal characters), a Solana address or a Bitcoin address'
+    );
   }
-  
-  return trimmed.toLowerCase();
+
+  if (family === 'evm' || (family === 'bitcoin' && /^bc1/i.test(trimmed))) {
+    return trimmed.toLowerCase();
+  }
+  return trimmed;
 }
 
 /**
- * Truncates an Ethereum address for display
+ * Truncates a wallet address for display
  * @param address - The address to truncate
  * @param startChars - Number of characters to show at start (default: 6)
  * @param endChars - Number of characters to show at end (default: 4)
@@ -39,3 +153,33 @@ export function truncateAddress(address: string, startChars: number = 6, endChar
   return `${address.substring(0, startChars)}...${address.substring(address.length - endChars)}`;
 }
 
+/**
+ * Names a wallet for display: the name and the truncated address when it was entered by name
+ * @param wallet - Resolved wallet
+ * @returns e.g. 'vitalik.eth (0xd8da...6045)' or '0xd8da...6045'
+ */
+export function formatWallet(wallet: ResolvedWallet): string {
+  const address = truncateAddress(wallet.address);
+  return wallet.name ? `${wallet.name} (${address})` : address;
+}
+
+/**
+ * Check a bech32 (witness v0) or bech32m (v1+) mainnet segwit address
+ */
+function isValidSegwitAddress(address: string): boolean {
+  const decoded = bech32Decode(address);
+  if (!decoded || decoded.hrp !== 'bc' || decoded.words.length === 0) {
+    return false;
+  }
+
+  const [version, ...programWords] = decoded.words;
+  if (version > 16 || (version === 0) !== (decoded.constant === BECH32_CONSTANT)) {
+    return false;
+  }
+
+  const program = wordsToBytes(programWords);
+  if (!program || program.length < 2 || program.length > 40) {
+    return false;
+  }
+  return version !== 0 || program.length === 20 || program.length === 32;
+}